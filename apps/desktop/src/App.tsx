@@ -5,9 +5,16 @@ import type {
   AppLanguage,
   AppPreferences,
   AuthConfig,
+  ChangeReviewDecision,
+  ChangeSetState,
+  ConflictCopyReport,
   Note,
+  SearchHit,
+  SyncSchedulerState,
   SyncStatus,
   ThemeMode,
+  TranscriptionProgress,
+  VaultFormatStatus,
   VaultSyncHealthReport,
   VoiceNote,
 } from './global';
@@ -17,6 +24,9 @@ import { NotesList } from './components/NotesList';
 import { NoteViewer } from './components/NoteViewer';
 import { VoiceRecorder } from './components/VoiceRecorder';
 import { Settings as AISettings } from './components/Settings';
+import { ChangesetReview } from './components/ChangesetReview';
+import { NoteLinks } from './components/NoteLinks';
+import { RelatedNotes } from './components/RelatedNotes';
 
 type AppState = 'loading' | 'setup' | 'ready';
 
@@ -35,18 +45,23 @@ interface SignInForm {
   serverUrl: string;
   userId: string;
   workspaceId: string;
+  email: string;
+  password: string;
 }
 
 const DEFAULT_SIGN_IN: SignInForm = {
   serverUrl: '',
   userId: 'local-user',
   workspaceId: '',
+  email: '',
+  password: '',
 };
 
 const DEFAULT_PREFERENCES: AppPreferences = {
   themeMode: 'system',
   language: 'en',
   experimentalFeaturesEnabled: false,
+  vaultEventLogEnabled: false,
 };
 
 const SIDEBAR_ITEMS: Array<{ id: AppPage; icon: string; labelKey: string }> = [
@@ -57,6 +72,9 @@ const SIDEBAR_ITEMS: Array<{ id: AppPage; icon: string; labelKey: string }> = [
   { id: 'settings', icon: '☰', labelKey: 'sidebar.settings' },
 ];
 
+const SEARCH_DEBOUNCE_MS = 200;
+const PAST_NOTES_SEARCH_LIMIT = 50;
+
 function sortNotesByUpdatedAt(notes: Note[]): Note[] {
   return [...notes].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
 }
@@ -92,7 +110,15 @@ export function App(): React.ReactElement {
   const [notes, setNotes] = useState<Note[]>([]);
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
   const [pastNotesQuery, setPastNotesQuery] = useState('');
+  // Ranked full-text hits for the query; null while typing or when search is unavailable
+  const [pastNotesHits, setPastNotesHits] = useState<SearchHit[] | null>(null);
   const [organizeQuery, setOrganizeQuery] = useState('');
+  const [organizeSelection, setOrganizeSelection] = useState<string[]>([]);
+  const [organizeInstruction, setOrganizeInstruction] = useState('');
+  const [changesets, setChangesets] = useState<ChangeSetState[]>([]);
+  const [reviewingKey, setReviewingKey] = useState<string | null>(null);
+  const [organizeStreamId, setOrganizeStreamId] = useState<string | null>(null);
+  const [organizeDraft, setOrganizeDraft] = useState('');
 
   const [captureTitle, setCaptureTitle] = useState('');
   const [captureBody, setCaptureBody] = useState('');
@@ -100,12 +126,16 @@ export function App(): React.ReactElement {
   const [authLoaded, setAuthLoaded] = useState(false);
   const [authConfig, setAuthConfig] = useState<AuthConfig | null>(null);
   const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [syncState, setSyncState] = useState<SyncSchedulerState | null>(null);
+  const [transcriptions, setTranscriptions] = useState<Record<string, TranscriptionProgress>>({});
   const [signInForm, setSignInForm] = useState<SignInForm>(DEFAULT_SIGN_IN);
 
   const [preferences, setPreferences] = useState<AppPreferences>(DEFAULT_PREFERENCES);
 
   const [storageSyncMode, setStorageSyncMode] = useState<StorageSyncMode>('local-folder');
   const [syncHealthReport, setSyncHealthReport] = useState<VaultSyncHealthReport | null>(null);
+  const [conflictCopyReport, setConflictCopyReport] = useState<ConflictCopyReport | null>(null);
+  const [vaultFormat, setVaultFormat] = useState<VaultFormatStatus | null>(null);
 
   const [busyAction, setBusyAction] = useState<string | null>(null);
   const [importMode, setImportMode] = useState<'restore' | 'clone'>('restore');
@@ -116,6 +146,7 @@ export function App(): React.ReactElement {
   const captureTextareaRef = useRef<HTMLTextAreaElement | null>(null);
   const toastTimerRef = useRef<number | null>(null);
   const initializedRef = useRef(false);
+  const organizeStoppedRef = useRef(false);
 
   const showToast = useCallback((message: string) => {
     setToastMessage(message);
@@ -147,6 +178,14 @@ export function App(): React.ReactElement {
     return sorted;
   }, []);
 
+  const loadChangesets = useCallback(async () => {
+    try {
+      setChangesets(await window.api.changeset.list());
+    } catch (listError) {
+      console.warn('[App] Failed to load changesets', listError);
+    }
+  }, []);
+
   const refreshExperimentalSync = useCallback(async () => {
     const [localWorkspace, auth] = await Promise.all([
       window.api.auth.getLocalWorkspace(),
@@ -155,6 +194,7 @@ export function App(): React.ReactElement {
 
     setAuthConfig(auth);
     setSignInForm((previous) => ({
+      ...previous,
       serverUrl: auth?.serverUrl || previous.serverUrl,
       userId: auth?.userId || localWorkspace.userId,
       workspaceId: auth?.workspaceId || localWorkspace.workspaceId,
@@ -193,6 +233,34 @@ export function App(): React.ReactElement {
     }
   }, [showToast, t]);
 
+  const loadVaultFormat = useCallback(async () => {
+    const status = await window.api.vault.getFormat();
+    setVaultFormat(status);
+    if (status && status.migrations.length > 0) {
+      showToast(t('vaultFormat.migratedToast', { version: status.formatVersion }));
+    }
+  }, [showToast, t]);
+
+  const runResolveConflictCopies = useCallback(async (dryRun: boolean) => {
+    setBusyAction('resolve-conflict-copies');
+    setErrorMessage(null);
+    try {
+      const report = await window.api.vault.resolveConflictCopies({ dryRun });
+      setConflictCopyReport(report);
+      if (!dryRun) {
+        showToast(t('settings.storage.syncHealth.conflictCopiesResolved', {
+          count: report.copies.filter((copy) => copy.action !== 'skip').length,
+        }));
+        await loadNotes();
+        await runSyncHealthCheck({ silent: true });
+      }
+    } catch (resolveError) {
+      setErrorMessage(resolveError instanceof Error ? resolveError.message : t('errors.conflictCopiesFailed'));
+    } finally {
+      setBusyAction(null);
+    }
+  }, [loadNotes, runSyncHealthCheck, showToast, t]);
+
   useEffect(() => {
     if (initializedRef.current) {
       return;
@@ -225,6 +293,7 @@ export function App(): React.ReactElement {
         setAppState('ready');
 
         await Promise.all([
+          loadVaultFormat(),
           loadNotes(),
           refreshExperimentalSync(),
           runSyncHealthCheck({ silent: true }),
@@ -238,7 +307,7 @@ export function App(): React.ReactElement {
     };
 
     initialize();
-  }, [loadNotes, refreshExperimentalSync, runSyncHealthCheck, t]);
+  }, [loadNotes, loadVaultFormat, refreshExperimentalSync, runSyncHealthCheck, t]);
 
   useEffect(() => {
     if (appState === 'ready' && activePage === 'quick-capture') {
@@ -275,6 +344,70 @@ export function App(): React.ReactElement {
     };
   }, [focusCaptureTextarea]);
 
+  useEffect(() => {
+    if (appState !== 'ready') {
+      return;
+    }
+
+    // Notes edited or dropped in outside the app were imported.
+    const unsubscribeVault = window.api.vault.onExternalChange(() => {
+      void loadNotes();
+    });
+
+    let lastSuccessAtMs: number | undefined;
+    const unsubscribe = window.api.sync.onState((state) => {
+      setSyncState(state);
+      if (!state.status) {
+        return;
+      }
+
+      setSyncStatus(state.status);
+      // A completed sync may have pulled notes from other devices.
+      if (state.status.lastSuccessAtMs !== lastSuccessAtMs) {
+        const firstReport = lastSuccessAtMs === undefined;
+        lastSuccessAtMs = state.status.lastSuccessAtMs;
+        if (!firstReport) {
+          void loadNotes();
+        }
+      }
+    });
+
+    const reportOnline = () => {
+      void window.api.sync.setOnline(true);
+    };
+    const reportOffline = () => {
+      void window.api.sync.setOnline(false);
+    };
+    window.addEventListener('online', reportOnline);
+    window.addEventListener('offline', reportOffline);
+    void window.api.sync.setOnline(navigator.onLine);
+
+    return () => {
+      unsubscribe();
+      unsubscribeVault();
+      window.removeEventListener('online', reportOnline);
+      window.removeEventListener('offline', reportOffline);
+    };
+  }, [appState, loadNotes]);
+
+  useEffect(() => {
+    if (appState !== 'ready') {
+      return;
+    }
+
+    const track = (progress: TranscriptionProgress) => {
+      setTranscriptions((previous) => ({ ...previous, [progress.noteId]: progress }));
+    };
+    void window.api.transcription.list().then((jobs) => jobs.forEach(track));
+
+    return window.api.transcription.onProgress((progress) => {
+      track(progress);
+      if (progress.stage === 'completed') {
+        void loadNotes();
+      }
+    });
+  }, [appState, loadNotes]);
+
   useEffect(() => {
     return () => {
       if (toastTimerRef.current !== null) {
@@ -301,12 +434,45 @@ export function App(): React.ReactElement {
     }
   }, [activePage, appState, runSyncHealthCheck, syncHealthReport]);
 
+  useEffect(() => {
+    if (appState === 'ready' && activePage === 'organize') {
+      void loadChangesets();
+    }
+  }, [activePage, appState, loadChangesets]);
+
+  useEffect(() => {
+    setPastNotesHits(null);
+    if (appState !== 'ready' || !pastNotesQuery.trim()) {
+      return undefined;
+    }
+
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      window.api.search.query({ query: pastNotesQuery, limit: PAST_NOTES_SEARCH_LIMIT })
+        .then((results) => {
+          if (!cancelled) {
+            setPastNotesHits(results.hits);
+          }
+        })
+        .catch((searchError) => {
+          // The substring filter keeps working without the index.
+          console.warn('[App] Search failed:', searchError);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [appState, pastNotesQuery, notes]);
+
   const handleVaultSelected = useCallback(async (selectedPath: string) => {
     setVaultPath(selectedPath);
     setAppState('ready');
     setErrorMessage(null);
 
     await Promise.all([
+      loadVaultFormat(),
       loadNotes(),
       refreshExperimentalSync(),
       runSyncHealthCheck({ silent: true }),
@@ -315,7 +481,7 @@ export function App(): React.ReactElement {
     showToast(t('quickCapture.savedToast'));
     setActivePage('quick-capture');
     focusCaptureTextarea();
-  }, [focusCaptureTextarea, loadNotes, refreshExperimentalSync, runSyncHealthCheck, showToast, t]);
+  }, [focusCaptureTextarea, loadNotes, loadVaultFormat, refreshExperimentalSync, runSyncHealthCheck, showToast, t]);
 
   const handleSaveCapture = useCallback(async () => {
     const content = captureBody.trim();
@@ -419,6 +585,14 @@ export function App(): React.ReactElement {
     })();
   }, [notes, showToast, t]);
 
+  const handleTranscribe = useCallback((noteId: string) => {
+    setErrorMessage(null);
+    // Progress, including the queued state, arrives through onProgress.
+    window.api.transcription.start(noteId).catch((transcribeError) => {
+      setErrorMessage(transcribeError instanceof Error ? transcribeError.message : t('errors.transcribeFailed'));
+    });
+  }, [t]);
+
   const handleChangeVaultFolder = useCallback(async () => {
     setBusyAction('change-vault');
     setErrorMessage(null);
@@ -472,6 +646,79 @@ export function App(): React.ReactElement {
     }
   }, [showToast, t]);
 
+  const toggleOrganizeSelection = useCallback((noteId: string) => {
+    setOrganizeSelection((current) => (
+      current.includes(noteId) ? current.filter((id) => id !== noteId) : [...current, noteId]
+    ));
+  }, []);
+
+  const handleOrganize = useCallback(async () => {
+    const streamId = crypto.randomUUID();
+    setBusyAction('organize');
+    setErrorMessage(null);
+    setOrganizeDraft('');
+    setOrganizeStreamId(streamId);
+    organizeStoppedRef.current = false;
+
+    // The reply streams in while the model works, so long runs show progress.
+    const unsubscribe = window.api.ai.onChatDelta((delta) => {
+      if (delta.streamId === streamId) {
+        setOrganizeDraft((current) => current + delta.content);
+      }
+    });
+
+    try {
+      const state = await window.api.changeset.organize({
+        atomIds: organizeSelection,
+        instruction: organizeInstruction.trim() || undefined,
+        streamId,
+      });
+      setChangesets((current) => [state, ...current.filter((entry) => entry.changeset.id !== state.changeset.id)]);
+      setOrganizeSelection([]);
+      showToast(t('organize.suggestedToast'));
+    } catch (organizeError) {
+      if (organizeStoppedRef.current) {
+        showToast(t('organize.stoppedToast'));
+      } else {
+        setErrorMessage(organizeError instanceof Error ? organizeError.message : t('errors.organizeFailed'));
+      }
+    } finally {
+      unsubscribe();
+      setOrganizeStreamId(null);
+      setOrganizeDraft('');
+      setBusyAction(null);
+    }
+  }, [organizeInstruction, organizeSelection, showToast, t]);
+
+  const handleStopOrganize = useCallback(async () => {
+    if (!organizeStreamId) {
+      return;
+    }
+    organizeStoppedRef.current = true;
+    await window.api.ai.stopChat(organizeStreamId);
+  }, [organizeStreamId]);
+
+  const handleReviewChange = useCallback(async (
+    changesetId: string,
+    changeKey: string,
+    decision: ChangeReviewDecision,
+  ) => {
+    setReviewingKey(`${changesetId}/${changeKey}`);
+    setErrorMessage(null);
+
+    try {
+      const state = await window.api.changeset.review({ changesetId, changeKey, decision });
+      setChangesets((current) => current.map((entry) => (entry.changeset.id === changesetId ? state : entry)));
+      if (decision === 'accepted') {
+        await loadNotes();
+      }
+    } catch (reviewError) {
+      setErrorMessage(reviewError instanceof Error ? reviewError.message : t('errors.reviewFailed'));
+    } finally {
+      setReviewingKey(null);
+    }
+  }, [loadNotes, t]);
+
   const handleImport = useCallback(async () => {
     setBusyAction('import');
     setErrorMessage(null);
@@ -544,6 +791,31 @@ export function App(): React.ReactElement {
     }
   }, [refreshExperimentalSync, showToast, signInForm.serverUrl, signInForm.userId, signInForm.workspaceId, t]);
 
+  const handleAccountSignIn = useCallback(async (createAccount: boolean) => {
+    setBusyAction(createAccount ? 'experimental-register' : 'experimental-account-signin');
+    setErrorMessage(null);
+
+    try {
+      if (!signInForm.serverUrl.trim() || !signInForm.email.trim() || !signInForm.password) {
+        throw new Error(t('errors.invalidCredentials'));
+      }
+
+      await window.api.auth.signIn({
+        serverUrl: signInForm.serverUrl,
+        email: signInForm.email,
+        password: signInForm.password,
+        createAccount,
+      });
+      setSignInForm((previous) => ({ ...previous, password: '' }));
+      await refreshExperimentalSync();
+      showToast(t('settings.experimental.signInToast'));
+    } catch (signInError) {
+      setErrorMessage(signInError instanceof Error ? signInError.message : t('errors.signInFailed'));
+    } finally {
+      setBusyAction(null);
+    }
+  }, [refreshExperimentalSync, showToast, signInForm.email, signInForm.password, signInForm.serverUrl, t]);
+
   const handleDevSignOut = useCallback(async () => {
     setBusyAction('experimental-signout');
     setErrorMessage(null);
@@ -604,9 +876,41 @@ export function App(): React.ReactElement {
     }
   }, [t]);
 
+  const handleVaultEventLogToggle = useCallback(async (enabled: boolean) => {
+    setBusyAction('vault-event-log');
+    setErrorMessage(null);
+    try {
+      const nextPreferences = await window.api.preferences.setVaultEventLogEnabled(enabled);
+      setPreferences(nextPreferences);
+      await loadNotes();
+    } catch (toggleError) {
+      setErrorMessage(toggleError instanceof Error ? toggleError.message : t('errors.vaultEventLogFailed'));
+    } finally {
+      setBusyAction(null);
+    }
+  }, [loadNotes, t]);
+
   const recentNotes = useMemo(() => notes.slice(0, 5), [notes]);
-  const pastNotesResults = useMemo(() => filterNotes(notes, pastNotesQuery), [notes, pastNotesQuery]);
+  const pastNotesResults = useMemo(() => {
+    const filtered = filterNotes(notes, pastNotesQuery);
+    if (!pastNotesHits) {
+      return filtered;
+    }
+    // Ranked hits first; vault notes that are not atoms still match by substring.
+    const byId = new Map(notes.map((note) => [note.id, note]));
+    const ranked = pastNotesHits.flatMap((hit) => byId.get(hit.atomId) ?? []);
+    const rankedIds = new Set(ranked.map((note) => note.id));
+    return [...ranked, ...filtered.filter((note) => !rankedIds.has(note.id))];
+  }, [notes, pastNotesHits, pastNotesQuery]);
+  const pastNotesHitsById = useMemo(
+    () => Object.fromEntries((pastNotesHits ?? []).map((hit) => [hit.atomId, hit])),
+    [pastNotesHits],
+  );
   const organizeResults = useMemo(() => filterNotes(notes, organizeQuery), [notes, organizeQuery]);
+  const noteTitles = useMemo(
+    () => Object.fromEntries(notes.map((note) => [note.id, note.title])),
+    [notes],
+  );
 
   const selectedNote = useMemo(
     () => notes.find((note) => note.id === selectedNoteId) || null,
@@ -619,6 +923,9 @@ export function App(): React.ReactElement {
     }
 
     return [
+      ...(syncState
+        ? [t(`sync.phase.${syncState.phase}`, { time: formatTimestamp(syncState.nextAttemptAtMs, t('common.never')) })]
+        : []),
       t('sync.lastSuccess', { value: formatTimestamp(syncStatus.lastSuccessAtMs, t('common.never')) }),
       t('sync.pendingEvents', { count: syncStatus.pendingEvents }),
       t('sync.pendingBlobs', { count: syncStatus.pendingBlobs }),
@@ -627,7 +934,7 @@ export function App(): React.ReactElement {
         ? t('sync.lastError', { message: syncStatus.lastError.message, code: syncStatus.lastError.code })
         : t('sync.lastErrorNone'),
     ].join(' · ');
-  }, [syncStatus, t]);
+  }, [syncState, syncStatus, t]);
 
   const settingsTabs = useMemo<Array<{ id: SettingsTab; label: string }>>(() => {
     const tabs: Array<{ id: SettingsTab; label: string }> = [
@@ -804,12 +1111,33 @@ export function App(): React.ReactElement {
                 <aside className="panel-left">
                   <NotesList
                     notes={pastNotesResults}
+                    searchHits={pastNotesHitsById}
                     selectedNoteId={selectedNoteId}
                     onSelectNote={(note) => setSelectedNoteId(note.id)}
                   />
                 </aside>
-                <section className="panel-right">
-                  <NoteViewer note={selectedNote} onDelete={handleDeleteNote} />
+                <section className="panel-right history-viewer">
+                  <NoteViewer
+                    note={selectedNote}
+                    onDelete={handleDeleteNote}
+                    transcription={selectedNote ? transcriptions[selectedNote.id] : undefined}
+                    onTranscribe={handleTranscribe}
+                  />
+                  {selectedNote && (
+                    <NoteLinks
+                      noteId={selectedNote.id}
+                      updatedAt={selectedNote.updatedAt}
+                      notes={notes}
+                      onSelect={setSelectedNoteId}
+                    />
+                  )}
+                  {selectedNote && (
+                    <RelatedNotes
+                      noteId={selectedNote.id}
+                      updatedAt={selectedNote.updatedAt}
+                      onSelect={setSelectedNoteId}
+                    />
+                  )}
                 </section>
               </div>
             </section>
@@ -838,7 +1166,13 @@ export function App(): React.ReactElement {
                   ) : (
                     <ul className="organize-results-list">
                       {organizeResults.slice(0, 20).map((note) => (
-                        <li key={note.id}>
+                        <li key={note.id} className="organize-result-row">
+                          <input
+                            type="checkbox"
+                            aria-label={t('organize.selectNote', { title: note.title })}
+                            checked={organizeSelection.includes(note.id)}
+                            onChange={() => toggleOrganizeSelection(note.id)}
+                          />
                           <button
                             className="organize-result-button"
                             onClick={() => {
@@ -853,16 +1187,45 @@ export function App(): React.ReactElement {
                       ))}
                     </ul>
                   )}
+                  <textarea
+                    className="settings-input organize-instruction"
+                    value={organizeInstruction}
+                    onChange={(event) => setOrganizeInstruction(event.target.value)}
+                    placeholder={t('organize.instructionPlaceholder')}
+                    rows={2}
+                  />
+                  <button
+                    className="save-button"
+                    onClick={() => { void handleOrganize(); }}
+                    disabled={busyAction === 'organize' || organizeSelection.length === 0}
+                  >
+                    {busyAction === 'organize'
+                      ? t('organize.organizing')
+                      : t('organize.organizeSelected', { count: organizeSelection.length })}
+                  </button>
+                  {organizeStreamId && (
+                    <div className="organize-stream">
+                      <div className="organize-stream-header">
+                        <span>{organizeDraft ? t('organize.streaming') : t('organize.waitingForModel')}</span>
+                        <button className="changeset-reject-button" onClick={() => { void handleStopOrganize(); }}>
+                          {t('organize.stop')}
+                        </button>
+                      </div>
+                      {organizeDraft && <pre className="organize-stream-output">{organizeDraft}</pre>}
+                    </div>
+                  )}
                 </div>
 
                 <div className="organize-panel">
-                  <h3>{t('organize.suggestedActions')}</h3>
-                  <ul className="organize-actions-list">
-                    <li>{t('organize.action1')}</li>
-                    <li>{t('organize.action2')}</li>
-                    <li>{t('organize.action3')}</li>
-                    <li>{t('organize.action4')}</li>
-                  </ul>
+                  <h3>{t('organize.suggestions')}</h3>
+                  <ChangesetReview
+                    changesets={changesets}
+                    noteTitles={noteTitles}
+                    pendingKey={reviewingKey}
+                    onReview={(changesetId, changeKey, decision) => {
+                      void handleReviewChange(changesetId, changeKey, decision);
+                    }}
+                  />
                 </div>
               </div>
             </section>
@@ -963,6 +1326,20 @@ export function App(): React.ReactElement {
                           </button>
                         </div>
 
+                        <label className="settings-checkbox-row" htmlFor="vault-event-log-toggle">
+                          <input
+                            id="vault-event-log-toggle"
+                            type="checkbox"
+                            checked={preferences.vaultEventLogEnabled}
+                            disabled={busyAction === 'vault-event-log'}
+                            onChange={(event) => {
+                              void handleVaultEventLogToggle(event.target.checked);
+                            }}
+                          />
+                          <span>{t('settings.storage.vaultEventLog')}</span>
+                        </label>
+                        <p className="settings-card-note">{t('settings.storage.vaultEventLogHint')}</p>
+
                         <div className="sync-health-panel">
                           <div className="sync-health-header">
                             <h4>{t('settings.storage.syncHealth.title')}</h4>
@@ -998,6 +1375,41 @@ export function App(): React.ReactElement {
                                 </ul>
                               )}
 
+                              {syncHealthReport.conflictFiles.length > 0 && (
+                                <div className="settings-card-actions">
+                                  <button
+                                    className="save-button"
+                                    onClick={() => { void runResolveConflictCopies(true); }}
+                                    disabled={busyAction === 'resolve-conflict-copies'}
+                                  >
+                                    {t('settings.storage.syncHealth.previewConflictCopies')}
+                                  </button>
+                                  <button
+                                    className="save-button"
+                                    onClick={() => { void runResolveConflictCopies(false); }}
+                                    disabled={busyAction === 'resolve-conflict-copies'}
+                                  >
+                                    {busyAction === 'resolve-conflict-copies'
+                                      ? t('settings.storage.syncHealth.resolvingConflictCopies')
+                                      : t('settings.storage.syncHealth.resolveConflictCopies')}
+                                  </button>
+                                </div>
+                              )}
+
+                              {conflictCopyReport?.dryRun && conflictCopyReport.copies.length > 0 && (
+                                <div>
+                                  <strong>{t('settings.storage.syncHealth.conflictCopiesPreview')}</strong>
+                                  <ul className="sync-health-conflicts">
+                                    {conflictCopyReport.copies.map((copy) => (
+                                      <li key={copy.filePath}>
+                                        {copy.filePath}: {t(`settings.storage.syncHealth.conflictCopyActions.${copy.action}`, { count: copy.conflictingHunks ?? 0 })}
+                                        {copy.reason && <> ({copy.reason})</>}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              )}
+
                               <div>
                                 <strong>{t('settings.storage.syncHealth.recommendations')}</strong>
                                 <ul className="sync-health-recommendations">
@@ -1148,9 +1560,29 @@ export function App(): React.ReactElement {
                         onChange={(event) => setSignInForm((previous) => ({ ...previous, workspaceId: event.target.value }))}
                         placeholder={t('settings.experimental.workspaceId')}
                       />
+                      <input
+                        className="settings-input"
+                        type="email"
+                        value={signInForm.email}
+                        onChange={(event) => setSignInForm((previous) => ({ ...previous, email: event.target.value }))}
+                        placeholder={t('settings.experimental.email')}
+                      />
+                      <input
+                        className="settings-input"
+                        type="password"
+                        value={signInForm.password}
+                        onChange={(event) => setSignInForm((previous) => ({ ...previous, password: event.target.value }))}
+                        placeholder={t('settings.experimental.password')}
+                      />
                     </div>
 
                     <div className="settings-card-actions">
+                      <button className="save-button" onClick={() => { void handleAccountSignIn(false); }} disabled={busyAction === 'experimental-account-signin'}>
+                        {busyAction === 'experimental-account-signin' ? t('settings.experimental.signingIn') : t('settings.experimental.signIn')}
+                      </button>
+                      <button className="save-button" onClick={() => { void handleAccountSignIn(true); }} disabled={busyAction === 'experimental-register'}>
+                        {busyAction === 'experimental-register' ? t('settings.experimental.signingIn') : t('settings.experimental.createAccount')}
+                      </button>
                       <button className="save-button" onClick={() => { void handleDevSignIn(); }} disabled={busyAction === 'experimental-signin'}>
                         {busyAction === 'experimental-signin' ? t('settings.experimental.signingIn') : t('settings.experimental.devSignIn')}
                       </button>
@@ -1171,6 +1603,11 @@ export function App(): React.ReactElement {
         </main>
       </div>
 
+      {vaultFormat?.readOnly && (
+        <div className="app-readonly-banner">
+          {t('vaultFormat.readOnly', { version: vaultFormat.formatVersion, appVersion: vaultFormat.appFormatVersion })}
+        </div>
+      )}
       {toastMessage && <div className="app-toast">{toastMessage}</div>}
       {errorMessage && <div className="app-error-banner">{errorMessage}</div>}
     </div>
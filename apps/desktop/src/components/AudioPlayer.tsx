@@ -2,6 +2,8 @@ import React, { useState, useRef, useEffect } from 'react';
 
 interface AudioPlayerProps {
     audioPath: string;  // Relative path within vault
+    seekTo?: { timeMs: number; requestId: number };  // New requestId = jump there and play
+    onTimeUpdate?: (timeMs: number) => void;
 }
 
 const PLAYBACK_SPEEDS = [1.0, 1.25, 1.5, 2.0];
@@ -10,8 +12,9 @@ const PLAYBACK_SPEEDS = [1.0, 1.25, 1.5, 2.0];
  * Audio player component for voice notes
  * Uses seedworld:// protocol for secure streaming
  */
-export function AudioPlayer({ audioPath }: AudioPlayerProps): React.ReactElement {
+export function AudioPlayer({ audioPath, seekTo, onTimeUpdate }: AudioPlayerProps): React.ReactElement {
     const audioRef = useRef<HTMLAudioElement>(null);
+    const onTimeUpdateRef = useRef(onTimeUpdate);
     const audioPathRef = useRef(audioPath);
     const fallbackAttemptedRef = useRef(false);
     const wasPlayingRef = useRef(false);
@@ -45,6 +48,10 @@ export function AudioPlayer({ audioPath }: AudioPlayerProps): React.ReactElement
         setDuration(0);
     }, [audioPath]);
 
+    useEffect(() => {
+        onTimeUpdateRef.current = onTimeUpdate;
+    }, [onTimeUpdate]);
+
     useEffect(() => {
         const audio = audioRef.current;
         if (!audio) return;
@@ -89,7 +96,10 @@ export function AudioPlayer({ audioPath }: AudioPlayerProps): React.ReactElement
             });
         };
 
-        const handleTimeUpdate = () => setCurrentTime(audio.currentTime);
+        const handleTimeUpdate = () => {
+            setCurrentTime(audio.currentTime);
+            onTimeUpdateRef.current?.(audio.currentTime * 1000);
+        };
         const handleDurationChange = () => setDuration(audio.duration);
         const handlePlay = () => {
             wasPlayingRef.current = true;
@@ -181,6 +191,21 @@ export function AudioPlayer({ audioPath }: AudioPlayerProps): React.ReactElement
         };
     }, [usingFallback]);
 
+    // Jump to a requested position (e.g. a clicked transcript segment)
+    useEffect(() => {
+        const audio = audioRef.current;
+        if (!audio || !seekTo) return;
+
+        audio.currentTime = seekTo.timeMs / 1000;
+        setCurrentTime(audio.currentTime);
+        if (audio.paused) {
+            pendingPlayRef.current = true;
+            audio.play().catch(err => {
+                console.error('[AudioPlayer] Play after seek failed:', err);
+            });
+        }
+    }, [seekTo?.requestId]);
+
     // Update playback rate when changed
     useEffect(() => {
         if (audioRef.current) {
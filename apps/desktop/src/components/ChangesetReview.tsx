@@ -0,0 +1,143 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import type { ChangeReviewDecision, ChangeSet, ChangeSetEvidence, ChangeSetState } from '../global';
+
+type Section = keyof ChangeSet['changes'];
+
+const SECTIONS: Section[] = ['adds', 'edits', 'links', 'merges', 'conflicts'];
+
+interface ChangesetReviewProps {
+    changesets: ChangeSetState[];
+    /** Titles of known notes, used instead of raw ids. */
+    noteTitles: Record<string, string>;
+    /** `<changesetId>/<changeKey>` of the review in flight, if any. */
+    pendingKey: string | null;
+    onReview: (changesetId: string, changeKey: string, decision: ChangeReviewDecision) => void;
+}
+
+interface ChangeRow {
+    key: string;
+    section: Section;
+    headline: string;
+    detail?: string;
+    evidence: ChangeSetEvidence;
+    confidence: number;
+}
+
+/**
+ * Flatten a changeset into one reviewable row per change, keyed like the
+ * review events (`adds:0`, `links:2`, ...)
+ */
+function changeRows(changeset: ChangeSet, titleOf: (id: string) => string): ChangeRow[] {
+    return SECTIONS.flatMap((section) => changeset.changes[section].map((change, index): ChangeRow => {
+        const base = { key: `${section}:${index}`, section, evidence: change.evidence, confidence: change.confidence };
+        switch (section) {
+            case 'adds': {
+                const add = change as ChangeSet['changes']['adds'][number];
+                return { ...base, headline: `${add.kind}: ${add.title}`, detail: add.content };
+            }
+            case 'edits': {
+                const edit = change as ChangeSet['changes']['edits'][number];
+                return { ...base, headline: titleOf(edit.targetId), detail: edit.rationale };
+            }
+            case 'links': {
+                const link = change as ChangeSet['changes']['links'][number];
+                return {
+                    ...base,
+                    headline: `${titleOf(link.sourceId)} → ${link.relation.replace(/_/g, ' ')} → ${titleOf(link.targetId)}`,
+                    detail: link.note,
+                };
+            }
+            case 'merges': {
+                const merge = change as ChangeSet['changes']['merges'][number];
+                const into = merge.into.title ?? (merge.into.id ? titleOf(merge.into.id) : merge.into.kind);
+                return { ...base, headline: `${merge.fromIds.map(titleOf).join(' + ')} ⇒ ${into}`, detail: merge.rationale };
+            }
+            default: {
+                const conflict = change as ChangeSet['changes']['conflicts'][number];
+                return { ...base, headline: conflict.type, detail: conflict.explanation };
+            }
+        }
+    }));
+}
+
+export function ChangesetReview({ changesets, noteTitles, pendingKey, onReview }: ChangesetReviewProps): React.ReactElement {
+    const { t } = useTranslation();
+
+    if (changesets.length === 0) {
+        return <p className="recent-empty">{t('organize.noChangesets')}</p>;
+    }
+
+    return (
+        <div className="changeset-list">
+            {changesets.map((state) => {
+                const { changeset } = state;
+                const addTitles = new Map(changeset.changes.adds.map((add) => [add.id, add.title]));
+                const titleOf = (id: string) => noteTitles[state.atomIds[id] ?? id] ?? addTitles.get(id) ?? id;
+                const rows = changeRows(changeset, titleOf);
+                const pending = rows.filter((row) => !state.reviews[row.key]).length;
+
+                return (
+                    <article key={changeset.id} className="changeset-card">
+                        <header className="changeset-header">
+                            <strong>{changeset.summary}</strong>
+                            <span className="changeset-meta">
+                                {changeset.provider.model} · {new Date(changeset.createdAt).toLocaleString()}
+                                {' · '}
+                                {t('organize.pendingCount', { count: pending })}
+                            </span>
+                            {changeset.input.instruction && (
+                                <span className="changeset-meta">“{changeset.input.instruction}”</span>
+                            )}
+                        </header>
+
+                        {rows.length === 0 && <p className="recent-empty">{t('organize.noChanges')}</p>}
+
+                        <ul className="changeset-changes">
+                            {rows.map((row) => {
+                                const review = state.reviews[row.key];
+                                const busy = pendingKey === `${changeset.id}/${row.key}`;
+                                return (
+                                    <li key={row.key} className={`changeset-change ${review ? `is-${review.decision}` : ''}`}>
+                                        <div className="changeset-change-body">
+                                            <span className="changeset-section">{t(`organize.sections.${row.section}`)}</span>
+                                            <strong>{row.headline}</strong>
+                                            {row.detail && <p>{row.detail}</p>}
+                                            <span className="changeset-meta">
+                                                {t('organize.confidence', { percent: Math.round(row.confidence * 100) })}
+                                                {' · '}
+                                                {t('organize.evidence', { notes: row.evidence.noteIds.map(titleOf).join(', ') })}
+                                            </span>
+                                        </div>
+                                        {review ? (
+                                            <span className="changeset-decision">{t(`organize.decisions.${review.decision}`)}</span>
+                                        ) : (
+                                            <div className="changeset-actions">
+                                                <button
+                                                    className="save-button"
+                                                    disabled={pendingKey !== null}
+                                                    onClick={() => onReview(changeset.id, row.key, 'accepted')}
+                                                >
+                                                    {busy ? t('organize.applying') : t('organize.accept')}
+                                                </button>
+                                                <button
+                                                    className="changeset-reject-button"
+                                                    disabled={pendingKey !== null}
+                                                    onClick={() => onReview(changeset.id, row.key, 'rejected')}
+                                                >
+                                                    {t('organize.reject')}
+                                                </button>
+                                            </div>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </article>
+                );
+            })}
+        </div>
+    );
+}
+
+export default ChangesetReview;
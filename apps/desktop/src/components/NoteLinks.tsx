@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { AtomLinks, LinkRecord, Note } from '../global';
+
+interface NoteLinksProps {
+    noteId: string;
+    /** Changes when the note is edited, so the links are fetched again. */
+    updatedAt: string;
+    /** Known notes, for showing titles instead of ids. */
+    notes: Note[];
+    onSelect: (noteId: string) => void;
+}
+
+/**
+ * Links written as [[Title]] or [[id]] in the note, notes linking back to it,
+ * and link targets no note matches yet
+ */
+export function NoteLinks({ noteId, updatedAt, notes, onSelect }: NoteLinksProps): React.ReactElement | null {
+    const { t } = useTranslation();
+    const [links, setLinks] = useState<AtomLinks | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLinks(null);
+        setError(null);
+
+        window.api.links.get(noteId)
+            .then((result) => {
+                if (!cancelled) {
+                    setLinks(result);
+                }
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) {
+                    setError(err instanceof Error ? err.message : t('history.links.failed'));
+                }
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [noteId, updatedAt, t]);
+
+    if (error) {
+        return (
+            <section className="related-notes note-links">
+                <h3>{t('history.links.title')}</h3>
+                <p className="recent-empty">{error}</p>
+            </section>
+        );
+    }
+    if (!links || (links.outgoing.length === 0 && links.backlinks.length === 0 && links.unresolved.length === 0)) {
+        return null;
+    }
+
+    const titleOf = (atomId: string) => notes.find((note) => note.id === atomId)?.title ?? atomId;
+    const renderLink = (link: LinkRecord, atomId: string) => (
+        <li key={`${link.sourceAtomId}:${link.origin}:${link.target}`}>
+            <button className="related-notes-item" onClick={() => onSelect(atomId)}>
+                <span className="related-notes-title">{titleOf(atomId)}</span>
+                {link.relation && <span className="related-notes-score">{link.relation}</span>}
+            </button>
+        </li>
+    );
+
+    return (
+        <section className="related-notes note-links">
+            {links.outgoing.length > 0 && (
+                <>
+                    <h3>{t('history.links.outgoing')}</h3>
+                    <ul className="related-notes-list">
+                        {links.outgoing.map((link) => renderLink(link, link.targetAtomId as string))}
+                    </ul>
+                </>
+            )}
+            {links.backlinks.length > 0 && (
+                <>
+                    <h3>{t('history.links.backlinks')}</h3>
+                    <ul className="related-notes-list">
+                        {links.backlinks.map((link) => renderLink(link, link.sourceAtomId))}
+                    </ul>
+                </>
+            )}
+            {links.unresolved.length > 0 && (
+                <>
+                    <h3>{t('history.links.unresolved')}</h3>
+                    <p className="note-links-unresolved">
+                        {links.unresolved.map((target) => `[[${target}]]`).join(' ')}
+                    </p>
+                </>
+            )}
+        </section>
+    );
+}
+
+export default NoteLinks;
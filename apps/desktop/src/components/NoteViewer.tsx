@@ -1,10 +1,12 @@
 import React from 'react';
-import type { Note, VoiceNote } from '../global';
+import type { Note, SubtitleFormat, Transcript, TranscriptionProgress, VoiceNote } from '../global';
 import { AudioPlayer } from './AudioPlayer';
 
 interface NoteViewerProps {
     note: Note | null;
     onDelete?: (noteId: string) => void;
+    transcription?: TranscriptionProgress;
+    onTranscribe?: (noteId: string) => void;
 }
 
 /**
@@ -18,8 +20,55 @@ function isVoiceNote(note: Note): note is VoiceNote {
  * Note viewer component - displays a single note's content and metadata
  * Supports both regular notes and voice notes with audio playback
  */
-export function NoteViewer({ note, onDelete }: NoteViewerProps): React.ReactElement {
+/**
+ * One-line status for the latest transcription job of a note
+ */
+function transcriptionLabel(progress: TranscriptionProgress): string {
+    if (progress.stage === 'failed') {
+        return `Transcription failed: ${progress.error ?? progress.message}`;
+    }
+    return progress.percent !== null && progress.stage === 'transcribing'
+        ? `${progress.message} ${progress.percent}%`
+        : progress.message;
+}
+
+function formatSegmentTime(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function NoteViewer({ note, onDelete, transcription, onTranscribe }: NoteViewerProps): React.ReactElement {
     const [isDeleting, setIsDeleting] = React.useState(false);
+    const [transcript, setTranscript] = React.useState<Transcript | null>(null);
+    const [transcriptError, setTranscriptError] = React.useState<string | null>(null);
+    const [playbackMs, setPlaybackMs] = React.useState(0);
+    const [seekTo, setSeekTo] = React.useState<{ timeMs: number; requestId: number } | undefined>();
+
+    const noteId = note?.id;
+    const noteUpdatedAt = note?.updatedAt;
+
+    // Reload when the note changes; a finished transcription also updates the note
+    React.useEffect(() => {
+        setTranscript(null);
+        setTranscriptError(null);
+        setPlaybackMs(0);
+        setSeekTo(undefined);
+        if (!noteId) return;
+
+        let cancelled = false;
+        window.api.transcript.get(noteId)
+            .then((loaded) => {
+                if (!cancelled) setTranscript(loaded);
+            })
+            .catch((error) => {
+                if (!cancelled) setTranscriptError(error instanceof Error ? error.message : String(error));
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [noteId, noteUpdatedAt]);
 
     if (!note) {
         return (
@@ -49,7 +98,28 @@ export function NoteViewer({ note, onDelete }: NoteViewerProps): React.ReactElem
         return new Date(dateStr).toLocaleString();
     };
 
+    const handleExportTranscript = (format: SubtitleFormat) => {
+        window.api.transcript.exportSubtitles(note.id, format).catch((error) => {
+            setTranscriptError(error instanceof Error ? error.message : String(error));
+        });
+    };
+
+    const handleImportTranscript = async () => {
+        try {
+            const imported = await window.api.transcript.importSubtitles(note.id);
+            if (imported) {
+                setTranscript(imported);
+                setTranscriptError(null);
+            }
+        } catch (error) {
+            setTranscriptError(error instanceof Error ? error.message : String(error));
+        }
+    };
+
     const voiceNote = isVoiceNote(note);
+    const transcriptionActive = !!transcription
+        && transcription.stage !== 'completed'
+        && transcription.stage !== 'failed';
 
     return (
         <div className="note-viewer">
@@ -83,7 +153,51 @@ export function NoteViewer({ note, onDelete }: NoteViewerProps): React.ReactElem
             {/* Audio player for voice notes */}
             {voiceNote && (
                 <div className="note-viewer-audio">
-                    <AudioPlayer audioPath={(note as VoiceNote).audioPath} />
+                    <AudioPlayer
+                        audioPath={(note as VoiceNote).audioPath}
+                        seekTo={seekTo}
+                        onTimeUpdate={setPlaybackMs}
+                    />
+                    {onTranscribe && (
+                        <div className="note-viewer-transcription">
+                            <button
+                                onClick={() => onTranscribe(note.id)}
+                                disabled={transcriptionActive}
+                            >
+                                {transcription?.stage === 'completed' ? 'Transcribe again' : 'Transcribe'}
+                            </button>
+                            {transcription && <span>{transcriptionLabel(transcription)}</span>}
+                        </div>
+                    )}
+                    <div className="note-viewer-transcript-actions">
+                        <button onClick={handleImportTranscript}>Import subtitles</button>
+                        {transcript && (
+                            <>
+                                <button onClick={() => handleExportTranscript('vtt')}>Export WebVTT</button>
+                                <button onClick={() => handleExportTranscript('srt')}>Export SRT</button>
+                            </>
+                        )}
+                        {transcriptError && <span className="note-viewer-transcript-error">{transcriptError}</span>}
+                    </div>
+                    {transcript && transcript.segments.length > 0 && (
+                        <ol className="note-viewer-transcript">
+                            {transcript.segments.map((segment, index) => {
+                                const active = playbackMs >= segment.startMs && playbackMs < segment.endMs;
+                                return (
+                                    <li key={`${segment.startMs}-${index}`}>
+                                        <button
+                                            className={`note-viewer-segment ${active ? 'active' : ''}`}
+                                            onClick={() => setSeekTo({ timeMs: segment.startMs, requestId: Date.now() })}
+                                        >
+                                            <span className="note-viewer-segment-time">{formatSegmentTime(segment.startMs)}</span>
+                                            {segment.speaker && <span className="note-viewer-segment-speaker">{segment.speaker}</span>}
+                                            <span>{segment.text}</span>
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    )}
                 </div>
             )}
 
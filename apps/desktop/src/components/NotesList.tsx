@@ -1,16 +1,33 @@
 import React from 'react';
-import type { Note } from '../global';
+import type { Note, SearchHit, TextRange } from '../global';
 
 interface NotesListProps {
     notes: Note[];
+    /** Search hits by note id; their title and snippet replace the preview. */
+    searchHits?: Record<string, SearchHit>;
     selectedNoteId: string | null;
     onSelectNote: (note: Note) => void;
 }
 
+/**
+ * Text with the matched ranges wrapped in <mark>
+ */
+function Highlighted({ text, ranges }: { text: string; ranges: TextRange[] }): React.ReactElement {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    ranges.forEach(([start, end], index) => {
+        parts.push(text.slice(cursor, start));
+        parts.push(<mark key={index}>{text.slice(start, end)}</mark>);
+        cursor = end;
+    });
+    parts.push(text.slice(cursor));
+    return <>{parts}</>;
+}
+
 /**
  * Notes list component - displays all notes in a scrollable list
  */
-export function NotesList({ notes, selectedNoteId, onSelectNote }: NotesListProps): React.ReactElement {
+export function NotesList({ notes, searchHits, selectedNoteId, onSelectNote }: NotesListProps): React.ReactElement {
     const formatDate = (dateStr: string): string => {
         const date = new Date(dateStr);
         const now = new Date();
@@ -39,23 +56,34 @@ export function NotesList({ notes, selectedNoteId, onSelectNote }: NotesListProp
 
     return (
         <ul className="notes-list">
-            {notes.map((note) => (
-                <li
-                    key={note.id}
-                    className={`notes-list-item ${selectedNoteId === note.id ? 'selected' : ''}`}
-                    onClick={() => onSelectNote(note)}
-                >
-                    <div className="notes-list-item-title">{note.title}</div>
-                    <div className="notes-list-item-meta">
-                        <span className="notes-list-item-id">{note.id}</span>
-                        <span className="notes-list-item-date">{formatDate(note.updatedAt)}</span>
-                    </div>
-                    <div className="notes-list-item-preview">
-                        {note.content.slice(0, 80)}
-                        {note.content.length > 80 ? '...' : ''}
-                    </div>
-                </li>
-            ))}
+            {notes.map((note) => {
+                const hit = searchHits?.[note.id];
+                return (
+                    <li
+                        key={note.id}
+                        className={`notes-list-item ${selectedNoteId === note.id ? 'selected' : ''}`}
+                        onClick={() => onSelectNote(note)}
+                    >
+                        <div className="notes-list-item-title">
+                            {hit ? <Highlighted text={hit.title} ranges={hit.titleHighlights} /> : note.title}
+                        </div>
+                        <div className="notes-list-item-meta">
+                            <span className="notes-list-item-id">{note.id}</span>
+                            <span className="notes-list-item-date">{formatDate(note.updatedAt)}</span>
+                        </div>
+                        {hit ? (
+                            <div className="notes-list-item-preview is-snippet">
+                                <Highlighted text={hit.snippet} ranges={hit.snippetHighlights} />
+                            </div>
+                        ) : (
+                            <div className="notes-list-item-preview">
+                                {note.content.slice(0, 80)}
+                                {note.content.length > 80 ? '...' : ''}
+                            </div>
+                        )}
+                    </li>
+                );
+            })}
         </ul>
     );
 }
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { SemanticMatch } from '../global';
+
+interface RelatedNotesProps {
+    noteId: string;
+    /** Changes when the note is edited, so the list is fetched again. */
+    updatedAt: string;
+    onSelect: (noteId: string) => void;
+}
+
+const RELATED_LIMIT = 5;
+
+/**
+ * Notes closest in meaning to the selected one, from the embedding index
+ */
+export function RelatedNotes({ noteId, updatedAt, onSelect }: RelatedNotesProps): React.ReactElement {
+    const { t } = useTranslation();
+    const [matches, setMatches] = useState<SemanticMatch[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setMatches(null);
+        setError(null);
+
+        window.api.semantic.related({ atomId: noteId, limit: RELATED_LIMIT })
+            .then((result) => {
+                if (!cancelled) {
+                    setMatches(result);
+                }
+            })
+            .catch((err: unknown) => {
+                if (!cancelled) {
+                    setError(err instanceof Error ? err.message : t('history.related.failed'));
+                }
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [noteId, updatedAt, t]);
+
+    return (
+        <section className="related-notes">
+            <h3>{t('history.related.title')}</h3>
+            {error && <p className="recent-empty">{error}</p>}
+            {!error && matches === null && <p className="recent-empty">{t('history.related.loading')}</p>}
+            {matches?.length === 0 && <p className="recent-empty">{t('history.related.empty')}</p>}
+            {matches && matches.length > 0 && (
+                <ul className="related-notes-list">
+                    {matches.map((match) => (
+                        <li key={match.atomId}>
+                            <button className="related-notes-item" onClick={() => onSelect(match.atomId)}>
+                                <span className="related-notes-title">{match.title}</span>
+                                <span className="related-notes-score">
+                                    {t('history.related.score', { percent: Math.round(match.score * 100) })}
+                                </span>
+                                {match.preview && <span className="related-notes-preview">{match.preview}</span>}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </section>
+    );
+}
+
+export default RelatedNotes;
@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import type {
     ProviderConfig,
     LocalProviderConfig,
+    OnlineProviderConfig,
+    OnlineProviderId,
+    ProviderInfo,
     TestConnectionResult,
     WhisperProgress,
     WhisperStatus,
@@ -14,13 +17,21 @@ interface SettingsProps {
 
 /**
  * Settings panel for AI provider configuration
- * Focuses on local-first AI (OpenAI-compatible endpoints)
+ * Local OpenAI-compatible endpoints first; online providers come from the
+ * main-process registry
  */
 export function Settings({ onClose, embedded = false }: SettingsProps): React.ReactElement {
     // Form state
     const [mode, setMode] = useState<'local' | 'online'>('local');
     const [baseUrl, setBaseUrl] = useState('http://localhost:1234/v1');
     const [model, setModel] = useState('');
+    const [providers, setProviders] = useState<ProviderInfo[]>([]);
+    const [provider, setProvider] = useState<OnlineProviderId>('openai');
+    const [apiKey, setApiKey] = useState('');
+    const [onlineBaseUrl, setOnlineBaseUrl] = useState('');
+    const [embeddingModel, setEmbeddingModel] = useState('');
+    // Provider whose API key is already stored in the main process
+    const [storedKeyProvider, setStoredKeyProvider] = useState<OnlineProviderId | null>(null);
 
     // UI state
     const [isTesting, setIsTesting] = useState(false);
@@ -38,12 +49,21 @@ export function Settings({ onClose, embedded = false }: SettingsProps): React.Re
     useEffect(() => {
         const loadConfig = async () => {
             try {
-                const config = await window.api.ai.getConfig();
+                const [config, available] = await Promise.all([
+                    window.api.ai.getConfig(),
+                    window.api.ai.listProviders(),
+                ]);
+                setProviders(available);
                 if (config) {
                     setMode(config.mode);
+                    setModel(config.model);
+                    setEmbeddingModel(config.embeddingModel ?? '');
                     if (config.mode === 'local') {
                         setBaseUrl(config.baseUrl);
-                        setModel(config.model);
+                    } else {
+                        setProvider(config.provider);
+                        setOnlineBaseUrl(config.baseUrl ?? '');
+                        setStoredKeyProvider(config.provider);
                     }
                 }
             } catch (err) {
@@ -87,12 +107,23 @@ export function Settings({ onClose, embedded = false }: SettingsProps): React.Re
                 mode: 'local',
                 baseUrl: baseUrl.trim(),
                 model: model.trim(),
+                ...(embeddingModel.trim() ? { embeddingModel: embeddingModel.trim() } : {}),
             } as LocalProviderConfig;
         }
-        // Online mode would need API key input (not implemented in this local-first version)
-        throw new Error('Online mode not yet implemented');
+        return {
+            mode: 'online',
+            provider,
+            apiKey: apiKey.trim(),
+            model: model.trim(),
+            ...(onlineBaseUrl.trim() ? { baseUrl: onlineBaseUrl.trim() } : {}),
+            ...(embeddingModel.trim() && selectedProvider?.supportsEmbeddings ? { embeddingModel: embeddingModel.trim() } : {}),
+        } as OnlineProviderConfig;
     };
 
+    const selectedProvider = providers.find((entry) => entry.id === provider);
+    const hasStoredKey = storedKeyProvider === provider;
+    const missingApiKey = mode === 'online' && !apiKey.trim() && !hasStoredKey && selectedProvider?.requiresApiKey !== false;
+
     const handleTestConnection = async () => {
         setIsTesting(true);
         setTestResult(null);
@@ -233,17 +264,18 @@ export function Settings({ onClose, embedded = false }: SettingsProps): React.Re
                                     <small>LM Studio, Ollama, etc.</small>
                                 </span>
                             </label>
-                            <label className={`settings-radio ${mode === 'online' ? 'active' : ''} disabled`}>
+                            <label className={`settings-radio ${mode === 'online' ? 'active' : ''}`}>
                                 <input
                                     type="radio"
                                     name="mode"
                                     value="online"
-                                    disabled
+                                    checked={mode === 'online'}
+                                    onChange={() => setMode('online')}
                                 />
                                 <span className="radio-icon">☁️</span>
                                 <span className="radio-text">
                                     <strong>Online</strong>
-                                    <small>Coming soon</small>
+                                    <small>OpenAI, Gemini, Anthropic</small>
                                 </span>
                             </label>
                         </div>
@@ -284,12 +316,103 @@ export function Settings({ onClose, embedded = false }: SettingsProps): React.Re
                         </>
                     )}
 
+                    {/* Online Mode Settings */}
+                    {mode === 'online' && (
+                        <>
+                            <div className="settings-section">
+                                <label className="settings-label" htmlFor="provider">
+                                    Provider
+                                </label>
+                                <select
+                                    id="provider"
+                                    className="settings-input"
+                                    value={provider}
+                                    onChange={(e) => setProvider(e.target.value as OnlineProviderId)}
+                                >
+                                    {providers.map((entry) => (
+                                        <option key={entry.id} value={entry.id}>
+                                            {entry.label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="settings-section">
+                                <label className="settings-label" htmlFor="apiKey">
+                                    API Key
+                                    <span className="settings-hint">Stored on this device only, never shown again</span>
+                                </label>
+                                <input
+                                    id="apiKey"
+                                    type="password"
+                                    className="settings-input"
+                                    value={apiKey}
+                                    onChange={(e) => setApiKey(e.target.value)}
+                                    placeholder={hasStoredKey ? 'Saved — leave blank to keep' : 'Enter API key'}
+                                    autoComplete="off"
+                                />
+                            </div>
+
+                            <div className="settings-section">
+                                <label className="settings-label" htmlFor="model">
+                                    Model
+                                    <span className="settings-hint">e.g., gpt-4o-mini, gemini-2.0-flash, claude-3-5-haiku-latest</span>
+                                </label>
+                                <input
+                                    id="model"
+                                    type="text"
+                                    className="settings-input"
+                                    value={model}
+                                    onChange={(e) => setModel(e.target.value)}
+                                    placeholder="Enter model name"
+                                />
+                            </div>
+
+                            <div className="settings-section">
+                                <label className="settings-label" htmlFor="onlineBaseUrl">
+                                    Base URL
+                                    <span className="settings-hint">Optional, for proxies</span>
+                                </label>
+                                <input
+                                    id="onlineBaseUrl"
+                                    type="text"
+                                    className="settings-input"
+                                    value={onlineBaseUrl}
+                                    onChange={(e) => setOnlineBaseUrl(e.target.value)}
+                                    placeholder={selectedProvider?.defaultBaseUrl ?? ''}
+                                />
+                            </div>
+                        </>
+                    )}
+
+                    {/* Embeddings, for related notes and semantic search */}
+                    {(mode === 'local' || selectedProvider?.supportsEmbeddings) && (
+                        <div className="settings-section">
+                            <label className="settings-label" htmlFor="embeddingModel">
+                                Embedding Model
+                                <span className="settings-hint">
+                                    {mode === 'local'
+                                        ? 'Optional, e.g., nomic-embed-text; enables related notes'
+                                        : 'Optional, for related notes'}
+                                </span>
+                            </label>
+                            <input
+                                id="embeddingModel"
+                                type="text"
+                                className="settings-input"
+                                value={embeddingModel}
+                                onChange={(e) => setEmbeddingModel(e.target.value)}
+                                placeholder={mode === 'online' ? selectedProvider?.defaultEmbeddingModel ?? '' : 'Leave blank to turn off'}
+                            />
+                        </div>
+                    )}
+
                     {/* Test Connection */}
                     <div className="settings-section">
                         <button
                             className="settings-test-button"
                             onClick={handleTestConnection}
-                            disabled={isTesting || !model.trim()}
+                            disabled={isTesting || !model.trim() || missingApiKey}
                         >
                             {isTesting ? 'Testing...' : '🔌 Test Connection'}
                         </button>
@@ -418,7 +541,7 @@ export function Settings({ onClose, embedded = false }: SettingsProps): React.Re
                     <button
                         className="settings-save"
                         onClick={handleSave}
-                        disabled={isSaving || !model.trim()}
+                        disabled={isSaving || !model.trim() || missingApiKey}
                     >
                         {isSaving ? 'Saving...' : 'Save'}
                     </button>
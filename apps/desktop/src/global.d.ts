@@ -6,12 +6,25 @@ export type {
   NoteIndex,
   NoteIndexEntry,
   VaultSyncHealthReport,
+  VaultFormatStatus,
+  VaultMigrationRecord,
+  VaultExternalChanges,
+  ConflictCopyAction,
+  ConflictCopyResult,
+  ConflictCopyReport,
   VoiceNote,
   ProviderMode,
   LocalProviderConfig,
+  OnlineProviderId,
   OnlineProviderConfig,
+  ProviderInfo,
   ProviderConfig,
   SafeProviderConfig,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  ChatDelta,
+  SemanticMatch,
   TestConnectionResult,
   VaultAPI,
   AIAPI,
@@ -20,16 +33,40 @@ export type {
   WhisperStatus,
   WhisperProgress,
   WhisperAPI,
+  TranscriptionProgress,
+  TranscriptionAPI,
+  TranscriptSegment,
+  Transcript,
+  SubtitleFormat,
+  TranscriptAPI,
   AuthConfig,
   LocalWorkspaceIdentity,
+  TextRange,
+  SearchHit,
+  SearchResults,
   InboxItem,
+  TagCount,
+  LinkRecord,
+  AtomLinks,
+  ConflictHunk,
+  ConflictRecord,
+  ChangeSetEvidence,
+  ChangeSet,
+  ChangeReviewDecision,
+  ChangeSetState,
   SyncError,
   SyncStatus,
+  SyncSchedulerState,
   ThemeMode,
   AppLanguage,
   AppPreferences,
   AuthAPI,
   InboxAPI,
+  LinksAPI,
+  ConflictAPI,
+  ChangesetAPI,
+  SearchAPI,
+  SemanticAPI,
   CaptureAPI,
   SyncAPI,
   ExportAPI,
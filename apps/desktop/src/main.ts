@@ -2,12 +2,13 @@ import { app, BrowserWindow, ipcMain, dialog, protocol } from 'electron';
 import * as fs from 'node:fs';
 import http from 'node:http';
 import path from 'node:path';
-import { randomBytes } from 'node:crypto';
+import { createHash, randomBytes } from 'node:crypto';
 import started from 'electron-squirrel-startup';
 import {
   getVaultPath,
   setVaultPath,
   setAIConfig,
+  getAIConfig,
   getAIConfigForRenderer,
   getSyncConfig,
   setSyncConfig,
@@ -18,6 +19,7 @@ import {
   setThemeMode,
   setAppLanguage,
   setExperimentalFeaturesEnabled,
+  setVaultEventLogEnabled,
   type SyncConfig,
   type ThemeMode,
   type AppLanguage,
@@ -31,31 +33,68 @@ import {
   deleteNote,
   rebuildIndex,
   checkVaultSyncHealth,
+  openVaultFormat,
   cleanupTempFiles,
-  saveVoiceNote,
+  saveTranscript,
+  loadTranscript,
   type Note,
   type NoteInput,
+  type VaultFormatStatus,
   type VoiceNote,
-  type VoiceNoteInput,
   type VaultSyncHealthReport,
 } from './main/vault';
 import {
+  chat,
+  embed,
+  getEmbeddingModel,
+  streamChat,
   testConnection,
   validateConfig,
   getSafeConfigForLogging,
+  listProviders,
+  type ChatMessage,
+  type ChatOptions,
+  type ChatResponse,
   type ProviderConfig,
 } from './main/ai-provider';
+import { describeProvider } from './main/organize';
+import type { Embedder, SemanticMatch } from './main/semantic';
 import {
   ensureWhisperInstalled,
+  getWhisperRuntime,
   getWhisperStatus,
   installWhisper,
   uninstallWhisper,
   type WhisperProgress,
 } from './main/addons/whisper';
+import {
+  TranscriptionQueue,
+  type TranscriptionProgress,
+} from './main/addons/transcription';
+import {
+  createTranscript,
+  formatSubtitles,
+  parseSubtitles,
+  transcriptText,
+  registerAccount,
+  signInWithPassword,
+  type AuthSession,
+  type ChangeReviewDecision,
+  type ChangeSetState,
+  type LinkRelation,
+  type SearchOptions,
+  type SearchResults,
+  type SubtitleFormat,
+  type SyncSchedulerState,
+  type Transcript,
+} from '@seedworld/core';
 import { DesktopSyncService } from './main/sync/service';
+import type { VaultChanges } from './main/sync/vault-watcher';
 
 let syncService: DesktopSyncService | null = null;
+let vaultFormat: { vaultPath: string; status: VaultFormatStatus } | null = null;
 let syncServiceCacheKey: string | null = null;
+let transcriptionQueue: { vaultPath: string; queue: TranscriptionQueue } | null = null;
 
 // Custom protocol for serving vault files securely
 const VAULT_PROTOCOL = 'seedworld';
@@ -81,38 +120,119 @@ if (started) {
 }
 
 function resetSyncService(): void {
+  syncService?.stopBackgroundSync();
   syncService = null;
   syncServiceCacheKey = null;
 }
 
+// Checks the vault's format once per vault, migrating older vaults
+function getVaultFormatStatus(vaultPath: string): VaultFormatStatus {
+  if (vaultFormat?.vaultPath !== vaultPath) {
+    vaultFormat = { vaultPath, status: openVaultFormat(vaultPath) };
+  }
+  return vaultFormat.status;
+}
+
+function assertVaultWritable(vaultPath: string): void {
+  const status = getVaultFormatStatus(vaultPath);
+  if (status.readOnly) {
+    throw new Error(
+      `This vault uses format ${status.formatVersion}, newer than this app supports (${status.appFormatVersion}); it is open read-only`,
+    );
+  }
+}
+
+/**
+ * Where a vault's state.db lives: with the app, not in the vault, so a cloud
+ * folder never syncs a database that is open and read-only vaults are never
+ * written to.
+ */
+function vaultStateDir(vaultPath: string): string {
+  const vaultId = createHash('sha256').update(path.resolve(vaultPath)).digest('hex').slice(0, 16);
+  return path.join(app.getPath('userData'), 'vaults', vaultId);
+}
+
 function resolveSyncBootstrap(vaultPath: string): { key: string; config: Parameters<typeof DesktopSyncService.create>[0] } {
   const syncConfig = getSyncConfig();
+  const vaultEventLog = getAppPreferences().vaultEventLogEnabled;
+  const readOnly = getVaultFormatStatus(vaultPath).readOnly;
   if (syncConfig) {
     return {
-      key: `remote:${vaultPath}:${syncConfig.workspaceId}:${syncConfig.deviceId}:${syncConfig.serverUrl}`,
+      key: `remote:${vaultPath}:${syncConfig.workspaceId}:${syncConfig.deviceId}:${syncConfig.serverUrl}:${vaultEventLog}:${readOnly}`,
       config: {
         vaultPath,
+        stateDir: vaultStateDir(vaultPath),
         serverUrl: syncConfig.serverUrl,
         userId: syncConfig.userId,
         workspaceId: syncConfig.workspaceId,
         deviceId: syncConfig.deviceId,
         token: syncConfig.token,
+        refreshToken: syncConfig.refreshToken,
+        onSessionRefreshed: saveRefreshedSession,
+        vaultEventLog,
+        readOnly,
       },
     };
   }
 
   const localWorkspace = getLocalWorkspace();
   return {
-    key: `local:${vaultPath}:${localWorkspace.localWorkspaceId}:${localWorkspace.localDeviceId}:${localWorkspace.localUserId}`,
+    key: `local:${vaultPath}:${localWorkspace.localWorkspaceId}:${localWorkspace.localDeviceId}:${localWorkspace.localUserId}:${vaultEventLog}:${readOnly}`,
     config: {
       vaultPath,
+      stateDir: vaultStateDir(vaultPath),
       userId: localWorkspace.localUserId,
       workspaceId: localWorkspace.localWorkspaceId,
       deviceId: localWorkspace.localDeviceId,
+      vaultEventLog,
+      readOnly,
     },
   };
 }
 
+/** Keep the sync config's tokens current as the transport renews them. */
+function saveRefreshedSession(session: AuthSession): void {
+  const config = getSyncConfig();
+  if (!config || config.userId !== session.userId || config.workspaceId !== session.workspaceId) {
+    return;
+  }
+  setSyncConfig({
+    ...config,
+    token: session.token,
+    tokenExpiresAtMs: session.expiresAtMs,
+    refreshToken: session.refreshToken,
+    refreshExpiresAtMs: session.refreshExpiresAtMs,
+  });
+}
+
+/** Switch the local workspace to a signed-in one and restart sync with its tokens. */
+async function saveSignIn(input: Omit<SyncConfig, 'deviceId' | 'importMode'> & { deviceId?: string }) {
+  const localWorkspace = getLocalWorkspace();
+  const existing = getSyncConfig();
+  const config: SyncConfig = {
+    ...input,
+    deviceId: input.deviceId || existing?.deviceId || localWorkspace.localDeviceId,
+    importMode: existing?.importMode || 'restore',
+  };
+
+  setLocalWorkspace({
+    localWorkspaceId: config.workspaceId,
+    localDeviceId: config.deviceId,
+    localUserId: config.userId,
+  });
+  setSyncConfig(config);
+  resetSyncService();
+
+  await getOrInitSyncService();
+  return {
+    serverUrl: config.serverUrl,
+    userId: config.userId,
+    workspaceId: config.workspaceId,
+    deviceId: config.deviceId,
+    tokenExpiresAtMs: config.tokenExpiresAtMs,
+  };
+}
+
 async function getOrInitSyncService(): Promise<DesktopSyncService> {
   const vaultPath = getVaultPath();
 
@@ -123,13 +243,82 @@ async function getOrInitSyncService(): Promise<DesktopSyncService> {
   const { key, config } = resolveSyncBootstrap(vaultPath);
 
   if (!syncService || syncServiceCacheKey !== key) {
+    syncService?.stopBackgroundSync();
     syncService = DesktopSyncService.create(config);
     syncServiceCacheKey = key;
+    syncService.startBackgroundSync(broadcastSyncState, broadcastVaultChange);
+    syncService.setEmbedder(createEmbedder());
   }
 
   return syncService;
 }
 
+async function getWritableSyncService(): Promise<DesktopSyncService> {
+  const vaultPath = getVaultPath();
+  if (vaultPath) {
+    assertVaultWritable(vaultPath);
+  }
+  return getOrInitSyncService();
+}
+
+// Embeddings for semantic search, when the configured provider offers them
+function createEmbedder(): Embedder | null {
+  const config = getAIConfig();
+  const model = config ? getEmbeddingModel(config) : undefined;
+  if (!config || !model) {
+    return null;
+  }
+  return {
+    model,
+    embed: async (inputs) => (await embed(config, inputs)).vectors,
+  };
+}
+
+/**
+ * Transcription queue for the given vault. Jobs already running for a previous
+ * vault finish against that vault.
+ */
+function getTranscriptionQueue(vaultPath: string): TranscriptionQueue {
+  if (transcriptionQueue?.vaultPath === vaultPath) {
+    return transcriptionQueue.queue;
+  }
+
+  const queue = new TranscriptionQueue({
+    workDir: path.join(app.getPath('userData'), 'transcription'),
+    resolveRuntime: async () => {
+      const runtime = getWhisperRuntime();
+      if (!runtime) {
+        throw new Error('Whisper add-on is not installed or failed its health check.');
+      }
+      return runtime;
+    },
+    onComplete: (result) => storeTranscript(
+      vaultPath,
+      createTranscript({ noteId: result.noteId, source: 'whisper', segments: result.segments }),
+    ),
+    onProgress: broadcastTranscriptionProgress,
+  });
+  transcriptionQueue = { vaultPath, queue };
+  return queue;
+}
+
+async function storeTranscript(vaultPath: string, transcript: Transcript): Promise<void> {
+  assertVaultWritable(vaultPath);
+  saveTranscript(vaultPath, transcript);
+  const text = transcriptText(transcript);
+
+  const service = await getOrInitSyncService();
+  if (await service.applyTranscript(transcript.noteId, text)) {
+    return;
+  }
+
+  // Voice notes recorded before captures became atoms only exist as vault files.
+  const note = loadNote(vaultPath, transcript.noteId);
+  if (note && 'audioPath' in note) {
+    saveNote(vaultPath, { title: note.title, content: text, audioPath: note.audioPath }, note.id);
+  }
+}
+
 // ============================================================================
 // IPC Handlers
 // ============================================================================
@@ -164,6 +353,15 @@ ipcMain.handle('preferences:setExperimentalFeaturesEnabled', (_event, enabled: b
   return setExperimentalFeaturesEnabled(Boolean(enabled));
 });
 
+ipcMain.handle('preferences:setVaultEventLogEnabled', async (_event, enabled: boolean) => {
+  const preferences = setVaultEventLogEnabled(Boolean(enabled));
+  // The sync service is recreated for the new mode; turning it on writes this device's log right away.
+  if (getVaultPath()) {
+    await getOrInitSyncService();
+  }
+  return preferences;
+});
+
 // --- Vault Operations ---
 
 // Select vault folder via native dialog
@@ -183,6 +381,7 @@ ipcMain.handle('vault:selectFolder', async () => {
   try {
     // Ensure vault structure exists
     ensureVaultStructure(selectedPath);
+    getVaultFormatStatus(selectedPath);
     // Save to local store
     setVaultPath(selectedPath);
     resetSyncService();
@@ -200,6 +399,8 @@ ipcMain.handle('vault:getPath', () => {
   if (vaultPath && isValidVault(vaultPath)) {
     // Ensure all subdirectories exist (safe if OneDrive removed some)
     ensureVaultStructure(vaultPath);
+    // Upgrade older vaults before anything reads or writes their notes
+    getVaultFormatStatus(vaultPath);
     // Clean up any orphaned temp files from interrupted writes
     const cleaned = cleanupTempFiles(vaultPath);
     if (cleaned > 0) {
@@ -217,6 +418,7 @@ ipcMain.handle('vault:saveNote', (_event, input: NoteInput, existingId?: string)
     throw new Error('No vault configured');
   }
 
+  assertVaultWritable(vaultPath);
   try {
     const note = saveNote(vaultPath, input, existingId);
     console.log(`[main] Saved note: ${note.id}`);
@@ -254,13 +456,19 @@ ipcMain.handle('vault:getNote', (_event, noteId: string): Note | null => {
   return loadNote(vaultPath, noteId);
 });
 
-// Delete a note
-ipcMain.handle('vault:deleteNote', (_event, noteId: string): boolean => {
+// Delete a note (atoms get a synced atom.delete event; plain files are just removed)
+ipcMain.handle('vault:deleteNote', async (_event, noteId: string): Promise<boolean> => {
   const vaultPath = getVaultPath();
   if (!vaultPath) {
     return false;
   }
 
+  const service = await getWritableSyncService();
+  if (await service.deleteAtom(noteId)) {
+    console.log(`[main] Deleted atom: ${noteId}`);
+    return true;
+  }
+
   const result = deleteNote(vaultPath, noteId);
   if (result) {
     console.log(`[main] Deleted note: ${noteId}`);
@@ -278,6 +486,11 @@ ipcMain.handle('vault:rebuildIndex', () => {
   return rebuildIndex(vaultPath);
 });
 
+ipcMain.handle('vault:getFormat', (): VaultFormatStatus | null => {
+  const vaultPath = getVaultPath();
+  return vaultPath ? getVaultFormatStatus(vaultPath) : null;
+});
+
 ipcMain.handle('vault:syncHealthCheck', (): VaultSyncHealthReport => {
   const vaultPath = getVaultPath();
   if (!vaultPath) {
@@ -287,6 +500,11 @@ ipcMain.handle('vault:syncHealthCheck', (): VaultSyncHealthReport => {
   return checkVaultSyncHealth(vaultPath);
 });
 
+ipcMain.handle('vault:resolveConflictCopies', async (_event, options: { dryRun?: boolean } = {}) => {
+  const service = await getWritableSyncService();
+  return service.resolveConflictCopies(options);
+});
+
 // --- Sync/Auth Operations ---
 
 ipcMain.handle('auth:getConfig', () => {
@@ -337,7 +555,9 @@ ipcMain.handle('auth:devSignIn', async (_event, input: {
   });
 
   if (!response.ok) {
-    throw new Error(`Auth failed (${response.status})`);
+    throw new Error(response.status === 404
+      ? 'Dev sign-in is disabled on this server; sign in with an email and password instead'
+      : `Auth failed (${response.status})`);
   }
 
   const payload = await response.json() as {
@@ -345,33 +565,43 @@ ipcMain.handle('auth:devSignIn', async (_event, input: {
     expiresAtMs: number;
   };
 
-  const existing = getSyncConfig();
-  const config: SyncConfig = {
+  return saveSignIn({
     serverUrl,
     userId,
     workspaceId,
-    deviceId: input.deviceId || existing?.deviceId || localWorkspace.localDeviceId,
+    deviceId: input.deviceId,
     token: payload.token,
     tokenExpiresAtMs: payload.expiresAtMs,
-    importMode: existing?.importMode || 'restore',
-  };
-
-  setLocalWorkspace({
-    localWorkspaceId: config.workspaceId,
-    localDeviceId: config.deviceId,
-    localUserId: config.userId,
   });
-  setSyncConfig(config);
-  resetSyncService();
+});
 
-  await getOrInitSyncService();
-  return {
-    serverUrl: config.serverUrl,
-    userId: config.userId,
-    workspaceId: config.workspaceId,
-    deviceId: config.deviceId,
-    tokenExpiresAtMs: config.tokenExpiresAtMs,
-  };
+ipcMain.handle('auth:signIn', async (_event, input: {
+  serverUrl: string;
+  email: string;
+  password: string;
+  createAccount?: boolean;
+  deviceId?: string;
+}) => {
+  const serverUrl = input.serverUrl.trim().replace(/\/+$/, '');
+  if (!serverUrl || !input.email.trim() || !input.password) {
+    throw new Error('serverUrl, email, and password are required');
+  }
+
+  const credentials = { email: input.email.trim(), password: input.password };
+  const session = input.createAccount
+    ? await registerAccount(serverUrl, credentials)
+    : await signInWithPassword(serverUrl, credentials);
+
+  return saveSignIn({
+    serverUrl,
+    userId: session.userId,
+    workspaceId: session.workspaceId,
+    deviceId: input.deviceId,
+    token: session.token,
+    tokenExpiresAtMs: session.expiresAtMs,
+    refreshToken: session.refreshToken,
+    refreshExpiresAtMs: session.refreshExpiresAtMs,
+  });
 });
 
 ipcMain.handle('auth:signOut', () => {
@@ -380,13 +610,72 @@ ipcMain.handle('auth:signOut', () => {
   return true;
 });
 
-ipcMain.handle('inbox:list', async () => {
+ipcMain.handle('inbox:list', async (_event, filter?: { tag?: string }) => {
   const service = await getOrInitSyncService();
+  return service.listInbox(filter);
+});
+
+ipcMain.handle('inbox:tags', async () => {
+  const service = await getOrInitSyncService();
+  return service.listTags();
+});
+
+ipcMain.handle('inbox:setTags', async (_event, input: { atomId: string; tags: string[] }) => {
+  const service = await getWritableSyncService();
+  await service.setAtomTags(input.atomId, input.tags);
   return service.listInbox();
 });
 
-ipcMain.handle('capture:quickText', async (_event, input: { title?: string; body: string }) => {
+ipcMain.handle('inbox:archive', async (_event, atomId: string) => {
+  const service = await getWritableSyncService();
+  await service.archiveAtom(atomId);
+  return service.listInbox();
+});
+
+ipcMain.handle('inbox:restore', async (_event, atomId: string) => {
+  const service = await getWritableSyncService();
+  await service.restoreAtom(atomId);
+  return service.listInbox();
+});
+
+ipcMain.handle('links:get', async (_event, atomId: string) => {
+  const service = await getOrInitSyncService();
+  return service.atomLinks(atomId);
+});
+
+ipcMain.handle('links:add', async (_event, input: { atomId: string; targetAtomId: string; relation?: LinkRelation }) => {
+  const service = await getWritableSyncService();
+  return service.addAtomLink(input);
+});
+
+ipcMain.handle('links:remove', async (_event, input: { atomId: string; targetAtomId: string }) => {
+  const service = await getWritableSyncService();
+  return service.removeAtomLink(input);
+});
+
+ipcMain.handle('conflict:list', async () => {
   const service = await getOrInitSyncService();
+  return service.listConflicts();
+});
+
+ipcMain.handle('conflict:resolve', async (_event, input: {
+  conflictId: string;
+  winningVersionId?: string;
+  mergedBody?: string;
+}) => {
+  const service = await getWritableSyncService();
+  if (typeof input.mergedBody === 'string') {
+    await service.resolveConflict(input.conflictId, { mergedBody: input.mergedBody });
+  } else if (input.winningVersionId) {
+    await service.resolveConflict(input.conflictId, { winningVersionId: input.winningVersionId });
+  } else {
+    throw new Error('winningVersionId or mergedBody is required');
+  }
+  return service.listConflicts();
+});
+
+ipcMain.handle('capture:quickText', async (_event, input: { title?: string; body: string }) => {
+  const service = await getWritableSyncService();
   await service.captureText(input);
   return service.listInbox();
 });
@@ -406,12 +695,23 @@ ipcMain.handle('sync:getStatus', async () => {
 });
 
 ipcMain.handle('sync:now', async () => {
-  const service = await getOrInitSyncService();
+  const service = await getWritableSyncService();
   return service.syncNow();
 });
 
-ipcMain.handle('sync:rebuildProjection', async () => {
+// The renderer owns navigator.onLine, so it reports connectivity changes here.
+ipcMain.handle('sync:setOnline', async (_event, online: boolean) => {
+  if (!getVaultPath()) {
+    return false;
+  }
+
   const service = await getOrInitSyncService();
+  service.setOnline(online);
+  return true;
+});
+
+ipcMain.handle('sync:rebuildProjection', async () => {
+  const service = await getWritableSyncService();
   await service.rebuildProjection();
   return true;
 });
@@ -458,7 +758,7 @@ ipcMain.handle('diagnostics:export', async () => {
 });
 
 ipcMain.handle('import:fromZip', async (_event, input: { mode: 'restore' | 'clone' }) => {
-  const service = await getOrInitSyncService();
+  const service = await getWritableSyncService();
   const config = getSyncConfig();
   if (config) {
     setSyncConfig({ ...config, importMode: input.mode });
@@ -483,8 +783,24 @@ ipcMain.handle('ai:getConfig', () => {
   return getAIConfigForRenderer();
 });
 
+// Registered providers for the settings form
+ipcMain.handle('ai:listProviders', () => {
+  return listProviders().filter((provider) => provider.id !== 'local');
+});
+
+// The renderer never receives the stored API key, so an online config saved or
+// tested without one keeps the key already stored for that provider.
+function withStoredApiKey(config: ProviderConfig): ProviderConfig {
+  const stored = getAIConfig();
+  if (config.mode === 'online' && !config.apiKey && stored?.mode === 'online' && stored.provider === config.provider) {
+    return { ...config, apiKey: stored.apiKey };
+  }
+  return config;
+}
+
 // Set AI config (stores in main process only)
-ipcMain.handle('ai:setConfig', (_event, config: ProviderConfig) => {
+ipcMain.handle('ai:setConfig', (_event, input: ProviderConfig) => {
+  const config = withStoredApiKey(input);
   const validation = validateConfig(config);
   if (!validation.valid) {
     throw new Error(validation.error);
@@ -492,11 +808,13 @@ ipcMain.handle('ai:setConfig', (_event, config: ProviderConfig) => {
 
   setAIConfig(config);
   console.log('[main] AI config saved:', getSafeConfigForLogging(config));
+  syncService?.setEmbedder(createEmbedder());
   return true;
 });
 
 // Test AI connection
-ipcMain.handle('ai:testConnection', async (_event, config: ProviderConfig) => {
+ipcMain.handle('ai:testConnection', async (_event, input: ProviderConfig) => {
+  const config = withStoredApiKey(input);
   const validation = validateConfig(config);
   if (!validation.valid) {
     return {
@@ -512,6 +830,124 @@ ipcMain.handle('ai:testConnection', async (_event, config: ProviderConfig) => {
   return result;
 });
 
+// Streamed chats in progress, by the id the renderer chose, so Stop can abort them
+const chatStreams = new Map<string, AbortController>();
+
+/**
+ * Stream a chat reply, forwarding each token delta to the renderer, and
+ * resolve with the whole reply once the provider finishes.
+ */
+async function runChatStream(
+  streamId: string,
+  config: ProviderConfig,
+  messages: ChatMessage[],
+  options: ChatOptions = {},
+): Promise<ChatResponse> {
+  if (chatStreams.has(streamId)) {
+    throw new Error(`Chat stream ${streamId} is already running`);
+  }
+
+  const controller = new AbortController();
+  chatStreams.set(streamId, controller);
+  try {
+    for await (const event of streamChat(config, messages, { ...options, signal: controller.signal })) {
+      if (event.type === 'done') {
+        return event.response;
+      }
+      broadcastChatDelta({ streamId, content: event.content });
+    }
+    throw new Error('Chat stream ended without a reply');
+  } finally {
+    chatStreams.delete(streamId);
+  }
+}
+
+// Streamed chat with the configured provider; deltas arrive as 'ai:chatDelta'
+ipcMain.handle('ai:streamChat', async (_event, input: {
+  streamId: string;
+  messages: ChatMessage[];
+  options?: { temperature?: number; maxTokens?: number };
+}): Promise<ChatResponse> => {
+  const config = getAIConfig();
+  if (!config) {
+    throw new Error('Configure an AI provider in Voice & AI first');
+  }
+  return runChatStream(input.streamId, config, input.messages, {
+    temperature: input.options?.temperature,
+    maxTokens: input.options?.maxTokens,
+  });
+});
+
+// Stop a streamed chat; the pending request rejects with "Chat stopped"
+ipcMain.handle('ai:stopChat', (_event, streamId: string): boolean => {
+  const controller = chatStreams.get(streamId);
+  controller?.abort();
+  return Boolean(controller);
+});
+
+// --- Changesets ---
+
+// Ask the AI provider to organize the selected atoms; the proposal waits for review
+ipcMain.handle('changeset:organize', async (_event, input: {
+  atomIds: string[];
+  instruction?: string;
+  streamId?: string;
+}): Promise<ChangeSetState> => {
+  const config = getAIConfig();
+  if (!config) {
+    throw new Error('Configure an AI provider in Voice & AI first');
+  }
+
+  // With a stream id the reply is streamed to the renderer and can be stopped
+  const { streamId } = input;
+  const service = await getWritableSyncService();
+  const state = await service.organize({
+    atomIds: input.atomIds,
+    instruction: input.instruction,
+    chat: streamId
+      ? (messages, options) => runChatStream(streamId, config, messages, options)
+      : (messages, options) => chat(config, messages, options),
+    provider: describeProvider(config),
+  });
+  console.log(`[main] Changeset ${state.changeset.id} suggested for ${input.atomIds.length} note(s)`);
+  return state;
+});
+
+ipcMain.handle('changeset:list', async (): Promise<ChangeSetState[]> => {
+  const service = await getOrInitSyncService();
+  return service.listChangesets();
+});
+
+ipcMain.handle('changeset:review', async (
+  _event,
+  input: { changesetId: string; changeKey: string; decision: ChangeReviewDecision },
+): Promise<ChangeSetState> => {
+  const service = await getWritableSyncService();
+  return service.reviewChange(input);
+});
+
+// --- Search ---
+
+// Ranked full-text search with highlighted snippets
+ipcMain.handle('search:query', async (_event, input: { query: string } & SearchOptions): Promise<SearchResults> => {
+  const service = await getOrInitSyncService();
+  return service.search(input.query, { limit: input.limit, offset: input.offset });
+});
+
+// --- Semantic Search ---
+
+// Notes closest in meaning to a note; embeddings are refreshed first if stale
+ipcMain.handle('semantic:related', async (_event, input: { atomId: string; limit?: number }): Promise<SemanticMatch[]> => {
+  const service = await getOrInitSyncService();
+  return service.relatedNotes(input.atomId, input.limit);
+});
+
+// Notes closest in meaning to free text
+ipcMain.handle('semantic:query', async (_event, input: { query: string; limit?: number }): Promise<SemanticMatch[]> => {
+  const service = await getOrInitSyncService();
+  return service.semanticSearch(input.query, input.limit);
+});
+
 // --- Attachment Operations ---
 
 ipcMain.handle('attachment:getStreamUrl', async (_event, relativePath: string) => {
@@ -540,25 +976,91 @@ ipcMain.handle('whisper:ensureInstalled', async (_event, modelName?: string) =>
   });
 });
 
-// --- Voice Note Operations ---
+// --- Transcription ---
 
-// Save a voice note (audio + note)
-ipcMain.handle('voice:saveNote', (_event, audioArrayBuffer: ArrayBuffer, extension?: string): VoiceNote | null => {
+ipcMain.handle('transcription:start', (_event, noteId: string): TranscriptionProgress => {
   const vaultPath = getVaultPath();
   if (!vaultPath) {
     throw new Error('No vault configured');
   }
+  assertVaultWritable(vaultPath);
 
-  try {
-    // Convert ArrayBuffer to Buffer
-    const audioData = Buffer.from(audioArrayBuffer);
+  const note = loadNote(vaultPath, noteId);
+  if (!note || !('audioPath' in note)) {
+    throw new Error(`Not a voice note: ${noteId}`);
+  }
 
-    const input: VoiceNoteInput = {
-      audioData,
-      audioExtension: extension || 'webm',
-    };
+  return getTranscriptionQueue(vaultPath).enqueue({
+    noteId,
+    audioPath: path.join(vaultPath, note.audioPath),
+  });
+});
+
+ipcMain.handle('transcription:list', (): TranscriptionProgress[] => {
+  const vaultPath = getVaultPath();
+  return vaultPath ? getTranscriptionQueue(vaultPath).listJobs() : [];
+});
+
+ipcMain.handle('transcript:get', (_event, noteId: string): Transcript | null => {
+  const vaultPath = getVaultPath();
+  return vaultPath ? loadTranscript(vaultPath, noteId) : null;
+});
+
+ipcMain.handle('transcript:export', async (_event, noteId: string, format: SubtitleFormat) => {
+  const vaultPath = getVaultPath();
+  const transcript = vaultPath ? loadTranscript(vaultPath, noteId) : null;
+  if (!transcript) {
+    throw new Error(`No transcript for note: ${noteId}`);
+  }
+
+  const result = await dialog.showSaveDialog({
+    title: 'Export Transcript',
+    defaultPath: `${noteId}.${format}`,
+    filters: [{ name: format === 'vtt' ? 'WebVTT' : 'SubRip', extensions: [format] }],
+  });
+
+  if (result.canceled || !result.filePath) {
+    return null;
+  }
+
+  fs.writeFileSync(result.filePath, formatSubtitles(transcript, format), 'utf-8');
+  return result.filePath;
+});
+
+// Replace a note's transcript with cues from a WebVTT or SRT file
+ipcMain.handle('transcript:import', async (_event, noteId: string): Promise<Transcript | null> => {
+  const vaultPath = getVaultPath();
+  if (!vaultPath) {
+    throw new Error('No vault configured');
+  }
+
+  const result = await dialog.showOpenDialog({
+    title: 'Import Transcript',
+    properties: ['openFile'],
+    filters: [{ name: 'Subtitles', extensions: ['vtt', 'srt'] }],
+  });
+
+  if (result.canceled || result.filePaths.length === 0) {
+    return null;
+  }
+
+  const segments = parseSubtitles(fs.readFileSync(result.filePaths[0], 'utf-8'));
+  const transcript = createTranscript({ noteId, source: 'import', segments });
+  await storeTranscript(vaultPath, transcript);
+  return transcript;
+});
+
+// --- Voice Note Operations ---
+
+// Save a voice note as a captured atom with its audio blob
+ipcMain.handle('voice:saveNote', async (_event, audioArrayBuffer: ArrayBuffer, extension?: string): Promise<VoiceNote> => {
+  const service = await getWritableSyncService();
 
-    const voiceNote = saveVoiceNote(vaultPath, input);
+  try {
+    const voiceNote = await service.captureVoice({
+      audio: Buffer.from(audioArrayBuffer),
+      extension: extension || 'webm',
+    });
     console.log(`[main] Saved voice note: ${voiceNote.id} with audio at ${voiceNote.audioPath}`);
     return voiceNote;
   } catch (error) {
@@ -889,12 +1391,36 @@ async function getAttachmentStreamUrl(relativePath: string): Promise<string> {
   return `http://${ATTACHMENT_SERVER_HOST}:${port}/vault/${ATTACHMENT_SERVER_TOKEN}?path=${encodeURIComponent(cleanPath)}`;
 }
 
+function broadcastSyncState(state: SyncSchedulerState): void {
+  for (const window of BrowserWindow.getAllWindows()) {
+    window.webContents.send('sync:state', state);
+  }
+}
+
+function broadcastVaultChange(changes: VaultChanges): void {
+  for (const window of BrowserWindow.getAllWindows()) {
+    window.webContents.send('vault:externalChange', changes);
+  }
+}
+
 function broadcastWhisperProgress(progress: WhisperProgress): void {
   for (const window of BrowserWindow.getAllWindows()) {
     window.webContents.send('whisper:progress', progress);
   }
 }
 
+function broadcastChatDelta(delta: { streamId: string; content: string }): void {
+  for (const window of BrowserWindow.getAllWindows()) {
+    window.webContents.send('ai:chatDelta', delta);
+  }
+}
+
+function broadcastTranscriptionProgress(progress: TranscriptionProgress): void {
+  for (const window of BrowserWindow.getAllWindows()) {
+    window.webContents.send('transcription:progress', progress);
+  }
+}
+
 /**
  * Register the seedworld:// protocol
  * Supports Range requests for audio/video seeking
@@ -1072,7 +1598,7 @@ app.on('ready', () => {
   // Register custom protocol BEFORE creating window
   registerVaultProtocol();
   if (getVaultPath()) {
-    getOrInitSyncService().catch((error) => {
+    getWritableSyncService().catch((error) => {
       console.warn('[main] Sync bootstrap skipped:', error);
     });
   }
@@ -1080,6 +1606,7 @@ app.on('ready', () => {
 });
 
 app.on('before-quit', () => {
+  syncService?.stopBackgroundSync();
   if (attachmentServer) {
     attachmentServer.close();
     attachmentServer = null;
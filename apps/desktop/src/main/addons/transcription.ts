@@ -0,0 +1,288 @@
+/**
+ * Transcription Queue
+ *
+ * Runs voice notes through the installed whisper binary one at a time:
+ * converts the recording to 16 kHz mono WAV, transcribes it with the selected
+ * model and parses the timestamped output into segments.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import type { TranscriptSegment } from '@seedworld/core';
+
+const WHISPER_SAMPLE_RATE = 16000;
+const STDERR_TAIL_LENGTH = 2000;
+
+export interface WhisperRuntime {
+    binaryPath: string;
+    modelPath: string;
+    /** ffmpeg used to convert recordings; defaults to `ffmpeg` on PATH. */
+    ffmpegPath?: string;
+    language?: string;
+    threads?: number;
+}
+
+export type TranscriptionStage = 'queued' | 'converting' | 'transcribing' | 'saving' | 'completed' | 'failed';
+
+export interface TranscriptionProgress {
+    jobId: string;
+    noteId: string;
+    stage: TranscriptionStage;
+    percent: number | null;
+    message: string;
+    error?: string;
+}
+
+export interface TranscriptionJobInput {
+    noteId: string;
+    /** Absolute path of the recording. */
+    audioPath: string;
+}
+
+export interface TranscriptionResult {
+    noteId: string;
+    segments: TranscriptSegment[];
+    text: string;
+}
+
+export interface TranscriptionQueueOptions {
+    resolveRuntime: () => Promise<WhisperRuntime>;
+    /** Scratch folder for converted audio. */
+    workDir: string;
+    /** Persist a finished transcript; the job fails if this throws. */
+    onComplete: (result: TranscriptionResult) => Promise<void>;
+    onProgress?: (progress: TranscriptionProgress) => void;
+}
+
+interface ProcessResult {
+    stdout: string;
+    stderr: string;
+}
+
+const TIMESTAMP_LINE = /^\[(\d{2}:\d{2}:\d{2}[.,]\d{3})\s*-->\s*(\d{2}:\d{2}:\d{2}[.,]\d{3})\]\s*(.*)$/;
+const PROGRESS_PATTERN = /progress\s*=\s*(\d+)%/g;
+
+/**
+ * Parse `HH:MM:SS.mmm` into milliseconds.
+ */
+export function parseWhisperTimestamp(value: string): number {
+    const [hours, minutes, rest] = value.split(':');
+    const [seconds, millis] = rest.split(/[.,]/);
+    return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(millis);
+}
+
+/**
+ * Parse whisper's `[start --> end]  text` lines; log lines around them are ignored.
+ */
+export function parseWhisperOutput(output: string): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const match = line.trim().match(TIMESTAMP_LINE);
+        if (!match) continue;
+        const text = match[3].trim();
+        if (!text) continue;
+        segments.push({
+            startMs: parseWhisperTimestamp(match[1]),
+            endMs: parseWhisperTimestamp(match[2]),
+            text,
+        });
+    }
+    return segments;
+}
+
+/**
+ * Latest percentage printed by `--print-progress` in a chunk of stderr, if any.
+ */
+export function parseWhisperProgress(chunk: string): number | null {
+    let percent: number | null = null;
+    for (const match of chunk.matchAll(PROGRESS_PATTERN)) {
+        percent = Math.min(100, Number(match[1]));
+    }
+    return percent;
+}
+
+/**
+ * True when the file is already a 16 kHz mono 16-bit PCM WAV that whisper reads directly.
+ */
+export function isWhisperReadyWav(filePath: string): boolean {
+    if (path.extname(filePath).toLowerCase() !== '.wav') return false;
+
+    const header = Buffer.alloc(36);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        if (fs.readSync(fd, header, 0, header.length, 0) < header.length) return false;
+    } finally {
+        fs.closeSync(fd);
+    }
+
+    return header.toString('ascii', 0, 4) === 'RIFF'
+        && header.toString('ascii', 8, 12) === 'WAVE'
+        && header.toString('ascii', 12, 16) === 'fmt '
+        && header.readUInt16LE(20) === 1
+        && header.readUInt16LE(22) === 1
+        && header.readUInt32LE(24) === WHISPER_SAMPLE_RATE
+        && header.readUInt16LE(34) === 16;
+}
+
+function runProcess(
+    command: string,
+    args: string[],
+    onStderr?: (chunk: string) => void,
+): Promise<ProcessResult> {
+    return new Promise((resolve, reject) => {
+        let stdout = '';
+        let stderr = '';
+
+        const child = spawn(command, args, {
+            stdio: ['ignore', 'pipe', 'pipe'],
+            windowsHide: true,
+        });
+
+        child.stdout.on('data', (chunk: Buffer) => {
+            stdout += chunk.toString('utf-8');
+        });
+
+        child.stderr.on('data', (chunk: Buffer) => {
+            const text = chunk.toString('utf-8');
+            stderr = (stderr + text).slice(-STDERR_TAIL_LENGTH);
+            onStderr?.(text);
+        });
+
+        child.on('error', (error) => {
+            reject(new Error(`Failed to run ${path.basename(command)}: ${error.message}`));
+        });
+
+        child.on('close', (code) => {
+            if (code === 0) {
+                resolve({ stdout, stderr });
+                return;
+            }
+            const detail = stderr.trim() ? ` ${stderr.trim()}` : '';
+            reject(new Error(`${path.basename(command)} exited with code ${code ?? 'unknown'}.${detail}`));
+        });
+    });
+}
+
+export class TranscriptionQueue {
+    private readonly options: TranscriptionQueueOptions;
+
+    private readonly pending: Array<TranscriptionJobInput & { jobId: string }> = [];
+
+    private readonly jobs = new Map<string, TranscriptionProgress>();
+
+    private draining: Promise<void> | null = null;
+
+    constructor(options: TranscriptionQueueOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Queue a recording; a note already waiting or running is not queued twice.
+     */
+    enqueue(input: TranscriptionJobInput): TranscriptionProgress {
+        const active = Array.from(this.jobs.values()).find(
+            (job) => job.noteId === input.noteId && job.stage !== 'completed' && job.stage !== 'failed',
+        );
+        if (active) {
+            return active;
+        }
+
+        const jobId = randomUUID();
+        this.pending.push({ ...input, jobId });
+        const queued = this.report({ jobId, noteId: input.noteId, stage: 'queued', percent: null, message: 'Waiting to transcribe' });
+        this.drain();
+        return queued;
+    }
+
+    listJobs(): TranscriptionProgress[] {
+        return Array.from(this.jobs.values());
+    }
+
+    /** Resolves once every queued job has finished. */
+    whenIdle(): Promise<void> {
+        return this.draining ?? Promise.resolve();
+    }
+
+    private drain(): void {
+        if (this.draining) return;
+
+        this.draining = (async () => {
+            try {
+                for (let job = this.pending.shift(); job; job = this.pending.shift()) {
+                    await this.runJob(job);
+                }
+            } finally {
+                this.draining = null;
+            }
+        })();
+    }
+
+    private async runJob(job: TranscriptionJobInput & { jobId: string }): Promise<void> {
+        const base = { jobId: job.jobId, noteId: job.noteId };
+        const wavPath = path.join(this.options.workDir, `${job.jobId}.wav`);
+
+        try {
+            if (!fs.existsSync(job.audioPath)) {
+                throw new Error(`Recording not found: ${job.audioPath}`);
+            }
+            const runtime = await this.options.resolveRuntime();
+
+            this.report({ ...base, stage: 'converting', percent: null, message: 'Converting audio' });
+            let inputPath = job.audioPath;
+            if (!isWhisperReadyWav(job.audioPath)) {
+                fs.mkdirSync(this.options.workDir, { recursive: true });
+                await runProcess(runtime.ffmpegPath || 'ffmpeg', [
+                    '-y',
+                    '-i', job.audioPath,
+                    '-ar', WHISPER_SAMPLE_RATE.toString(),
+                    '-ac', '1',
+                    '-c:a', 'pcm_s16le',
+                    wavPath,
+                ]);
+                inputPath = wavPath;
+            }
+
+            this.report({ ...base, stage: 'transcribing', percent: 0, message: 'Transcribing' });
+            const args = ['-m', runtime.modelPath, '-f', inputPath, '-l', runtime.language || 'auto', '-pp'];
+            if (runtime.threads) {
+                args.push('-t', runtime.threads.toString());
+            }
+            const { stdout } = await runProcess(runtime.binaryPath, args, (chunk) => {
+                const percent = parseWhisperProgress(chunk);
+                if (percent !== null) {
+                    this.report({ ...base, stage: 'transcribing', percent, message: 'Transcribing' });
+                }
+            });
+
+            const segments = parseWhisperOutput(stdout);
+            if (segments.length === 0) {
+                throw new Error('Whisper produced no transcript.');
+            }
+
+            this.report({ ...base, stage: 'saving', percent: 100, message: 'Saving transcript' });
+            await this.options.onComplete({
+                noteId: job.noteId,
+                segments,
+                text: segments.map((segment) => segment.text).join(' '),
+            });
+
+            this.report({ ...base, stage: 'completed', percent: 100, message: 'Transcript saved' });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Transcription failed.';
+            console.error(`[transcription] Job ${job.jobId} for ${job.noteId} failed:`, message);
+            this.report({ ...base, stage: 'failed', percent: null, message: 'Transcription failed', error: message });
+        } finally {
+            if (fs.existsSync(wavPath)) {
+                fs.rmSync(wavPath, { force: true });
+            }
+        }
+    }
+
+    private report(progress: TranscriptionProgress): TranscriptionProgress {
+        this.jobs.set(progress.jobId, progress);
+        this.options.onProgress?.(progress);
+        return progress;
+    }
+}
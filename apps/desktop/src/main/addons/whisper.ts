@@ -24,6 +24,7 @@ import {
     type ResolvedWhisperPackage,
     type WhisperManifest,
 } from './manifest';
+import { type WhisperRuntime } from './transcription';
 
 const ADDON_ID = 'whispercpp';
 const INSTALL_METADATA = 'installed.json';
@@ -694,6 +695,28 @@ export async function installWhisper(
     return getWhisperStatus();
 }
 
+/**
+ * Binary and model paths for transcription, or null when the add-on is not usable.
+ * An ffmpeg shipped inside the add-on package is preferred over the one on PATH.
+ */
+export function getWhisperRuntime(): WhisperRuntime | null {
+    const metadata = loadInstallMetadata();
+    if (!metadata || !metadata.health?.ok) return null;
+    if (!metadata.binaryPath || !fs.existsSync(metadata.binaryPath)) return null;
+    if (!metadata.modelPath || !fs.existsSync(metadata.modelPath)) return null;
+
+    const ffmpegName = process.platform === 'win32' ? 'ffmpeg.exe' : 'ffmpeg';
+    const bundledFfmpeg = fs.existsSync(metadata.installedPath)
+        ? findBinaryRecursive(metadata.installedPath, [ffmpegName])
+        : null;
+
+    return {
+        binaryPath: metadata.binaryPath,
+        modelPath: metadata.modelPath,
+        ffmpegPath: bundledFfmpeg ?? undefined,
+    };
+}
+
 export async function uninstallWhisper(): Promise<WhisperStatus> {
     const installRoot = getInstallRoot();
     removeDir(installRoot);
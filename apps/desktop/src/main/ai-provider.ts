@@ -3,7 +3,12 @@
  * 
  * Supports:
  * - Local: OpenAI-compatible endpoints (LM Studio, Ollama, etc.)
- * - Online: OpenAI, Gemini (future)
+ * - Online: OpenAI, Gemini (generateContent), Anthropic (Messages API)
+ * 
+ * Each provider is an adapter in a registry: it builds the HTTP request for
+ * its wire format and maps the reply, whole or streamed as server-sent
+ * events; sending, error handling and normalization into ChatResponse are
+ * shared. Adapters for OpenAI-compatible services also provide embeddings.
  * 
  * Security:
  * - All API keys/secrets stay in main process
@@ -11,25 +16,28 @@
  * - Logs never print keys
  */
 
-import { net } from 'electron';
-
 // ============================================================================
 // Types
 // ============================================================================
 
 export type ProviderMode = 'local' | 'online';
 
+export type OnlineProviderId = 'openai' | 'gemini' | 'anthropic';
+
 export interface LocalProviderConfig {
     mode: 'local';
     baseUrl: string;  // e.g., http://localhost:1234/v1
     model: string;    // e.g., qwen2.5-coder
+    embeddingModel?: string; // e.g., nomic-embed-text; embeddings are off without one
 }
 
 export interface OnlineProviderConfig {
     mode: 'online';
-    provider: 'openai' | 'gemini';
+    provider: OnlineProviderId;
     apiKey: string;   // NEVER logged or sent to renderer
     model: string;
+    baseUrl?: string; // Overrides the provider's endpoint, e.g. for a proxy
+    embeddingModel?: string; // Overrides the provider's default embedding model
 }
 
 export type ProviderConfig = LocalProviderConfig | OnlineProviderConfig;
@@ -42,6 +50,8 @@ export interface ChatMessage {
 export interface ChatOptions {
     temperature?: number;
     maxTokens?: number;
+    /** Aborts the request, including a stream in progress. */
+    signal?: AbortSignal;
 }
 
 export interface ChatResponse {
@@ -54,6 +64,31 @@ export interface ChatResponse {
     };
 }
 
+export interface EmbeddingResponse {
+    /** One vector per input, in input order. */
+    vectors: number[][];
+    model: string;
+}
+
+export type ChatStreamEvent =
+    | { type: 'delta'; content: string }
+    | { type: 'done'; response: ChatResponse };
+
+export interface ServerSentEvent {
+    event?: string;
+    data: string;
+}
+
+/** What one streamed event contributes to the reply; token counts are running totals. */
+export interface ChatStreamChunk {
+    content?: string;
+    model?: string;
+    promptTokens?: number;
+    completionTokens?: number;
+    /** The provider signalled the end of the stream. */
+    done?: boolean;
+}
+
 export interface TestConnectionResult {
     success: boolean;
     message: string;
@@ -61,97 +96,676 @@ export interface TestConnectionResult {
     model?: string;
 }
 
+/** Where and as whom a request is sent, resolved from a ProviderConfig. */
+export interface ProviderEndpoint {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+}
+
+export interface ProviderRequest {
+    url: string;
+    headers: Record<string, string>;
+    body: unknown;
+}
+
+export interface ProviderAdapter {
+    id: string;
+    label: string;
+    /** Used when the config does not set a base URL. */
+    defaultBaseUrl?: string;
+    requiresApiKey: boolean;
+    buildRequest(endpoint: ProviderEndpoint, messages: ChatMessage[], options: ChatOptions, stream: boolean): ProviderRequest;
+    /** Map a successful response body; `model` falls back to the requested one. */
+    parseResponse(data: unknown): Omit<ChatResponse, 'model'> & { model?: string };
+    /** Map one event of a streamed response; throws on error events. */
+    parseStreamEvent(event: ServerSentEvent): ChatStreamChunk;
+    /** Readable message from an error response body, if the format has one. */
+    parseError(data: unknown): string | undefined;
+    /** Used when the config does not set an embedding model. */
+    defaultEmbeddingModel?: string;
+    /** Only providers with an embeddings endpoint implement these. */
+    buildEmbeddingRequest?(endpoint: ProviderEndpoint, inputs: string[]): ProviderRequest;
+    parseEmbeddingResponse?(data: unknown): Omit<EmbeddingResponse, 'model'> & { model?: string };
+}
+
+/** Safe description of a registered provider for the renderer. */
+export interface ProviderInfo {
+    id: string;
+    label: string;
+    requiresApiKey: boolean;
+    defaultBaseUrl?: string;
+    supportsEmbeddings: boolean;
+    defaultEmbeddingModel?: string;
+}
+
+export type FetchFunction = (
+    url: string,
+    init: { method: 'POST'; headers: Record<string, string>; body: string; signal?: AbortSignal },
+) => Promise<Response>;
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 1024;
+
 // ============================================================================
-// Provider Implementation
+// Message Helpers
 // ============================================================================
 
+type Json = Record<string, unknown>;
+
+function asRecord(value: unknown): Json {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Json : {};
+}
+
 /**
- * Make a chat completion request to an OpenAI-compatible endpoint
+ * Split system messages off for formats that take them separately, and merge
+ * consecutive turns of the same role, which Gemini and Anthropic reject.
  */
-async function chatOpenAICompatible(
-    baseUrl: string,
-    model: string,
-    messages: ChatMessage[],
-    options: ChatOptions = {},
-    apiKey?: string
-): Promise<ChatResponse> {
-    const url = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+function splitSystemMessages(messages: ChatMessage[]): {
+    system?: string;
+    turns: Array<{ role: 'user' | 'assistant'; content: string }>;
+} {
+    const system = messages.filter((message) => message.role === 'system').map((message) => message.content);
+    const turns: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+
+    for (const message of messages) {
+        if (message.role === 'system') {
+            continue;
+        }
+        const previous = turns[turns.length - 1];
+        if (previous && previous.role === message.role) {
+            previous.content = `${previous.content}\n\n${message.content}`;
+        } else {
+            turns.push({ role: message.role, content: message.content });
+        }
+    }
+
+    return { system: system.length > 0 ? system.join('\n\n') : undefined, turns };
+}
+
+function errorMessage(data: unknown): string | undefined {
+    const message = asRecord(asRecord(data).error).message;
+    return typeof message === 'string' ? message : undefined;
+}
+
+function parseEventData(event: ServerSentEvent): Json {
+    try {
+        return asRecord(JSON.parse(event.data));
+    } catch {
+        throw new Error(`Malformed stream event: ${event.data.slice(0, 200)}`);
+    }
+}
+
+function joinUrl(baseUrl: string, path: string): string {
+    return `${baseUrl.replace(/\/$/, '')}${path}`;
+}
 
+// ============================================================================
+// Adapters
+// ============================================================================
+
+function bearerHeaders(apiKey?: string): Record<string, string> {
     const headers: Record<string, string> = {
         'Content-Type': 'application/json',
     };
-
     if (apiKey) {
         headers['Authorization'] = `Bearer ${apiKey}`;
     }
+    return headers;
+}
 
-    const body = JSON.stringify({
-        model,
-        messages,
-        temperature: options.temperature ?? 0.7,
-        max_tokens: options.maxTokens ?? 1024,
-    });
+function openAICompatibleAdapter(id: string, label: string, options: {
+    defaultBaseUrl?: string;
+    defaultEmbeddingModel?: string;
+    requiresApiKey: boolean;
+}): ProviderAdapter {
+    return {
+        id,
+        label,
+        ...options,
+        buildRequest(endpoint, messages, chatOptions, stream) {
+            return {
+                url: joinUrl(endpoint.baseUrl, '/chat/completions'),
+                headers: bearerHeaders(endpoint.apiKey),
+                body: {
+                    model: endpoint.model,
+                    messages,
+                    temperature: chatOptions.temperature ?? DEFAULT_TEMPERATURE,
+                    max_tokens: chatOptions.maxTokens ?? DEFAULT_MAX_TOKENS,
+                    ...(stream ? { stream: true } : {}),
+                },
+            };
+        },
+        parseResponse(data) {
+            const response = data as {
+                choices?: Array<{ message?: { content?: string | null } }>;
+                model?: string;
+                usage?: {
+                    prompt_tokens: number;
+                    completion_tokens: number;
+                    total_tokens: number;
+                };
+            };
+
+            return {
+                content: response.choices?.[0]?.message?.content ?? '',
+                model: response.model,
+                usage: response.usage ? {
+                    promptTokens: response.usage.prompt_tokens,
+                    completionTokens: response.usage.completion_tokens,
+                    totalTokens: response.usage.total_tokens,
+                } : undefined,
+            };
+        },
+        parseStreamEvent(event) {
+            if (event.data.trim() === '[DONE]') {
+                return { done: true };
+            }
+
+            const data = parseEventData(event);
+            const failure = errorMessage(data);
+            if (failure) {
+                throw new Error(failure);
+            }
+
+            const chunk = data as {
+                model?: string;
+                choices?: Array<{ delta?: { content?: string | null } }>;
+                usage?: { prompt_tokens: number; completion_tokens: number } | null;
+            };
+            return {
+                content: chunk.choices?.[0]?.delta?.content ?? undefined,
+                model: chunk.model,
+                promptTokens: chunk.usage?.prompt_tokens,
+                completionTokens: chunk.usage?.completion_tokens,
+            };
+        },
+        parseError: errorMessage,
+        buildEmbeddingRequest(endpoint, inputs) {
+            return {
+                url: joinUrl(endpoint.baseUrl, '/embeddings'),
+                headers: bearerHeaders(endpoint.apiKey),
+                body: { model: endpoint.model, input: inputs },
+            };
+        },
+        parseEmbeddingResponse(data) {
+            const response = data as {
+                data?: Array<{ index?: number; embedding?: number[] }>;
+                model?: string;
+            };
+            // Entries carry their input index; servers are not required to keep order.
+            const entries = [...(response.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+            return {
+                vectors: entries.map((entry) => entry.embedding ?? []),
+                model: response.model,
+            };
+        },
+    };
+}
+
+function parseGeminiResponse(data: unknown): {
+    text: string;
+    modelVersion?: string;
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+} {
+    const response = data as {
+        candidates?: Array<{ content?: { parts?: Array<{ text?: string }> }; finishReason?: string }>;
+        promptFeedback?: { blockReason?: string };
+        modelVersion?: string;
+        usageMetadata?: {
+            promptTokenCount?: number;
+            candidatesTokenCount?: number;
+            totalTokenCount?: number;
+        };
+    };
+
+    const candidate = response.candidates?.[0];
+    if (!candidate) {
+        const reason = response.promptFeedback?.blockReason;
+        throw new Error(reason ? `Gemini blocked the prompt (${reason})` : 'Gemini returned no candidates');
+    }
+
+    return {
+        text: (candidate.content?.parts ?? []).map((part) => part.text ?? '').join(''),
+        modelVersion: response.modelVersion,
+        usageMetadata: response.usageMetadata,
+    };
+}
+
+/**
+ * Google Gemini generateContent: turns are `contents` with `user`/`model`
+ * roles and text parts; system prompts go in `systemInstruction`.
+ */
+const geminiAdapter: ProviderAdapter = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    requiresApiKey: true,
+    buildRequest(endpoint, messages, options, stream) {
+        const { system, turns } = splitSystemMessages(messages);
+        const method = stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+
+        return {
+            url: joinUrl(endpoint.baseUrl, `/models/${encodeURIComponent(endpoint.model)}:${method}`),
+            headers: {
+                'Content-Type': 'application/json',
+                'x-goog-api-key': endpoint.apiKey ?? '',
+            },
+            body: {
+                ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+                contents: turns.map((turn) => ({
+                    role: turn.role === 'assistant' ? 'model' : 'user',
+                    parts: [{ text: turn.content }],
+                })),
+                generationConfig: {
+                    temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+                    maxOutputTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+                },
+            },
+        };
+    },
+    parseResponse(data) {
+        const response = parseGeminiResponse(data);
+        const usage = response.usageMetadata;
+        return {
+            content: response.text,
+            model: response.modelVersion,
+            usage: usage ? {
+                promptTokens: usage.promptTokenCount ?? 0,
+                completionTokens: usage.candidatesTokenCount ?? 0,
+                totalTokens: usage.totalTokenCount ?? 0,
+            } : undefined,
+        };
+    },
+    // Each streamed event is a partial GenerateContentResponse.
+    parseStreamEvent(event) {
+        const data = parseEventData(event);
+        const failure = errorMessage(data);
+        if (failure) {
+            throw new Error(failure);
+        }
+
+        const response = parseGeminiResponse(data);
+        return {
+            content: response.text || undefined,
+            model: response.modelVersion,
+            promptTokens: response.usageMetadata?.promptTokenCount,
+            completionTokens: response.usageMetadata?.candidatesTokenCount,
+        };
+    },
+    parseError: errorMessage,
+};
 
-    // Use Electron's net module for better security
-    const response = await fetch(url, {
+/**
+ * Anthropic Messages API: a top-level `system` string, strictly alternating
+ * turns and text content blocks in the reply.
+ */
+const anthropicAdapter: ProviderAdapter = {
+    id: 'anthropic',
+    label: 'Anthropic',
+    defaultBaseUrl: 'https://api.anthropic.com/v1',
+    requiresApiKey: true,
+    buildRequest(endpoint, messages, options, stream) {
+        const { system, turns } = splitSystemMessages(messages);
+
+        return {
+            url: joinUrl(endpoint.baseUrl, '/messages'),
+            headers: {
+                'Content-Type': 'application/json',
+                'x-api-key': endpoint.apiKey ?? '',
+                'anthropic-version': '2023-06-01',
+            },
+            body: {
+                model: endpoint.model,
+                max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+                temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+                ...(system ? { system } : {}),
+                messages: turns,
+                ...(stream ? { stream: true } : {}),
+            },
+        };
+    },
+    parseResponse(data) {
+        const response = data as {
+            model?: string;
+            content?: Array<{ type: string; text?: string }>;
+            usage?: { input_tokens: number; output_tokens: number };
+        };
+
+        return {
+            content: (response.content ?? [])
+                .filter((block) => block.type === 'text')
+                .map((block) => block.text ?? '')
+                .join(''),
+            model: response.model,
+            usage: response.usage ? {
+                promptTokens: response.usage.input_tokens,
+                completionTokens: response.usage.output_tokens,
+                totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+            } : undefined,
+        };
+    },
+    // Named events: message_start, content_block_delta, message_delta, message_stop, error, ping.
+    parseStreamEvent(event) {
+        const data = parseEventData(event);
+        switch (data.type ?? event.event) {
+            case 'message_start': {
+                const message = asRecord(data.message) as { model?: string; usage?: { input_tokens?: number; output_tokens?: number } };
+                return {
+                    model: message.model,
+                    promptTokens: message.usage?.input_tokens,
+                    completionTokens: message.usage?.output_tokens,
+                };
+            }
+            case 'content_block_delta': {
+                const delta = asRecord(data.delta);
+                return delta.type === 'text_delta' && typeof delta.text === 'string' ? { content: delta.text } : {};
+            }
+            case 'message_delta': {
+                const usage = asRecord(data.usage);
+                return typeof usage.output_tokens === 'number' ? { completionTokens: usage.output_tokens } : {};
+            }
+            case 'message_stop':
+                return { done: true };
+            case 'error':
+                throw new Error(errorMessage(data) ?? 'Anthropic stream failed');
+            default:
+                return {};
+        }
+    },
+    parseError: errorMessage,
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const providers = new Map<string, ProviderAdapter>();
+
+/**
+ * Add or replace a provider adapter. Online configs pick one by `provider`;
+ * local configs always use the `local` adapter.
+ */
+export function registerProvider(adapter: ProviderAdapter): void {
+    providers.set(adapter.id, adapter);
+}
+
+export function getProvider(id: string): ProviderAdapter {
+    const adapter = providers.get(id);
+    if (!adapter) {
+        throw new Error(`Unknown provider: ${id}`);
+    }
+    return adapter;
+}
+
+export function listProviders(): ProviderInfo[] {
+    return Array.from(providers.values(), (adapter) => ({
+        id: adapter.id,
+        label: adapter.label,
+        requiresApiKey: adapter.requiresApiKey,
+        defaultBaseUrl: adapter.defaultBaseUrl,
+        supportsEmbeddings: Boolean(adapter.buildEmbeddingRequest),
+        defaultEmbeddingModel: adapter.defaultEmbeddingModel,
+    }));
+}
+
+registerProvider(openAICompatibleAdapter('local', 'OpenAI-compatible (local)', { requiresApiKey: false }));
+registerProvider(openAICompatibleAdapter('openai', 'OpenAI', {
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    defaultEmbeddingModel: 'text-embedding-3-small',
+    requiresApiKey: true,
+}));
+registerProvider(geminiAdapter);
+registerProvider(anthropicAdapter);
+
+function resolveProvider(config: ProviderConfig): { adapter: ProviderAdapter; endpoint: ProviderEndpoint } {
+    if (config.mode === 'local') {
+        return { adapter: getProvider('local'), endpoint: { baseUrl: config.baseUrl, model: config.model } };
+    }
+
+    const adapter = getProvider(config.provider);
+    const baseUrl = config.baseUrl || adapter.defaultBaseUrl;
+    if (!baseUrl) {
+        throw new Error(`Base URL is required for ${adapter.label}`);
+    }
+    return { adapter, endpoint: { baseUrl, model: config.model, apiKey: config.apiKey } };
+}
+
+/**
+ * The embedding model a config would use, or undefined when its provider has
+ * no embeddings endpoint or no model is set.
+ */
+export function getEmbeddingModel(config: ProviderConfig): string | undefined {
+    const adapter = providers.get(config.mode === 'local' ? 'local' : config.provider);
+    if (!adapter?.buildEmbeddingRequest) {
+        return undefined;
+    }
+    return config.embeddingModel?.trim() || adapter.defaultEmbeddingModel;
+}
+
+// ============================================================================
+// Provider Implementation
+// ============================================================================
+
+async function send(
+    adapter: ProviderAdapter,
+    request: ProviderRequest,
+    fetchImpl: FetchFunction,
+    signal?: AbortSignal
+): Promise<Response> {
+    const response = await fetchImpl(request.url, {
         method: 'POST',
-        headers,
-        body,
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+        ...(signal ? { signal } : {}),
     });
 
     if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`API request failed: ${response.status} - ${errorText}`);
+        let detail: string | undefined;
+        try {
+            detail = adapter.parseError(JSON.parse(errorText));
+        } catch {
+            detail = undefined;
+        }
+        throw new Error(`API request failed: ${response.status} - ${detail ?? errorText}`);
     }
 
-    const data = await response.json() as {
-        choices: Array<{ message: { content: string } }>;
-        model: string;
-        usage?: {
-            prompt_tokens: number;
-            completion_tokens: number;
-            total_tokens: number;
-        };
-    };
+    return response;
+}
 
-    return {
-        content: data.choices[0]?.message?.content ?? '',
-        model: data.model,
-        usage: data.usage ? {
-            promptTokens: data.usage.prompt_tokens,
-            completionTokens: data.usage.completion_tokens,
-            totalTokens: data.usage.total_tokens,
-        } : undefined,
+/**
+ * Split a `text/event-stream` body into events. Comments are skipped and
+ * multi-line `data` fields are joined with newlines.
+ */
+export async function* parseServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let eventName: string | undefined;
+    let data: string[] = [];
+
+    const takeEvent = (): ServerSentEvent | null => {
+        const event = data.length > 0 ? { ...(eventName ? { event: eventName } : {}), data: data.join('\n') } : null;
+        eventName = undefined;
+        data = [];
+        return event;
     };
+
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+            const lines = buffer.split(/\r\n|\r|\n/);
+            // The last piece may be a partial line; keep it until more bytes arrive.
+            buffer = done ? '' : lines.pop() ?? '';
+
+            for (const line of lines) {
+                if (line === '') {
+                    const event = takeEvent();
+                    if (event) {
+                        yield event;
+                    }
+                    continue;
+                }
+                if (line.startsWith(':')) {
+                    continue;
+                }
+                const colon = line.indexOf(':');
+                const field = colon === -1 ? line : line.slice(0, colon);
+                const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+                if (field === 'data') {
+                    data.push(value);
+                } else if (field === 'event') {
+                    eventName = value;
+                }
+            }
+
+            if (done) {
+                const event = takeEvent();
+                if (event) {
+                    yield event;
+                }
+                return;
+            }
+        }
+    } finally {
+        // Frees the connection when the consumer stops early.
+        await reader.cancel().catch(() => undefined);
+    }
 }
 
 /**
- * Send a chat request using the configured provider
+ * Send a chat request using the configured provider. `fetchImpl` is only
+ * replaced in tests, where recorded responses stand in for the services.
  */
 export async function chat(
     config: ProviderConfig,
     messages: ChatMessage[],
-    options: ChatOptions = {}
+    options: ChatOptions = {},
+    fetchImpl: FetchFunction = fetch
 ): Promise<ChatResponse> {
-    if (config.mode === 'local') {
-        return chatOpenAICompatible(config.baseUrl, config.model, messages, options);
-    } else {
-        // Online providers
-        if (config.provider === 'openai') {
-            return chatOpenAICompatible(
-                'https://api.openai.com/v1',
-                config.model,
-                messages,
-                options,
-                config.apiKey
-            );
-        } else if (config.provider === 'gemini') {
-            // TODO: Implement Gemini API (different format)
-            throw new Error('Gemini provider not yet implemented');
-        } else {
-            throw new Error(`Unknown provider: ${(config as OnlineProviderConfig).provider}`);
+    const { adapter, endpoint } = resolveProvider(config);
+    const request = adapter.buildRequest(endpoint, messages, options, false);
+    const response = await send(adapter, request, fetchImpl, options.signal);
+
+    let data: unknown;
+    try {
+        data = JSON.parse(await response.text());
+    } catch {
+        throw new Error(`${adapter.label} returned a response that is not JSON`);
+    }
+
+    const reply = adapter.parseResponse(data);
+    return {
+        content: reply.content,
+        model: reply.model || endpoint.model,
+        ...(reply.usage ? { usage: reply.usage } : {}),
+    };
+}
+
+/**
+ * Stream a chat reply: yields each text delta as it arrives, then one `done`
+ * event with the whole reply normalized like `chat()`. Aborting
+ * `options.signal` ends the stream with a "Chat stopped" error.
+ */
+export async function* streamChat(
+    config: ProviderConfig,
+    messages: ChatMessage[],
+    options: ChatOptions = {},
+    fetchImpl: FetchFunction = fetch
+): AsyncGenerator<ChatStreamEvent> {
+    const { adapter, endpoint } = resolveProvider(config);
+    const request = adapter.buildRequest(endpoint, messages, options, true);
+
+    let content = '';
+    let model: string | undefined;
+    let promptTokens: number | undefined;
+    let completionTokens: number | undefined;
+
+    try {
+        const response = await send(adapter, request, fetchImpl, options.signal);
+        if (!response.body) {
+            throw new Error(`${adapter.label} returned an empty stream`);
+        }
+
+        for await (const event of parseServerSentEvents(response.body)) {
+            // The consumer may abort while a delta is being handled; stop before reading on.
+            options.signal?.throwIfAborted();
+            const chunk = adapter.parseStreamEvent(event);
+            model = chunk.model || model;
+            promptTokens = chunk.promptTokens ?? promptTokens;
+            completionTokens = chunk.completionTokens ?? completionTokens;
+            if (chunk.content) {
+                content += chunk.content;
+                yield { type: 'delta', content: chunk.content };
+            }
+            if (chunk.done) {
+                break;
+            }
+        }
+    } catch (error) {
+        if (options.signal?.aborted) {
+            throw new Error('Chat stopped');
         }
+        throw error;
+    }
+
+    const hasUsage = promptTokens !== undefined || completionTokens !== undefined;
+    yield {
+        type: 'done',
+        response: {
+            content,
+            model: model || endpoint.model,
+            ...(hasUsage ? {
+                usage: {
+                    promptTokens: promptTokens ?? 0,
+                    completionTokens: completionTokens ?? 0,
+                    totalTokens: (promptTokens ?? 0) + (completionTokens ?? 0),
+                },
+            } : {}),
+        },
+    };
+}
+
+/**
+ * Embed `inputs` with the config's embedding model. Fails when the provider
+ * has no embeddings endpoint or no embedding model is set.
+ */
+export async function embed(
+    config: ProviderConfig,
+    inputs: string[],
+    options: { signal?: AbortSignal } = {},
+    fetchImpl: FetchFunction = fetch
+): Promise<EmbeddingResponse> {
+    const { adapter, endpoint } = resolveProvider(config);
+    const model = getEmbeddingModel(config);
+    if (!adapter.buildEmbeddingRequest || !adapter.parseEmbeddingResponse) {
+        throw new Error(`${adapter.label} does not provide embeddings`);
     }
+    if (!model) {
+        throw new Error('Set an embedding model in Voice & AI first');
+    }
+    if (inputs.length === 0) {
+        return { vectors: [], model };
+    }
+
+    const request = adapter.buildEmbeddingRequest({ ...endpoint, model }, inputs);
+    const response = await send(adapter, request, fetchImpl, options.signal);
+
+    let data: unknown;
+    try {
+        data = JSON.parse(await response.text());
+    } catch {
+        throw new Error(`${adapter.label} returned a response that is not JSON`);
+    }
+
+    const reply = adapter.parseEmbeddingResponse(data);
+    if (reply.vectors.length !== inputs.length || reply.vectors.some((vector) => vector.length === 0)) {
+        throw new Error(`${adapter.label} returned ${reply.vectors.length} embedding(s) for ${inputs.length} input(s)`);
+    }
+    return { vectors: reply.vectors, model: reply.model || model };
 }
 
 /**
@@ -205,12 +819,15 @@ export function getSafeConfigForLogging(config: ProviderConfig): Record<string,
             mode: config.mode,
             baseUrl: config.baseUrl,
             model: config.model,
+            ...(config.embeddingModel ? { embeddingModel: config.embeddingModel } : {}),
         };
     } else {
         return {
             mode: config.mode,
             provider: config.provider,
             model: config.model,
+            ...(config.baseUrl ? { baseUrl: config.baseUrl } : {}),
+            ...(config.embeddingModel ? { embeddingModel: config.embeddingModel } : {}),
             apiKey: '[REDACTED]',
         };
     }
@@ -231,9 +848,16 @@ export function validateConfig(config: ProviderConfig): { valid: boolean; error?
             return { valid: false, error: 'Model is required' };
         }
     } else {
-        if (!config.apiKey) {
+        const adapter = providers.get(config.provider);
+        if (!adapter || adapter.id === 'local') {
+            return { valid: false, error: `Unknown provider: ${config.provider}` };
+        }
+        if (!config.apiKey && adapter.requiresApiKey) {
             return { valid: false, error: 'API key is required for online mode' };
         }
+        if (config.baseUrl && !config.baseUrl.startsWith('http://') && !config.baseUrl.startsWith('https://')) {
+            return { valid: false, error: 'Base URL must start with http:// or https://' };
+        }
         if (!config.model) {
             return { valid: false, error: 'Model is required' };
         }
@@ -0,0 +1,135 @@
+/**
+ * Organize
+ *
+ * Asks the configured AI provider to propose a changeset for selected atoms.
+ * The model answers with the `summary` and `changes` of a ChangeSet only; the
+ * envelope (id, provider, input) is filled in here and the result is checked
+ * against the changeset schema before anything is recorded. Nothing is applied
+ * until the user accepts individual changes.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { CHANGESET_SCHEMA_VERSION, parseChangeSet, type ChangeSet } from '@seedworld/core';
+import type { ChatMessage, ChatOptions, ChatResponse, ProviderConfig } from './ai-provider';
+
+export interface OrganizeAtom {
+    atomId: string;
+    title: string;
+    body: string;
+}
+
+export interface OrganizeRequest {
+    atoms: OrganizeAtom[];
+    instruction?: string;
+}
+
+export type ChatFunction = (messages: ChatMessage[], options?: ChatOptions) => Promise<ChatResponse>;
+
+const CHANGE_SECTIONS = ['adds', 'edits', 'links', 'merges', 'conflicts'] as const;
+
+const SYSTEM_PROMPT = `You organize a personal knowledge base of short notes.
+Reply with a single JSON object and nothing else:
+{
+  "summary": "one sentence describing the proposal",
+  "changes": {
+    "adds": [{ "id": "add-1", "kind": "note|structure|concept", "title": "...", "content": "markdown", "evidence": { "noteIds": ["..."], "excerpts": ["..."] }, "confidence": 0.0 }],
+    "edits": [{ "targetId": "<note id>", "targetKind": "note|structure|concept", "patchFormat": "replace-section", "patch": { "heading": "...", "content": "..." }, "rationale": "...", "evidence": { "noteIds": ["..."] }, "confidence": 0.0 }],
+    "links": [{ "sourceId": "...", "targetId": "...", "relation": "supports|contradicts|derives|part_of|similar_to|causes|regulated_by|defines", "note": "...", "evidence": { "noteIds": ["..."] }, "confidence": 0.0 }],
+    "merges": [{ "mergeId": "merge-1", "strategy": "create-new|merge-into-existing", "fromIds": ["...", "..."], "into": { "kind": "structure|concept", "id": "<existing id for merge-into-existing>", "title": "...", "content": "..." }, "rationale": "...", "evidence": { "noteIds": ["..."] }, "confidence": 0.0 }],
+    "conflicts": [{ "conflictId": "conflict-1", "type": "contradiction|duplication|ambiguity", "items": [{ "refType": "note", "refId": "...", "claim": "..." }, { "refType": "note", "refId": "...", "claim": "..." }], "explanation": "...", "resolutionOptions": [{ "optionId": "a", "title": "..." }], "evidence": { "noteIds": ["..."] }, "confidence": 0.0 }]
+  }
+}
+Rules:
+- Refer to notes only by the ids given. Links and merges may also use the id of an item in "adds".
+- Every change cites the notes it is based on in evidence.noteIds; confidence is between 0 and 1.
+- Edits use "replace-section" with { "heading", "content" }, or "unified" with a unified diff string.
+- Leave a section as an empty array when you have nothing to propose. Never invent facts.`;
+
+/**
+ * Describe the provider for the changeset's audit trail (no credentials).
+ */
+export function describeProvider(config: ProviderConfig): ChangeSet['provider'] {
+    if (config.mode === 'local') {
+        return { mode: 'local', name: 'openai-compatible', model: config.model, baseUrl: config.baseUrl };
+    }
+    return { mode: 'online', name: config.provider, model: config.model };
+}
+
+export function buildOrganizeMessages(request: OrganizeRequest): ChatMessage[] {
+    const notes = request.atoms
+        .map((atom) => `--- note ${atom.atomId}\nTitle: ${atom.title}\n\n${atom.body.trim()}`)
+        .join('\n\n');
+    const instruction = request.instruction?.trim()
+        || 'Suggest structures, links and merges that make these notes easier to find and build on.';
+
+    return [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: `${instruction}\n\n${notes}` },
+    ];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Pull the JSON object out of a model reply, tolerating code fences and
+ * prose around it.
+ */
+export function extractJsonObject(reply: string): Record<string, unknown> {
+    const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const text = fenced ? fenced[1] : reply;
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+        throw new Error('AI reply did not contain a JSON object');
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text.slice(start, end + 1));
+    } catch (error) {
+        throw new Error(`AI reply is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!isRecord(parsed)) {
+        throw new Error('AI reply did not contain a JSON object');
+    }
+    return parsed;
+}
+
+/**
+ * Ask the provider for a changeset covering `request.atoms` and validate it.
+ * Throws with the failing schema path when the reply does not conform.
+ */
+export async function requestChangeset(args: {
+    chat: ChatFunction;
+    provider: ChangeSet['provider'];
+    request: OrganizeRequest;
+}): Promise<ChangeSet> {
+    if (args.request.atoms.length === 0) {
+        throw new Error('Select at least one note to organize');
+    }
+
+    const response = await args.chat(buildOrganizeMessages(args.request), { temperature: 0.2, maxTokens: 4096 });
+    const reply = extractJsonObject(response.content);
+
+    // Models often drop empty sections; an omitted section means "nothing proposed".
+    const proposed = reply.changes;
+    const changes = isRecord(proposed)
+        ? Object.fromEntries(CHANGE_SECTIONS.map((section) => [section, proposed[section] ?? []]))
+        : proposed;
+
+    const instruction = args.request.instruction?.trim();
+    return parseChangeSet({
+        schemaVersion: CHANGESET_SCHEMA_VERSION,
+        id: `cs_${Date.now()}_${randomUUID().slice(0, 8)}`,
+        createdAt: new Date().toISOString(),
+        provider: { ...args.provider, model: response.model || args.provider.model },
+        input: {
+            noteIds: args.request.atoms.map((atom) => atom.atomId),
+            ...(instruction ? { instruction } : {}),
+        },
+        summary: reply.summary,
+        changes,
+    });
+}
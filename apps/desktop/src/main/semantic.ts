@@ -0,0 +1,133 @@
+/**
+ * Semantic search
+ *
+ * Keeps one embedding per active atom next to the projection in state.db and
+ * ranks atoms by cosine similarity to a query or to another atom. Embeddings
+ * are refreshed incrementally: an atom is embedded again only when its title,
+ * body or the embedding model changed, and rows for atoms that are no longer
+ * active are dropped.
+ */
+
+import { createHash } from 'node:crypto';
+import type { AtomRecord } from '@seedworld/core';
+
+/** Longer atoms are cut before embedding; most embedding models cap input at a few thousand tokens. */
+const MAX_EMBEDDING_CHARS = 8000;
+
+const DEFAULT_BATCH_SIZE = 32;
+
+export interface AtomEmbedding {
+    atomId: string;
+    model: string;
+    /** Hash of the embedded text and model, used to skip unchanged atoms. */
+    contentHash: string;
+    vector: Float32Array;
+    updatedAtMs: number;
+}
+
+/** Where embeddings are kept; the desktop SQLite adapter implements it. */
+export interface EmbeddingStore {
+    listEmbeddings(): Promise<AtomEmbedding[]>;
+    saveEmbeddings(embeddings: AtomEmbedding[]): Promise<void>;
+    deleteEmbeddings(atomIds: string[]): Promise<void>;
+}
+
+export interface Embedder {
+    model: string;
+    embed(inputs: string[]): Promise<number[][]>;
+}
+
+export interface SemanticMatch {
+    atomId: string;
+    title: string;
+    preview: string;
+    /** Cosine similarity, from -1 to 1. */
+    score: number;
+}
+
+export type EmbeddableAtom = Pick<AtomRecord, 'atomId' | 'title' | 'body' | 'status'>;
+
+export function embeddingText(atom: Pick<AtomRecord, 'title' | 'body'>): string {
+    return `${atom.title}\n\n${atom.body}`.trim().slice(0, MAX_EMBEDDING_CHARS);
+}
+
+function contentHash(model: string, text: string): string {
+    return createHash('sha256').update(`${model}\n${text}`).digest('hex');
+}
+
+/**
+ * Bring the store up to date with the active atoms. Returns how many atoms
+ * were embedded and how many stale rows were removed.
+ */
+export async function refreshEmbeddings(input: {
+    atoms: EmbeddableAtom[];
+    store: EmbeddingStore;
+    embedder: Embedder;
+    batchSize?: number;
+}): Promise<{ embedded: number; removed: number }> {
+    const { store, embedder } = input;
+    const existing = new Map((await store.listEmbeddings()).map((entry) => [entry.atomId, entry]));
+    const active = input.atoms.filter((atom) => atom.status === 'active');
+
+    const pending = active
+        .map((atom) => {
+            const text = embeddingText(atom);
+            return { atomId: atom.atomId, text, hash: contentHash(embedder.model, text) };
+        })
+        .filter((entry) => entry.text && existing.get(entry.atomId)?.contentHash !== entry.hash);
+
+    const activeIds = new Set(active.map((atom) => atom.atomId));
+    const stale = [...existing.keys()].filter((atomId) => !activeIds.has(atomId));
+    if (stale.length > 0) {
+        await store.deleteEmbeddings(stale);
+    }
+
+    const batchSize = input.batchSize ?? DEFAULT_BATCH_SIZE;
+    for (let start = 0; start < pending.length; start += batchSize) {
+        const batch = pending.slice(start, start + batchSize);
+        const vectors = await embedder.embed(batch.map((entry) => entry.text));
+        const now = Date.now();
+        // Saved per batch so an interrupted refresh keeps what it already paid for.
+        await store.saveEmbeddings(batch.map((entry, index) => ({
+            atomId: entry.atomId,
+            model: embedder.model,
+            contentHash: entry.hash,
+            vector: Float32Array.from(vectors[index]),
+            updatedAtMs: now,
+        })));
+    }
+
+    return { embedded: pending.length, removed: stale.length };
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    if (a.length !== b.length) {
+        return 0;
+    }
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let index = 0; index < a.length; index += 1) {
+        dot += a[index] * b[index];
+        normA += a[index] * a[index];
+        normB += b[index] * b[index];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Atoms closest to `vector`, best first. Embeddings from another model (or of
+ * another size) are skipped; they are replaced on the next refresh.
+ */
+export function rankBySimilarity(
+    vector: ArrayLike<number>,
+    embeddings: AtomEmbedding[],
+    options: { model: string; limit: number; excludeAtomIds?: string[] }
+): Array<{ atomId: string; score: number }> {
+    const excluded = new Set(options.excludeAtomIds ?? []);
+    return embeddings
+        .filter((entry) => entry.model === options.model && !excluded.has(entry.atomId) && entry.vector.length === vector.length)
+        .map((entry) => ({ atomId: entry.atomId, score: cosineSimilarity(vector, entry.vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.limit);
+}
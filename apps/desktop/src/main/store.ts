@@ -33,6 +33,9 @@ export interface SyncConfig {
     deviceId: string;
     token: string;
     tokenExpiresAtMs: number;
+    /** Absent for dev sign-ins, whose tokens cannot be renewed. */
+    refreshToken?: string;
+    refreshExpiresAtMs?: number;
     importMode?: 'restore' | 'clone';
 }
 
@@ -49,6 +52,8 @@ export interface AppPreferences {
     themeMode: ThemeMode;
     language: AppLanguage;
     experimentalFeaturesEnabled: boolean;
+    /** Keep the event log as per-device files in the vault, for syncing through a cloud folder. */
+    vaultEventLogEnabled: boolean;
 }
 
 const STORE_FILENAME = 'world-seed-settings.json';
@@ -88,6 +93,7 @@ function ensureAppPreferences(data: StoreData): AppPreferences {
             : 'system',
         language: existing?.language === 'zh-Hant' ? 'zh-Hant' : 'en',
         experimentalFeaturesEnabled: existing?.experimentalFeaturesEnabled === true,
+        vaultEventLogEnabled: existing?.vaultEventLogEnabled === true,
     };
     data.appPreferences = next;
     return next;
@@ -120,6 +126,7 @@ function loadStore(): StoreData {
             themeMode: 'system',
             language: 'en',
             experimentalFeaturesEnabled: false,
+            vaultEventLogEnabled: false,
         },
     };
 }
@@ -266,7 +273,7 @@ export function setLocalWorkspace(localWorkspace: Partial<LocalWorkspace>): Loca
 }
 
 // ============================================================================
-// App Preferences (Theme / Language / Experimental)
+// App Preferences (Theme / Language / Experimental / Vault Event Log)
 // ============================================================================
 
 export function getAppPreferences(): AppPreferences {
@@ -302,3 +309,12 @@ export function setExperimentalFeaturesEnabled(enabled: boolean): AppPreferences
     saveStore(data);
     return preferences;
 }
+
+export function setVaultEventLogEnabled(enabled: boolean): AppPreferences {
+    const data = loadStore();
+    const preferences = ensureAppPreferences(data);
+    preferences.vaultEventLogEnabled = enabled;
+    data.appPreferences = preferences;
+    saveStore(data);
+    return preferences;
+}
@@ -0,0 +1,30 @@
+export function extensionFromContentType(contentType: string): string {
+  const normalized = contentType.toLowerCase();
+  if (normalized.includes('png')) return '.png';
+  if (normalized.includes('jpeg') || normalized.includes('jpg')) return '.jpg';
+  if (normalized.includes('webp')) return '.webp';
+  if (normalized.includes('webm')) return '.webm';
+  if (normalized.includes('mp4')) return '.mp4';
+  if (normalized.includes('mpeg')) return '.mp3';
+  if (normalized.includes('wav')) return '.wav';
+  if (normalized.includes('ogg')) return '.ogg';
+  return '.bin';
+}
+
+export function audioContentTypeFromExtension(extension: string): string {
+  switch (extension.replace(/^\./, '').toLowerCase()) {
+    case 'webm':
+      return 'audio/webm';
+    case 'ogg':
+      return 'audio/ogg';
+    case 'mp4':
+    case 'm4a':
+      return 'audio/mp4';
+    case 'mp3':
+      return 'audio/mpeg';
+    case 'wav':
+      return 'audio/wav';
+    default:
+      return 'application/octet-stream';
+  }
+}
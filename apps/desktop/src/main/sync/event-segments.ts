@@ -0,0 +1,212 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { migrateEvent, type Event, type StoredEvent } from '@seedworld/core';
+
+/** Events per segment before the next one is started, so no single file grows without bound. */
+const SEGMENT_EVENT_LIMIT = 1000;
+
+/** Zero-padded, so segments sort by name in the order they were written. */
+function segmentFileName(index: number): string {
+  return `${String(index).padStart(6, '0')}.jsonl`;
+}
+
+export function isEventSegmentFile(fileName: string): boolean {
+  return /^\d{6}\.jsonl$/.test(fileName);
+}
+
+/** Sync bookkeeping and the server's sequence are this device's business, not part of the event. */
+function toSegmentEvent(event: StoredEvent): Event {
+  const {
+    syncStatus: _syncStatus,
+    errorCode: _errorCode,
+    errorMessage: _errorMessage,
+    serverSeq: _serverSeq,
+    ...immutable
+  } = event;
+  return immutable;
+}
+
+function readBytes(filePath: string, offset: number, length: number): Buffer {
+  const bytes = Buffer.alloc(length);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    let read = 0;
+    while (read < length) {
+      const count = fs.readSync(fd, bytes, read, length - read, offset + read);
+      if (count === 0) {
+        break;
+      }
+      read += count;
+    }
+    return bytes.subarray(0, read);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** Whether the file is missing, empty or ends a line; only its last byte is read. */
+function endsWithNewline(filePath: string): boolean {
+  const size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  return size === 0 || readBytes(filePath, size - 1, 1)[0] === 0x0a;
+}
+
+function segmentLines(filePath: string): string[] {
+  return fs.readFileSync(filePath, 'utf-8').split('\n').filter((line) => line.trim());
+}
+
+/**
+ * The event log as append-only JSONL segments in the vault, one folder per
+ * device: `<eventsDir>/<deviceId>/000001.jsonl`. A device only ever appends
+ * to its own folder, so a cloud folder never has to merge two versions of a
+ * file, and every device converges by reading all folders.
+ */
+export class EventSegmentLog {
+  readonly eventsDir: string;
+
+  private readonly deviceId: string;
+
+  // Ids of this device's events already in its segments, read on first append.
+  private written: Set<string> | null = null;
+
+  // Bytes of each segment already read, so a merge only parses what was appended since.
+  private readonly readOffsets = new Map<string, number>();
+
+  private segmentIndex = 1;
+
+  private segmentEvents = 0;
+
+  constructor(options: { eventsDir: string; deviceId: string }) {
+    this.eventsDir = options.eventsDir;
+    this.deviceId = options.deviceId;
+  }
+
+  /** Append this device's events that are not in its segments yet. Returns how many were written. */
+  append(events: StoredEvent[]): number {
+    const written = this.loadWritten();
+    const pending = events.filter((event) => event.deviceId === this.deviceId && !written.has(event.eventId));
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    const deviceDir = path.join(this.eventsDir, this.deviceId);
+    fs.mkdirSync(deviceDir, { recursive: true });
+    let lines: string[] = [];
+    const flush = () => {
+      if (lines.length === 0) {
+        return;
+      }
+      const filePath = path.join(deviceDir, segmentFileName(this.segmentIndex));
+      // A line cut off by a crash is skipped on read; start on a fresh line after it.
+      const separator = endsWithNewline(filePath) ? '' : '\n';
+      fs.appendFileSync(filePath, `${separator}${lines.join('\n')}\n`);
+      lines = [];
+    };
+
+    for (const event of pending) {
+      if (this.segmentEvents >= SEGMENT_EVENT_LIMIT) {
+        flush();
+        this.segmentIndex += 1;
+        this.segmentEvents = 0;
+      }
+      lines.push(JSON.stringify(toSegmentEvent(event)));
+      this.segmentEvents += 1;
+      written.add(event.eventId);
+    }
+    flush();
+    return pending.length;
+  }
+
+  /**
+   * Events appended to any device's segments since the last read. Only
+   * complete lines are read: a segment may still be arriving through the
+   * cloud folder, and the rest of it is read on the next change. Complete
+   * lines that do not parse are skipped.
+   */
+  readNew(): Event[] {
+    const events: Event[] = [];
+    let skipped = 0;
+    for (const deviceId of this.listDevices()) {
+      for (const filePath of this.listSegments(deviceId)) {
+        const size = fs.statSync(filePath).size;
+        let offset = this.readOffsets.get(filePath) ?? 0;
+        if (size < offset) {
+          // Replaced by a shorter copy; read it again from the start.
+          offset = 0;
+        }
+        if (size === offset) {
+          continue;
+        }
+
+        const bytes = readBytes(filePath, offset, size - offset);
+        const end = bytes.lastIndexOf(0x0a);
+        if (end < 0) {
+          continue;
+        }
+        for (const line of bytes.subarray(0, end).toString('utf-8').split('\n')) {
+          if (!line.trim()) {
+            continue;
+          }
+          try {
+            events.push(migrateEvent(JSON.parse(line)));
+          } catch {
+            skipped += 1;
+          }
+        }
+        this.readOffsets.set(filePath, offset + end + 1);
+      }
+    }
+    if (skipped > 0) {
+      console.warn(`[event-segments] Skipped ${skipped} unreadable event line(s)`);
+    }
+    return events;
+  }
+
+  /** Forget what was read, so the next `readNew` returns every event again. */
+  rewind(): void {
+    this.readOffsets.clear();
+  }
+
+  private listDevices(): string[] {
+    if (!fs.existsSync(this.eventsDir)) {
+      return [];
+    }
+    return fs.readdirSync(this.eventsDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map((entry) => entry.name)
+      .sort();
+  }
+
+  private listSegments(deviceId: string): string[] {
+    const deviceDir = path.join(this.eventsDir, deviceId);
+    if (!fs.existsSync(deviceDir)) {
+      return [];
+    }
+    return fs.readdirSync(deviceDir)
+      .filter(isEventSegmentFile)
+      .sort()
+      .map((fileName) => path.join(deviceDir, fileName));
+  }
+
+  private loadWritten(): Set<string> {
+    if (this.written) {
+      return this.written;
+    }
+
+    const written = new Set<string>();
+    const segments = this.listSegments(this.deviceId);
+    for (const filePath of segments) {
+      const lines = segmentLines(filePath);
+      for (const line of lines) {
+        try {
+          written.add((JSON.parse(line) as { eventId: string }).eventId);
+        } catch {
+          // Not recorded, so the next append writes the event again.
+        }
+      }
+      this.segmentIndex = Number(path.basename(filePath, '.jsonl'));
+      this.segmentEvents = lines.length;
+    }
+    this.written = written;
+    return written;
+  }
+}
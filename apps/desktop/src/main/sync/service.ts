@@ -5,27 +5,145 @@ import {
   buildExportSnapshot,
   createDisabledSyncTransport,
   createHttpSyncTransport,
+  eventAtomId,
   generateEventId,
+  linksForAtom,
+  mergeText,
   migrateEvent,
+  normalizeTag,
+  type AtomLinks,
   type BlobManifestEntry,
+  type ChangeReviewDecision,
+  type ChangeSet,
+  type ChangeSetState,
+  type ConflictRecord,
+  type AtomRecord,
+  type AtomVersion,
+  type AuthSession,
+  type ConflictResolution,
   type DeviceState,
   type ExportSnapshot,
   type ImportMode,
+  type LinkRelation,
+  type SearchOptions,
+  type SearchResults,
   type SyncStatus,
   type StoredEvent,
   SyncEngine,
+  SyncScheduler,
+  type SyncSchedulerState,
   validateImportBundle,
 } from '@seedworld/core';
-import { ensureVaultStructure, saveNote } from '../vault';
-import { DesktopSqliteStorageAdapter } from './sqlite-adapter';
+import {
+  deleteNote,
+  ensureVaultStructure,
+  isConflictLikeFilename,
+  loadNoteFile,
+  saveChangeset,
+  saveNote,
+  VAULT_DIRS,
+  type VoiceNote,
+} from '../vault';
+import { requestChangeset, type ChatFunction } from '../organize';
+import { rankBySimilarity, refreshEmbeddings, type Embedder, type SemanticMatch } from '../semantic';
+import { audioContentTypeFromExtension, extensionFromContentType } from './blob-files';
+import { EventSegmentLog, isEventSegmentFile } from './event-segments';
+import { DesktopSqliteStorageAdapter, type TagCount } from './sqlite-adapter';
+import {
+  isWatchedNoteFile,
+  noteContentHash,
+  VaultWatcher,
+  type ConflictCopyReport,
+  type ConflictCopyResult,
+  type VaultChanges,
+  type VaultFileRecord,
+} from './vault-watcher';
+
+function createAtomId(): string {
+  return `atom_${generateEventId().replace(/-/g, '').slice(0, 20)}`;
+}
+
+function hasVaultChanges(changes: VaultChanges): boolean {
+  return changes.updated.length > 0 || changes.captured.length > 0;
+}
+
+/** Lines in one text but not the other, counting repeated lines separately. */
+function lineDistance(left: string, right: string): number {
+  const counts = new Map<string, number>();
+  for (const line of left.split('\n')) {
+    counts.set(line, (counts.get(line) ?? 0) + 1);
+  }
+  for (const line of right.split('\n')) {
+    counts.set(line, (counts.get(line) ?? 0) - 1);
+  }
+  return Array.from(counts.values()).reduce((total, count) => total + Math.abs(count), 0);
+}
+
+/**
+ * The version a conflict copy was most likely made from: the ancestor of the
+ * atom's heads closest to the copy's text, preferring newer versions on ties.
+ */
+function conflictCopyBaseVersion(
+  atom: AtomRecord,
+  copyBody: string,
+  versionsById: ReadonlyMap<string, AtomVersion>,
+): AtomVersion | undefined {
+  let best: { version: AtomVersion; distance: number } | undefined;
+  const visited = new Set<string>();
+  let frontier = [...atom.headVersionIds];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const versionId of frontier) {
+      const version = versionsById.get(versionId);
+      if (visited.has(versionId) || !version) {
+        continue;
+      }
+      visited.add(versionId);
+      const distance = lineDistance(version.body, copyBody);
+      if (!best || distance < best.distance) {
+        best = { version, distance };
+      }
+      next.push(...(version.mergedFromVersionIds ?? (version.parentVersionId ? [version.parentVersionId] : [])));
+    }
+    frontier = next;
+  }
+  return best?.version;
+}
+
+/** Start a state folder outside the vault from the database the vault kept before, if there is one. */
+function copyVaultStateDb(fromPath: string, toPath: string): void {
+  if (fs.existsSync(toPath) || !fs.existsSync(fromPath)) {
+    return;
+  }
+  // Committed pages may still be in the write-ahead log; it goes first so the copy is never half there.
+  if (fs.existsSync(`${fromPath}-wal`)) {
+    fs.copyFileSync(`${fromPath}-wal`, `${toPath}-wal`);
+  }
+  fs.copyFileSync(fromPath, toPath);
+}
+
+// Resolved conflict copies move here, out of the notes folder and the sync health check.
+const CONFLICT_COPY_ARCHIVE_DIR = path.join('.seedworld', 'conflict-copies');
+
+// Body of a voice capture until its transcript arrives.
+const VOICE_TRANSCRIPT_PLACEHOLDER = '*(Voice recording - transcription pending)*';
 
 export interface DesktopSyncBootstrap {
   vaultPath: string;
+  /** Folder for state.db; defaults to the vault's .seedworld folder, and is required for read-only vaults. */
+  stateDir?: string;
   userId: string;
   workspaceId: string;
   deviceId: string;
   serverUrl?: string;
   token?: string;
+  refreshToken?: string;
+  /** Store renewed sessions; the refresh token they replace no longer works. */
+  onSessionRefreshed?: (session: AuthSession) => void;
+  /** Also keep the event log as per-device segments in the vault, see `EventSegmentLog`. */
+  vaultEventLog?: boolean;
+  /** The vault is newer than the app: nothing runs in the background that writes to it. */
+  readOnly?: boolean;
 }
 
 interface DiagnosticsSummary {
@@ -58,25 +176,72 @@ export class DesktopSyncService {
 
   private readonly workspaceId: string;
 
+  private readonly remoteEnabled: boolean;
+
+  private readonly readOnly: boolean;
+
+  private readonly scheduler: SyncScheduler;
+
+  private stateListener: ((state: SyncSchedulerState) => void) | null = null;
+
+  private vaultChangeListener: ((changes: VaultChanges) => void) | null = null;
+
+  private vaultWatcher: VaultWatcher | null = null;
+
+  private readonly eventLog: EventSegmentLog | null;
+
+  private eventLogWatcher: VaultWatcher | null = null;
+
+  // Segment writes and merges run one after another, so an event is never written or imported twice.
+  private eventLogSync: Promise<unknown> = Promise.resolve();
+
+  // Vault imports and writes run one after another, so an external edit is never imported twice.
+  private vaultSync: Promise<unknown> = Promise.resolve();
+
+  private embedder: Embedder | null = null;
+
+  // Embedding refreshes run one after another; each one picks up every change before it.
+  private embeddingRefresh: Promise<void> = Promise.resolve();
+
   private constructor(args: {
     vaultPath: string;
     workspaceId: string;
     adapter: DesktopSqliteStorageAdapter;
     engine: SyncEngine;
+    remoteEnabled: boolean;
+    eventLog: EventSegmentLog | null;
+    readOnly: boolean;
   }) {
     this.vaultPath = args.vaultPath;
     this.workspaceId = args.workspaceId;
     this.adapter = args.adapter;
     this.engine = args.engine;
+    this.remoteEnabled = args.remoteEnabled;
+    this.eventLog = args.eventLog;
+    this.readOnly = args.readOnly;
+    this.scheduler = new SyncScheduler({
+      sync: () => this.runSync(),
+      getStatus: () => this.engine.getSyncStatus(),
+      watchRemote: (onCursor, onDisconnect) => this.engine.watchRemoteCursor(onCursor, onDisconnect),
+      onState: (state) => this.stateListener?.(state),
+    });
   }
 
   static create(config: DesktopSyncBootstrap): DesktopSyncService {
-    const stateDir = path.join(config.vaultPath, '.seedworld');
+    if (config.readOnly && !config.stateDir) {
+      throw new Error('A read-only vault needs its state folder outside the vault');
+    }
+    const vaultStateDir = path.join(config.vaultPath, '.seedworld');
+    const stateDir = config.stateDir ?? vaultStateDir;
     fs.mkdirSync(stateDir, { recursive: true });
     const dbPath = path.join(stateDir, 'state.db');
+    if (stateDir !== vaultStateDir) {
+      copyVaultStateDb(path.join(vaultStateDir, 'state.db'), dbPath);
+    }
 
     const adapter = new DesktopSqliteStorageAdapter({
       dbPath,
+      blobDir: path.join(config.vaultPath, 'attachments', 'blobs'),
       workspaceId: config.workspaceId,
       userId: config.userId,
       deviceId: config.deviceId,
@@ -86,6 +251,8 @@ export class DesktopSyncService {
       ? createHttpSyncTransport({
           baseUrl: config.serverUrl,
           token: config.token,
+          refreshToken: config.refreshToken,
+          onSessionRefreshed: config.onSessionRefreshed,
         })
       : createDisabledSyncTransport('AUTH: Sign in required for sync');
 
@@ -99,7 +266,181 @@ export class DesktopSyncService {
       workspaceId: config.workspaceId,
       adapter,
       engine,
+      remoteEnabled: Boolean(config.serverUrl && config.token),
+      eventLog: config.vaultEventLog
+        ? new EventSegmentLog({ eventsDir: path.join(vaultStateDir, 'events'), deviceId: config.deviceId })
+        : null,
+      readOnly: config.readOnly ?? false,
+    });
+  }
+
+  /**
+   * Start syncing in the background when a server is configured, and watch
+   * the vault's notes for edits made outside the app and, with the vault
+   * event log, other devices' segments. Every scheduler state change and
+   * every imported vault change is reported to the listeners. Read-only
+   * vaults only get the listeners.
+   */
+  startBackgroundSync(
+    onState: (state: SyncSchedulerState) => void,
+    onVaultChange?: (changes: VaultChanges) => void,
+  ): void {
+    this.stateListener = onState;
+    this.vaultChangeListener = onVaultChange ?? null;
+    if (this.readOnly) {
+      return;
+    }
+    if (this.remoteEnabled) {
+      this.scheduler.start();
+    }
+
+    this.vaultWatcher?.stop();
+    this.vaultWatcher = new VaultWatcher({
+      dir: path.join(this.vaultPath, VAULT_DIRS.notes),
+      onChange: () => {
+        this.reconcileVault().catch((error: unknown) => {
+          console.warn('[sync] Vault reconcile failed:', error instanceof Error ? error.message : error);
+        });
+      },
     });
+    this.vaultWatcher.start();
+    // Pick up edits made while the app was closed.
+    this.reconcileVault().catch((error: unknown) => {
+      console.warn('[sync] Vault reconcile failed:', error instanceof Error ? error.message : error);
+    });
+
+    this.eventLogWatcher?.stop();
+    this.eventLogWatcher = null;
+    if (this.eventLog) {
+      const merge = () => {
+        this.mergeEventLog().catch((error: unknown) => {
+          console.warn('[sync] Event log merge failed:', error instanceof Error ? error.message : error);
+        });
+      };
+      this.eventLogWatcher = new VaultWatcher({
+        dir: this.eventLog.eventsDir,
+        onChange: merge,
+        isWatchedFile: isEventSegmentFile,
+        recursive: true,
+      });
+      this.eventLogWatcher.start();
+      // Events appended while the log was off are written before the first merge.
+      this.appendEventLog();
+      merge();
+    }
+  }
+
+  stopBackgroundSync(): void {
+    this.scheduler.stop();
+    this.vaultWatcher?.stop();
+    this.vaultWatcher = null;
+    this.eventLogWatcher?.stop();
+    this.eventLogWatcher = null;
+    this.stateListener = null;
+    this.vaultChangeListener = null;
+  }
+
+  /**
+   * Import notes edited or added outside the app: edits to atom notes become
+   * text updates, new files become captures. Notes are rewritten only when
+   * something was imported.
+   */
+  async reconcileVault(): Promise<VaultChanges> {
+    return this.syncVault(false);
+  }
+
+  /**
+   * Import the events other devices wrote to their segments since the last
+   * merge; this device's own are written as they are appended. Imported
+   * events are stored as synced: their own device pushes them, and their
+   * local sequence is that device's, so this device's counter ignores it.
+   * Returns how many were imported.
+   */
+  async mergeEventLog(): Promise<number> {
+    const eventLog = this.eventLog;
+    if (!eventLog) {
+      return 0;
+    }
+
+    const run = this.eventLogSync
+      .catch(() => undefined)
+      .then(async () => {
+        const read = eventLog.readNew();
+        try {
+          const known = new Set(await this.adapter.listKnownEventIds(read.map((event) => event.eventId)));
+          const incoming = read.filter((event) => !known.has(event.eventId));
+          if (incoming.length === 0) {
+            return [];
+          }
+
+          await this.adapter.upsertEvents(incoming.map((event): StoredEvent => ({ ...event, syncStatus: 'synced' })));
+          await this.engine.refreshProjection();
+          return incoming;
+        } catch (error) {
+          // Read everything again next time rather than lose what this merge skipped.
+          eventLog.rewind();
+          throw error;
+        }
+      });
+    this.eventLogSync = run;
+
+    const incoming = await run;
+    if (incoming.length > 0) {
+      console.log(`[sync] Event log merged: ${incoming.length} event(s) from other devices`);
+      await this.syncProjectionToVault();
+      const updated = new Set<string>();
+      const captured = new Set<string>();
+      for (const event of incoming) {
+        const atomId = eventAtomId(event);
+        if (atomId) {
+          (event.type.startsWith('capture.') ? captured : updated).add(atomId);
+        }
+      }
+      this.vaultChangeListener?.({
+        updated: Array.from(updated).filter((atomId) => !captured.has(atomId)),
+        captured: Array.from(captured),
+      });
+    }
+    return incoming.length;
+  }
+
+  /**
+   * Fold conflict copies left by cloud providers back into their notes. A
+   * copy of a known note is imported as a text update based on the version
+   * the vault last showed, so it merges or opens a conflict like any other
+   * concurrent edit; copies of unknown notes become captures. Handled copies
+   * are archived. A dry run only reports what would happen.
+   */
+  async resolveConflictCopies(options: { dryRun?: boolean } = {}): Promise<ConflictCopyReport> {
+    const dryRun = options.dryRun ?? false;
+    const run = this.vaultSync
+      .catch(() => undefined)
+      .then(async () => {
+        ensureVaultStructure(this.vaultPath);
+        const report = await this.importConflictCopies(dryRun);
+        if (!dryRun && report.copies.some((copy) => copy.action !== 'skip' && copy.action !== 'archive')) {
+          await this.writeProjectionToVault();
+        }
+        return report;
+      });
+    this.vaultSync = run;
+
+    const report = await run;
+    const changes: VaultChanges = {
+      updated: report.copies
+        .filter((copy) => copy.action === 'update' || copy.action === 'merge' || copy.action === 'conflict')
+        .map((copy) => copy.atomId as string),
+      captured: report.copies.filter((copy) => copy.action === 'capture').map((copy) => copy.atomId as string),
+    };
+    if (!dryRun && hasVaultChanges(changes)) {
+      this.notifyVaultChanges(changes);
+      this.refreshEmbeddingsInBackground();
+    }
+    return report;
+  }
+
+  setOnline(online: boolean): void {
+    this.scheduler.setOnline(online);
   }
 
   async captureText(input: { title?: string; body: string }): Promise<void> {
@@ -108,26 +449,276 @@ export class DesktopSyncService {
     }
 
     await this.engine.captureText({
-      atomId: `atom_${generateEventId().replace(/-/g, '').slice(0, 20)}`,
+      atomId: createAtomId(),
       title: input.title,
       body: input.body,
     });
 
     await this.syncProjectionToVault();
+    this.notifyLocalAppend();
+  }
+
+  /**
+   * Capture a recording as an atom whose audio is a synced blob.
+   * Returns the vault note written for it so the renderer can show it right away.
+   */
+  async captureVoice(input: { audio: Buffer; extension: string }): Promise<VoiceNote> {
+    if (input.audio.byteLength === 0) {
+      throw new Error('Voice recording is empty');
+    }
+
+    const atomId = createAtomId();
+    const { captureEvent, blob } = await this.engine.captureAudio({
+      atomId,
+      bytes: input.audio,
+      contentType: audioContentTypeFromExtension(input.extension),
+      extHint: input.extension,
+      title: `Voice note ${new Date().toLocaleString()}`,
+      body: VOICE_TRANSCRIPT_PLACEHOLDER,
+    });
+
+    await this.syncProjectionToVault();
+    this.notifyLocalAppend();
+
+    const payload = captureEvent.payload as { title?: string; body: string };
+    const createdAt = new Date(captureEvent.createdAtMs).toISOString();
+    return {
+      id: atomId,
+      title: payload.title ?? 'Voice note',
+      content: payload.body,
+      audioPath: this.vaultRelativePath(blob.localPath),
+      createdAt,
+      updatedAt: createdAt,
+    };
+  }
+
+  /**
+   * Write a finished transcript into an atom's body as a text update. The
+   * recording placeholder is replaced; anything the user wrote stays above it.
+   * Returns false when the id is not an atom; an atom with a conflict has no
+   * single version to build on and is refused until it is resolved.
+   */
+  async applyTranscript(atomId: string, transcript: string): Promise<boolean> {
+    const atom = await this.findActiveOrArchivedAtom(atomId);
+    if (!atom) {
+      return false;
+    }
+    if (atom.needsResolution) {
+      throw new Error(`Resolve the conflict on ${atomId} before adding its transcript`);
+    }
+
+    const existing = atom.body.replace(VOICE_TRANSCRIPT_PLACEHOLDER, '').trim();
+    await this.engine.updateAtomText({
+      atomId,
+      body: existing ? `${existing}\n\n${transcript}` : transcript,
+      baseVersionId: atom.headVersionIds[0],
+    });
+    await this.syncProjectionToVault();
+    await this.adapter.saveTranscriptText(atomId, transcript);
+    this.notifyLocalAppend();
+    return true;
+  }
+
+  /**
+   * Record a delete for an atom known to the projection.
+   * Returns false when the id is not an atom so callers can fall back to plain file removal.
+   */
+  async deleteAtom(atomId: string): Promise<boolean> {
+    if (!(await this.findActiveOrArchivedAtom(atomId))) {
+      return false;
+    }
+
+    await this.engine.deleteAtom({ atomId });
+    await this.syncProjectionToVault();
+    this.notifyLocalAppend();
+    return true;
+  }
+
+  async archiveAtom(atomId: string): Promise<void> {
+    const atom = await this.findActiveOrArchivedAtom(atomId);
+    if (!atom) {
+      throw new Error(`Atom not found: ${atomId}`);
+    }
+
+    await this.engine.archiveAtom(atomId);
+    await this.syncProjectionToVault();
+    this.notifyLocalAppend();
+  }
+
+  async restoreAtom(atomId: string): Promise<void> {
+    const atom = await this.findActiveOrArchivedAtom(atomId);
+    if (!atom) {
+      throw new Error(`Atom not found: ${atomId}`);
+    }
+
+    await this.engine.restoreAtom(atomId);
+    await this.syncProjectionToVault();
+    this.notifyLocalAppend();
   }
 
-  async listInbox() {
-    return this.engine.getInbox();
+  /** Replace the tags assigned to an atom; `#tags` in its body stay. */
+  async setAtomTags(atomId: string, tags: string[]): Promise<void> {
+    const atom = await this.findActiveOrArchivedAtom(atomId);
+    if (!atom) {
+      throw new Error(`Atom not found: ${atomId}`);
+    }
+
+    await this.engine.setAtomTags(atomId, tags);
+    await this.syncProjectionToVault();
+    this.notifyLocalAppend();
+  }
+
+  /** Outgoing links, backlinks and unresolved wiki link targets of an atom. */
+  async atomLinks(atomId: string): Promise<AtomLinks> {
+    const projection = await this.adapter.getProjection();
+    return linksForAtom(projection?.links ?? [], atomId);
+  }
+
+  async addAtomLink(input: { atomId: string; targetAtomId: string; relation?: LinkRelation }): Promise<AtomLinks> {
+    if (input.atomId === input.targetAtomId) {
+      throw new Error('An atom cannot link to itself');
+    }
+    for (const atomId of [input.atomId, input.targetAtomId]) {
+      if (!(await this.findActiveOrArchivedAtom(atomId))) {
+        throw new Error(`Atom not found: ${atomId}`);
+      }
+    }
+
+    await this.engine.addAtomLink(input);
+    this.notifyLocalAppend();
+    return this.atomLinks(input.atomId);
+  }
+
+  async removeAtomLink(input: { atomId: string; targetAtomId: string }): Promise<AtomLinks> {
+    if (!(await this.findActiveOrArchivedAtom(input.atomId))) {
+      throw new Error(`Atom not found: ${input.atomId}`);
+    }
+
+    await this.engine.removeAtomLink(input);
+    this.notifyLocalAppend();
+    return this.atomLinks(input.atomId);
+  }
+
+  async listTags(): Promise<TagCount[]> {
+    return this.adapter.listTags();
+  }
+
+  async listConflicts(): Promise<ConflictRecord[]> {
+    const projection = await this.adapter.getProjection();
+    return projection?.conflicts ?? [];
+  }
+
+  async resolveConflict(conflictId: string, resolution: ConflictResolution): Promise<void> {
+    await this.engine.resolveConflict(conflictId, resolution);
+    await this.syncProjectionToVault();
+    this.notifyLocalAppend();
+  }
+
+  /**
+   * Ask the AI provider for a changeset over the given atoms and record it for
+   * review. A copy is kept under `changesets/` in the vault.
+   */
+  async organize(input: {
+    atomIds: string[];
+    instruction?: string;
+    chat: ChatFunction;
+    provider: ChangeSet['provider'];
+  }): Promise<ChangeSetState> {
+    const projection = await this.adapter.getProjection();
+    const selected = new Set(input.atomIds);
+    const atoms = (projection?.atoms ?? []).filter((atom) => selected.has(atom.atomId) && atom.status === 'active');
+
+    const changeset = await requestChangeset({
+      chat: input.chat,
+      provider: input.provider,
+      request: { atoms, instruction: input.instruction },
+    });
+    await this.engine.suggestChangeset(changeset);
+    saveChangeset(this.vaultPath, changeset.id, changeset);
+    this.notifyLocalAppend();
+
+    return this.findChangeset(changeset.id);
+  }
+
+  async listChangesets(): Promise<ChangeSetState[]> {
+    return this.engine.listChangesets();
+  }
+
+  async reviewChange(input: {
+    changesetId: string;
+    changeKey: string;
+    decision: ChangeReviewDecision;
+  }): Promise<ChangeSetState> {
+    await this.engine.reviewChange(input);
+    await this.syncProjectionToVault();
+    this.notifyLocalAppend();
+    return this.findChangeset(input.changesetId);
+  }
+
+  /** Full-text search over titles, bodies and transcripts of active atoms. */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResults> {
+    return this.adapter.search(query, options);
+  }
+
+  /**
+   * Use `embedder` for semantic search, or turn it off with null. Embeddings
+   * are brought up to date in the background after every projection change.
+   */
+  setEmbedder(embedder: Embedder | null): void {
+    this.embedder = embedder;
+    this.refreshEmbeddingsInBackground();
+  }
+
+  /** Active atoms closest in meaning to `atomId`, best first. */
+  async relatedNotes(atomId: string, limit = 5): Promise<SemanticMatch[]> {
+    const embedder = await this.refreshEmbeddings();
+    const embeddings = await this.adapter.listEmbeddings();
+    const own = embeddings.find((entry) => entry.atomId === atomId && entry.model === embedder.model);
+    if (!own) {
+      return [];
+    }
+    return this.toSemanticMatches(rankBySimilarity(own.vector, embeddings, {
+      model: embedder.model,
+      limit,
+      excludeAtomIds: [atomId],
+    }));
+  }
+
+  /** Active atoms closest in meaning to free text, best first. */
+  async semanticSearch(query: string, limit = 10): Promise<SemanticMatch[]> {
+    if (!query.trim()) {
+      return [];
+    }
+    const embedder = await this.refreshEmbeddings();
+    const [vector] = await embedder.embed([query.trim()]);
+    return this.toSemanticMatches(rankBySimilarity(vector, await this.adapter.listEmbeddings(), {
+      model: embedder.model,
+      limit,
+    }));
+  }
+
+  /** Inbox items, optionally only those tagged `tag` (nested tags included). */
+  async listInbox(filter: { tag?: string } = {}) {
+    const inbox = await this.engine.getInbox();
+    if (filter.tag === undefined) {
+      return inbox;
+    }
+
+    const tag = normalizeTag(filter.tag);
+    if (!tag) {
+      throw new Error(`Invalid tag: ${filter.tag}`);
+    }
+    const atomIds = new Set(await this.adapter.listAtomIdsWithTag(tag));
+    return inbox.filter((item) => atomIds.has(item.atomId));
   }
 
   async getStatus(): Promise<SyncStatus> {
     return this.engine.getSyncStatus();
   }
 
+  /** Sync immediately; shares the scheduler's run if one is already in flight. */
   async syncNow(): Promise<SyncStatus> {
-    const status = await this.engine.syncNow();
-    await this.syncProjectionToVault();
-    return status;
+    return this.scheduler.syncNow();
   }
 
   async rebuildProjection(): Promise<void> {
@@ -303,23 +894,304 @@ export class DesktopSyncService {
     return lines.join('\n');
   }
 
+  private refreshEmbeddings(): Promise<Embedder> {
+    const embedder = this.embedder;
+    if (!embedder) {
+      return Promise.reject(new Error('Set an embedding model in Voice & AI first'));
+    }
+
+    const run = this.embeddingRefresh
+      .catch(() => undefined)
+      .then(async () => {
+        const projection = await this.adapter.getProjection();
+        const result = await refreshEmbeddings({ atoms: projection?.atoms ?? [], store: this.adapter, embedder });
+        if (result.embedded > 0 || result.removed > 0) {
+          console.log(`[sync] Embeddings refreshed: ${result.embedded} embedded, ${result.removed} removed`);
+        }
+        return embedder;
+      });
+    this.embeddingRefresh = run.then(() => undefined);
+    return run;
+  }
+
+  private refreshEmbeddingsInBackground(): void {
+    if (!this.embedder) {
+      return;
+    }
+    this.refreshEmbeddings().catch((error: unknown) => {
+      console.warn('[sync] Embedding refresh failed:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  private async toSemanticMatches(ranked: Array<{ atomId: string; score: number }>): Promise<SemanticMatch[]> {
+    const projection = await this.adapter.getProjection();
+    const atoms = new Map((projection?.atoms ?? []).map((atom) => [atom.atomId, atom]));
+    const previews = new Map((projection?.inbox ?? []).map((item) => [item.atomId, item.preview]));
+
+    return ranked.flatMap(({ atomId, score }) => {
+      const atom = atoms.get(atomId);
+      if (!atom || atom.status !== 'active') {
+        return [];
+      }
+      return [{ atomId, title: atom.title, preview: previews.get(atomId) ?? '', score }];
+    });
+  }
+
+  private async findChangeset(changesetId: string): Promise<ChangeSetState> {
+    const state = (await this.engine.listChangesets()).find((entry) => entry.changeset.id === changesetId);
+    if (!state) {
+      throw new Error(`Changeset not found: ${changesetId}`);
+    }
+    return state;
+  }
+
+  private async findActiveOrArchivedAtom(atomId: string) {
+    const projection = await this.adapter.getProjection();
+    return projection?.atoms.find((atom) => atom.atomId === atomId && atom.status !== 'deleted') ?? null;
+  }
+
+  /** Attachment paths are stored relative to the vault, with forward slashes. */
+  private vaultRelativePath(localPath: string): string {
+    return path.relative(this.vaultPath, localPath).split(path.sep).join('/');
+  }
+
+  private async runSync(): Promise<SyncStatus> {
+    const status = await this.engine.syncNow();
+    await this.syncProjectionToVault();
+    return status;
+  }
+
   private async syncProjectionToVault(): Promise<void> {
-    ensureVaultStructure(this.vaultPath);
+    await this.syncVault(true);
+  }
+
+  private async syncVault(alwaysWrite: boolean): Promise<VaultChanges> {
+    const run = this.vaultSync
+      .catch(() => undefined)
+      .then(async () => {
+        ensureVaultStructure(this.vaultPath);
+        // Edits made outside the app are imported before the notes are overwritten.
+        const changes = await this.importVaultChanges();
+        if (alwaysWrite || hasVaultChanges(changes)) {
+          await this.writeProjectionToVault();
+        }
+        return changes;
+      });
+    this.vaultSync = run;
+
+    const changes = await run;
+    if (hasVaultChanges(changes)) {
+      this.notifyVaultChanges(changes);
+    }
+    if (alwaysWrite || hasVaultChanges(changes)) {
+      this.refreshEmbeddingsInBackground();
+    }
+    return changes;
+  }
+
+  /** Let the scheduler push a local change, and add it to this device's segments. */
+  private notifyLocalAppend(): void {
+    this.scheduler.notifyLocalAppend();
+    this.appendEventLog();
+  }
+
+  /** Write this device's events that are not in its segments yet. */
+  private appendEventLog(): void {
+    if (!this.eventLog) {
+      return;
+    }
+    const eventLog = this.eventLog;
+    this.eventLogSync = this.eventLogSync
+      .catch(() => undefined)
+      .then(async () => {
+        eventLog.append(await this.adapter.listEvents());
+      })
+      .catch((error: unknown) => {
+        console.warn('[sync] Writing the event log failed:', error instanceof Error ? error.message : error);
+      });
+  }
+
+  private notifyVaultChanges(changes: VaultChanges): void {
+    console.log(`[sync] Vault changes imported: ${changes.updated.length} edited, ${changes.captured.length} captured`);
+    this.notifyLocalAppend();
+    this.vaultChangeListener?.(changes);
+  }
+
+  private async importVaultChanges(): Promise<VaultChanges> {
+    const changes: VaultChanges = { updated: [], captured: [] };
+    let projection = await this.adapter.getProjection();
+    if (!projection) {
+      await this.engine.rebuildProjection();
+      projection = await this.adapter.getProjection();
+    }
+    const atoms = new Map((projection?.atoms ?? []).map((atom) => [atom.atomId, atom]));
+    const written = new Map((await this.adapter.listVaultFiles()).map((record) => [record.atomId, record]));
+    const notesDir = path.join(this.vaultPath, VAULT_DIRS.notes);
+
+    for (const fileName of fs.readdirSync(notesDir).filter(isWatchedNoteFile)) {
+      // Conflict copies would look like new notes; `resolveConflictCopies` folds them back in.
+      if (isConflictLikeFilename(fileName)) {
+        continue;
+      }
+
+      const fileId = fileName.slice(0, -'.md'.length);
+      const note = loadNoteFile(this.vaultPath, fileName);
+      if (!note) {
+        continue;
+      }
+
+      const atom = atoms.get(fileId);
+      if (atom) {
+        // Skip notes unchanged since written or already imported; notes of
+        // archived and deleted atoms are removed on the next write.
+        const contentHash = noteContentHash(note.content);
+        if (atom.status !== 'active' || contentHash === written.get(fileId)?.contentHash || contentHash === noteContentHash(atom.body)) {
+          continue;
+        }
+
+        // Based on the version the file showed, so concurrent changes surface as a conflict.
+        await this.engine.updateAtomText({
+          atomId: fileId,
+          body: note.content,
+          baseVersionId: written.get(fileId)?.versionId ?? atom.headVersionIds[0],
+        });
+        changes.updated.push(fileId);
+        continue;
+      }
+
+      // Voice notes from before captures became atoms keep their recording only in the file.
+      if (!note.content || note.audioPath) {
+        continue;
+      }
+
+      // Notes the app saved keep their id; other files get a new atom and move to its note.
+      const atomId = note.id === fileId ? fileId : createAtomId();
+      await this.engine.captureText({ atomId, title: note.title, body: note.content });
+      if (atomId !== fileId) {
+        fs.rmSync(path.join(notesDir, fileName), { force: true });
+      }
+      changes.captured.push(atomId);
+    }
+
+    return changes;
+  }
+
+  private async importConflictCopies(dryRun: boolean): Promise<ConflictCopyReport> {
+    let projection = await this.adapter.getProjection();
+    if (!projection) {
+      await this.engine.rebuildProjection();
+      projection = await this.adapter.getProjection();
+    }
+    const atoms = new Map((projection?.atoms ?? []).map((atom) => [atom.atomId, atom]));
+    const versions = projection?.atomVersions ?? [];
+    const versionsById = new Map(versions.map((version) => [version.versionId, version]));
+    const notesDir = path.join(this.vaultPath, VAULT_DIRS.notes);
+    const archiveDir = path.join(CONFLICT_COPY_ARCHIVE_DIR, new Date().toISOString().replace(/[:.]/g, '-'));
+    const copies: ConflictCopyResult[] = [];
+
+    const fileNames = fs.readdirSync(notesDir).filter((name) => isWatchedNoteFile(name) && isConflictLikeFilename(name));
+    for (const fileName of fileNames.sort()) {
+      const filePath = path.join(VAULT_DIRS.notes, fileName);
+      const note = loadNoteFile(this.vaultPath, fileName);
+      if (!note) {
+        copies.push({ filePath, action: 'skip', reason: 'The file could not be read' });
+        continue;
+      }
+
+      const atom = note.id ? atoms.get(note.id) : undefined;
+      let result: ConflictCopyResult;
+      if (!atom) {
+        if (!note.content || note.audioPath) {
+          copies.push({ filePath, action: 'skip', reason: 'The copy has no text to import' });
+          continue;
+        }
+        const atomId = createAtomId();
+        if (!dryRun) {
+          await this.engine.captureText({ atomId, title: note.title, body: note.content });
+        }
+        result = { filePath, atomId, action: 'capture' };
+      } else if (atom.status !== 'active') {
+        copies.push({ filePath, atomId: atom.atomId, action: 'skip', reason: `The note is ${atom.status}` });
+        continue;
+      } else {
+        const contentHash = noteContentHash(note.content);
+        const history = versions.filter((version) => version.atomId === atom.atomId);
+        if (contentHash === noteContentHash(atom.body) || history.some((version) => noteContentHash(version.body) === contentHash)) {
+          result = { filePath, atomId: atom.atomId, action: 'archive' };
+        } else {
+          // Based on the version the copy was made from, so edits made since are merged rather than overwritten.
+          const base = conflictCopyBaseVersion(atom, note.content, versionsById);
+          const baseVersionId = base?.versionId ?? atom.headVersionIds[0];
+          if (atom.headVersionIds.length === 1 && atom.headVersionIds[0] === baseVersionId) {
+            result = { filePath, atomId: atom.atomId, action: 'update' };
+          } else {
+            const merge = mergeText(base?.body ?? '', atom.body, note.content);
+            result = merge.clean
+              ? { filePath, atomId: atom.atomId, action: 'merge' }
+              : { filePath, atomId: atom.atomId, action: 'conflict', conflictingHunks: merge.hunks.length };
+          }
+          if (!dryRun) {
+            await this.engine.updateAtomText({ atomId: atom.atomId, body: note.content, baseVersionId });
+          }
+        }
+      }
+
+      if (!dryRun) {
+        result.archivedPath = path.join(archiveDir, fileName);
+        fs.mkdirSync(path.join(this.vaultPath, archiveDir), { recursive: true });
+        fs.renameSync(path.join(this.vaultPath, filePath), path.join(this.vaultPath, result.archivedPath));
+      }
+      copies.push(result);
+    }
+
+    return { dryRun, copies };
+  }
+
+  private async writeProjectionToVault(): Promise<void> {
     const projection = await this.adapter.getProjection();
     if (!projection) {
       return;
     }
 
+    const audioPaths = new Map(
+      (await this.adapter.listBlobManifest())
+        .filter((entry) => entry.isPresent && entry.contentType.startsWith('audio/'))
+        .map((entry) => [entry.hash, this.vaultRelativePath(entry.localPath)]),
+    );
+
+    const versionsById = new Map(projection.atomVersions.map((version) => [version.versionId, version]));
+    const records: VaultFileRecord[] = [];
+    const removed: string[] = [];
+
     for (const atom of projection.atoms) {
+      // Vault notes mirror the inbox: archived and deleted atoms live only in the event log.
+      if (atom.status !== 'active') {
+        deleteNote(this.vaultPath, atom.atomId);
+        removed.push(atom.atomId);
+        continue;
+      }
+
       saveNote(
         this.vaultPath,
         {
           title: atom.title,
           content: atom.body,
+          audioPath: atom.blobHashes.map((hash) => audioPaths.get(hash)).find(Boolean),
+          tags: atom.tags ?? [],
         },
         atom.atomId,
       );
+      records.push({
+        atomId: atom.atomId,
+        contentHash: noteContentHash(atom.body),
+        versionId: atom.headVersionIds.find((versionId) => versionsById.get(versionId)?.body === atom.body)
+          ?? atom.headVersionIds[0],
+        writtenAtMs: Date.now(),
+      });
     }
+
+    await this.adapter.saveVaultFiles(records);
+    await this.adapter.deleteVaultFiles(removed);
   }
 }
 
@@ -365,15 +1237,3 @@ async function buildExportZip(snapshot: ExportSnapshot): Promise<Buffer> {
     compression: 'DEFLATE',
   });
 }
-
-function extensionFromContentType(contentType: string): string {
-  const normalized = contentType.toLowerCase();
-  if (normalized.includes('png')) return '.png';
-  if (normalized.includes('jpeg') || normalized.includes('jpg')) return '.jpg';
-  if (normalized.includes('webp')) return '.webp';
-  if (normalized.includes('webm')) return '.webm';
-  if (normalized.includes('mp4')) return '.mp4';
-  if (normalized.includes('mpeg')) return '.mp3';
-  if (normalized.includes('wav')) return '.wav';
-  return '.bin';
-}
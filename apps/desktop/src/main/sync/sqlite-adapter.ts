@@ -1,40 +1,106 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { DatabaseSync } from 'node:sqlite';
-import type {
-  BlobManifestEntry,
-  DeviceState,
-  EventServerSeqMapping,
-  ProjectionSnapshot,
-  StorageAdapter,
-  StoredEvent,
-  SyncAttempt,
-  SyncError,
-  SyncItemStatus,
+import {
+  DEFAULT_SEARCH_LIMIT,
+  eventAtomId,
+  tokenizeSearchText,
+  type AtomKind,
+  type AtomLifecycleStatus,
+  type AtomLinkTarget,
+  type BlobManifestEntry,
+  type ConflictHunk,
+  type DeviceState,
+  type EventServerSeqMapping,
+  type LinkRecord,
+  type ProjectionSnapshot,
+  type ProvisionalMark,
+  type SearchOptions,
+  type SearchResults,
+  type StorageAdapter,
+  type StoredEvent,
+  type SyncAttempt,
+  type SyncError,
+  type SyncItemStatus,
+  type TextRange,
 } from '@seedworld/core';
+import type { AtomEmbedding, EmbeddingStore } from '../semantic';
+import { extensionFromContentType } from './blob-files';
+import type { VaultFileRecord } from './vault-watcher';
 
 interface AdapterConfig {
   dbPath: string;
+  /** Folder holding blob files, named by hash; unfinished downloads live in `.partial/`. */
+  blobDir: string;
   workspaceId: string;
   userId: string;
   deviceId: string;
 }
 
+export interface TagCount {
+  tag: string;
+  /** Active atoms carrying the tag. */
+  count: number;
+}
+
+// Match markers for highlight()/snippet(); control characters never appear in note text.
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+
 function parseJson<T>(raw: string): T {
   return JSON.parse(raw) as T;
 }
 
-export class DesktopSqliteStorageAdapter implements StorageAdapter {
+/**
+ * FTS5 query for free text: every term must match, the last one as a prefix.
+ * Terms are letters and digits only, so quoting them cannot inject syntax.
+ */
+function buildMatchQuery(query: string): string | null {
+  const terms = tokenizeSearchText(query);
+  if (terms.length === 0) {
+    return null;
+  }
+  return terms.map((term, index) => `"${term}"${index === terms.length - 1 ? '*' : ''}`).join(' ');
+}
+
+/** Strip match markers, returning the plain text and where the matches were. */
+function takeHighlights(marked: string): { text: string; highlights: TextRange[] } {
+  const highlights: TextRange[] = [];
+  let text = '';
+  let start = -1;
+  for (const char of marked) {
+    if (char === MATCH_START) {
+      start = text.length;
+    } else if (char === MATCH_END) {
+      if (start !== -1) {
+        highlights.push([start, text.length]);
+      }
+      start = -1;
+    } else {
+      text += char;
+    }
+  }
+  return { text, highlights };
+}
+
+export class DesktopSqliteStorageAdapter implements StorageAdapter, EmbeddingStore {
   private readonly db: DatabaseSync;
 
   private readonly workspaceId: string;
 
+  private readonly blobDir: string;
+
   constructor(config: AdapterConfig) {
     const dbDir = path.dirname(config.dbPath);
     fs.mkdirSync(dbDir, { recursive: true });
 
     this.db = new DatabaseSync(config.dbPath);
     this.workspaceId = config.workspaceId;
+    this.blobDir = config.blobDir;
+
+    const hadSearchIndex = Boolean(
+      this.db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'atom_search'`).get(),
+    );
 
     this.db.exec(`
       PRAGMA journal_mode=WAL;
@@ -67,6 +133,7 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
         sync_status TEXT NOT NULL,
         error_code TEXT,
         error_message TEXT,
+        atom_id TEXT,
         PRIMARY KEY (workspace_id, event_id)
       );
 
@@ -88,15 +155,47 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
         head_version_ids_json TEXT NOT NULL,
         needs_resolution INTEGER NOT NULL,
         blob_hashes_json TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        archived_at_ms INTEGER,
+        deleted_at_ms INTEGER,
+        kind TEXT,
+        assigned_tags_json TEXT,
+        tags_json TEXT,
+        links_json TEXT,
         PRIMARY KEY (workspace_id, atom_id)
       );
 
+      CREATE TABLE IF NOT EXISTS atom_links (
+        workspace_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        source_atom_id TEXT NOT NULL,
+        target TEXT NOT NULL,
+        origin TEXT NOT NULL,
+        relation TEXT,
+        target_atom_id TEXT,
+        PRIMARY KEY (workspace_id, position)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_atom_links_target
+        ON atom_links(workspace_id, target_atom_id);
+
+      CREATE TABLE IF NOT EXISTS atom_tags (
+        workspace_id TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        atom_id TEXT NOT NULL,
+        PRIMARY KEY (workspace_id, tag, atom_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_atom_tags_atom
+        ON atom_tags(workspace_id, atom_id);
+
       CREATE TABLE IF NOT EXISTS atom_versions (
         workspace_id TEXT NOT NULL,
         version_id TEXT NOT NULL,
         atom_id TEXT NOT NULL,
         event_id TEXT NOT NULL,
         parent_version_id TEXT,
+        merged_from_json TEXT,
         body TEXT NOT NULL,
         created_at_ms INTEGER NOT NULL,
         server_seq INTEGER,
@@ -113,6 +212,12 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
         status TEXT NOT NULL,
         created_at_ms INTEGER NOT NULL,
         updated_at_ms INTEGER NOT NULL,
+        resolved_at_ms INTEGER,
+        resolution_event_id TEXT,
+        resolved_version_id TEXT,
+        base_version_id TEXT,
+        hunks_json TEXT,
+        marked_body TEXT,
         PRIMARY KEY (workspace_id, conflict_id)
       );
 
@@ -127,6 +232,8 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
         source_event_id TEXT NOT NULL,
         sync_status TEXT NOT NULL,
         needs_resolution INTEGER NOT NULL,
+        has_audio INTEGER NOT NULL DEFAULT 0,
+        tags_json TEXT,
         server_seq INTEGER,
         PRIMARY KEY (workspace_id, item_id)
       );
@@ -134,7 +241,8 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
       CREATE TABLE IF NOT EXISTS projection_meta (
         workspace_id TEXT PRIMARY KEY,
         generated_at_ms INTEGER NOT NULL,
-        last_applied_seq INTEGER NOT NULL
+        last_applied_seq INTEGER NOT NULL,
+        provisional_mark_json TEXT
       );
 
       CREATE TABLE IF NOT EXISTS blob_manifest (
@@ -160,8 +268,94 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
         error_code TEXT,
         message TEXT
       );
+
+      CREATE TABLE IF NOT EXISTS atom_transcripts (
+        workspace_id TEXT NOT NULL,
+        atom_id TEXT NOT NULL,
+        text TEXT NOT NULL,
+        updated_at_ms INTEGER NOT NULL,
+        PRIMARY KEY (workspace_id, atom_id)
+      );
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS atom_search USING fts5(
+        workspace_id UNINDEXED,
+        atom_id UNINDEXED,
+        title,
+        body,
+        transcript,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE TABLE IF NOT EXISTS vault_files (
+        workspace_id TEXT NOT NULL,
+        atom_id TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        version_id TEXT NOT NULL,
+        written_at_ms INTEGER NOT NULL,
+        PRIMARY KEY (workspace_id, atom_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS atom_embeddings (
+        workspace_id TEXT NOT NULL,
+        atom_id TEXT NOT NULL,
+        model TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        updated_at_ms INTEGER NOT NULL,
+        PRIMARY KEY (workspace_id, atom_id)
+      );
     `);
 
+    this.ensureColumn('atoms', 'status', `TEXT NOT NULL DEFAULT 'active'`);
+    this.ensureColumn('atoms', 'archived_at_ms', 'INTEGER');
+    this.ensureColumn('atoms', 'deleted_at_ms', 'INTEGER');
+    this.ensureColumn('atoms', 'kind', 'TEXT');
+    const hadTags = this.hasColumn('atoms', 'tags_json');
+    const hadLinks = this.hasColumn('atoms', 'links_json');
+    this.ensureColumn('atoms', 'assigned_tags_json', 'TEXT');
+    this.ensureColumn('atoms', 'tags_json', 'TEXT');
+    this.ensureColumn('atoms', 'links_json', 'TEXT');
+    this.ensureColumn('inbox_items', 'tags_json', 'TEXT');
+    this.ensureColumn('conflicts', 'resolved_at_ms', 'INTEGER');
+    this.ensureColumn('conflicts', 'resolution_event_id', 'TEXT');
+    this.ensureColumn('conflicts', 'resolved_version_id', 'TEXT');
+    this.ensureColumn('conflicts', 'base_version_id', 'TEXT');
+    this.ensureColumn('conflicts', 'hunks_json', 'TEXT');
+    this.ensureColumn('conflicts', 'marked_body', 'TEXT');
+    this.ensureColumn('atom_versions', 'merged_from_json', 'TEXT');
+    this.ensureColumn('inbox_items', 'has_audio', 'INTEGER NOT NULL DEFAULT 0');
+    this.ensureColumn('projection_meta', 'provisional_mark_json', 'TEXT');
+
+    // Events stored before they were indexed by atom get their atom filled in once.
+    if (!this.hasColumn('events', 'atom_id')) {
+      this.db.exec(`ALTER TABLE events ADD COLUMN atom_id TEXT`);
+      const rows = this.db.prepare(`SELECT workspace_id, event_id, type, payload_json FROM events`).all() as Array<{
+        workspace_id: string;
+        event_id: string;
+        type: StoredEvent['type'];
+        payload_json: string;
+      }>;
+      const update = this.db.prepare(`UPDATE events SET atom_id = ? WHERE workspace_id = ? AND event_id = ?`);
+      for (const row of rows) {
+        const atomId = eventAtomId({ type: row.type, payload: parseJson(row.payload_json) } as StoredEvent);
+        if (atomId !== undefined) {
+          update.run(atomId, row.workspace_id, row.event_id);
+        }
+      }
+    }
+    this.db.exec(`CREATE INDEX IF NOT EXISTS idx_events_workspace_atom ON events(workspace_id, atom_id)`);
+
+    // Databases from before full-text search get their index built from the projection once.
+    if (!hadSearchIndex) {
+      this.db.prepare(this.searchRowsSql('')).run(this.workspaceId);
+    }
+
+    // Projections saved before tags and links existed never parsed them;
+    // dropping the projection meta makes the engine rebuild it from the log.
+    if (!hadTags || !hadLinks) {
+      this.db.prepare(`DELETE FROM projection_meta WHERE workspace_id = ?`).run(this.workspaceId);
+    }
+
     const existingState = this.db
       .prepare(`SELECT workspace_id FROM device_state WHERE workspace_id = ?`)
       .get(this.workspaceId) as { workspace_id: string } | undefined;
@@ -186,6 +380,68 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
     }
   }
 
+  private hasColumn(table: string, column: string): boolean {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    return columns.some((entry) => entry.name === column);
+  }
+
+  private ensureColumn(table: string, column: string, definition: string): void {
+    if (!this.hasColumn(table, column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  private selectEvents(clause: string, ...params: Array<string | number>): StoredEvent[] {
+    const rows = this.db
+      .prepare(
+        `SELECT
+          event_id,
+          event_schema_version,
+          payload_schema_version,
+          type,
+          created_at_ms,
+          device_id,
+          local_seq,
+          server_seq,
+          payload_json,
+          sync_status,
+          error_code,
+          error_message
+         FROM events
+         ${clause}`
+      )
+      .all(...params) as Array<{
+      event_id: string;
+      event_schema_version: number;
+      payload_schema_version: number | null;
+      type: string;
+      created_at_ms: number;
+      device_id: string;
+      local_seq: number | null;
+      server_seq: number | null;
+      payload_json: string;
+      sync_status: SyncItemStatus;
+      error_code: StoredEvent['errorCode'] | null;
+      error_message: string | null;
+    }>;
+
+    return rows.map((row) => ({
+      eventId: row.event_id,
+      eventSchemaVersion: row.event_schema_version,
+      payloadSchemaVersion: row.payload_schema_version ?? undefined,
+      type: row.type as StoredEvent['type'],
+      createdAtMs: row.created_at_ms,
+      deviceId: row.device_id,
+      workspaceId: this.workspaceId,
+      localSeq: row.local_seq ?? undefined,
+      serverSeq: row.server_seq ?? undefined,
+      payload: parseJson(row.payload_json),
+      syncStatus: row.sync_status,
+      errorCode: row.error_code ?? undefined,
+      errorMessage: row.error_message ?? undefined,
+    }));
+  }
+
   async getDeviceState(): Promise<DeviceState> {
     const row = this.db
       .prepare(
@@ -283,8 +539,8 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
       `INSERT INTO events(
         workspace_id, event_id, event_schema_version, payload_schema_version, type,
         created_at_ms, device_id, local_seq, server_seq, payload_json,
-        sync_status, error_code, error_message
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        sync_status, error_code, error_message, atom_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(workspace_id, event_id)
       DO UPDATE SET
         server_seq = COALESCE(excluded.server_seq, events.server_seq),
@@ -311,6 +567,7 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
           event.syncStatus,
           event.errorCode ?? null,
           event.errorMessage ?? null,
+          eventAtomId(event) ?? null,
         );
       }
       this.db.exec('COMMIT');
@@ -321,60 +578,52 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
   }
 
   async listEvents(): Promise<StoredEvent[]> {
-    const rows = this.db
-      .prepare(
-        `SELECT
-          event_id,
-          event_schema_version,
-          payload_schema_version,
-          type,
-          created_at_ms,
-          device_id,
-          local_seq,
-          server_seq,
-          payload_json,
-          sync_status,
-          error_code,
-          error_message
-         FROM events
-         WHERE workspace_id = ?
-         ORDER BY
-           CASE WHEN server_seq IS NULL THEN 1 ELSE 0 END,
-           server_seq ASC,
-           local_seq ASC,
-           created_at_ms ASC,
-           event_id ASC`
-      )
-      .all(this.workspaceId) as Array<{
-      event_id: string;
-      event_schema_version: number;
-      payload_schema_version: number | null;
-      type: string;
-      created_at_ms: number;
-      device_id: string;
-      local_seq: number | null;
-      server_seq: number | null;
-      payload_json: string;
-      sync_status: SyncItemStatus;
-      error_code: StoredEvent['errorCode'] | null;
-      error_message: string | null;
-    }>;
+    return this.selectEvents(
+      `WHERE workspace_id = ?
+       ORDER BY
+         CASE WHEN server_seq IS NULL THEN 1 ELSE 0 END,
+         server_seq ASC,
+         local_seq ASC,
+         created_at_ms ASC,
+         event_id ASC`,
+      this.workspaceId,
+    );
+  }
 
-    return rows.map((row) => ({
-      eventId: row.event_id,
-      eventSchemaVersion: row.event_schema_version,
-      payloadSchemaVersion: row.payload_schema_version ?? undefined,
-      type: row.type as StoredEvent['type'],
-      createdAtMs: row.created_at_ms,
-      deviceId: row.device_id,
-      workspaceId: this.workspaceId,
-      localSeq: row.local_seq ?? undefined,
-      serverSeq: row.server_seq ?? undefined,
-      payload: parseJson(row.payload_json),
-      syncStatus: row.sync_status,
-      errorCode: row.error_code ?? undefined,
-      errorMessage: row.error_message ?? undefined,
-    }));
+  async listEventsSince(serverSeq: number): Promise<StoredEvent[]> {
+    return this.selectEvents(
+      `WHERE workspace_id = ? AND (server_seq IS NULL OR server_seq > ?)
+       ORDER BY
+         CASE WHEN server_seq IS NULL THEN 1 ELSE 0 END,
+         server_seq ASC,
+         local_seq ASC`,
+      this.workspaceId,
+      serverSeq,
+    );
+  }
+
+  async listAtomEvents(atomIds: string[]): Promise<StoredEvent[]> {
+    if (atomIds.length === 0) {
+      return [];
+    }
+    return this.selectEvents(
+      `WHERE workspace_id = ? AND atom_id IN (SELECT value FROM json_each(?))
+       ORDER BY server_seq ASC, local_seq ASC`,
+      this.workspaceId,
+      JSON.stringify(atomIds),
+    );
+  }
+
+  /** The given event ids that are already stored. */
+  async listKnownEventIds(eventIds: string[]): Promise<string[]> {
+    if (eventIds.length === 0) {
+      return [];
+    }
+    const rows = this.db.prepare(
+      `SELECT event_id FROM events
+       WHERE workspace_id = ? AND event_id IN (SELECT value FROM json_each(?))`
+    ).all(this.workspaceId, JSON.stringify(eventIds)) as Array<{ event_id: string }>;
+    return rows.map((row) => row.event_id);
   }
 
   async assignServerSeq(mappings: EventServerSeqMapping[]): Promise<boolean> {
@@ -403,57 +652,16 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
     return changed;
   }
 
-  async listPendingEvents(limit = 200): Promise<StoredEvent[]> {
-    const rows = this.db
-      .prepare(
-        `SELECT
-          event_id,
-          event_schema_version,
-          payload_schema_version,
-          type,
-          created_at_ms,
-          device_id,
-          local_seq,
-          server_seq,
-          payload_json,
-          sync_status,
-          error_code,
-          error_message
-         FROM events
-         WHERE workspace_id = ? AND server_seq IS NULL
-         ORDER BY local_seq ASC, created_at_ms ASC, event_id ASC
-         LIMIT ?`
-      )
-      .all(this.workspaceId, limit) as Array<{
-      event_id: string;
-      event_schema_version: number;
-      payload_schema_version: number | null;
-      type: string;
-      created_at_ms: number;
-      device_id: string;
-      local_seq: number | null;
-      server_seq: number | null;
-      payload_json: string;
-      sync_status: SyncItemStatus;
-      error_code: StoredEvent['errorCode'] | null;
-      error_message: string | null;
-    }>;
-
-    return rows.map((row) => ({
-      eventId: row.event_id,
-      eventSchemaVersion: row.event_schema_version,
-      payloadSchemaVersion: row.payload_schema_version ?? undefined,
-      type: row.type as StoredEvent['type'],
-      createdAtMs: row.created_at_ms,
-      deviceId: row.device_id,
-      workspaceId: this.workspaceId,
-      localSeq: row.local_seq ?? undefined,
-      serverSeq: row.server_seq ?? undefined,
-      payload: parseJson(row.payload_json),
-      syncStatus: row.sync_status,
-      errorCode: row.error_code ?? undefined,
-      errorMessage: row.error_message ?? undefined,
-    }));
+  /** Events merged from other devices' segments are synced without a server sequence; their device pushes them. */
+  async listPendingEvents(limit = 200, offset = 0): Promise<StoredEvent[]> {
+    return this.selectEvents(
+      `WHERE workspace_id = ? AND server_seq IS NULL AND sync_status NOT IN ('sync_failed', 'synced')
+       ORDER BY local_seq ASC, created_at_ms ASC, event_id ASC
+       LIMIT ? OFFSET ?`,
+      this.workspaceId,
+      limit,
+      offset,
+    );
   }
 
   async updateEventStatus(eventId: string, status: SyncItemStatus, error?: SyncError | null): Promise<void> {
@@ -473,102 +681,320 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
       this.db.prepare(`DELETE FROM atom_versions WHERE workspace_id = ?`).run(this.workspaceId);
       this.db.prepare(`DELETE FROM conflicts WHERE workspace_id = ?`).run(this.workspaceId);
       this.db.prepare(`DELETE FROM inbox_items WHERE workspace_id = ?`).run(this.workspaceId);
+      this.db.prepare(`DELETE FROM atom_search WHERE workspace_id = ?`).run(this.workspaceId);
+      this.db.prepare(`DELETE FROM atom_tags WHERE workspace_id = ?`).run(this.workspaceId);
 
-      const atomStatement = this.db.prepare(
-        `INSERT INTO atoms(
-          workspace_id, atom_id, title, body, created_at_ms, updated_at_ms,
-          capture_event_id, head_version_ids_json, needs_resolution, blob_hashes_json
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-      );
+      this.writeProjectionRows(snapshot);
 
-      for (const atom of snapshot.atoms) {
-        atomStatement.run(
-          this.workspaceId,
-          atom.atomId,
-          atom.title,
-          atom.body,
-          atom.createdAtMs,
-          atom.updatedAtMs,
-          atom.captureEventId,
-          JSON.stringify(atom.headVersionIds),
-          atom.needsResolution ? 1 : 0,
-          JSON.stringify(atom.blobHashes),
-        );
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async saveProjectionChanges(snapshot: ProjectionSnapshot, changedAtomIds: string[]): Promise<void> {
+    const changed = new Set(changedAtomIds);
+
+    this.db.exec('BEGIN');
+    try {
+      for (const table of ['atoms', 'atom_versions', 'conflicts', 'inbox_items', 'atom_search', 'atom_tags']) {
+        const statement = this.db.prepare(`DELETE FROM ${table} WHERE workspace_id = ? AND atom_id = ?`);
+        for (const atomId of changed) {
+          statement.run(this.workspaceId, atomId);
+        }
       }
 
-      const versionStatement = this.db.prepare(
-        `INSERT INTO atom_versions(
-          workspace_id, version_id, atom_id, event_id, parent_version_id,
-          body, created_at_ms, server_seq, local_seq
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      this.writeProjectionRows(snapshot, changed);
+
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /** Insert projection rows, limited to `atomIds` when only part of the snapshot changed. */
+  private writeProjectionRows(snapshot: ProjectionSnapshot, atomIds?: Set<string>): void {
+    const includes = (atomId: string) => !atomIds || atomIds.has(atomId);
+
+    const atomStatement = this.db.prepare(
+      `INSERT INTO atoms(
+        workspace_id, atom_id, title, body, created_at_ms, updated_at_ms,
+        capture_event_id, head_version_ids_json, needs_resolution, blob_hashes_json,
+        status, archived_at_ms, deleted_at_ms, kind, assigned_tags_json, tags_json, links_json
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    for (const atom of snapshot.atoms.filter((entry) => includes(entry.atomId))) {
+      atomStatement.run(
+        this.workspaceId,
+        atom.atomId,
+        atom.title,
+        atom.body,
+        atom.createdAtMs,
+        atom.updatedAtMs,
+        atom.captureEventId,
+        JSON.stringify(atom.headVersionIds),
+        atom.needsResolution ? 1 : 0,
+        JSON.stringify(atom.blobHashes),
+        atom.status,
+        atom.archivedAtMs ?? null,
+        atom.deletedAtMs ?? null,
+        atom.kind ?? null,
+        atom.assignedTags ? JSON.stringify(atom.assignedTags) : null,
+        atom.tags ? JSON.stringify(atom.tags) : null,
+        atom.links ? JSON.stringify(atom.links) : null,
       );
+    }
 
-      for (const version of snapshot.atomVersions) {
-        versionStatement.run(
-          this.workspaceId,
-          version.versionId,
-          version.atomId,
-          version.eventId,
-          version.parentVersionId ?? null,
-          version.body,
-          version.createdAtMs,
-          version.serverSeq ?? null,
-          version.localSeq ?? null,
-        );
+    // Like the inbox, the tag index only covers active atoms.
+    const tagStatement = this.db.prepare(`INSERT INTO atom_tags(workspace_id, tag, atom_id) VALUES (?, ?, ?)`);
+    for (const atom of snapshot.atoms.filter((entry) => includes(entry.atomId) && entry.status === 'active')) {
+      for (const tag of atom.tags ?? []) {
+        tagStatement.run(this.workspaceId, tag, atom.atomId);
       }
+    }
 
-      const conflictStatement = this.db.prepare(
-        `INSERT INTO conflicts(
-          workspace_id, conflict_id, atom_id, version_ids_json, reason,
-          status, created_at_ms, updated_at_ms
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    // Search rows are copied from the atoms just written, so they cannot drift from the projection.
+    const searchStatement = this.db.prepare(this.searchRowsSql('AND a.atom_id = ?'));
+    for (const atom of snapshot.atoms.filter((entry) => includes(entry.atomId))) {
+      searchStatement.run(this.workspaceId, atom.atomId);
+    }
+
+    const versionStatement = this.db.prepare(
+      `INSERT INTO atom_versions(
+        workspace_id, version_id, atom_id, event_id, parent_version_id,
+        merged_from_json, body, created_at_ms, server_seq, local_seq
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    for (const version of snapshot.atomVersions.filter((entry) => includes(entry.atomId))) {
+      versionStatement.run(
+        this.workspaceId,
+        version.versionId,
+        version.atomId,
+        version.eventId,
+        version.parentVersionId ?? null,
+        version.mergedFromVersionIds ? JSON.stringify(version.mergedFromVersionIds) : null,
+        version.body,
+        version.createdAtMs,
+        version.serverSeq ?? null,
+        version.localSeq ?? null,
       );
+    }
 
-      for (const conflict of snapshot.conflicts) {
-        conflictStatement.run(
-          this.workspaceId,
-          conflict.conflictId,
-          conflict.atomId,
-          JSON.stringify(conflict.versionIds),
-          conflict.reason,
-          conflict.status,
-          conflict.createdAtMs,
-          conflict.updatedAtMs,
-        );
-      }
+    const conflictStatement = this.db.prepare(
+      `INSERT INTO conflicts(
+        workspace_id, conflict_id, atom_id, version_ids_json, reason,
+        status, created_at_ms, updated_at_ms, resolved_at_ms,
+        resolution_event_id, resolved_version_id, base_version_id,
+        hunks_json, marked_body
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
 
-      const inboxStatement = this.db.prepare(
-        `INSERT INTO inbox_items(
-          workspace_id, item_id, atom_id, title, preview, created_at_ms,
-          updated_at_ms, source_event_id, sync_status, needs_resolution, server_seq
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    for (const conflict of snapshot.conflicts.filter((entry) => includes(entry.atomId))) {
+      conflictStatement.run(
+        this.workspaceId,
+        conflict.conflictId,
+        conflict.atomId,
+        JSON.stringify(conflict.versionIds),
+        conflict.reason,
+        conflict.status,
+        conflict.createdAtMs,
+        conflict.updatedAtMs,
+        conflict.resolvedAtMs ?? null,
+        conflict.resolutionEventId ?? null,
+        conflict.resolvedVersionId ?? null,
+        conflict.baseVersionId ?? null,
+        conflict.hunks ? JSON.stringify(conflict.hunks) : null,
+        conflict.markedBody ?? null,
       );
+    }
 
-      for (const item of snapshot.inbox) {
-        inboxStatement.run(
-          this.workspaceId,
-          item.id,
-          item.atomId,
-          item.title,
-          item.preview,
-          item.createdAtMs,
-          item.updatedAtMs,
-          item.sourceEventId,
-          item.syncStatus,
-          item.needsResolution ? 1 : 0,
-          item.serverSeq ?? null,
-        );
-      }
+    const inboxStatement = this.db.prepare(
+      `INSERT INTO inbox_items(
+        workspace_id, item_id, atom_id, title, preview, created_at_ms,
+        updated_at_ms, source_event_id, sync_status, needs_resolution, has_audio, tags_json, server_seq
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    for (const item of snapshot.inbox.filter((entry) => includes(entry.atomId))) {
+      inboxStatement.run(
+        this.workspaceId,
+        item.id,
+        item.atomId,
+        item.title,
+        item.preview,
+        item.createdAtMs,
+        item.updatedAtMs,
+        item.sourceEventId,
+        item.syncStatus,
+        item.needsResolution ? 1 : 0,
+        item.hasAudio ? 1 : 0,
+        item.tags ? JSON.stringify(item.tags) : null,
+        item.serverSeq ?? null,
+      );
+    }
+
+    // Resolution depends on every atom's title, so links are rewritten whole even for partial saves.
+    this.db.prepare(`DELETE FROM atom_links WHERE workspace_id = ?`).run(this.workspaceId);
+    const linkStatement = this.db.prepare(
+      `INSERT INTO atom_links(workspace_id, position, source_atom_id, target, origin, relation, target_atom_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const [position, link] of (snapshot.links ?? []).entries()) {
+      linkStatement.run(
+        this.workspaceId,
+        position,
+        link.sourceAtomId,
+        link.target,
+        link.origin,
+        link.relation ?? null,
+        link.targetAtomId ?? null,
+      );
+    }
 
+    this.db
+      .prepare(
+        `INSERT INTO projection_meta(workspace_id, generated_at_ms, last_applied_seq, provisional_mark_json)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(workspace_id)
+         DO UPDATE SET
+           generated_at_ms = excluded.generated_at_ms,
+           last_applied_seq = excluded.last_applied_seq,
+           provisional_mark_json = excluded.provisional_mark_json`
+      )
+      .run(
+        this.workspaceId,
+        snapshot.generatedAtMs,
+        snapshot.lastAppliedSeq,
+        snapshot.provisional ? JSON.stringify(snapshot.provisional) : null,
+      );
+  }
+
+  /** Insert search rows for active atoms of this workspace, narrowed by `filter`. */
+  private searchRowsSql(filter: string): string {
+    return `INSERT INTO atom_search(workspace_id, atom_id, title, body, transcript)
+      SELECT a.workspace_id, a.atom_id, a.title, a.body, COALESCE(t.text, '')
+      FROM atoms a
+      LEFT JOIN atom_transcripts t ON t.workspace_id = a.workspace_id AND t.atom_id = a.atom_id
+      WHERE a.workspace_id = ? AND a.status = 'active' ${filter}`;
+  }
+
+  /** Index the transcript of an atom's recording alongside its title and body. */
+  async saveTranscriptText(atomId: string, text: string): Promise<void> {
+    this.db.exec('BEGIN');
+    try {
       this.db
         .prepare(
-          `INSERT INTO projection_meta(workspace_id, generated_at_ms, last_applied_seq)
-           VALUES (?, ?, ?)
-           ON CONFLICT(workspace_id)
-           DO UPDATE SET generated_at_ms = excluded.generated_at_ms, last_applied_seq = excluded.last_applied_seq`
+          `INSERT INTO atom_transcripts(workspace_id, atom_id, text, updated_at_ms)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT(workspace_id, atom_id) DO UPDATE SET
+             text = excluded.text,
+             updated_at_ms = excluded.updated_at_ms`
         )
-        .run(this.workspaceId, snapshot.generatedAtMs, snapshot.lastAppliedSeq);
+        .run(this.workspaceId, atomId, text, Date.now());
+      this.db.prepare(`DELETE FROM atom_search WHERE workspace_id = ? AND atom_id = ?`).run(this.workspaceId, atomId);
+      this.db.prepare(this.searchRowsSql('AND a.atom_id = ?')).run(this.workspaceId, atomId);
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Ranked full-text search over active atoms. Title matches weigh most; the
+   * snippet comes from the body, or the transcript when only it matched.
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResults> {
+    const match = buildMatchQuery(query);
+    if (!match) {
+      return { hits: [], total: 0 };
+    }
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM atom_search WHERE atom_search MATCH ? AND workspace_id = ?`)
+      .get(match, this.workspaceId) as { total: number };
+
+    const rows = this.db
+      .prepare(
+        `SELECT
+           atom_id,
+           highlight(atom_search, 2, ?, ?) AS title,
+           snippet(atom_search, 3, ?, ?, '…', 24) AS body_snippet,
+           snippet(atom_search, 4, ?, ?, '…', 24) AS transcript_snippet,
+           bm25(atom_search, 0, 0, 5.0, 1.0, 1.0) AS rank
+         FROM atom_search
+         WHERE atom_search MATCH ? AND workspace_id = ?
+         ORDER BY rank, atom_id
+         LIMIT ? OFFSET ?`
+      )
+      .all(
+        MATCH_START, MATCH_END,
+        MATCH_START, MATCH_END,
+        MATCH_START, MATCH_END,
+        match,
+        this.workspaceId,
+        options.limit ?? DEFAULT_SEARCH_LIMIT,
+        options.offset ?? 0,
+      ) as Array<{ atom_id: string; title: string; body_snippet: string; transcript_snippet: string; rank: number }>;
+
+    return {
+      total,
+      hits: rows.map((row) => {
+        const title = takeHighlights(row.title);
+        const bodySnippet = takeHighlights(row.body_snippet);
+        const transcriptSnippet = takeHighlights(row.transcript_snippet);
+        const snippet = bodySnippet.highlights.length === 0 && transcriptSnippet.highlights.length > 0
+          ? transcriptSnippet
+          : bodySnippet;
+        return {
+          atomId: row.atom_id,
+          title: title.text,
+          titleHighlights: title.highlights,
+          snippet: snippet.text,
+          snippetHighlights: snippet.highlights,
+          // bm25() is lower for better matches.
+          score: -row.rank,
+        };
+      }),
+    };
+  }
 
+  async listVaultFiles(): Promise<VaultFileRecord[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT atom_id, content_hash, version_id, written_at_ms
+         FROM vault_files
+         WHERE workspace_id = ?`
+      )
+      .all(this.workspaceId) as Array<{ atom_id: string; content_hash: string; version_id: string; written_at_ms: number }>;
+
+    return rows.map((row) => ({
+      atomId: row.atom_id,
+      contentHash: row.content_hash,
+      versionId: row.version_id,
+      writtenAtMs: row.written_at_ms,
+    }));
+  }
+
+  async saveVaultFiles(records: VaultFileRecord[]): Promise<void> {
+    const statement = this.db.prepare(
+      `INSERT INTO vault_files(workspace_id, atom_id, content_hash, version_id, written_at_ms)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(workspace_id, atom_id) DO UPDATE SET
+         content_hash = excluded.content_hash,
+         version_id = excluded.version_id,
+         written_at_ms = excluded.written_at_ms`
+    );
+
+    this.db.exec('BEGIN');
+    try {
+      for (const record of records) {
+        statement.run(this.workspaceId, record.atomId, record.contentHash, record.versionId, record.writtenAtMs);
+      }
       this.db.exec('COMMIT');
     } catch (error) {
       this.db.exec('ROLLBACK');
@@ -576,10 +1002,47 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
     }
   }
 
+  async deleteVaultFiles(atomIds: string[]): Promise<void> {
+    const statement = this.db.prepare(`DELETE FROM vault_files WHERE workspace_id = ? AND atom_id = ?`);
+    for (const atomId of atomIds) {
+      statement.run(this.workspaceId, atomId);
+    }
+  }
+
+  /** Tags of active atoms with how many atoms carry each, most used first. */
+  async listTags(): Promise<TagCount[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT tag, COUNT(*) AS count
+         FROM atom_tags
+         WHERE workspace_id = ?
+         GROUP BY tag
+         ORDER BY count DESC, tag ASC`
+      )
+      .all(this.workspaceId) as Array<{ tag: string; count: number }>;
+    return rows.map((row) => ({ tag: row.tag, count: row.count }));
+  }
+
+  /** Active atoms tagged `tag` or a tag nested under it (`garden` matches `garden/herbs`). */
+  async listAtomIdsWithTag(tag: string): Promise<string[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT DISTINCT atom_id
+         FROM atom_tags
+         WHERE workspace_id = ? AND (tag = ? OR substr(tag, 1, ?) = ?)`
+      )
+      .all(this.workspaceId, tag, tag.length + 1, `${tag}/`) as Array<{ atom_id: string }>;
+    return rows.map((row) => row.atom_id);
+  }
+
   async getProjection(): Promise<ProjectionSnapshot | null> {
     const meta = this.db
-      .prepare(`SELECT generated_at_ms, last_applied_seq FROM projection_meta WHERE workspace_id = ?`)
-      .get(this.workspaceId) as { generated_at_ms: number; last_applied_seq: number } | undefined;
+      .prepare(
+        `SELECT generated_at_ms, last_applied_seq, provisional_mark_json FROM projection_meta WHERE workspace_id = ?`
+      )
+      .get(this.workspaceId) as
+      | { generated_at_ms: number; last_applied_seq: number; provisional_mark_json: string | null }
+      | undefined;
 
     if (!meta) {
       return null;
@@ -587,7 +1050,8 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
 
     const atoms = this.db
       .prepare(
-        `SELECT atom_id, title, body, created_at_ms, updated_at_ms, capture_event_id, head_version_ids_json, needs_resolution, blob_hashes_json
+        `SELECT atom_id, title, body, created_at_ms, updated_at_ms, capture_event_id, head_version_ids_json, needs_resolution, blob_hashes_json,
+           status, archived_at_ms, deleted_at_ms, kind, assigned_tags_json, tags_json, links_json
          FROM atoms
          WHERE workspace_id = ?`
       )
@@ -601,11 +1065,18 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
       head_version_ids_json: string;
       needs_resolution: number;
       blob_hashes_json: string;
+      status: AtomLifecycleStatus;
+      archived_at_ms: number | null;
+      deleted_at_ms: number | null;
+      kind: AtomKind | null;
+      assigned_tags_json: string | null;
+      tags_json: string | null;
+      links_json: string | null;
     }>;
 
     const versions = this.db
       .prepare(
-        `SELECT atom_id, version_id, event_id, parent_version_id, body, created_at_ms, server_seq, local_seq
+        `SELECT atom_id, version_id, event_id, parent_version_id, merged_from_json, body, created_at_ms, server_seq, local_seq
          FROM atom_versions
          WHERE workspace_id = ?`
       )
@@ -614,6 +1085,7 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
       version_id: string;
       event_id: string;
       parent_version_id: string | null;
+      merged_from_json: string | null;
       body: string;
       created_at_ms: number;
       server_seq: number | null;
@@ -622,7 +1094,8 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
 
     const conflicts = this.db
       .prepare(
-        `SELECT conflict_id, atom_id, version_ids_json, reason, status, created_at_ms, updated_at_ms
+        `SELECT conflict_id, atom_id, version_ids_json, reason, status, created_at_ms, updated_at_ms,
+           resolved_at_ms, resolution_event_id, resolved_version_id, base_version_id, hunks_json, marked_body
          FROM conflicts
          WHERE workspace_id = ?`
       )
@@ -634,11 +1107,33 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
       status: 'open' | 'resolved';
       created_at_ms: number;
       updated_at_ms: number;
+      resolved_at_ms: number | null;
+      resolution_event_id: string | null;
+      resolved_version_id: string | null;
+      base_version_id: string | null;
+      hunks_json: string | null;
+      marked_body: string | null;
+    }>;
+
+    const links = this.db
+      .prepare(
+        `SELECT source_atom_id, target, origin, relation, target_atom_id
+         FROM atom_links
+         WHERE workspace_id = ?
+         ORDER BY position`
+      )
+      .all(this.workspaceId) as Array<{
+      source_atom_id: string;
+      target: string;
+      origin: LinkRecord['origin'];
+      relation: LinkRecord['relation'] | null;
+      target_atom_id: string | null;
     }>;
 
     const inbox = this.db
       .prepare(
-        `SELECT item_id, atom_id, title, preview, created_at_ms, updated_at_ms, source_event_id, sync_status, needs_resolution, server_seq
+        `SELECT item_id, atom_id, title, preview, created_at_ms, updated_at_ms, source_event_id, sync_status, needs_resolution, has_audio,
+           tags_json, server_seq
          FROM inbox_items
          WHERE workspace_id = ?
          ORDER BY created_at_ms DESC, item_id ASC`
@@ -653,12 +1148,17 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
       source_event_id: string;
       sync_status: SyncItemStatus;
       needs_resolution: number;
+      has_audio: number;
+      tags_json: string | null;
       server_seq: number | null;
     }>;
 
     return {
       generatedAtMs: meta.generated_at_ms,
       lastAppliedSeq: meta.last_applied_seq,
+      provisional: meta.provisional_mark_json
+        ? parseJson<ProvisionalMark>(meta.provisional_mark_json)
+        : undefined,
       atoms: atoms.map((atom) => ({
         atomId: atom.atom_id,
         title: atom.title,
@@ -669,12 +1169,20 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
         headVersionIds: parseJson<string[]>(atom.head_version_ids_json),
         needsResolution: atom.needs_resolution === 1,
         blobHashes: parseJson<string[]>(atom.blob_hashes_json),
+        status: atom.status,
+        archivedAtMs: atom.archived_at_ms ?? undefined,
+        deletedAtMs: atom.deleted_at_ms ?? undefined,
+        ...(atom.kind ? { kind: atom.kind } : {}),
+        ...(atom.assigned_tags_json ? { assignedTags: parseJson<string[]>(atom.assigned_tags_json) } : {}),
+        ...(atom.tags_json ? { tags: parseJson<string[]>(atom.tags_json) } : {}),
+        ...(atom.links_json ? { links: parseJson<AtomLinkTarget[]>(atom.links_json) } : {}),
       })),
       atomVersions: versions.map((version) => ({
         atomId: version.atom_id,
         versionId: version.version_id,
         eventId: version.event_id,
         parentVersionId: version.parent_version_id ?? undefined,
+        mergedFromVersionIds: version.merged_from_json ? parseJson<string[]>(version.merged_from_json) : undefined,
         body: version.body,
         createdAtMs: version.created_at_ms,
         serverSeq: version.server_seq ?? undefined,
@@ -688,6 +1196,12 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
         status: conflict.status,
         createdAtMs: conflict.created_at_ms,
         updatedAtMs: conflict.updated_at_ms,
+        resolvedAtMs: conflict.resolved_at_ms ?? undefined,
+        resolutionEventId: conflict.resolution_event_id ?? undefined,
+        resolvedVersionId: conflict.resolved_version_id ?? undefined,
+        baseVersionId: conflict.base_version_id ?? undefined,
+        hunks: conflict.hunks_json ? parseJson<ConflictHunk[]>(conflict.hunks_json) : undefined,
+        markedBody: conflict.marked_body ?? undefined,
       })),
       inbox: inbox.map((item) => ({
         id: item.item_id,
@@ -699,8 +1213,17 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
         sourceEventId: item.source_event_id,
         syncStatus: item.sync_status,
         needsResolution: item.needs_resolution === 1,
+        ...(item.has_audio === 1 ? { hasAudio: true } : {}),
+        ...(item.tags_json ? { tags: parseJson<string[]>(item.tags_json) } : {}),
         serverSeq: item.server_seq ?? undefined,
       })),
+      links: links.map((link) => ({
+        sourceAtomId: link.source_atom_id,
+        target: link.target,
+        origin: link.origin,
+        ...(link.relation ? { relation: link.relation } : {}),
+        ...(link.target_atom_id ? { targetAtomId: link.target_atom_id } : {}),
+      })),
       referencedBlobs: Array.from(
         new Set(
           atoms.flatMap((atom) => parseJson<string[]>(atom.blob_hashes_json)),
@@ -782,6 +1305,46 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
     }));
   }
 
+  async readBlob(hash: string): Promise<Uint8Array | null> {
+    const row = this.db
+      .prepare(`SELECT local_path FROM blob_manifest WHERE workspace_id = ? AND hash = ? AND is_present = 1`)
+      .get(this.workspaceId, hash) as { local_path: string } | undefined;
+    if (!row || !fs.existsSync(row.local_path)) {
+      return null;
+    }
+    return fs.readFileSync(row.local_path);
+  }
+
+  async writeBlob(hash: string, bytes: Uint8Array, contentType: string): Promise<string> {
+    // Staged through .partial/ so a crash never leaves a truncated blob under its hash.
+    await this.writeBlobDownload(hash, 0, bytes);
+    return this.finishBlobDownload(hash, contentType);
+  }
+
+  async readBlobDownload(hash: string): Promise<Uint8Array | null> {
+    const partialPath = this.partialBlobPath(hash);
+    return fs.existsSync(partialPath) ? fs.readFileSync(partialPath) : null;
+  }
+
+  async writeBlobDownload(hash: string, offset: number, bytes: Uint8Array): Promise<void> {
+    const partialPath = this.partialBlobPath(hash);
+    fs.mkdirSync(path.dirname(partialPath), { recursive: true });
+    if (offset === 0) {
+      fs.writeFileSync(partialPath, bytes);
+      return;
+    }
+
+    fs.truncateSync(partialPath, offset);
+    fs.appendFileSync(partialPath, bytes);
+  }
+
+  async finishBlobDownload(hash: string, contentType: string): Promise<string> {
+    const targetPath = path.join(this.blobDir, `${hash}${extensionFromContentType(contentType)}`);
+    fs.mkdirSync(this.blobDir, { recursive: true });
+    fs.renameSync(this.partialBlobPath(hash), targetPath);
+    return targetPath;
+  }
+
   async saveSyncAttempt(attempt: SyncAttempt): Promise<void> {
     this.db
       .prepare(
@@ -823,4 +1386,73 @@ export class DesktopSqliteStorageAdapter implements StorageAdapter {
       message: row.message ?? undefined,
     }));
   }
+
+  async listEmbeddings(): Promise<AtomEmbedding[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT atom_id, model, content_hash, vector, updated_at_ms
+         FROM atom_embeddings
+         WHERE workspace_id = ?`
+      )
+      .all(this.workspaceId) as Array<{
+      atom_id: string;
+      model: string;
+      content_hash: string;
+      vector: Uint8Array;
+      updated_at_ms: number;
+    }>;
+
+    return rows.map((row) => ({
+      atomId: row.atom_id,
+      model: row.model,
+      contentHash: row.content_hash,
+      // Copy out of the row buffer, which may not be 4-byte aligned.
+      vector: new Float32Array(row.vector.slice().buffer),
+      updatedAtMs: row.updated_at_ms,
+    }));
+  }
+
+  async saveEmbeddings(embeddings: AtomEmbedding[]): Promise<void> {
+    const statement = this.db.prepare(
+      `INSERT INTO atom_embeddings(workspace_id, atom_id, model, content_hash, vector, updated_at_ms)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(workspace_id, atom_id) DO UPDATE SET
+         model = excluded.model,
+         content_hash = excluded.content_hash,
+         vector = excluded.vector,
+         updated_at_ms = excluded.updated_at_ms`
+    );
+
+    this.db.exec('BEGIN');
+    try {
+      for (const entry of embeddings) {
+        statement.run(
+          this.workspaceId,
+          entry.atomId,
+          entry.model,
+          entry.contentHash,
+          new Uint8Array(entry.vector.buffer, entry.vector.byteOffset, entry.vector.byteLength),
+          entry.updatedAtMs,
+        );
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async deleteEmbeddings(atomIds: string[]): Promise<void> {
+    const statement = this.db.prepare(`DELETE FROM atom_embeddings WHERE workspace_id = ? AND atom_id = ?`);
+    for (const atomId of atomIds) {
+      statement.run(this.workspaceId, atomId);
+    }
+  }
+
+  private partialBlobPath(hash: string): string {
+    if (!/^[a-f0-9]{64}$/.test(hash)) {
+      throw new Error(`Invalid blob hash: ${hash}`);
+    }
+    return path.join(this.blobDir, '.partial', hash);
+  }
 }
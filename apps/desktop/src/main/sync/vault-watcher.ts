@@ -0,0 +1,132 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+
+/** What the vault file of an atom held when the app last wrote it. */
+export interface VaultFileRecord {
+  atomId: string;
+  /** Hash of the note body as written, see `noteContentHash`. */
+  contentHash: string;
+  /** Version the written body belongs to; external edits are based on it. */
+  versionId: string;
+  writtenAtMs: number;
+}
+
+export interface VaultChanges {
+  /** Atoms whose note was edited outside the app, or by another device through the vault event log. */
+  updated: string[];
+  /** Atoms captured from new files in `notes/`, or on another device. */
+  captured: string[];
+}
+
+/**
+ * What resolving a conflict copy does, or would do in a dry run:
+ * - `archive`: the copy matches a version the note already had
+ * - `update`: the note is unchanged since the copy was made, the copy becomes its text
+ * - `merge`: both changed and the edits merge cleanly
+ * - `conflict`: the edits overlap and open a conflict on the note
+ * - `capture`: no note has the copy's id, it becomes a new note
+ * - `skip`: the copy stays where it is, see `reason`
+ */
+export type ConflictCopyAction = 'archive' | 'update' | 'merge' | 'conflict' | 'capture' | 'skip';
+
+export interface ConflictCopyResult {
+  /** Path of the copy relative to the vault. */
+  filePath: string;
+  /** Note the copy belongs to, or the note it was captured as. */
+  atomId?: string;
+  action: ConflictCopyAction;
+  /** Overlapping regions between the copy and the note, for `conflict`. */
+  conflictingHunks?: number;
+  reason?: string;
+  /** Where the copy was moved, relative to the vault; not set in a dry run. */
+  archivedPath?: string;
+}
+
+export interface ConflictCopyReport {
+  dryRun: boolean;
+  copies: ConflictCopyResult[];
+}
+
+/** Surrounding whitespace is ignored, since frontmatter serialization does not preserve it. */
+export function noteContentHash(body: string): string {
+  return createHash('sha256').update(body.trim()).digest('hex');
+}
+
+/** Files the app writes itself (temp files of atomic writes) or that are not notes. */
+export function isWatchedNoteFile(fileName: string): boolean {
+  return fileName.endsWith('.md') && !fileName.startsWith('.');
+}
+
+/**
+ * Watches a vault folder and reports bursts of changes once they settle.
+ * Editors and cloud clients often write a file in several steps, and the
+ * app's own writes show up here too; `onChange` must tell them apart.
+ */
+export class VaultWatcher {
+  private readonly dir: string;
+
+  private readonly onChange: () => void;
+
+  private readonly debounceMs: number;
+
+  private readonly isWatchedFile: (fileName: string) => boolean;
+
+  private readonly recursive: boolean;
+
+  private watcher: fs.FSWatcher | null = null;
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: {
+    dir: string;
+    onChange: () => void;
+    debounceMs?: number;
+    /** Defaults to notes, see `isWatchedNoteFile`. */
+    isWatchedFile?: (fileName: string) => boolean;
+    recursive?: boolean;
+  }) {
+    this.dir = options.dir;
+    this.onChange = options.onChange;
+    this.debounceMs = options.debounceMs ?? 500;
+    this.isWatchedFile = options.isWatchedFile ?? isWatchedNoteFile;
+    this.recursive = options.recursive ?? false;
+  }
+
+  start(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    this.watcher = fs.watch(this.dir, { recursive: this.recursive }, (_eventType, fileName) => {
+      if (fileName && !this.isWatchedFile(path.basename(fileName.toString()))) {
+        return;
+      }
+      this.schedule();
+    });
+    this.watcher.on('error', (error) => {
+      console.warn(`[vault-watcher] Watching ${this.dir} failed:`, error);
+      this.stop();
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.onChange();
+    }, this.debounceMs);
+  }
+}
@@ -13,6 +13,7 @@ import * as path from 'node:path';
 import * as crypto from 'node:crypto';
 import matter from 'gray-matter';
 import { v4 as uuidv4 } from 'uuid';
+import { parseTranscript, type Transcript } from '@seedworld/core';
 
 // ============================================================================
 // Types
@@ -22,6 +23,7 @@ export interface Note {
     id: string;
     title: string;
     content: string;
+    tags?: string[];
     createdAt: string;
     updatedAt: string;
 }
@@ -29,9 +31,12 @@ export interface Note {
 export interface NoteInput {
     title?: string;
     content: string;
+    audioPath?: string;  // Relative path to an attached recording
+    tags?: string[];     // Written to frontmatter; omit to keep the note's current tags
 }
 
 export interface NoteIndex {
+    formatVersion: number;  // Vault format the index was built from, see VAULT_FORMAT_VERSION
     notes: NoteIndexEntry[];
     lastRebuilt: string;
 }
@@ -43,6 +48,29 @@ export interface NoteIndexEntry {
     updatedAt: string;
 }
 
+/**
+ * Contents of `seedworld.json` at the vault root
+ */
+export interface VaultFormatFile {
+    formatVersion: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface VaultMigrationRecord {
+    fromVersion: number;
+    toVersion: number;
+    description: string;
+    backupPath: string;     // Relative to the vault
+}
+
+export interface VaultFormatStatus {
+    formatVersion: number;      // Format of the vault after opening it
+    appFormatVersion: number;   // Newest format this build reads and writes
+    readOnly: boolean;          // The vault is newer than the app; nothing may be written
+    migrations: VaultMigrationRecord[];
+}
+
 export interface VaultSyncHealthReport {
     mode: 'local_folder';
     status: 'ok' | 'warning';
@@ -244,12 +272,14 @@ export function saveNote(vaultPath: string, input: NoteInput, existingId?: strin
     // Check if note exists (for update)
     const filePath = getNoteFilePath(vaultPath, id);
     let createdAt = now;
+    let tags = input.tags;
 
     if (fs.existsSync(filePath)) {
-        // Preserve original createdAt
+        // Preserve original createdAt, and tags unless new ones are given
         const existing = loadNote(vaultPath, id);
         if (existing) {
             createdAt = existing.createdAt;
+            tags = tags ?? existing.tags;
         }
     }
 
@@ -257,6 +287,7 @@ export function saveNote(vaultPath: string, input: NoteInput, existingId?: strin
         id,
         title,
         content: input.content,
+        ...(tags && tags.length > 0 ? { tags } : {}),
         createdAt,
         updatedAt: now,
     };
@@ -265,6 +296,8 @@ export function saveNote(vaultPath: string, input: NoteInput, existingId?: strin
     const fileContent = matter.stringify(note.content, {
         id: note.id,
         title: note.title,
+        ...(input.audioPath ? { audioPath: input.audioPath } : {}),
+        ...(note.tags ? { tags: note.tags } : {}),
         createdAt: note.createdAt,
         updatedAt: note.updatedAt,
     });
@@ -294,6 +327,7 @@ export function loadNote(vaultPath: string, noteId: string): Note | VoiceNote |
             id: data.id || noteId,
             title: data.title || extractTitle(content),
             content: content.trim(),
+            ...(Array.isArray(data.tags) ? { tags: data.tags.map(String) } : {}),
             createdAt: data.createdAt || new Date().toISOString(),
             updatedAt: data.updatedAt || new Date().toISOString(),
         };
@@ -313,6 +347,25 @@ export function loadNote(vaultPath: string, noteId: string): Note | VoiceNote |
     }
 }
 
+/**
+ * Read a file in notes/ as written, without filling in defaults
+ * Used for files the app may not have written, e.g. ones dropped in by the user
+ */
+export function loadNoteFile(vaultPath: string, fileName: string): { id?: string; title?: string; content: string; audioPath?: string } | null {
+    try {
+        const { data, content } = matter(fs.readFileSync(path.join(vaultPath, VAULT_DIRS.notes, fileName), 'utf-8'));
+        return {
+            ...(typeof data.id === 'string' ? { id: data.id } : {}),
+            ...(typeof data.title === 'string' ? { title: data.title } : {}),
+            content: content.trim(),
+            ...(typeof data.audioPath === 'string' ? { audioPath: data.audioPath } : {}),
+        };
+    } catch (error) {
+        console.error(`[vault] Failed to read note file ${fileName}:`, error);
+        return null;
+    }
+}
+
 /**
  * Load all notes from the vault
  */
@@ -371,6 +424,7 @@ export function rebuildIndex(vaultPath: string): NoteIndex {
     const notes = loadAllNotes(vaultPath);
 
     const index: NoteIndex = {
+        formatVersion: VAULT_FORMAT_VERSION,
         notes: notes.map(n => ({
             id: n.id,
             title: n.title,
@@ -405,15 +459,27 @@ export function saveChangeset(vaultPath: string, changesetId: string, data: unkn
 }
 
 /**
- * Save a transcript file (atomic)
+ * Save a transcript as `transcripts/<noteId>.json` (atomic)
  */
-export function saveTranscript(vaultPath: string, transcriptId: string, content: string): string {
+export function saveTranscript(vaultPath: string, transcript: Transcript): string {
     ensureVaultStructure(vaultPath);
-    const filePath = path.join(vaultPath, VAULT_DIRS.transcripts, `${transcriptId}.md`);
-    atomicWriteFileSync(filePath, content);
+    const filePath = path.join(vaultPath, VAULT_DIRS.transcripts, `${transcript.noteId}.json`);
+    atomicWriteJsonSync(filePath, transcript);
     return filePath;
 }
 
+/**
+ * Load a note's transcript, or null if it has none
+ * Throws if the file is corrupt or written by a newer app version
+ */
+export function loadTranscript(vaultPath: string, noteId: string): Transcript | null {
+    const filePath = path.join(vaultPath, VAULT_DIRS.transcripts, `${noteId}.json`);
+    if (!fs.existsSync(filePath)) {
+        return null;
+    }
+    return parseTranscript(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+}
+
 /**
  * Save a structure document (atomic)
  */
@@ -665,7 +731,11 @@ function detectCloudProvidersFromPath(vaultPath: string): string[] {
     return Array.from(providers);
 }
 
-function isConflictLikeFilename(filename: string): boolean {
+/**
+ * Copies cloud providers leave when a file changed on two devices at once,
+ * e.g. "note (conflicted copy).md" or "note (1).md"
+ */
+export function isConflictLikeFilename(filename: string): boolean {
     const lower = filename.toLowerCase();
     if (lower.includes('conflicted copy') || lower.includes('conflict')) {
         return true;
@@ -730,7 +800,7 @@ export function checkVaultSyncHealth(vaultPath: string): VaultSyncHealthReport {
     }
 
     if (conflictFiles.length > 0) {
-        recommendations.push('Resolve conflict-copy files, then run Rebuild Index to refresh listings.');
+        recommendations.push('Run Resolve Conflict Copies to merge conflict-copy notes back into their notes, then resolve any remaining files by hand.');
     }
 
     if (recommendations.length === 0) {
@@ -748,3 +818,216 @@ export function checkVaultSyncHealth(vaultPath: string): VaultSyncHealthReport {
         recommendations,
     };
 }
+
+// ============================================================================
+// Vault Format Versioning & Migrations
+// ============================================================================
+
+export const VAULT_FORMAT_FILE = 'seedworld.json';
+
+/**
+ * Format this build writes
+ * Version 1 is a vault from before seedworld.json existed
+ */
+export const VAULT_FORMAT_VERSION = 2;
+
+const VAULT_BACKUPS_DIR = path.join('.seedworld', 'backups');
+
+interface VaultMigration {
+    fromVersion: number;
+    description: string;
+    paths: string[];    // Vault-relative paths the migration rewrites; backed up first
+    migrate: (vaultPath: string) => void;
+}
+
+// Frontmatter names used by older notes and other editors
+const LEGACY_FRONTMATTER_FIELDS: Record<string, string> = {
+    created: 'createdAt',
+    created_at: 'createdAt',
+    date: 'createdAt',
+    updated: 'updatedAt',
+    updated_at: 'updatedAt',
+    modified: 'updatedAt',
+    audio: 'audioPath',
+    audio_path: 'audioPath',
+};
+
+/**
+ * ISO 8601 string for a frontmatter timestamp
+ * YAML dates, epoch seconds or milliseconds, and parseable strings are accepted
+ */
+function normalizeTimestamp(value: unknown): string | undefined {
+    if (value instanceof Date) {
+        return Number.isNaN(value.getTime()) ? undefined : value.toISOString();
+    }
+
+    const numeric = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+    if (typeof numeric === 'number' && Number.isFinite(numeric)) {
+        // Anything below 1e11 is read as seconds (before 1973 in milliseconds)
+        return new Date(numeric < 1e11 ? numeric * 1000 : numeric).toISOString();
+    }
+
+    if (typeof numeric === 'string') {
+        const parsed = Date.parse(numeric);
+        return Number.isNaN(parsed) ? undefined : new Date(parsed).toISOString();
+    }
+
+    return undefined;
+}
+
+/**
+ * Bring one note's frontmatter to the version 2 schema
+ * Returns null when the note already matches it
+ */
+function migrateNoteFrontmatterV2(fileContent: string, noteId: string, modifiedAt: Date): string | null {
+    const parsed = matter(fileContent);
+    // gray-matter caches parsed files; never mutate its data
+    const data: Record<string, unknown> = { ...parsed.data };
+    let changed = false;
+
+    for (const [legacy, current] of Object.entries(LEGACY_FRONTMATTER_FIELDS)) {
+        if (legacy in data) {
+            if (data[current] === undefined) {
+                data[current] = data[legacy];
+            }
+            delete data[legacy];
+            changed = true;
+        }
+    }
+
+    if (typeof data.id !== 'string' || !data.id.trim()) {
+        data.id = noteId;
+        changed = true;
+    }
+
+    const updatedAt = normalizeTimestamp(data.updatedAt) ?? modifiedAt.toISOString();
+    const createdAt = normalizeTimestamp(data.createdAt) ?? updatedAt;
+    // Also rewrites unquoted YAML dates, which would load as Date objects
+    if (data.createdAt !== createdAt || data.updatedAt !== updatedAt) {
+        data.createdAt = createdAt;
+        data.updatedAt = updatedAt;
+        changed = true;
+    }
+
+    return changed ? matter.stringify(parsed.content, data) : null;
+}
+
+const VAULT_MIGRATIONS: VaultMigration[] = [
+    {
+        fromVersion: 1,
+        description: 'Rename legacy frontmatter fields, backfill note ids and normalize timestamps',
+        paths: [VAULT_DIRS.notes],
+        migrate: (vaultPath) => {
+            const notesDir = path.join(vaultPath, VAULT_DIRS.notes);
+            if (!fs.existsSync(notesDir)) {
+                return;
+            }
+
+            for (const file of fs.readdirSync(notesDir)) {
+                if (!file.endsWith('.md') || file.startsWith('.')) {
+                    continue;
+                }
+
+                const filePath = path.join(notesDir, file);
+                const migrated = migrateNoteFrontmatterV2(
+                    fs.readFileSync(filePath, 'utf-8'),
+                    file.slice(0, -'.md'.length),
+                    fs.statSync(filePath).mtime,
+                );
+                if (migrated !== null) {
+                    atomicWriteFileSync(filePath, migrated);
+                }
+            }
+        },
+    },
+];
+
+/**
+ * Read seedworld.json, or null when the vault has none yet
+ */
+export function readVaultFormat(vaultPath: string): VaultFormatFile | null {
+    const filePath = path.join(vaultPath, VAULT_FORMAT_FILE);
+    if (!fs.existsSync(filePath)) {
+        return null;
+    }
+
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<VaultFormatFile>;
+    if (typeof data.formatVersion !== 'number' || !Number.isInteger(data.formatVersion) || data.formatVersion < 1) {
+        throw new Error(`Invalid ${VAULT_FORMAT_FILE}: formatVersion must be a positive integer`);
+    }
+    return data as VaultFormatFile;
+}
+
+function writeVaultFormat(vaultPath: string, existing: VaultFormatFile | null, formatVersion: number): VaultFormatFile {
+    const now = new Date().toISOString();
+    const file: VaultFormatFile = {
+        ...existing,
+        formatVersion,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+    };
+    atomicWriteJsonSync(path.join(vaultPath, VAULT_FORMAT_FILE), file);
+    return file;
+}
+
+/**
+ * Copy what a migration rewrites, plus seedworld.json, under .seedworld/backups
+ */
+function backupBeforeMigration(vaultPath: string, migration: VaultMigration): string {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = path.join(VAULT_BACKUPS_DIR, `${stamp}-v${migration.fromVersion}`);
+
+    for (const relativePath of [...migration.paths, VAULT_FORMAT_FILE]) {
+        const source = path.join(vaultPath, relativePath);
+        if (fs.existsSync(source)) {
+            fs.cpSync(source, path.join(vaultPath, backupPath, relativePath), { recursive: true });
+        }
+    }
+
+    return backupPath;
+}
+
+/**
+ * Check the vault's format on open and upgrade older vaults
+ * Each migration runs after a backup and is recorded in seedworld.json before
+ * the next one, so an interrupted upgrade resumes where it stopped. A vault
+ * written by a newer app is left untouched and reported as read-only.
+ */
+export function openVaultFormat(vaultPath: string): VaultFormatStatus {
+    const existing = readVaultFormat(vaultPath);
+    const notesDir = path.join(vaultPath, VAULT_DIRS.notes);
+    const hasNotes = fs.existsSync(notesDir) && fs.readdirSync(notesDir).some((file) => file.endsWith('.md'));
+    let formatVersion = existing?.formatVersion ?? (hasNotes ? 1 : VAULT_FORMAT_VERSION);
+
+    if (formatVersion > VAULT_FORMAT_VERSION) {
+        console.warn(`[vault] Vault format ${formatVersion} is newer than ${VAULT_FORMAT_VERSION}; opening read-only`);
+        return { formatVersion, appFormatVersion: VAULT_FORMAT_VERSION, readOnly: true, migrations: [] };
+    }
+
+    const migrations: VaultMigrationRecord[] = [];
+    let file = existing;
+    while (formatVersion < VAULT_FORMAT_VERSION) {
+        const migration = VAULT_MIGRATIONS.find((candidate) => candidate.fromVersion === formatVersion);
+        if (!migration) {
+            throw new Error(`No migration from vault format ${formatVersion}`);
+        }
+
+        const backupPath = backupBeforeMigration(vaultPath, migration);
+        migration.migrate(vaultPath);
+        file = writeVaultFormat(vaultPath, file, formatVersion + 1);
+        migrations.push({
+            fromVersion: formatVersion,
+            toVersion: formatVersion + 1,
+            description: migration.description,
+            backupPath,
+        });
+        console.log(`[vault] Migrated vault format ${formatVersion} -> ${formatVersion + 1} (backup: ${backupPath})`);
+        formatVersion += 1;
+    }
+
+    if (!file) {
+        writeVaultFormat(vaultPath, null, formatVersion);
+    }
+
+    return { formatVersion, appFormatVersion: VAULT_FORMAT_VERSION, readOnly: false, migrations };
+}
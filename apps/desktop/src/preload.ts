@@ -12,6 +12,7 @@ export interface Note {
     id: string;
     title: string;
     content: string;
+    tags?: string[];
     createdAt: string;
     updatedAt: string;
 }
@@ -22,6 +23,7 @@ export interface NoteInput {
 }
 
 export interface NoteIndex {
+    formatVersion: number;
     notes: NoteIndexEntry[];
     lastRebuilt: string;
 }
@@ -33,6 +35,22 @@ export interface NoteIndexEntry {
     updatedAt: string;
 }
 
+export interface VaultMigrationRecord {
+    fromVersion: number;
+    toVersion: number;
+    description: string;
+    backupPath: string;
+}
+
+export interface VaultFormatStatus {
+    formatVersion: number;
+    appFormatVersion: number;
+    /** The vault is newer than the app; changes are refused. */
+    readOnly: boolean;
+    /** Upgrades run when the vault was opened, each after a backup. */
+    migrations: VaultMigrationRecord[];
+}
+
 export interface VaultSyncHealthReport {
     mode: 'local_folder';
     status: 'ok' | 'warning';
@@ -52,13 +70,19 @@ export interface LocalProviderConfig {
     mode: 'local';
     baseUrl: string;
     model: string;
+    embeddingModel?: string;
 }
 
+export type OnlineProviderId = 'openai' | 'gemini' | 'anthropic';
+
 export interface OnlineProviderConfig {
     mode: 'online';
-    provider: 'openai' | 'gemini';
+    provider: OnlineProviderId;
+    /** Leave empty to keep the key already stored for this provider. */
     apiKey: string;
     model: string;
+    baseUrl?: string;
+    embeddingModel?: string;
 }
 
 export type ProviderConfig = LocalProviderConfig | OnlineProviderConfig;
@@ -66,6 +90,48 @@ export type ProviderConfig = LocalProviderConfig | OnlineProviderConfig;
 // Safe version for renderer (no API keys)
 export type SafeProviderConfig = LocalProviderConfig | Omit<OnlineProviderConfig, 'apiKey'>;
 
+export interface ProviderInfo {
+    id: string;
+    label: string;
+    requiresApiKey: boolean;
+    defaultBaseUrl?: string;
+    supportsEmbeddings: boolean;
+    defaultEmbeddingModel?: string;
+}
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface ChatOptions {
+    temperature?: number;
+    maxTokens?: number;
+}
+
+export interface ChatResponse {
+    content: string;
+    model: string;
+    usage?: {
+        promptTokens: number;
+        completionTokens: number;
+        totalTokens: number;
+    };
+}
+
+export interface ChatDelta {
+    streamId: string;
+    content: string;
+}
+
+export interface SemanticMatch {
+    atomId: string;
+    title: string;
+    preview: string;
+    /** Cosine similarity, from -1 to 1. */
+    score: number;
+}
+
 export interface TestConnectionResult {
     success: boolean;
     message: string;
@@ -83,13 +149,24 @@ export interface VaultAPI {
     getNote: (id: string) => Promise<Note | null>;
     deleteNote: (id: string) => Promise<boolean>;
     rebuildIndex: () => Promise<NoteIndex | null>;
+    getFormat: () => Promise<VaultFormatStatus | null>;
     syncHealthCheck: () => Promise<VaultSyncHealthReport>;
+    /** Merge conflict copies back into their notes; a dry run only reports what would happen. */
+    resolveConflictCopies: (options?: { dryRun?: boolean }) => Promise<ConflictCopyReport>;
+    /** Notes edited or added outside the app were imported into the event log. */
+    onExternalChange: (callback: (changes: VaultExternalChanges) => void) => () => void;
 }
 
 export interface AIAPI {
     getConfig: () => Promise<SafeProviderConfig | null>;
     setConfig: (config: ProviderConfig) => Promise<boolean>;
     testConnection: (config: ProviderConfig) => Promise<TestConnectionResult>;
+    listProviders: () => Promise<ProviderInfo[]>;
+    /** Stream a reply; deltas for `streamId` arrive via `onChatDelta`. */
+    streamChat: (input: { streamId: string; messages: ChatMessage[]; options?: ChatOptions }) => Promise<ChatResponse>;
+    /** Abort a stream; its pending call rejects with "Chat stopped". */
+    stopChat: (streamId: string) => Promise<boolean>;
+    onChatDelta: (callback: (delta: ChatDelta) => void) => () => void;
 }
 
 // Voice note with audio reference
@@ -141,6 +218,46 @@ export interface WhisperAPI {
     onProgress: (callback: (progress: WhisperProgress) => void) => () => void;
 }
 
+export interface TranscriptionProgress {
+    jobId: string;
+    noteId: string;
+    stage: 'queued' | 'converting' | 'transcribing' | 'saving' | 'completed' | 'failed';
+    percent: number | null;
+    message: string;
+    error?: string;
+}
+
+export interface TranscriptionAPI {
+    start: (noteId: string) => Promise<TranscriptionProgress>;
+    list: () => Promise<TranscriptionProgress[]>;
+    onProgress: (callback: (progress: TranscriptionProgress) => void) => () => void;
+}
+
+export interface TranscriptSegment {
+    startMs: number;
+    endMs: number;
+    text: string;
+    confidence?: number;
+    speaker?: string;
+}
+
+export interface Transcript {
+    schemaVersion: number;
+    noteId: string;
+    createdAtMs: number;
+    source: 'whisper' | 'import';
+    language?: string;
+    segments: TranscriptSegment[];
+}
+
+export type SubtitleFormat = 'vtt' | 'srt';
+
+export interface TranscriptAPI {
+    get: (noteId: string) => Promise<Transcript | null>;
+    exportSubtitles: (noteId: string, format: SubtitleFormat) => Promise<string | null>;
+    importSubtitles: (noteId: string) => Promise<Transcript | null>;
+}
+
 export interface AuthConfig {
     serverUrl: string;
     userId: string;
@@ -155,6 +272,24 @@ export interface LocalWorkspaceIdentity {
     userId: string;
 }
 
+/** `[start, end)` character offsets of a matched term. */
+export type TextRange = [number, number];
+
+export interface SearchHit {
+    atomId: string;
+    title: string;
+    titleHighlights: TextRange[];
+    /** Excerpt of the body (or transcript) around the best match. */
+    snippet: string;
+    snippetHighlights: TextRange[];
+    score: number;
+}
+
+export interface SearchResults {
+    hits: SearchHit[];
+    total: number;
+}
+
 export interface InboxItem {
     id: string;
     atomId: string;
@@ -175,11 +310,148 @@ export interface InboxItem {
         | 'blocked_hash_mismatch'
         | 'blocked_auth';
     needsResolution: boolean;
+    hasAudio?: boolean;
+    tags?: string[];
     serverSeq?: number;
 }
 
+export interface VaultExternalChanges {
+    updated: string[];
+    captured: string[];
+}
+
+export type ConflictCopyAction = 'archive' | 'update' | 'merge' | 'conflict' | 'capture' | 'skip';
+
+export interface ConflictCopyResult {
+    filePath: string;
+    atomId?: string;
+    action: ConflictCopyAction;
+    conflictingHunks?: number;
+    reason?: string;
+    archivedPath?: string;
+}
+
+export interface ConflictCopyReport {
+    dryRun: boolean;
+    copies: ConflictCopyResult[];
+}
+
+export interface TagCount {
+    tag: string;
+    count: number;
+}
+
+export interface LinkRecord {
+    sourceAtomId: string;
+    /** The text between the brackets for wiki links, the atom id for explicit ones. */
+    target: string;
+    origin: 'wiki' | 'explicit';
+    relation?: string;
+    targetAtomId?: string;
+}
+
+export interface AtomLinks {
+    atomId: string;
+    outgoing: LinkRecord[];
+    backlinks: LinkRecord[];
+    unresolved: string[];
+}
+
+export interface ConflictRecord {
+    conflictId: string;
+    atomId: string;
+    versionIds: string[];
+    reason: 'concurrent_update';
+    status: 'open' | 'resolved';
+    createdAtMs: number;
+    updatedAtMs: number;
+    resolvedAtMs?: number;
+    resolutionEventId?: string;
+    resolvedVersionId?: string;
+    baseVersionId?: string;
+    hunks?: ConflictHunk[];
+    markedBody?: string;
+}
+
+export interface ConflictHunk {
+    baseStartLine: number;
+    base: string;
+    ours: string;
+    theirs: string;
+}
+
+export interface ChangeSetEvidence {
+    noteIds: string[];
+    excerpts?: string[];
+}
+
+export interface ChangeSet {
+    schemaVersion: '0.1';
+    id: string;
+    createdAt: string;
+    provider: { mode: 'online' | 'local'; name: string; model: string; baseUrl?: string };
+    input: { noteIds: string[]; instruction?: string; scope?: string };
+    summary: string;
+    changes: {
+        adds: Array<{
+            id: string;
+            kind: 'note' | 'structure' | 'concept';
+            title: string;
+            content: string;
+            pathHint?: string;
+            evidence: ChangeSetEvidence;
+            confidence: number;
+        }>;
+        edits: Array<{
+            targetId: string;
+            targetKind: 'structure' | 'concept' | 'note';
+            patchFormat: 'unified' | 'json-patch' | 'replace-section';
+            patch: unknown;
+            rationale: string;
+            evidence: ChangeSetEvidence;
+            confidence: number;
+        }>;
+        links: Array<{
+            sourceId: string;
+            targetId: string;
+            relation: string;
+            note?: string;
+            evidence: ChangeSetEvidence;
+            confidence: number;
+        }>;
+        merges: Array<{
+            mergeId: string;
+            strategy: 'create-new' | 'merge-into-existing';
+            fromIds: string[];
+            into: { kind: 'structure' | 'concept'; id?: string; title?: string; content?: string };
+            rationale: string;
+            evidence: ChangeSetEvidence;
+            confidence: number;
+        }>;
+        conflicts: Array<{
+            conflictId: string;
+            type: 'contradiction' | 'duplication' | 'ambiguity';
+            items: Array<{ refType: string; refId: string; excerpt?: string; claim?: string }>;
+            explanation: string;
+            resolutionOptions: Array<{ optionId: string; title: string; proposal?: string }>;
+            evidence: ChangeSetEvidence;
+            confidence: number;
+        }>;
+    };
+}
+
+export type ChangeReviewDecision = 'accepted' | 'rejected';
+
+export interface ChangeSetState {
+    changeset: ChangeSet;
+    eventId: string;
+    suggestedAtMs: number;
+    reviews: Record<string, { decision: ChangeReviewDecision; eventId: string; reviewedAtMs: number; eventIds: string[] }>;
+    atomIds: Record<string, string>;
+}
+
 export interface SyncError {
-    code: 'NETWORK' | 'AUTH' | 'HASH_MISMATCH' | 'QUOTA' | 'DISK_FULL' | 'SERVER_ERROR';
+    code: 'NETWORK' | 'AUTH' | 'HASH_MISMATCH' | 'QUOTA' | 'DISK_FULL' | 'INVALID_EVENT' | 'SERVER_ERROR';
     message: string;
 }
 
@@ -192,6 +464,16 @@ export interface SyncStatus {
     lastAppliedSeq: number;
 }
 
+export interface SyncSchedulerState {
+    phase: 'stopped' | 'idle' | 'syncing' | 'backoff' | 'offline' | 'blocked_auth';
+    online: boolean;
+    streaming: boolean;
+    consecutiveFailures: number;
+    nextAttemptAtMs?: number;
+    lastError?: SyncError;
+    status?: SyncStatus;
+}
+
 export type ThemeMode = 'system' | 'dark' | 'light';
 export type AppLanguage = 'en' | 'zh-Hant';
 
@@ -199,17 +481,55 @@ export interface AppPreferences {
     themeMode: ThemeMode;
     language: AppLanguage;
     experimentalFeaturesEnabled: boolean;
+    vaultEventLogEnabled: boolean;
 }
 
 export interface AuthAPI {
     getConfig: () => Promise<AuthConfig | null>;
     getLocalWorkspace: () => Promise<LocalWorkspaceIdentity>;
     devSignIn: (input: { serverUrl: string; userId: string; workspaceId: string; deviceId?: string }) => Promise<AuthConfig>;
+    /** Signs in to the account's first workspace, or creates the account and its workspace. */
+    signIn: (input: { serverUrl: string; email: string; password: string; createAccount?: boolean }) => Promise<AuthConfig>;
     signOut: () => Promise<boolean>;
 }
 
 export interface InboxAPI {
-    list: () => Promise<InboxItem[]>;
+    /** Pass a tag to list only items carrying it or a tag nested under it. */
+    list: (filter?: { tag?: string }) => Promise<InboxItem[]>;
+    archive: (atomId: string) => Promise<InboxItem[]>;
+    restore: (atomId: string) => Promise<InboxItem[]>;
+    tags: () => Promise<TagCount[]>;
+    /** Replaces the assigned tags; `#tags` in the body are kept. */
+    setTags: (input: { atomId: string; tags: string[] }) => Promise<InboxItem[]>;
+}
+
+export interface LinksAPI {
+    get: (atomId: string) => Promise<AtomLinks>;
+    add: (input: { atomId: string; targetAtomId: string; relation?: string }) => Promise<AtomLinks>;
+    /** Removes explicit links only; wiki links live in the note body. */
+    remove: (input: { atomId: string; targetAtomId: string }) => Promise<AtomLinks>;
+}
+
+export interface ConflictAPI {
+    list: () => Promise<ConflictRecord[]>;
+    resolve: (input: { conflictId: string; winningVersionId?: string; mergedBody?: string }) => Promise<ConflictRecord[]>;
+}
+
+export interface ChangesetAPI {
+    /** Pass a `streamId` to receive the AI reply as `ai.onChatDelta` events and stop it with `ai.stopChat`. */
+    organize: (input: { atomIds: string[]; instruction?: string; streamId?: string }) => Promise<ChangeSetState>;
+    list: () => Promise<ChangeSetState[]>;
+    review: (input: { changesetId: string; changeKey: string; decision: ChangeReviewDecision }) => Promise<ChangeSetState>;
+}
+
+export interface SearchAPI {
+    query: (input: { query: string; limit?: number; offset?: number }) => Promise<SearchResults>;
+}
+
+export interface SemanticAPI {
+    /** Fails until an embedding model is configured in Voice & AI. */
+    related: (input: { atomId: string; limit?: number }) => Promise<SemanticMatch[]>;
+    query: (input: { query: string; limit?: number }) => Promise<SemanticMatch[]>;
 }
 
 export interface CaptureAPI {
@@ -220,6 +540,8 @@ export interface SyncAPI {
     getStatus: () => Promise<SyncStatus>;
     now: () => Promise<SyncStatus>;
     rebuildProjection: () => Promise<boolean>;
+    setOnline: (online: boolean) => Promise<boolean>;
+    onState: (callback: (state: SyncSchedulerState) => void) => () => void;
 }
 
 export interface ExportAPI {
@@ -240,6 +562,8 @@ export interface PreferencesAPI {
     setThemeMode: (themeMode: ThemeMode) => Promise<AppPreferences>;
     setLanguage: (language: AppLanguage) => Promise<AppPreferences>;
     setExperimentalFeaturesEnabled: (enabled: boolean) => Promise<AppPreferences>;
+    /** Keep the event log as per-device files in the vault, for syncing through a cloud folder. */
+    setVaultEventLogEnabled: (enabled: boolean) => Promise<AppPreferences>;
 }
 
 export interface WorldSeedAPI {
@@ -248,6 +572,11 @@ export interface WorldSeedAPI {
     vault: VaultAPI;
     auth: AuthAPI;
     inbox: InboxAPI;
+    links: LinksAPI;
+    conflict: ConflictAPI;
+    changeset: ChangesetAPI;
+    search: SearchAPI;
+    semantic: SemanticAPI;
     capture: CaptureAPI;
     sync: SyncAPI;
     exportData: ExportAPI;
@@ -257,6 +586,8 @@ export interface WorldSeedAPI {
     voice: VoiceAPI;
     attachment: AttachmentAPI;
     whisper: WhisperAPI;
+    transcription: TranscriptionAPI;
+    transcript: TranscriptAPI;
 }
 
 // ============================================================================
@@ -281,6 +612,9 @@ contextBridge.exposeInMainWorld('api', {
 
         setExperimentalFeaturesEnabled: (enabled: boolean): Promise<AppPreferences> =>
             ipcRenderer.invoke('preferences:setExperimentalFeaturesEnabled', enabled),
+
+        setVaultEventLogEnabled: (enabled: boolean): Promise<AppPreferences> =>
+            ipcRenderer.invoke('preferences:setVaultEventLogEnabled', enabled),
     },
 
     /**
@@ -308,8 +642,24 @@ contextBridge.exposeInMainWorld('api', {
         rebuildIndex: (): Promise<NoteIndex | null> =>
             ipcRenderer.invoke('vault:rebuildIndex'),
 
+        getFormat: (): Promise<VaultFormatStatus | null> =>
+            ipcRenderer.invoke('vault:getFormat'),
+
         syncHealthCheck: (): Promise<VaultSyncHealthReport> =>
             ipcRenderer.invoke('vault:syncHealthCheck'),
+
+        resolveConflictCopies: (options?: { dryRun?: boolean }): Promise<ConflictCopyReport> =>
+            ipcRenderer.invoke('vault:resolveConflictCopies', options),
+
+        onExternalChange: (callback: (changes: VaultExternalChanges) => void): (() => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, changes: VaultExternalChanges) => {
+                callback(changes);
+            };
+            ipcRenderer.on('vault:externalChange', handler);
+            return () => {
+                ipcRenderer.removeListener('vault:externalChange', handler);
+            };
+        },
     },
 
     auth: {
@@ -322,13 +672,80 @@ contextBridge.exposeInMainWorld('api', {
         devSignIn: (input: { serverUrl: string; userId: string; workspaceId: string; deviceId?: string }): Promise<AuthConfig> =>
             ipcRenderer.invoke('auth:devSignIn', input),
 
+        signIn: (input: { serverUrl: string; email: string; password: string; createAccount?: boolean }): Promise<AuthConfig> =>
+            ipcRenderer.invoke('auth:signIn', input),
+
         signOut: (): Promise<boolean> =>
             ipcRenderer.invoke('auth:signOut'),
     },
 
     inbox: {
-        list: (): Promise<InboxItem[]> =>
-            ipcRenderer.invoke('inbox:list'),
+        list: (filter?: { tag?: string }): Promise<InboxItem[]> =>
+            ipcRenderer.invoke('inbox:list', filter),
+
+        archive: (atomId: string): Promise<InboxItem[]> =>
+            ipcRenderer.invoke('inbox:archive', atomId),
+
+        restore: (atomId: string): Promise<InboxItem[]> =>
+            ipcRenderer.invoke('inbox:restore', atomId),
+
+        tags: (): Promise<TagCount[]> =>
+            ipcRenderer.invoke('inbox:tags'),
+
+        setTags: (input: { atomId: string; tags: string[] }): Promise<InboxItem[]> =>
+            ipcRenderer.invoke('inbox:setTags', input),
+    },
+
+    links: {
+        get: (atomId: string): Promise<AtomLinks> =>
+            ipcRenderer.invoke('links:get', atomId),
+
+        add: (input: { atomId: string; targetAtomId: string; relation?: string }): Promise<AtomLinks> =>
+            ipcRenderer.invoke('links:add', input),
+
+        remove: (input: { atomId: string; targetAtomId: string }): Promise<AtomLinks> =>
+            ipcRenderer.invoke('links:remove', input),
+    },
+
+    conflict: {
+        list: (): Promise<ConflictRecord[]> =>
+            ipcRenderer.invoke('conflict:list'),
+
+        resolve: (input: { conflictId: string; winningVersionId?: string; mergedBody?: string }): Promise<ConflictRecord[]> =>
+            ipcRenderer.invoke('conflict:resolve', input),
+    },
+
+    /**
+     * AI changesets: suggestions are reviewed one change at a time
+     */
+    changeset: {
+        organize: (input: { atomIds: string[]; instruction?: string; streamId?: string }): Promise<ChangeSetState> =>
+            ipcRenderer.invoke('changeset:organize', input),
+
+        list: (): Promise<ChangeSetState[]> =>
+            ipcRenderer.invoke('changeset:list'),
+
+        review: (input: { changesetId: string; changeKey: string; decision: ChangeReviewDecision }): Promise<ChangeSetState> =>
+            ipcRenderer.invoke('changeset:review', input),
+    },
+
+    /**
+     * Full-text search over atom titles, bodies and transcripts
+     */
+    search: {
+        query: (input: { query: string; limit?: number; offset?: number }): Promise<SearchResults> =>
+            ipcRenderer.invoke('search:query', input),
+    },
+
+    /**
+     * Semantic search over atoms, ranked by embedding similarity
+     */
+    semantic: {
+        related: (input: { atomId: string; limit?: number }): Promise<SemanticMatch[]> =>
+            ipcRenderer.invoke('semantic:related', input),
+
+        query: (input: { query: string; limit?: number }): Promise<SemanticMatch[]> =>
+            ipcRenderer.invoke('semantic:query', input),
     },
 
     capture: {
@@ -345,6 +762,19 @@ contextBridge.exposeInMainWorld('api', {
 
         rebuildProjection: (): Promise<boolean> =>
             ipcRenderer.invoke('sync:rebuildProjection'),
+
+        setOnline: (online: boolean): Promise<boolean> =>
+            ipcRenderer.invoke('sync:setOnline', online),
+
+        onState: (callback: (state: SyncSchedulerState) => void): (() => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, state: SyncSchedulerState) => {
+                callback(state);
+            };
+            ipcRenderer.on('sync:state', handler);
+            return () => {
+                ipcRenderer.removeListener('sync:state', handler);
+            };
+        },
     },
 
     exportData: {
@@ -378,6 +808,25 @@ contextBridge.exposeInMainWorld('api', {
 
         testConnection: (config: ProviderConfig): Promise<TestConnectionResult> =>
             ipcRenderer.invoke('ai:testConnection', config),
+
+        listProviders: (): Promise<ProviderInfo[]> =>
+            ipcRenderer.invoke('ai:listProviders'),
+
+        streamChat: (input: { streamId: string; messages: ChatMessage[]; options?: ChatOptions }): Promise<ChatResponse> =>
+            ipcRenderer.invoke('ai:streamChat', input),
+
+        stopChat: (streamId: string): Promise<boolean> =>
+            ipcRenderer.invoke('ai:stopChat', streamId),
+
+        onChatDelta: (callback: (delta: ChatDelta) => void): (() => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, delta: ChatDelta) => {
+                callback(delta);
+            };
+            ipcRenderer.on('ai:chatDelta', handler);
+            return () => {
+                ipcRenderer.removeListener('ai:chatDelta', handler);
+            };
+        },
     },
 
     /**
@@ -429,4 +878,39 @@ contextBridge.exposeInMainWorld('api', {
             };
         },
     },
+
+    /**
+     * Voice note transcription queue
+     */
+    transcription: {
+        start: (noteId: string): Promise<TranscriptionProgress> =>
+            ipcRenderer.invoke('transcription:start', noteId),
+
+        list: (): Promise<TranscriptionProgress[]> =>
+            ipcRenderer.invoke('transcription:list'),
+
+        onProgress: (callback: (progress: TranscriptionProgress) => void): (() => void) => {
+            const handler = (_event: Electron.IpcRendererEvent, progress: TranscriptionProgress) => {
+                callback(progress);
+            };
+            ipcRenderer.on('transcription:progress', handler);
+            return () => {
+                ipcRenderer.removeListener('transcription:progress', handler);
+            };
+        },
+    },
+
+    /**
+     * Timestamped transcripts and subtitle files
+     */
+    transcript: {
+        get: (noteId: string): Promise<Transcript | null> =>
+            ipcRenderer.invoke('transcript:get', noteId),
+
+        exportSubtitles: (noteId: string, format: SubtitleFormat): Promise<string | null> =>
+            ipcRenderer.invoke('transcript:export', noteId, format),
+
+        importSubtitles: (noteId: string): Promise<Transcript | null> =>
+            ipcRenderer.invoke('transcript:import', noteId),
+    },
 } as WorldSeedAPI);
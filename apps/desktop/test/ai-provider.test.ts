@@ -0,0 +1,265 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  chat,
+  embed,
+  getEmbeddingModel,
+  getProvider,
+  listProviders,
+  parseServerSentEvents,
+  registerProvider,
+  streamChat,
+  validateConfig,
+  type ChatMessage,
+  type ChatStreamEvent,
+  type FetchFunction,
+  type ProviderConfig,
+} from '../src/main/ai-provider';
+
+interface Fixture {
+  request: { url: string; headers: Record<string, string>; body: unknown };
+  /** Streamed replies are recorded as the raw chunks read off the socket. */
+  response: { status: number; headers: Record<string, string>; body?: unknown; stream?: string[] };
+}
+
+const MESSAGES: ChatMessage[] = [
+  { role: 'system', content: 'Answer with a single word.' },
+  { role: 'user', content: 'Name one seed to sow in spring.' },
+  { role: 'assistant', content: 'Basil.' },
+  { role: 'user', content: 'Another one?' },
+  { role: 'user', content: 'Just the name.' },
+];
+
+const OPTIONS = { temperature: 0.2, maxTokens: 64 };
+
+function chunkedBody(chunks: string[], signal?: AbortSignal): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const pending = [...chunks];
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (signal?.aborted) {
+        controller.error(signal.reason);
+        return;
+      }
+      const chunk = pending.shift();
+      if (chunk === undefined) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(chunk));
+      }
+    },
+  });
+}
+
+function loadFixture(name: string): Fixture {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'ai-providers', `${name}.json`), 'utf-8'));
+}
+
+/**
+ * Replay a recorded exchange: the outgoing request must match the recording
+ * exactly, and the recorded response is returned.
+ */
+function replay(name: string): FetchFunction {
+  const fixture = loadFixture(name);
+  return async (url, init) => {
+    assert.equal(url, fixture.request.url);
+    assert.equal(init.method, 'POST');
+    assert.deepEqual(init.headers, fixture.request.headers);
+    assert.deepEqual(JSON.parse(init.body), fixture.request.body);
+    const body = fixture.response.stream
+      ? chunkedBody(fixture.response.stream, init.signal)
+      : JSON.stringify(fixture.response.body);
+    return new Response(body, {
+      status: fixture.response.status,
+      headers: fixture.response.headers,
+    });
+  };
+}
+
+const CASES: Array<{ fixture: string; stream?: string; config: ProviderConfig; model: string; usage: [number, number, number] }> = [
+  {
+    fixture: 'local-chat',
+    stream: 'local-chat-stream',
+    config: { mode: 'local', baseUrl: 'http://localhost:1234/v1/', model: 'qwen2.5-7b-instruct' },
+    model: 'qwen2.5-7b-instruct',
+    usage: [48, 4, 52],
+  },
+  {
+    fixture: 'openai-chat',
+    config: { mode: 'online', provider: 'openai', apiKey: 'sk-test', model: 'gpt-4o-mini' },
+    model: 'gpt-4o-mini-2024-07-18',
+    usage: [41, 3, 44],
+  },
+  {
+    fixture: 'gemini-generate-content',
+    stream: 'gemini-stream',
+    config: { mode: 'online', provider: 'gemini', apiKey: 'gm-test', model: 'gemini-2.0-flash' },
+    model: 'gemini-2.0-flash',
+    usage: [22, 3, 25],
+  },
+  {
+    fixture: 'anthropic-messages',
+    stream: 'anthropic-stream',
+    config: { mode: 'online', provider: 'anthropic', apiKey: 'ak-test', model: 'claude-3-5-haiku-latest' },
+    model: 'claude-3-5-haiku-20241022',
+    usage: [33, 5, 38],
+  },
+];
+
+for (const entry of CASES) {
+  test(`${entry.fixture} replies normalize into a ChatResponse`, async () => {
+    const response = await chat(entry.config, MESSAGES, OPTIONS, replay(entry.fixture));
+    const [promptTokens, completionTokens, totalTokens] = entry.usage;
+    assert.deepEqual(response, {
+      content: 'Thyme.',
+      model: entry.model,
+      usage: { promptTokens, completionTokens, totalTokens },
+    });
+  });
+}
+
+async function collect(events: AsyncIterable<ChatStreamEvent>): Promise<ChatStreamEvent[]> {
+  const collected: ChatStreamEvent[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+}
+
+for (const entry of CASES) {
+  const { stream } = entry;
+  if (!stream) {
+    continue;
+  }
+  test(`${stream} yields deltas and then the whole reply`, async () => {
+    const events = await collect(streamChat(entry.config, MESSAGES, OPTIONS, replay(stream)));
+    const done = events.pop();
+    assert.deepEqual(events, [{ type: 'delta', content: 'Thy' }, { type: 'delta', content: 'me.' }]);
+    assert.equal(done?.type, 'done');
+    assert.equal(done.response.content, 'Thyme.');
+    assert.equal(done.response.model, entry.model);
+    if (entry.config.mode === 'online') {
+      const [promptTokens, completionTokens, totalTokens] = entry.usage;
+      assert.deepEqual(done.response.usage, { promptTokens, completionTokens, totalTokens });
+    }
+  });
+}
+
+test('server-sent events are split across chunks, comments and line endings', async () => {
+  const events = [];
+  for await (const event of parseServerSentEvents(chunkedBody([
+    ': keep-alive\r\n\r\nevent: up',
+    'date\ndata: first\ndata:second\r',
+    '\n\ndata: {"a":1}\n\ndata: trailing',
+  ]))) {
+    events.push(event);
+  }
+  assert.deepEqual(events, [
+    { event: 'update', data: 'first\nsecond' },
+    { data: '{"a":1}' },
+    { data: 'trailing' },
+  ]);
+});
+
+test('streams stop when the signal is aborted and surface in-stream errors', async () => {
+  const controller = new AbortController();
+  const received: string[] = [];
+  await assert.rejects(
+    (async () => {
+      for await (const event of streamChat(CASES[3].config, MESSAGES, { ...OPTIONS, signal: controller.signal }, replay('anthropic-stream'))) {
+        if (event.type === 'delta') {
+          received.push(event.content);
+          controller.abort();
+        }
+      }
+    })(),
+    /^Error: Chat stopped$/,
+  );
+  assert.deepEqual(received, ['Thy']);
+
+  await assert.rejects(
+    collect(streamChat(CASES[3].config, MESSAGES, OPTIONS, replay('anthropic-stream-overloaded'))),
+    /Overloaded/,
+  );
+});
+
+test('provider errors surface the message from the error body', async () => {
+  await assert.rejects(
+    chat(CASES[1].config, MESSAGES, OPTIONS, replay('openai-invalid-key')),
+    /^Error: API request failed: 401 - Incorrect API key provided/,
+  );
+  await assert.rejects(
+    chat(CASES[2].config, MESSAGES, OPTIONS, replay('gemini-invalid-key')),
+    /^Error: API request failed: 400 - API key not valid\. Please pass a valid API key\.$/,
+  );
+  await assert.rejects(
+    chat(CASES[3].config, MESSAGES, OPTIONS, replay('anthropic-overloaded')),
+    /^Error: API request failed: 529 - Overloaded$/,
+  );
+  await assert.rejects(
+    chat(CASES[2].config, [{ role: 'user', content: 'Something unsafe.' }], {}, replay('gemini-blocked')),
+    /Gemini blocked the prompt \(SAFETY\)/,
+  );
+});
+
+test('online configs may point a provider at another base URL', async () => {
+  const fixture = loadFixture('anthropic-messages');
+  const requested: string[] = [];
+  const response = await chat(
+    { mode: 'online', provider: 'anthropic', apiKey: 'ak-test', model: 'claude-3-5-haiku-latest', baseUrl: 'https://proxy.example/v1' },
+    MESSAGES,
+    OPTIONS,
+    async (url) => {
+      requested.push(url);
+      return new Response(JSON.stringify(fixture.response.body), { status: 200 });
+    },
+  );
+  assert.deepEqual(requested, ['https://proxy.example/v1/messages']);
+  assert.equal(response.content, 'Thyme.');
+});
+
+test('embeddings come back in input order from OpenAI-compatible providers only', async () => {
+  const response = await embed(CASES[1].config, ['Sow basil in spring', 'Water the seedlings'], {}, replay('openai-embeddings'));
+  assert.deepEqual(response, {
+    vectors: [[0.0213, -0.0087, 0.0412, 0.0056], [-0.0121, 0.0458, 0.0093, -0.0312]],
+    model: 'text-embedding-3-small',
+  });
+
+  assert.equal(getEmbeddingModel(CASES[0].config), undefined);
+  assert.equal(getEmbeddingModel({ ...CASES[0].config, embeddingModel: 'nomic-embed-text' }), 'nomic-embed-text');
+  assert.equal(getEmbeddingModel(CASES[3].config), undefined);
+  await assert.rejects(embed(CASES[0].config, ['seeds']), /Set an embedding model/);
+  await assert.rejects(embed(CASES[3].config, ['seeds']), /Anthropic does not provide embeddings/);
+  await assert.rejects(
+    embed(CASES[1].config, ['one', 'two', 'three'], {}, async () => new Response(JSON.stringify({ data: [{ index: 0, embedding: [1] }] }))),
+    /returned 1 embedding\(s\) for 3 input\(s\)/,
+  );
+});
+
+test('the registry accepts new adapters and validates configs against it', async () => {
+  assert.deepEqual(
+    listProviders().map((provider) => provider.id),
+    ['local', 'openai', 'gemini', 'anthropic'],
+  );
+  assert.equal(validateConfig({ mode: 'online', provider: 'anthropic', apiKey: '', model: 'claude' }).valid, false);
+  assert.equal(
+    validateConfig({ mode: 'online', provider: 'mistral' as 'openai', apiKey: 'key', model: 'small' }).error,
+    'Unknown provider: mistral',
+  );
+
+  registerProvider({
+    ...getProvider('openai'),
+    id: 'echo',
+    label: 'Echo',
+    parseResponse: (data) => ({ content: JSON.stringify((data as { echoed: unknown }).echoed) }),
+  });
+  const response = await chat(
+    { mode: 'online', provider: 'echo' as 'openai', apiKey: 'key', model: 'echo-1' },
+    [{ role: 'user', content: 'hi' }],
+    {},
+    async () => new Response(JSON.stringify({ echoed: 'hi' }), { status: 200 }),
+  );
+  assert.deepEqual(response, { content: '"hi"', model: 'echo-1' });
+});
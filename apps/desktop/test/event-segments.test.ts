@@ -0,0 +1,93 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import matter from 'gray-matter';
+import { EventSegmentLog } from '../src/main/sync/event-segments';
+import { DesktopSyncService } from '../src/main/sync/service';
+import { event } from './helpers';
+
+function createDevice(vaultPath: string, deviceId: string): DesktopSyncService {
+  return DesktopSyncService.create({
+    vaultPath,
+    stateDir: `${vaultPath}-state`,
+    userId: 'user-1',
+    workspaceId: 'workspace-1',
+    deviceId,
+    vaultEventLog: true,
+  });
+}
+
+/** What a cloud folder does: bring one device's segments over to another copy of the vault. */
+function copySegments(fromVault: string, toVault: string, deviceId: string): void {
+  const segmentsDir = path.join('.seedworld', 'events', deviceId);
+  fs.cpSync(path.join(fromVault, segmentsDir), path.join(toVault, segmentsDir), { recursive: true });
+}
+
+test('devices converge through each other\'s event segments', async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'seedworld-segments-'));
+  try {
+    const vaultA = path.join(root, 'a');
+    const vaultB = path.join(root, 'b');
+    const deviceA = createDevice(vaultA, 'device-a');
+    const deviceB = createDevice(vaultB, 'device-b');
+
+    await deviceA.captureText({ title: 'Seeds', body: 'Sow basil' });
+    assert.equal(await deviceA.mergeEventLog(), 0, 'own events are written, not imported');
+    const segment = path.join(vaultA, '.seedworld', 'events', 'device-a', '000001.jsonl');
+    assert.equal(fs.readFileSync(segment, 'utf-8').trim().split('\n').length, 1);
+    assert.ok(!fs.existsSync(path.join(vaultA, '.seedworld', 'state.db')), 'the state database stays out of the vault');
+
+    copySegments(vaultA, vaultB, 'device-a');
+    // A line still being synced is skipped until it is complete.
+    fs.appendFileSync(path.join(vaultB, '.seedworld', 'events', 'device-a', '000001.jsonl'), '{"eventId":');
+    assert.equal(await deviceB.mergeEventLog(), 1);
+    assert.equal((await deviceB.getStatus()).pendingEvents, 0, 'imported events are pushed by their own device');
+    const [item] = await deviceB.listInbox();
+    assert.equal(item.preview, 'Sow basil');
+
+    const notePath = path.join(vaultB, 'notes', `${item.atomId}.md`);
+    const { data } = matter(fs.readFileSync(notePath, 'utf-8'));
+    fs.writeFileSync(notePath, matter.stringify('Sow basil and thyme', data));
+    await deviceB.reconcileVault();
+    await deviceB.mergeEventLog();
+
+    copySegments(vaultB, vaultA, 'device-b');
+    assert.equal(await deviceA.mergeEventLog(), 1);
+    assert.deepEqual((await deviceA.listInbox()).map((entry) => entry.preview), ['Sow basil and thyme']);
+    assert.equal(await deviceA.mergeEventLog(), 0, 'merging again imports nothing');
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('segments are read from where the last read stopped', () => {
+  const eventsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedworld-segments-'));
+  try {
+    const log = new EventSegmentLog({ eventsDir, deviceId: 'device-A' });
+    const first = event('capture.text.create', { atomId: 'atom-1', body: 'One' }, 1);
+    const second = event('capture.text.create', { atomId: 'atom-2', body: 'Two' }, 2);
+    log.append([first]);
+    assert.deepEqual(log.readNew().map((read) => read.eventId), [first.eventId]);
+    assert.deepEqual(log.readNew(), []);
+
+    const segment = path.join(eventsDir, 'device-A', '000001.jsonl');
+    const line = JSON.stringify({ ...second, syncStatus: undefined, serverSeq: undefined });
+    fs.appendFileSync(segment, line.slice(0, 20));
+    assert.deepEqual(log.readNew(), [], 'a partial line waits for the rest');
+    fs.appendFileSync(segment, `${line.slice(20)}\n`);
+    assert.deepEqual(log.readNew().map((read) => read.eventId), [second.eventId]);
+
+    log.rewind();
+    assert.equal(log.readNew().length, 2);
+
+    // A restart after a crash mid-line appends on a fresh line.
+    fs.appendFileSync(segment, '{"eventId":');
+    const third = event('capture.text.create', { atomId: 'atom-3', body: 'Three' }, 3);
+    assert.equal(new EventSegmentLog({ eventsDir, deviceId: 'device-A' }).append([first, third]), 1);
+    assert.deepEqual(log.readNew().map((read) => read.eventId), [third.eventId]);
+  } finally {
+    fs.rmSync(eventsDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,55 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { type AtomRecord, type EventPayloadByType, type EventType, type StoredEvent, generateEventId } from '@seedworld/core';
+import { DesktopSqliteStorageAdapter } from '../src/main/sync/sqlite-adapter';
+
+/** A projected atom with just enough metadata for search tests. */
+export function atom(atomId: string, title: string, body: string, status: AtomRecord['status'] = 'active'): AtomRecord {
+  return {
+    atomId,
+    title,
+    body,
+    createdAtMs: 1,
+    updatedAtMs: 1,
+    captureEventId: `capture-${atomId}`,
+    headVersionIds: [],
+    needsResolution: false,
+    blobHashes: [],
+    status,
+  };
+}
+
+/** A stored event from device-A; it counts as synced once it has a `serverSeq`. */
+export function event<TType extends EventType>(
+  type: TType,
+  payload: EventPayloadByType[TType],
+  localSeq: number,
+  serverSeq?: number,
+): StoredEvent {
+  return {
+    eventId: generateEventId(),
+    eventSchemaVersion: 1,
+    type,
+    createdAtMs: 1_700_000_000_000 + localSeq,
+    deviceId: 'device-A',
+    workspaceId: 'workspace-1',
+    localSeq,
+    serverSeq,
+    syncStatus: serverSeq ? 'synced' : 'saved_local',
+    payload,
+  };
+}
+
+/** Opens a storage adapter in a fresh temp directory; `cleanup` removes it. */
+export function createStore(prefix = 'seedworld-test-'): { store: DesktopSqliteStorageAdapter; cleanup: () => void } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  const store = new DesktopSqliteStorageAdapter({
+    dbPath: path.join(dir, 'state.db'),
+    blobDir: path.join(dir, 'blobs'),
+    workspaceId: 'workspace-1',
+    userId: 'user-1',
+    deviceId: 'device-a',
+  });
+  return { store, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
@@ -0,0 +1,65 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { buildProjection, linksForAtom, updateProjection, type StoredEvent } from '@seedworld/core';
+import { DesktopSqliteStorageAdapter } from '../src/main/sync/sqlite-adapter';
+
+function event(localSeq: number, type: StoredEvent['type'], payload: StoredEvent['payload']): StoredEvent {
+  return {
+    eventId: `event-${localSeq}`,
+    eventSchemaVersion: 1,
+    type,
+    createdAtMs: 1_700_000_000_000 + localSeq,
+    deviceId: 'device-a',
+    workspaceId: 'workspace-1',
+    localSeq,
+    syncStatus: 'saved_local',
+    payload,
+  };
+}
+
+test('links survive partial projection saves and reloads', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedworld-links-'));
+  try {
+    const store = new DesktopSqliteStorageAdapter({
+      dbPath: path.join(dir, 'state.db'),
+      blobDir: path.join(dir, 'blobs'),
+      workspaceId: 'workspace-1',
+      userId: 'user-1',
+      deviceId: 'device-a',
+    });
+    const events = [
+      event(1, 'capture.text.create', { atomId: 'atom-plan', title: 'Plan', body: 'See [[Compost]] and [[atom-soil]]' }),
+      event(2, 'capture.text.create', { atomId: 'atom-soil', title: 'Soil', body: 'Loam' }),
+      event(3, 'atom.link.add', { atomId: 'atom-soil', targetAtomId: 'atom-plan', relation: 'supports' }),
+    ];
+    const snapshot = buildProjection(events);
+    await store.saveProjection(snapshot);
+
+    // Only the new atom changes, yet the plan's dangling link now resolves.
+    events.push(event(4, 'capture.text.create', { atomId: 'atom-compost', title: 'Compost', body: 'Heap' }));
+    const stored = await store.getProjection();
+    assert.ok(stored);
+    const update = updateProjection(stored, events);
+    assert.ok(update);
+    await store.saveProjectionChanges(update.snapshot, update.changedAtomIds);
+
+    const links = (await store.getProjection())?.links ?? [];
+    assert.deepEqual(links, buildProjection(events).links);
+    assert.deepEqual(linksForAtom(links, 'atom-plan'), {
+      atomId: 'atom-plan',
+      outgoing: [
+        { sourceAtomId: 'atom-plan', target: 'Compost', origin: 'wiki', targetAtomId: 'atom-compost' },
+        { sourceAtomId: 'atom-plan', target: 'atom-soil', origin: 'wiki', targetAtomId: 'atom-soil' },
+      ],
+      backlinks: [
+        { sourceAtomId: 'atom-soil', target: 'atom-plan', origin: 'explicit', relation: 'supports', targetAtomId: 'atom-plan' },
+      ],
+      unresolved: [],
+    });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,169 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  InMemoryStorageAdapter,
+  SyncEngine,
+  createDisabledSyncTransport,
+} from '@seedworld/core';
+import { chat, type LocalProviderConfig } from '../src/main/ai-provider';
+import { describeProvider, requestChangeset, type OrganizeAtom } from '../src/main/organize';
+
+const ATOMS: OrganizeAtom[] = [
+  { atomId: 'atom-rain', title: 'Rain', body: 'Rain falls in spring' },
+  { atomId: 'atom-wells', title: 'Wells', body: 'Wells fill in autumn' },
+];
+
+const REPLY = {
+  summary: 'Group the water notes',
+  changes: {
+    adds: [{
+      id: 'add-water',
+      kind: 'structure',
+      title: 'Water',
+      content: '# Water\n\n## Sources\n\nRain and wells',
+      evidence: { noteIds: ['atom-rain', 'atom-wells'] },
+      confidence: 0.9,
+    }],
+    links: [{
+      sourceId: 'add-water',
+      targetId: 'atom-rain',
+      relation: 'part_of',
+      evidence: { noteIds: ['atom-rain'] },
+      confidence: 0.8,
+    }, {
+      sourceId: 'atom-rain',
+      targetId: 'atom-wells',
+      relation: 'similar_to',
+      evidence: { noteIds: ['atom-rain', 'atom-wells'] },
+      confidence: 0.4,
+    }],
+  },
+};
+
+/**
+ * Fake OpenAI-compatible provider: answers every chat completion with
+ * `content` and records the request bodies it received.
+ */
+async function startFakeProvider(content: () => string) {
+  const requests: Array<{ model: string; messages: Array<{ role: string; content: string }> }> = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      assert.equal(req.url, '/v1/chat/completions');
+      requests.push(JSON.parse(body));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ model: 'fake-organizer-1', choices: [{ message: { content: content() } }] }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const config: LocalProviderConfig = { mode: 'local', baseUrl: `http://127.0.0.1:${port}/v1`, model: 'fake-organizer' };
+
+  return {
+    config,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+function createEngine(): { engine: SyncEngine; storage: InMemoryStorageAdapter } {
+  const storage = new InMemoryStorageAdapter({
+    workspaceId: 'workspace-1',
+    userId: 'user-1',
+    deviceId: 'device-a',
+    nextLocalSeq: 1,
+    lastPulledSeq: 0,
+    lastAppliedSeq: 0,
+    projectionDirty: false,
+  });
+  return { engine: new SyncEngine({ storage, transport: createDisabledSyncTransport() }), storage };
+}
+
+test('organize asks the provider, records the changeset and applies only accepted changes', async () => {
+  const provider = await startFakeProvider(() => `Here you go:\n\`\`\`json\n${JSON.stringify(REPLY, null, 2)}\n\`\`\``);
+  try {
+    const changeset = await requestChangeset({
+      chat: (messages, options) => chat(provider.config, messages, options),
+      provider: describeProvider(provider.config),
+      request: { atoms: ATOMS, instruction: 'Group by topic' },
+    });
+
+    assert.equal(provider.requests.length, 1);
+    assert.equal(provider.requests[0].model, 'fake-organizer');
+    assert.match(provider.requests[0].messages[1].content, /^Group by topic\n\n--- note atom-rain\nTitle: Rain/);
+    assert.equal(changeset.provider.model, 'fake-organizer-1');
+    assert.deepEqual(changeset.input, { noteIds: ['atom-rain', 'atom-wells'], instruction: 'Group by topic' });
+    assert.deepEqual(changeset.changes.merges, [], 'omitted sections default to empty');
+
+    const { engine, storage } = createEngine();
+    for (const atom of ATOMS) {
+      await engine.captureText({ atomId: atom.atomId, title: atom.title, body: atom.body });
+    }
+    await engine.suggestChangeset(changeset);
+
+    await engine.reviewChange({ changesetId: changeset.id, changeKey: 'adds:0', decision: 'accepted' });
+    await engine.reviewChange({ changesetId: changeset.id, changeKey: 'links:0', decision: 'accepted' });
+    await engine.reviewChange({ changesetId: changeset.id, changeKey: 'links:1', decision: 'rejected' });
+
+    const [state] = await engine.listChangesets();
+    assert.equal(state.changeset.id, changeset.id);
+    assert.deepEqual(Object.keys(state.reviews).sort(), ['adds:0', 'links:0', 'links:1']);
+
+    const events = await storage.listEvents();
+    assert.deepEqual(
+      events.map((event) => event.type),
+      [
+        'capture.text.create',
+        'capture.text.create',
+        'changeset.suggest.create',
+        'capture.text.create',
+        'changeset.review',
+        'link.create',
+        'changeset.review',
+        'changeset.review',
+      ],
+    );
+
+    const structureId = state.atomIds['add-water'];
+    const projection = await storage.getProjection();
+    const structure = projection?.atoms.find((atom) => atom.atomId === structureId);
+    assert.equal(structure?.kind, 'structure');
+    assert.equal(structure?.title, 'Water');
+    assert.deepEqual(
+      events
+        .filter((event) => event.type === 'link.create')
+        .map((event) => {
+          const payload = event.payload as { sourceId: string; targetId: string; relation: string };
+          return [payload.sourceId, payload.targetId, payload.relation];
+        }),
+      [[structureId, 'atom-rain', 'part_of']],
+    );
+  } finally {
+    await provider.close();
+  }
+});
+
+test('organize rejects replies that do not match the changeset schema', async () => {
+  const invalid = { ...REPLY, changes: { ...REPLY.changes, links: [{ ...REPLY.changes.links[0], relation: 'likes' }] } };
+  const replies = [JSON.stringify(invalid), 'I could not find anything to organize.'];
+  const provider = await startFakeProvider(() => replies.shift() ?? '');
+  const organize = () => requestChangeset({
+    chat: (messages, options) => chat(provider.config, messages, options),
+    provider: describeProvider(provider.config),
+    request: { atoms: ATOMS },
+  });
+
+  try {
+    await assert.rejects(organize(), /changes\.links\[0\]\.relation must be one of/);
+    await assert.rejects(organize(), /did not contain a JSON object/);
+    await assert.rejects(
+      requestChangeset({ chat: () => assert.fail('not called'), provider: describeProvider(provider.config), request: { atoms: [] } }),
+      /Select at least one note/,
+    );
+  } finally {
+    await provider.close();
+  }
+});
@@ -0,0 +1,60 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { type AtomRecord, type ProjectionSnapshot } from '@seedworld/core';
+import { atom, createStore } from './helpers';
+
+function snapshot(atoms: AtomRecord[]): ProjectionSnapshot {
+  return {
+    generatedAtMs: 1,
+    lastAppliedSeq: 0,
+    atoms,
+    atomVersions: [],
+    conflicts: [],
+    inbox: [],
+    referencedBlobs: [],
+  };
+}
+
+test('search ranks title matches first and highlights terms', async () => {
+  const { store, cleanup } = createStore('seedworld-search-');
+  try {
+    await store.saveProjection(snapshot([
+      atom('atom-body', 'Garden plan', 'Water the basil every morning'),
+      atom('atom-title', 'Basil', 'Pinch the flowers'),
+      atom('atom-old', 'Basil seeds', 'old notes', 'archived'),
+    ]));
+
+    const results = await store.search('bas');
+    assert.equal(results.total, 2);
+    assert.deepEqual(results.hits.map((hit) => hit.atomId), ['atom-title', 'atom-body']);
+    assert.deepEqual(results.hits[0].titleHighlights, [[0, 5]]);
+    assert.equal(results.hits[1].snippet, 'Water the basil every morning');
+    assert.deepEqual(results.hits[1].snippetHighlights, [[10, 15]]);
+
+    assert.deepEqual((await store.search('basil', { limit: 1, offset: 1 })).hits.map((hit) => hit.atomId), ['atom-body']);
+    assert.deepEqual(await store.search('  "* '), { hits: [], total: 0 });
+  } finally {
+    cleanup();
+  }
+});
+
+test('search follows projection changes and transcripts', async () => {
+  const { store, cleanup } = createStore('seedworld-search-');
+  try {
+    await store.saveProjection(snapshot([atom('atom-1', 'Walk', 'Notes from the walk'), atom('atom-2', 'Tomatoes', 'Stake them')]));
+
+    await store.saveProjectionChanges(
+      snapshot([atom('atom-1', 'Walk', 'Notes from the walk'), atom('atom-2', 'Tomatoes', 'Stake them', 'archived')]),
+      ['atom-2'],
+    );
+    assert.equal((await store.search('tomatoes')).total, 0);
+
+    await store.saveTranscriptText('atom-1', 'We saw a heron by the river');
+    const results = await store.search('heron');
+    assert.deepEqual(results.hits.map((hit) => hit.atomId), ['atom-1']);
+    assert.equal(results.hits[0].snippet, 'We saw a heron by the river');
+    assert.deepEqual(results.hits[0].snippetHighlights, [[9, 14]]);
+  } finally {
+    cleanup();
+  }
+});
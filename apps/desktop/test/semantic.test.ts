@@ -0,0 +1,101 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { cosineSimilarity, rankBySimilarity, refreshEmbeddings, type EmbeddableAtom, type Embedder } from '../src/main/semantic';
+import { DesktopSqliteStorageAdapter } from '../src/main/sync/sqlite-adapter';
+
+const VOCABULARY = ['seed', 'water', 'rain', 'sun', 'soil'];
+
+/** Counts vocabulary words, so texts sharing words point the same way. */
+function createEmbedder(model = 'bag-of-words') {
+  const calls: string[][] = [];
+  const embedder: Embedder = {
+    model,
+    embed: async (inputs) => {
+      calls.push(inputs);
+      return inputs.map((input) => VOCABULARY.map((word) => input.toLowerCase().split(/\W+/).filter((token) => token === word).length));
+    },
+  };
+  return { embedder, calls };
+}
+
+function atom(atomId: string, title: string, body: string, status: EmbeddableAtom['status'] = 'active'): EmbeddableAtom {
+  return { atomId, title, body, status };
+}
+
+function createStore(): { store: DesktopSqliteStorageAdapter; cleanup: () => void } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedworld-semantic-'));
+  const store = new DesktopSqliteStorageAdapter({
+    dbPath: path.join(dir, 'state.db'),
+    blobDir: path.join(dir, 'blobs'),
+    workspaceId: 'workspace-1',
+    userId: 'user-1',
+    deviceId: 'device-a',
+  });
+  return { store, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
+
+test('embeddings are refreshed only for new or changed atoms', async () => {
+  const { store, cleanup } = createStore();
+  try {
+    const { embedder, calls } = createEmbedder();
+    const atoms = [
+      atom('atom-rain', 'Rain', 'rain and water for the soil'),
+      atom('atom-sun', 'Sun', 'sun on the seed'),
+      atom('atom-old', 'Old', 'seed', 'archived'),
+    ];
+
+    assert.deepEqual(await refreshEmbeddings({ atoms, store, embedder, batchSize: 1 }), { embedded: 2, removed: 0 });
+    assert.equal(calls.length, 2, 'one call per batch');
+    assert.deepEqual(await refreshEmbeddings({ atoms, store, embedder }), { embedded: 0, removed: 0 });
+
+    atoms[1] = atom('atom-sun', 'Sun', 'sun and rain on the seed');
+    assert.deepEqual(await refreshEmbeddings({ atoms: atoms.slice(1), store, embedder }), { embedded: 1, removed: 1 });
+    assert.deepEqual(calls[calls.length - 1], ['Sun\n\nsun and rain on the seed']);
+
+    const stored = await store.listEmbeddings();
+    assert.deepEqual(stored.map((entry) => entry.atomId), ['atom-sun']);
+    assert.deepEqual(Array.from(stored[0].vector), [1, 0, 1, 2, 0]);
+
+    const switched = createEmbedder('another-model');
+    assert.deepEqual(await refreshEmbeddings({ atoms: atoms.slice(1), store, embedder: switched.embedder }), { embedded: 1, removed: 0 });
+  } finally {
+    cleanup();
+  }
+});
+
+test('atoms are ranked by cosine similarity within one model', async () => {
+  const { store, cleanup } = createStore();
+  try {
+    const { embedder } = createEmbedder();
+    await refreshEmbeddings({
+      atoms: [
+        atom('atom-rain', 'Rain', 'rain water water'),
+        atom('atom-wells', 'Wells', 'water'),
+        atom('atom-sun', 'Sun', 'sun seed'),
+      ],
+      store,
+      embedder,
+    });
+
+    const embeddings = await store.listEmbeddings();
+    const [query] = await embedder.embed(['water please']);
+    assert.deepEqual(
+      rankBySimilarity(query, embeddings, { model: 'bag-of-words', limit: 2 }).map((match) => match.atomId),
+      ['atom-wells', 'atom-rain'],
+    );
+    assert.deepEqual(
+      rankBySimilarity(query, embeddings, { model: 'bag-of-words', limit: 5, excludeAtomIds: ['atom-wells'] }).map((match) => match.atomId),
+      ['atom-rain', 'atom-sun'],
+    );
+    assert.deepEqual(rankBySimilarity(query, embeddings, { model: 'other', limit: 5 }), []);
+
+    assert.equal(cosineSimilarity([1, 0], [0, 1]), 0);
+    assert.equal(cosineSimilarity([0, 0], [1, 1]), 0);
+    assert.ok(Math.abs(cosineSimilarity([1, 2], [2, 4]) - 1) < 1e-9);
+  } finally {
+    cleanup();
+  }
+});
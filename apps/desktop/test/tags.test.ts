@@ -0,0 +1,57 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { buildProjection, type StoredEvent } from '@seedworld/core';
+import { DesktopSqliteStorageAdapter } from '../src/main/sync/sqlite-adapter';
+
+function event(localSeq: number, type: StoredEvent['type'], payload: StoredEvent['payload']): StoredEvent {
+  return {
+    eventId: `event-${localSeq}`,
+    eventSchemaVersion: 1,
+    type,
+    createdAtMs: 1_700_000_000_000 + localSeq,
+    deviceId: 'device-a',
+    workspaceId: 'workspace-1',
+    localSeq,
+    syncStatus: 'saved_local',
+    payload,
+  };
+}
+
+test('the tag index follows the projection and matches nested tags', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedworld-tags-'));
+  try {
+    const store = new DesktopSqliteStorageAdapter({
+      dbPath: path.join(dir, 'state.db'),
+      blobDir: path.join(dir, 'blobs'),
+      workspaceId: 'workspace-1',
+      userId: 'user-1',
+      deviceId: 'device-a',
+    });
+    const events = [
+      event(1, 'capture.text.create', { atomId: 'atom-basil', body: 'Sow #garden/herbs today' }),
+      event(2, 'capture.text.create', { atomId: 'atom-lawn', body: 'Mow the #garden' }),
+      event(3, 'capture.text.create', { atomId: 'atom-old', body: 'Old #garden note' }),
+      event(4, 'atom.tags.set', { atomId: 'atom-lawn', tags: ['Chores'] }),
+      event(5, 'atom.archive', { atomId: 'atom-old' }),
+    ];
+    await store.saveProjection(buildProjection(events));
+
+    assert.deepEqual(await store.listTags(), [
+      { tag: 'chores', count: 1 },
+      { tag: 'garden', count: 1 },
+      { tag: 'garden/herbs', count: 1 },
+    ]);
+    assert.deepEqual((await store.listAtomIdsWithTag('garden')).sort(), ['atom-basil', 'atom-lawn']);
+    assert.deepEqual(await store.listAtomIdsWithTag('garden/herbs'), ['atom-basil']);
+    assert.deepEqual(await store.listAtomIdsWithTag('gard'), []);
+
+    const projection = await store.getProjection();
+    assert.deepEqual(projection?.atoms.find((atom) => atom.atomId === 'atom-lawn')?.assignedTags, ['chores']);
+    assert.deepEqual(projection?.inbox.find((item) => item.atomId === 'atom-lawn')?.tags, ['chores', 'garden']);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
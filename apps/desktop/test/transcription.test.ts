@@ -0,0 +1,155 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  parseWhisperOutput,
+  parseWhisperProgress,
+  TranscriptionQueue,
+  type TranscriptionProgress,
+  type TranscriptionResult,
+} from '../src/main/addons/transcription';
+
+function writeStub(dir: string, name: string, body: string): string {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, `#!/usr/bin/env node\n${body}\n`, { mode: 0o755 });
+  return filePath;
+}
+
+function createFixture() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedworld-transcription-'));
+  const callsPath = path.join(dir, 'calls.jsonl');
+  const logCall = `require('node:fs').appendFileSync(${JSON.stringify(callsPath)}, JSON.stringify(process.argv.slice(2)) + '\\n');`;
+
+  const ffmpegPath = writeStub(dir, 'ffmpeg', `${logCall}
+const args = process.argv.slice(2);
+require('node:fs').copyFileSync(args[args.indexOf('-i') + 1], args[args.length - 1]);`);
+
+  const whisperPath = writeStub(dir, 'whisper-cli', `${logCall}
+const fs = require('node:fs');
+const args = process.argv.slice(2);
+const input = fs.readFileSync(args[args.indexOf('-f') + 1], 'utf-8');
+if (input.includes('corrupt')) {
+  process.stderr.write('error: failed to read audio\\n');
+  process.exit(2);
+}
+process.stderr.write('whisper_init_from_file: loading model\\n');
+process.stderr.write('whisper_print_progress_callback: progress =  50%\\n');
+process.stdout.write('\\n[00:00:00.000 --> 00:00:02.500]   Buy more seeds.\\n');
+process.stdout.write('[00:00:02.500 --> 00:01:05.040]   Then water the garden.\\n');`);
+
+  const audioDir = path.join(dir, 'attachments', 'audio');
+  fs.mkdirSync(audioDir, { recursive: true });
+
+  return {
+    dir,
+    ffmpegPath,
+    whisperPath,
+    audioDir,
+    calls: (): string[][] => fs.readFileSync(callsPath, 'utf-8').trim().split('\n').map((line) => JSON.parse(line)),
+    cleanup: () => fs.rmSync(dir, { recursive: true, force: true }),
+  };
+}
+
+test('whisper output and progress lines are parsed into segments', () => {
+  const output = [
+    'whisper_full_with_state: auto-detected language: en',
+    '[00:00:00.000 --> 00:00:01.200]  Hello there.',
+    '[00:01:02,345 --> 01:00:00,000]   Second line  ',
+    '[00:00:03.000 --> 00:00:04.000]   ',
+  ].join('\r\n');
+
+  assert.deepEqual(parseWhisperOutput(output), [
+    { startMs: 0, endMs: 1_200, text: 'Hello there.' },
+    { startMs: 62_345, endMs: 3_600_000, text: 'Second line' },
+  ]);
+  assert.equal(parseWhisperProgress('progress =  5%\nprogress = 40%\n'), 40);
+  assert.equal(parseWhisperProgress('whisper_init: loading'), null);
+});
+
+test('queued recordings are converted, transcribed and reported one at a time', async () => {
+  const fixture = createFixture();
+  try {
+    const audioPath = path.join(fixture.audioDir, 'a_one.webm');
+    fs.writeFileSync(audioPath, 'webm audio');
+    const progress: TranscriptionProgress[] = [];
+    const results: TranscriptionResult[] = [];
+
+    const queue = new TranscriptionQueue({
+      workDir: path.join(fixture.dir, 'work'),
+      resolveRuntime: async () => ({
+        binaryPath: fixture.whisperPath,
+        modelPath: path.join(fixture.dir, 'base.bin'),
+        ffmpegPath: fixture.ffmpegPath,
+      }),
+      onComplete: async (result) => {
+        results.push(result);
+      },
+      onProgress: (update) => progress.push(update),
+    });
+
+    const queued = queue.enqueue({ noteId: 'note-1', audioPath });
+    assert.equal(queue.enqueue({ noteId: 'note-1', audioPath }).jobId, queued.jobId);
+    await queue.whenIdle();
+
+    assert.deepEqual(results, [{
+      noteId: 'note-1',
+      segments: [
+        { startMs: 0, endMs: 2_500, text: 'Buy more seeds.' },
+        { startMs: 2_500, endMs: 65_040, text: 'Then water the garden.' },
+      ],
+      text: 'Buy more seeds. Then water the garden.',
+    }]);
+    assert.deepEqual(
+      progress.map((update) => [update.stage, update.percent]),
+      [['queued', null], ['converting', null], ['transcribing', 0], ['transcribing', 50], ['saving', 100], ['completed', 100]],
+    );
+
+    const [ffmpegArgs, whisperArgs] = fixture.calls();
+    assert.deepEqual(ffmpegArgs.slice(0, 3), ['-y', '-i', audioPath]);
+    assert.ok(ffmpegArgs.includes('16000'));
+    assert.equal(whisperArgs[whisperArgs.indexOf('-m') + 1], path.join(fixture.dir, 'base.bin'));
+    assert.equal(whisperArgs[whisperArgs.indexOf('-f') + 1], ffmpegArgs[ffmpegArgs.length - 1]);
+    assert.deepEqual(fs.readdirSync(path.join(fixture.dir, 'work')), []);
+  } finally {
+    fixture.cleanup();
+  }
+});
+
+test('a failing job is reported and the queue moves on', async () => {
+  const fixture = createFixture();
+  try {
+    const corruptPath = path.join(fixture.audioDir, 'a_bad.webm');
+    const goodPath = path.join(fixture.audioDir, 'a_good.webm');
+    fs.writeFileSync(corruptPath, 'corrupt');
+    fs.writeFileSync(goodPath, 'fine');
+    const completed: string[] = [];
+
+    const queue = new TranscriptionQueue({
+      workDir: path.join(fixture.dir, 'work'),
+      resolveRuntime: async () => ({
+        binaryPath: fixture.whisperPath,
+        modelPath: path.join(fixture.dir, 'base.bin'),
+        ffmpegPath: fixture.ffmpegPath,
+      }),
+      onComplete: async (result) => {
+        completed.push(result.noteId);
+      },
+    });
+
+    queue.enqueue({ noteId: 'bad', audioPath: corruptPath });
+    queue.enqueue({ noteId: 'missing', audioPath: path.join(fixture.audioDir, 'gone.webm') });
+    queue.enqueue({ noteId: 'good', audioPath: goodPath });
+    await queue.whenIdle();
+
+    assert.deepEqual(completed, ['good']);
+    const jobs = new Map(queue.listJobs().map((job) => [job.noteId, job]));
+    assert.equal(jobs.get('bad')?.stage, 'failed');
+    assert.match(jobs.get('bad')?.error ?? '', /exited with code 2\. error: failed to read audio/);
+    assert.match(jobs.get('missing')?.error ?? '', /Recording not found/);
+    assert.equal(jobs.get('good')?.stage, 'completed');
+  } finally {
+    fixture.cleanup();
+  }
+});
@@ -0,0 +1,75 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import matter from 'gray-matter';
+import { DesktopSyncService } from '../src/main/sync/service';
+import { loadNote, openVaultFormat, readVaultFormat, VAULT_FORMAT_VERSION } from '../src/main/vault';
+
+const LEGACY_NOTE = [
+  '---',
+  'title: Seeds',
+  'created: 2024-03-01',
+  'updated: 1709300000',
+  'audio_path: attachments/audio/a_1.webm',
+  '---',
+  'Sow basil',
+  '',
+].join('\n');
+
+test('older vaults are backed up and migrated on open', () => {
+  const vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), 'seedworld-format-'));
+  try {
+    fs.mkdirSync(path.join(vaultPath, 'notes'));
+    fs.writeFileSync(path.join(vaultPath, 'notes', 'n_legacy.md'), LEGACY_NOTE);
+
+    const status = openVaultFormat(vaultPath);
+    assert.equal(status.readOnly, false);
+    assert.equal(status.formatVersion, VAULT_FORMAT_VERSION);
+    assert.deepEqual(status.migrations.map(({ fromVersion, toVersion }) => [fromVersion, toVersion]), [[1, 2]]);
+    assert.equal(readVaultFormat(vaultPath)?.formatVersion, VAULT_FORMAT_VERSION);
+
+    const backup = path.join(vaultPath, status.migrations[0].backupPath, 'notes', 'n_legacy.md');
+    assert.equal(fs.readFileSync(backup, 'utf-8'), LEGACY_NOTE);
+
+    const { data } = matter(fs.readFileSync(path.join(vaultPath, 'notes', 'n_legacy.md'), 'utf-8'));
+    assert.deepEqual(data, {
+      title: 'Seeds',
+      id: 'n_legacy',
+      createdAt: '2024-03-01T00:00:00.000Z',
+      updatedAt: '2024-03-01T13:33:20.000Z',
+      audioPath: 'attachments/audio/a_1.webm',
+    });
+    assert.equal(loadNote(vaultPath, 'n_legacy')?.createdAt, '2024-03-01T00:00:00.000Z');
+
+    assert.deepEqual(openVaultFormat(vaultPath).migrations, [], 'an upgraded vault is not migrated again');
+  } finally {
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  }
+});
+
+test('a vault newer than the app opens read-only and untouched', () => {
+  const vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), 'seedworld-format-'));
+  const stateDir = `${vaultPath}-state`;
+  try {
+    fs.mkdirSync(path.join(vaultPath, 'notes'));
+    fs.writeFileSync(path.join(vaultPath, 'notes', 'n_legacy.md'), LEGACY_NOTE);
+    const formatFile = JSON.stringify({ formatVersion: VAULT_FORMAT_VERSION + 1, createdAt: 'x', updatedAt: 'x' });
+    fs.writeFileSync(path.join(vaultPath, 'seedworld.json'), formatFile);
+
+    const status = openVaultFormat(vaultPath);
+    assert.equal(status.readOnly, true);
+    assert.equal(status.formatVersion, VAULT_FORMAT_VERSION + 1);
+    assert.equal(fs.readFileSync(path.join(vaultPath, 'notes', 'n_legacy.md'), 'utf-8'), LEGACY_NOTE);
+    assert.equal(fs.readFileSync(path.join(vaultPath, 'seedworld.json'), 'utf-8'), formatFile);
+
+    const service = { vaultPath, userId: 'user-1', workspaceId: 'workspace-1', deviceId: 'device-a', readOnly: true };
+    assert.throws(() => DesktopSyncService.create(service), /outside the vault/);
+    DesktopSyncService.create({ ...service, stateDir });
+    assert.deepEqual(fs.readdirSync(vaultPath).sort(), ['notes', 'seedworld.json']);
+  } finally {
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  }
+});
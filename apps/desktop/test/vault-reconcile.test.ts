@@ -0,0 +1,97 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import matter from 'gray-matter';
+import { DesktopSyncService } from '../src/main/sync/service';
+
+function noteFiles(vaultPath: string): string[] {
+  return fs.readdirSync(path.join(vaultPath, 'notes')).filter((name) => name.endsWith('.md')).sort();
+}
+
+/** Replace a note's body the way another editor would, keeping its frontmatter. */
+function editNote(vaultPath: string, fileName: string, body: string): void {
+  const filePath = path.join(vaultPath, 'notes', fileName);
+  const { data } = matter(fs.readFileSync(filePath, 'utf-8'));
+  fs.writeFileSync(filePath, matter.stringify(body, data));
+}
+
+test('external note edits and new files are imported into the event log', async () => {
+  const vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), 'seedworld-vault-'));
+  try {
+    const service = DesktopSyncService.create({
+      vaultPath,
+      userId: 'user-1',
+      workspaceId: 'workspace-1',
+      deviceId: 'device-a',
+    });
+
+    await service.captureText({ title: 'Seeds', body: 'Sow basil' });
+    const [fileName] = noteFiles(vaultPath);
+    const atomId = fileName.replace(/\.md$/, '');
+    assert.deepEqual(await service.reconcileVault(), { updated: [], captured: [] }, 'own writes are not edits');
+
+    editNote(vaultPath, fileName, 'Sow basil and thyme');
+    fs.writeFileSync(path.join(vaultPath, 'notes', 'Groceries.md'), 'Milk and eggs\n');
+    const changes = await service.reconcileVault();
+    assert.deepEqual(changes.updated, [atomId]);
+    assert.equal(changes.captured.length, 1);
+
+    const inbox = await service.listInbox();
+    assert.deepEqual(inbox.map((item) => item.preview).sort(), ['Milk and eggs', 'Sow basil and thyme']);
+    assert.equal(inbox.find((item) => item.atomId === atomId)?.needsResolution, false);
+    assert.deepEqual(noteFiles(vaultPath), [`${changes.captured[0]}.md`, fileName].sort(), 'the dropped file moves to its atom note');
+    assert.deepEqual(await service.reconcileVault(), { updated: [], captured: [] });
+  } finally {
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  }
+});
+
+test('conflict copies are merged into their notes and archived', async () => {
+  const vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), 'seedworld-vault-'));
+  try {
+    const service = DesktopSyncService.create({
+      vaultPath,
+      userId: 'user-1',
+      workspaceId: 'workspace-1',
+      deviceId: 'device-a',
+    });
+
+    await service.captureText({ title: 'Seeds', body: 'Sow basil\n\nWater daily' });
+    const [fileName] = noteFiles(vaultPath);
+    const atomId = fileName.replace(/\.md$/, '');
+    editNote(vaultPath, fileName, 'Sow basil\n\nWater daily at dawn');
+    await service.reconcileVault();
+
+    // Another device edited the original text; its provider kept both files.
+    const notesDir = path.join(vaultPath, 'notes');
+    fs.writeFileSync(path.join(notesDir, `${atomId} (1).md`), matter.stringify('Sow basil and thyme\n\nWater daily', { id: atomId }));
+    fs.writeFileSync(path.join(notesDir, `${atomId} (2).md`), matter.stringify('Sow basil\n\nWater daily', { id: atomId }));
+    fs.writeFileSync(path.join(notesDir, 'Groceries (conflicted copy).md'), 'Milk and eggs\n');
+    assert.deepEqual(await service.reconcileVault(), { updated: [], captured: [] }, 'copies are not imported as new notes');
+
+    const preview = await service.resolveConflictCopies({ dryRun: true });
+    assert.deepEqual(preview.copies.map(({ filePath, action }) => [filePath, action]), [
+      [path.join('notes', 'Groceries (conflicted copy).md'), 'capture'],
+      [path.join('notes', `${atomId} (1).md`), 'merge'],
+      [path.join('notes', `${atomId} (2).md`), 'archive'],
+    ]);
+    assert.equal(noteFiles(vaultPath).length, 4, 'a dry run leaves the copies in place');
+
+    const report = await service.resolveConflictCopies();
+    assert.deepEqual(report.copies.map((copy) => copy.action), ['capture', 'merge', 'archive']);
+    for (const copy of report.copies) {
+      assert.ok(copy.archivedPath && fs.existsSync(path.join(vaultPath, copy.archivedPath)));
+    }
+
+    const inbox = await service.listInbox();
+    const note = inbox.find((item) => item.atomId === atomId);
+    assert.equal(note?.preview, 'Sow basil and thyme Water daily at dawn');
+    assert.equal(note?.needsResolution, false);
+    assert.equal(inbox.length, 2);
+    assert.ok(noteFiles(vaultPath).every((name) => !name.includes('(')));
+  } finally {
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  }
+});
@@ -1,25 +1,35 @@
-import type {
-  BlobManifestEntry,
-  DeviceState,
-  EventServerSeqMapping,
-  ProjectionSnapshot,
-  StorageAdapter,
-  StoredEvent,
-  SyncAttempt,
-  SyncError,
-  SyncItemStatus,
+import {
+  buildSearchIndex,
+  searchAtoms,
+  type BlobManifestEntry,
+  type DeviceState,
+  type EventServerSeqMapping,
+  type ProjectionSnapshot,
+  type SearchIndex,
+  type SearchOptions,
+  type SearchResults,
+  type StorageAdapter,
+  type StoredEvent,
+  type SyncAttempt,
+  type SyncError,
+  type SyncItemStatus,
 } from '@seedworld/core';
 
 interface PersistedState {
   deviceState: DeviceState;
   events: StoredEvent[];
   projection: ProjectionSnapshot | null;
+  /** Rebuilt with every projection; missing in state saved before search existed. */
+  searchIndex?: SearchIndex;
   blobs: BlobManifestEntry[];
   attempts: SyncAttempt[];
 }
 
 const DB_NAME = 'seedworld-web';
+const DB_VERSION = 2;
 const STORE_NAME = 'kv';
+// Blob bytes live outside the kv state so they are not rewritten on every persist.
+const BLOB_STORE_NAME = 'blobs';
 
 function clone<T>(value: T): T {
   return JSON.parse(JSON.stringify(value)) as T;
@@ -27,13 +37,16 @@ function clone<T>(value: T): T {
 
 async function openDatabase(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
 
     request.onupgradeneeded = () => {
       const db = request.result;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME);
       }
+      if (!db.objectStoreNames.contains(BLOB_STORE_NAME)) {
+        db.createObjectStore(BLOB_STORE_NAME);
+      }
     };
 
     request.onsuccess = () => resolve(request.result);
@@ -84,6 +97,42 @@ async function writePersistedState(workspaceId: string, state: PersistedState):
   }
 }
 
+async function readBlobRecord(key: string): Promise<Uint8Array | null> {
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(BLOB_STORE_NAME, 'readonly');
+    const value = await new Promise<ArrayBuffer | undefined>((resolve, reject) => {
+      const getRequest = tx.objectStore(BLOB_STORE_NAME).get(key);
+      getRequest.onsuccess = () => resolve(getRequest.result as ArrayBuffer | undefined);
+      getRequest.onerror = () => reject(getRequest.error || new Error('Failed to read blob'));
+    });
+    return value ? new Uint8Array(value) : null;
+  } finally {
+    db.close();
+  }
+}
+
+async function writeBlobRecords(puts: Array<[string, Uint8Array]>, deletes: string[] = []): Promise<void> {
+  const db = await openDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(BLOB_STORE_NAME, 'readwrite');
+      const store = tx.objectStore(BLOB_STORE_NAME);
+      for (const [key, bytes] of puts) {
+        store.put(bytes.slice().buffer, key);
+      }
+      for (const key of deletes) {
+        store.delete(key);
+      }
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error || new Error('Failed to write blob'));
+      tx.onabort = () => reject(tx.error || new Error('Failed to write blob'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
 export class IndexedDbStorageAdapter implements StorageAdapter {
   private readonly workspaceId: string;
 
@@ -171,16 +220,16 @@ export class IndexedDbStorageAdapter implements StorageAdapter {
     return changed;
   }
 
-  async listPendingEvents(limit = 200): Promise<StoredEvent[]> {
+  async listPendingEvents(limit = 200, offset = 0): Promise<StoredEvent[]> {
     const pending = this.state.events
-      .filter((event) => typeof event.serverSeq !== 'number')
+      .filter((event) => typeof event.serverSeq !== 'number' && event.syncStatus !== 'sync_failed')
       .sort((a, b) => {
         const aLocal = a.localSeq ?? Number.MAX_SAFE_INTEGER;
         const bLocal = b.localSeq ?? Number.MAX_SAFE_INTEGER;
         if (aLocal !== bLocal) return aLocal - bLocal;
         return a.eventId.localeCompare(b.eventId);
       })
-      .slice(0, limit);
+      .slice(offset, offset + limit);
 
     return clone(pending);
   }
@@ -202,6 +251,7 @@ export class IndexedDbStorageAdapter implements StorageAdapter {
 
   async saveProjection(snapshot: ProjectionSnapshot): Promise<void> {
     this.state.projection = clone(snapshot);
+    this.state.searchIndex = buildSearchIndex(snapshot.atoms);
     await this.persist();
   }
 
@@ -209,6 +259,13 @@ export class IndexedDbStorageAdapter implements StorageAdapter {
     return this.state.projection ? clone(this.state.projection) : null;
   }
 
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResults> {
+    if (!this.state.searchIndex) {
+      this.state.searchIndex = buildSearchIndex(this.state.projection?.atoms ?? []);
+    }
+    return searchAtoms(this.state.searchIndex, query, options);
+  }
+
   async saveBlobManifest(entries: BlobManifestEntry[]): Promise<void> {
     const map = new Map(this.state.blobs.map((entry) => [entry.hash, entry]));
     for (const entry of entries) {
@@ -222,6 +279,36 @@ export class IndexedDbStorageAdapter implements StorageAdapter {
     return clone(this.state.blobs);
   }
 
+  async readBlob(hash: string): Promise<Uint8Array | null> {
+    return readBlobRecord(this.blobKey(hash));
+  }
+
+  async writeBlob(hash: string, bytes: Uint8Array, _contentType: string): Promise<string> {
+    await writeBlobRecords([[this.blobKey(hash), bytes]]);
+    return `indexeddb://${BLOB_STORE_NAME}/${hash}`;
+  }
+
+  async readBlobDownload(hash: string): Promise<Uint8Array | null> {
+    return readBlobRecord(this.blobKey(hash, 'partial'));
+  }
+
+  async writeBlobDownload(hash: string, offset: number, bytes: Uint8Array): Promise<void> {
+    const existing = offset === 0 ? new Uint8Array() : ((await this.readBlobDownload(hash)) ?? new Uint8Array());
+    const next = new Uint8Array(offset + bytes.byteLength);
+    next.set(existing.subarray(0, offset));
+    next.set(bytes, offset);
+    await writeBlobRecords([[this.blobKey(hash, 'partial'), next]]);
+  }
+
+  async finishBlobDownload(hash: string, _contentType: string): Promise<string> {
+    const bytes = await this.readBlobDownload(hash);
+    if (!bytes) {
+      throw new Error(`No download in progress for blob ${hash}`);
+    }
+    await writeBlobRecords([[this.blobKey(hash), bytes]], [this.blobKey(hash, 'partial')]);
+    return `indexeddb://${BLOB_STORE_NAME}/${hash}`;
+  }
+
   async saveSyncAttempt(attempt: SyncAttempt): Promise<void> {
     this.state.attempts = [clone(attempt), ...this.state.attempts].slice(0, 200);
     await this.persist();
@@ -230,4 +317,8 @@ export class IndexedDbStorageAdapter implements StorageAdapter {
   async listSyncAttempts(limit: number): Promise<SyncAttempt[]> {
     return clone(this.state.attempts.slice(0, limit));
   }
+
+  private blobKey(hash: string, kind: 'blob' | 'partial' = 'blob'): string {
+    return `${this.workspaceId}:${kind}:${hash}`;
+  }
 }
@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { type InboxItem } from '@seedworld/core';
 import { useSeedWorld } from '../seedworld';
@@ -14,6 +14,51 @@ function formatTimestamp(value?: number): string {
   return new Date(value).toLocaleString();
 }
 
+function VoiceCaptureButton(props: {
+  disabled: boolean;
+  onRecorded: (recording: Blob) => Promise<void>;
+  onError: (message: string) => void;
+}): React.ReactElement {
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const [recording, setRecording] = useState(false);
+
+  const start = async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      // captureVoice already reports its failures through the context error.
+      props.onRecorded(new Blob(chunks, { type: recorder.mimeType })).catch(() => undefined);
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setRecording(true);
+  };
+
+  const stop = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    setRecording(false);
+  };
+
+  return (
+    <button
+      onClick={recording ? stop : () => {
+        start().catch((error) => props.onError(error instanceof Error ? error.message : 'Microphone unavailable'));
+      }}
+      disabled={props.disabled && !recording}
+    >
+      {recording ? 'Stop Recording' : 'Record Voice'}
+    </button>
+  );
+}
+
 export function InboxPage(): React.ReactElement {
   const seedworld = useSeedWorld();
   const [title, setTitle] = useState('');
@@ -63,6 +108,11 @@ export function InboxPage(): React.ReactElement {
           >
             {seedworld.busy === 'capture' ? 'Saving...' : 'Save Locally'}
           </button>
+          <VoiceCaptureButton
+            disabled={seedworld.busy === 'capture'}
+            onRecorded={seedworld.captureVoice}
+            onError={seedworld.setError}
+          />
         </div>
       </section>
 
@@ -91,6 +141,7 @@ export function InboxPage(): React.ReactElement {
             {seedworld.inbox.map((item) => (
               <li key={item.id} style={{ border: '1px solid #eee', borderRadius: 8, padding: 8 }}>
                 <strong>{item.title}</strong>
+                {item.hasAudio ? <span title="Voice note"> 🎤</span> : null}
                 <div style={{ fontSize: 12, color: '#666' }}>
                   {item.id} · {statusLabel(item.syncStatus)}
                 </div>
@@ -14,6 +14,8 @@ export function SettingsPage(): React.ReactElement {
   const [serverUrl, setServerUrl] = useState('');
   const [userId, setUserId] = useState(seedworld.localUserId || 'dev-user');
   const [workspaceId, setWorkspaceId] = useState(seedworld.workspaceId);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
 
   useEffect(() => {
     setServerUrl(seedworld.auth?.serverUrl || seedworld.lastServerUrl || '');
@@ -27,6 +29,7 @@ export function SettingsPage(): React.ReactElement {
     }
 
     return [
+      ...(seedworld.syncState ? [`Background sync: ${seedworld.syncState.phase}`] : []),
       `Last success: ${formatTimestamp(seedworld.syncStatus.lastSuccessAtMs)}`,
       `Pending events: ${seedworld.syncStatus.pendingEvents}`,
       `Pending blobs: ${seedworld.syncStatus.pendingBlobs}`,
@@ -35,17 +38,52 @@ export function SettingsPage(): React.ReactElement {
         ? `Last error: ${seedworld.syncStatus.lastError.message} (${seedworld.syncStatus.lastError.code})`
         : 'Last error: none',
     ].join(' · ');
-  }, [seedworld.syncStatus]);
+  }, [seedworld.syncState, seedworld.syncStatus]);
 
   return (
     <div style={{ display: 'grid', gap: 12 }}>
       <section style={{ border: '1px solid #ddd', borderRadius: 8, padding: 12, display: 'grid', gap: 8 }}>
-        <h2 style={{ margin: 0 }}>Account & Sync (Dev Auth)</h2>
+        <h2 style={{ margin: 0 }}>Account & Sync</h2>
         <input
           value={serverUrl}
           onChange={(event) => setServerUrl(event.target.value)}
           placeholder="http://<LAN-IP>:8787"
         />
+        <input
+          type="email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          placeholder="Email"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          placeholder="Password"
+        />
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+          <button
+            onClick={async () => {
+              await seedworld.signInWithAccount({ serverUrl, email, password });
+              setPassword('');
+            }}
+            disabled={seedworld.busy === 'signin'}
+          >
+            {seedworld.busy === 'signin' ? 'Signing in...' : 'Sign in'}
+          </button>
+          <button
+            onClick={async () => {
+              await seedworld.signInWithAccount({ serverUrl, email, password, createAccount: true });
+              setPassword('');
+            }}
+            disabled={seedworld.busy === 'signin'}
+          >
+            Create account
+          </button>
+        </div>
+        <p style={{ margin: 0, fontSize: 12 }}>
+          Dev servers started with SYNC_SERVER_DEV_AUTH=1 also accept any user and workspace ID:
+        </p>
         <input
           value={userId}
           onChange={(event) => setUserId(event.target.value)}
@@ -6,11 +6,15 @@ import {
   createHttpSyncTransport,
   generateEventId,
   migrateEvent,
+  registerAccount,
+  signInWithPassword,
   SyncEngine,
+  SyncScheduler,
   validateImportBundle,
   type DeviceState,
   type InboxItem,
   type StoredEvent,
+  type SyncSchedulerState,
   type SyncStatus,
 } from '@seedworld/core';
 import { IndexedDbStorageAdapter } from './indexeddb-adapter';
@@ -21,6 +25,9 @@ interface AuthState {
   workspaceId: string;
   token: string;
   tokenExpiresAtMs: number;
+  /** Absent for dev sign-ins, whose tokens cannot be renewed. */
+  refreshToken?: string;
+  refreshExpiresAtMs?: number;
   deviceId: string;
 }
 
@@ -59,14 +66,18 @@ interface SeedWorldContextValue {
   lastServerUrl: string;
   inbox: InboxItem[];
   syncStatus: SyncStatus | null;
+  syncState: SyncSchedulerState | null;
   busy: string | null;
   error: string | null;
   message: string | null;
   setMessage: (message: string | null) => void;
   setError: (message: string | null) => void;
   captureText: (input: { title?: string; body: string }) => Promise<void>;
+  captureVoice: (recording: Blob) => Promise<void>;
   syncNow: () => Promise<void>;
   signIn: (input: { serverUrl: string; userId: string; workspaceId: string }) => Promise<void>;
+  /** Signs in to the account's first workspace, or creates the account and its workspace. */
+  signInWithAccount: (input: { serverUrl: string; email: string; password: string; createAccount?: boolean }) => Promise<void>;
   signOut: () => Promise<void>;
   exportData: () => Promise<void>;
   importData: (file: File) => Promise<void>;
@@ -175,6 +186,7 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
   const [auth, setAuth] = useState<AuthState | null>(() => readAuthState());
   const [inbox, setInbox] = useState<InboxItem[]>([]);
   const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [syncState, setSyncState] = useState<SyncSchedulerState | null>(null);
   const [busy, setBusy] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -182,6 +194,7 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
 
   const adapterRef = useRef<IndexedDbStorageAdapter | null>(null);
   const engineRef = useRef<SyncEngine | null>(null);
+  const schedulerRef = useRef<SyncScheduler | null>(null);
   const engineKeyRef = useRef<string>('');
 
   const ensureEngine = useCallback(async (overrides?: { identity?: LocalIdentity; auth?: AuthState | null }): Promise<SyncEngine> => {
@@ -193,7 +206,6 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
       effectiveIdentity.deviceId,
       effectiveUserId,
       effectiveAuth?.serverUrl || '',
-      effectiveAuth?.token || '',
     ].join('|');
 
     if (engineRef.current && engineKeyRef.current === key) {
@@ -215,6 +227,23 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
       ? createHttpSyncTransport({
           baseUrl: effectiveAuth.serverUrl,
           token: effectiveAuth.token,
+          refreshToken: effectiveAuth.refreshToken,
+          onSessionRefreshed: (session) => {
+            // The old refresh token is used up, so the renewed one must outlive a reload.
+            const current = readAuthState();
+            if (current?.userId !== session.userId || current.workspaceId !== session.workspaceId) {
+              return;
+            }
+            const renewed: AuthState = {
+              ...current,
+              token: session.token,
+              tokenExpiresAtMs: session.expiresAtMs,
+              refreshToken: session.refreshToken,
+              refreshExpiresAtMs: session.refreshExpiresAtMs,
+            };
+            writeAuthState(renewed);
+            setAuth(renewed);
+          },
         })
       : createDisabledSyncTransport('AUTH: Sign in required for sync');
 
@@ -223,9 +252,35 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
       transport,
     });
 
+    let lastSuccessAtMs: number | undefined;
+    const scheduler = new SyncScheduler({
+      sync: () => engine.syncNow(),
+      getStatus: () => engine.getSyncStatus(),
+      watchRemote: (onCursor, onDisconnect) => engine.watchRemoteCursor(onCursor, onDisconnect),
+      onState: (state) => {
+        setSyncState(state);
+        if (!state.status) {
+          return;
+        }
+        setSyncStatus(state.status);
+        // A completed sync may have pulled captures from other devices.
+        if (state.status.lastSuccessAtMs !== lastSuccessAtMs) {
+          lastSuccessAtMs = state.status.lastSuccessAtMs;
+          engine.getInbox().then(setInbox).catch(() => undefined);
+        }
+      },
+    });
+    scheduler.setOnline(navigator.onLine);
+
+    schedulerRef.current?.stop();
     adapterRef.current = adapter;
     engineRef.current = engine;
     engineKeyRef.current = key;
+    schedulerRef.current = scheduler;
+
+    if (effectiveAuth) {
+      scheduler.start();
+    }
 
     return engine;
   }, [auth, identity]);
@@ -247,6 +302,19 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
     });
   }, [refresh]);
 
+  React.useEffect(() => {
+    const reportOnline = () => schedulerRef.current?.setOnline(true);
+    const reportOffline = () => schedulerRef.current?.setOnline(false);
+    window.addEventListener('online', reportOnline);
+    window.addEventListener('offline', reportOffline);
+
+    return () => {
+      window.removeEventListener('online', reportOnline);
+      window.removeEventListener('offline', reportOffline);
+      schedulerRef.current?.stop();
+    };
+  }, []);
+
   const captureText = useCallback(async (input: { title?: string; body: string }) => {
     if (!input.body.trim()) {
       return;
@@ -263,6 +331,7 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
         title: input.title,
         body: input.body,
       });
+      schedulerRef.current?.notifyLocalAppend();
       await refresh();
       setMessage('Saved locally.');
     } catch (captureError) {
@@ -273,14 +342,50 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
     }
   }, [ensureEngine, refresh]);
 
+  const captureVoice = useCallback(async (recording: Blob) => {
+    if (recording.size === 0) {
+      return;
+    }
+
+    setBusy('capture');
+    setError(null);
+    setMessage(null);
+
+    try {
+      const engine = await ensureEngine();
+      const contentType = recording.type.split(';')[0] || 'audio/webm';
+      await engine.captureAudio({
+        atomId: `atom_${generateEventId().replace(/-/g, '').slice(0, 20)}`,
+        bytes: new Uint8Array(await recording.arrayBuffer()),
+        contentType,
+        extHint: contentType.split('/')[1],
+        title: `Voice note ${new Date().toLocaleString()}`,
+        body: '*(Voice recording - transcription pending)*',
+      });
+      schedulerRef.current?.notifyLocalAppend();
+      await refresh();
+      setMessage('Voice note saved locally.');
+    } catch (captureError) {
+      setError(captureError instanceof Error ? captureError.message : 'Voice capture failed');
+      throw captureError;
+    } finally {
+      setBusy(null);
+    }
+  }, [ensureEngine, refresh]);
+
   const syncNow = useCallback(async () => {
     setBusy('sync');
     setError(null);
     setMessage(null);
 
     try {
-      const engine = await ensureEngine();
-      const status = await engine.syncNow();
+      await ensureEngine();
+      const scheduler = schedulerRef.current;
+      if (!scheduler) {
+        throw new Error('Sync scheduler not ready');
+      }
+
+      const status = await scheduler.syncNow();
       setSyncStatus(status);
       await refresh();
       setMessage('Sync complete.');
@@ -292,6 +397,34 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
     }
   }, [ensureEngine, refresh]);
 
+  /** Switch to the signed-in workspace and start syncing it. */
+  const startSession = useCallback(async (nextAuth: AuthState) => {
+    const nextIdentity: LocalIdentity = {
+      workspaceId: nextAuth.workspaceId,
+      deviceId: nextAuth.deviceId,
+      userId: nextAuth.userId,
+    };
+
+    setStringToStorage(WORKSPACE_STORAGE_KEY, nextAuth.workspaceId);
+    setStringToStorage(LOCAL_USER_STORAGE_KEY, nextAuth.userId);
+    setStringToStorage(SERVER_URL_STORAGE_KEY, nextAuth.serverUrl);
+    writeAuthState(nextAuth);
+
+    setIdentity(nextIdentity);
+    setAuth(nextAuth);
+    setLastServerUrl(nextAuth.serverUrl);
+
+    engineRef.current = null;
+    adapterRef.current = null;
+    engineKeyRef.current = '';
+
+    const engine = await ensureEngine({ identity: nextIdentity, auth: nextAuth });
+    const [items, status] = await Promise.all([engine.getInbox(), engine.getSyncStatus()]);
+    setInbox(items);
+    setSyncStatus(status);
+    setMessage('Signed in. Sync enabled.');
+  }, [ensureEngine]);
+
   const signIn = useCallback(async (input: { serverUrl: string; userId: string; workspaceId: string }) => {
     setBusy('signin');
     setError(null);
@@ -321,45 +454,55 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
 
       const payload = await response.json() as { token: string; expiresAtMs: number };
 
-      const nextIdentity: LocalIdentity = {
-        workspaceId,
-        deviceId: identity.deviceId,
-        userId,
-      };
-      const nextAuth: AuthState = {
+      await startSession({
         serverUrl,
         userId,
         workspaceId,
         deviceId: identity.deviceId,
         token: payload.token,
         tokenExpiresAtMs: payload.expiresAtMs,
-      };
+      });
+    } catch (signInError) {
+      setError(signInError instanceof Error ? signInError.message : 'Sign-in failed');
+      throw signInError;
+    } finally {
+      setBusy(null);
+    }
+  }, [identity.deviceId, startSession]);
 
-      setStringToStorage(WORKSPACE_STORAGE_KEY, workspaceId);
-      setStringToStorage(LOCAL_USER_STORAGE_KEY, userId);
-      setStringToStorage(SERVER_URL_STORAGE_KEY, serverUrl);
-      writeAuthState(nextAuth);
+  const signInWithAccount = useCallback(async (input: { serverUrl: string; email: string; password: string; createAccount?: boolean }) => {
+    setBusy('signin');
+    setError(null);
+    setMessage(null);
 
-      setIdentity(nextIdentity);
-      setAuth(nextAuth);
-      setLastServerUrl(serverUrl);
+    try {
+      const serverUrl = input.serverUrl.trim().replace(/\/+$/, '');
+      const credentials = { email: input.email.trim(), password: input.password };
+      if (!serverUrl || !credentials.email || !credentials.password) {
+        throw new Error('Server URL, email and password are required');
+      }
 
-      engineRef.current = null;
-      adapterRef.current = null;
-      engineKeyRef.current = '';
+      const session = input.createAccount
+        ? await registerAccount(serverUrl, credentials)
+        : await signInWithPassword(serverUrl, credentials);
 
-      const engine = await ensureEngine({ identity: nextIdentity, auth: nextAuth });
-      const [items, status] = await Promise.all([engine.getInbox(), engine.getSyncStatus()]);
-      setInbox(items);
-      setSyncStatus(status);
-      setMessage('Signed in. Sync enabled.');
+      await startSession({
+        serverUrl,
+        userId: session.userId,
+        workspaceId: session.workspaceId,
+        deviceId: identity.deviceId,
+        token: session.token,
+        tokenExpiresAtMs: session.expiresAtMs,
+        refreshToken: session.refreshToken,
+        refreshExpiresAtMs: session.refreshExpiresAtMs,
+      });
     } catch (signInError) {
       setError(signInError instanceof Error ? signInError.message : 'Sign-in failed');
       throw signInError;
     } finally {
       setBusy(null);
     }
-  }, [ensureEngine, identity.deviceId]);
+  }, [identity.deviceId, startSession]);
 
   const signOut = useCallback(async () => {
     setBusy('signout');
@@ -586,14 +729,17 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
     lastServerUrl,
     inbox,
     syncStatus,
+    syncState,
     busy,
     error,
     message,
     setMessage,
     setError,
     captureText,
+    captureVoice,
     syncNow,
     signIn,
+    signInWithAccount,
     signOut,
     exportData,
     importData,
@@ -604,6 +750,7 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
     auth,
     busy,
     captureText,
+    captureVoice,
     copyDiagnosticsSummary,
     error,
     exportData,
@@ -617,8 +764,10 @@ export function SeedWorldProvider({ children }: { children: React.ReactNode }):
     message,
     refresh,
     signIn,
+    signInWithAccount,
     signOut,
     syncNow,
+    syncState,
     syncStatus,
   ]);
 
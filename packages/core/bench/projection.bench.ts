@@ -0,0 +1,70 @@
+/**
+ * Incremental projection updates against full rebuilds on a large log:
+ * `npm run bench --workspace @seedworld/core`. Exits non-zero when
+ * incremental updates are not at least twice as fast.
+ */
+import { performance } from 'node:perf_hooks';
+import { type StoredEvent, buildProjection, generateEventId, updateProjection } from '../src/index';
+
+const LOG_SIZE = 3000;
+const APPENDS = 20;
+
+function captureEvent(index: number): StoredEvent {
+  return {
+    eventId: generateEventId(),
+    eventSchemaVersion: 1,
+    type: 'capture.text.create',
+    createdAtMs: 1_700_000_000_000 + index,
+    deviceId: 'device-A',
+    workspaceId: 'workspace-1',
+    localSeq: index + 1,
+    serverSeq: index + 1,
+    syncStatus: 'synced',
+    payload: { atomId: `atom-${index}`, body: `Capture ${index}\nwith a second line` },
+  };
+}
+
+function updateEvent(atomId: string, body: string, localSeq: number): StoredEvent {
+  return {
+    eventId: generateEventId(),
+    eventSchemaVersion: 1,
+    type: 'atom.text.update',
+    createdAtMs: 1_800_000_000_000 + localSeq,
+    deviceId: 'device-A',
+    workspaceId: 'workspace-1',
+    localSeq: LOG_SIZE + localSeq,
+    syncStatus: 'saved_local',
+    payload: { atomId, body },
+  };
+}
+
+const events = Array.from({ length: LOG_SIZE }, (_, index) => captureEvent(index));
+
+const fullLog = [...events];
+const fullStart = performance.now();
+for (let index = 0; index < APPENDS; index += 1) {
+  fullLog.push(updateEvent('atom-7', `full edit ${index}`, index + 1));
+  buildProjection(fullLog);
+}
+const fullMs = performance.now() - fullStart;
+
+const incrementalLog = [...events];
+let snapshot = buildProjection(incrementalLog);
+const incrementalStart = performance.now();
+for (let index = 0; index < APPENDS; index += 1) {
+  incrementalLog.push(updateEvent('atom-7', `incremental edit ${index}`, index + 1));
+  const update = updateProjection(snapshot, incrementalLog);
+  if (!update) {
+    throw new Error(`Append ${index} fell back to a full rebuild`);
+  }
+  snapshot = update.snapshot;
+}
+const incrementalMs = performance.now() - incrementalStart;
+
+console.log(`${APPENDS} appends to a log of ${LOG_SIZE} events`);
+console.log(`  full rebuilds:       ${fullMs.toFixed(1)}ms`);
+console.log(`  incremental updates: ${incrementalMs.toFixed(1)}ms (${(fullMs / incrementalMs).toFixed(1)}x faster)`);
+if (incrementalMs * 2 >= fullMs) {
+  console.error('Incremental updates should be at least twice as fast as full rebuilds');
+  process.exitCode = 1;
+}
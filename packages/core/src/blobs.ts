@@ -0,0 +1,58 @@
+import {
+  type BlobManifestEntry,
+  type InboxItem,
+  type ProjectionSnapshot,
+  type SyncErrorCode,
+  type SyncItemStatus,
+} from './types';
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** Manifest status for a blob that still failed after its retries. */
+export function blobFailureStatus(code: SyncErrorCode): SyncItemStatus {
+  switch (code) {
+    case 'HASH_MISMATCH':
+      return 'blocked_hash_mismatch';
+    case 'QUOTA':
+    case 'DISK_FULL':
+      return 'blocked_quota_or_storage';
+    case 'AUTH':
+      return 'blocked_auth';
+    default:
+      return 'sync_failed';
+  }
+}
+
+/** Blocked blobs need the user; the sync stage leaves them alone. */
+export function isBlobBlocked(entry: BlobManifestEntry): boolean {
+  return entry.syncStatus.startsWith('blocked_');
+}
+
+/**
+ * Inbox items whose text is synced but whose media is not on this device yet
+ * report media_downloading, or synced_text_only once downloading gave up.
+ */
+export function applyMediaStatus(projection: ProjectionSnapshot, manifest: BlobManifestEntry[]): InboxItem[] {
+  const blobsByHash = new Map(manifest.map((entry) => [entry.hash, entry]));
+  const atomsById = new Map(projection.atoms.map((atom) => [atom.atomId, atom]));
+
+  return projection.inbox.map((item) => {
+    const atom = atomsById.get(item.atomId);
+    if (item.syncStatus !== 'synced' || !atom || atom.blobHashes.length === 0) {
+      return item;
+    }
+
+    const absent = atom.blobHashes
+      .map((hash) => blobsByHash.get(hash))
+      .filter((entry) => !entry?.isPresent);
+    if (absent.length === 0) {
+      return item;
+    }
+
+    const downloading = absent.some((entry) => !entry || entry.syncStatus === 'media_downloading');
+    return { ...item, syncStatus: downloading ? 'media_downloading' : 'synced_text_only' };
+  });
+}
@@ -0,0 +1,336 @@
+import { CHANGESET_SCHEMA } from './schemas';
+import {
+  type AtomRecord,
+  type ChangeSet,
+  type ChangeSetReviewPayload,
+  type ChangeSetSection,
+  type ChangeSetState,
+  type ChangeSetSuggestCreatePayload,
+  type Event,
+  type EventDraft,
+} from './types';
+import { assertValid } from './validation';
+
+export const CHANGESET_SECTIONS: ChangeSetSection[] = ['adds', 'edits', 'links', 'merges', 'conflicts'];
+
+/**
+ * Check a changeset against `schemas/changeset-0.1.schema.json`. Errors name
+ * the offending paths, e.g. `changes.links[0].relation`.
+ */
+export function parseChangeSet(value: unknown): ChangeSet {
+  return assertValid<ChangeSet>(CHANGESET_SCHEMA, value, 'changeset');
+}
+
+/** Key a single change by its section and position, e.g. `links:2`. */
+export function changeKey(section: ChangeSetSection, index: number): string {
+  return `${section}:${index}`;
+}
+
+export function changeKeys(changeset: ChangeSet): string[] {
+  return CHANGESET_SECTIONS.flatMap((section) =>
+    changeset.changes[section].map((_change, index) => changeKey(section, index)),
+  );
+}
+
+function parseChangeKey(key: string): { section: ChangeSetSection; index: number } | null {
+  const [section, index] = key.split(':');
+  if (!CHANGESET_SECTIONS.includes(section as ChangeSetSection) || !/^\d+$/.test(index ?? '')) {
+    return null;
+  }
+  return { section: section as ChangeSetSection, index: Number(index) };
+}
+
+function compareEventOrder(a: Event, b: Event): number {
+  const aSeq = a.serverSeq ?? Number.MAX_SAFE_INTEGER;
+  const bSeq = b.serverSeq ?? Number.MAX_SAFE_INTEGER;
+  if (aSeq !== bSeq) {
+    return aSeq - bSeq;
+  }
+  return (a.localSeq ?? 0) - (b.localSeq ?? 0) || a.createdAtMs - b.createdAtMs;
+}
+
+/**
+ * Fold suggestion and review events into changeset states, newest first. When
+ * two devices review the same change, the first decision in log order wins.
+ */
+export function listChangesets(events: Event[]): ChangeSetState[] {
+  const states = new Map<string, ChangeSetState>();
+  const ordered = [...events].sort(compareEventOrder);
+
+  for (const event of ordered) {
+    if (event.type === 'changeset.suggest.create') {
+      const payload = event.payload as ChangeSetSuggestCreatePayload;
+      if (payload.changeset && !states.has(payload.changesetId)) {
+        states.set(payload.changesetId, {
+          changeset: payload.changeset,
+          eventId: event.eventId,
+          suggestedAtMs: event.createdAtMs,
+          reviews: {},
+          atomIds: {},
+        });
+      }
+    }
+  }
+
+  for (const event of ordered) {
+    if (event.type !== 'changeset.review') {
+      continue;
+    }
+    const payload = event.payload as ChangeSetReviewPayload;
+    const state = states.get(payload.changesetId);
+    if (!state || state.reviews[payload.changeKey]) {
+      continue;
+    }
+    state.reviews[payload.changeKey] = {
+      decision: payload.decision,
+      eventId: event.eventId,
+      reviewedAtMs: event.createdAtMs,
+      eventIds: payload.eventIds ?? [],
+    };
+    Object.assign(state.atomIds, payload.atomIds ?? {});
+  }
+
+  return Array.from(states.values()).sort((a, b) => b.suggestedAtMs - a.suggestedAtMs);
+}
+
+/**
+ * Apply a unified diff to `body`. Hunks must match exactly; a patch written
+ * against different text is rejected instead of guessed at.
+ */
+export function applyUnifiedPatch(body: string, patch: string): string {
+  const lines = body.split('\n');
+  const output: string[] = [];
+  let cursor = 0;
+  let sawHunk = false;
+
+  const patchLines = patch.replace(/\r\n?/g, '\n').split('\n');
+  for (let i = 0; i < patchLines.length; i += 1) {
+    const header = patchLines[i].match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (!header) {
+      continue;
+    }
+    sawHunk = true;
+
+    const start = Math.max(0, Number(header[1]) - 1);
+    if (start < cursor) {
+      throw new Error('Patch hunks overlap or are out of order');
+    }
+    output.push(...lines.slice(cursor, start));
+    cursor = start;
+
+    for (i += 1; i < patchLines.length && !patchLines[i].startsWith('@@'); i += 1) {
+      const line = patchLines[i];
+      const marker = line[0];
+      const text = line.slice(1);
+      if (marker === '+') {
+        output.push(text);
+      } else if (marker === ' ' || marker === '-') {
+        if (lines[cursor] !== text) {
+          throw new Error(`Patch does not apply at line ${cursor + 1}`);
+        }
+        if (marker === ' ') {
+          output.push(text);
+        }
+        cursor += 1;
+      } else if (line === '' && i === patchLines.length - 1) {
+        break;
+      } else if (marker !== '\\') {
+        throw new Error(`Unexpected patch line: ${line}`);
+      }
+    }
+    i -= 1;
+  }
+
+  if (!sawHunk) {
+    throw new Error('Patch has no hunks');
+  }
+  output.push(...lines.slice(cursor));
+  return output.join('\n');
+}
+
+/**
+ * Replace the body of the markdown section titled `heading` up to the next
+ * heading of the same or a higher level; a missing section is appended.
+ */
+export function replaceSection(body: string, heading: string, content: string): string {
+  const lines = body.split('\n');
+  const wanted = heading.replace(/^#+\s*/, '').trim().toLowerCase();
+  const start = lines.findIndex((line) => {
+    const match = line.match(/^(#{1,6})\s+(.*)$/);
+    return match !== null && match[2].trim().toLowerCase() === wanted;
+  });
+
+  const section = content.trim();
+  if (start === -1) {
+    const title = heading.startsWith('#') ? heading.trim() : `## ${heading.trim()}`;
+    return `${body.trimEnd()}\n\n${title}\n\n${section}\n`;
+  }
+
+  const level = (lines[start].match(/^#+/) as RegExpMatchArray)[0].length;
+  let end = start + 1;
+  while (end < lines.length) {
+    const match = lines[end].match(/^(#{1,6})\s/);
+    if (match && match[1].length <= level) {
+      break;
+    }
+    end += 1;
+  }
+
+  const rest = lines.slice(end);
+  return [...lines.slice(0, start + 1), '', section, ...(rest.length > 0 ? ['', ...rest] : [])].join('\n');
+}
+
+function patchedBody(body: string, edit: ChangeSet['changes']['edits'][number]): string {
+  if (edit.patchFormat === 'unified') {
+    if (typeof edit.patch !== 'string') {
+      throw new Error('A unified patch must be a string');
+    }
+    return applyUnifiedPatch(body, edit.patch);
+  }
+
+  if (edit.patchFormat === 'replace-section') {
+    if (typeof edit.patch === 'string') {
+      return edit.patch;
+    }
+    const patch = edit.patch as Record<string, unknown>;
+    if (typeof patch.heading !== 'string' || typeof patch.content !== 'string') {
+      throw new Error('A replace-section patch must be a string or { heading, content }');
+    }
+    return replaceSection(body, patch.heading, patch.content);
+  }
+
+  throw new Error('json-patch edits cannot be applied to text atoms');
+}
+
+export interface PlannedChange {
+  drafts: EventDraft[];
+  /** Atom ids created for changeset-local ids. */
+  atomIds: Record<string, string>;
+}
+
+/**
+ * Turn one accepted change into the atom and link events that carry it out.
+ * References may name existing atoms or ids created by changes accepted
+ * earlier; anything else is rejected so a partial changeset cannot dangle.
+ */
+export function planAcceptedChange(args: {
+  state: ChangeSetState;
+  changeKey: string;
+  atoms: AtomRecord[];
+  createId: (prefix: 'atom' | 'link') => string;
+}): PlannedChange {
+  const { state, createId } = args;
+  const parsed = parseChangeKey(args.changeKey);
+  const change = parsed ? state.changeset.changes[parsed.section][parsed.index] : undefined;
+  if (!parsed || !change) {
+    throw new Error(`Unknown change ${args.changeKey} in changeset ${state.changeset.id}`);
+  }
+
+  const changesetId = state.changeset.id;
+  const atomsById = new Map(
+    args.atoms.filter((atom) => atom.status !== 'deleted').map((atom) => [atom.atomId, atom]),
+  );
+  const atomIds: Record<string, string> = {};
+  const drafts: EventDraft[] = [];
+
+  const resolve = (ref: string): AtomRecord => {
+    const atom = atomsById.get(state.atomIds[ref] ?? ref);
+    if (!atom) {
+      throw new Error(`Changeset refers to ${ref}, which is not an atom or an accepted addition`);
+    }
+    return atom;
+  };
+  const link = (sourceId: string, targetId: string, relation: ChangeSet['changes']['links'][number]['relation'], note?: string) => {
+    drafts.push({
+      type: 'link.create',
+      payload: { linkId: createId('link'), sourceId, targetId, relation, ...(note ? { note } : {}), changesetId },
+    });
+  };
+
+  switch (parsed.section) {
+    case 'adds': {
+      const add = change as ChangeSet['changes']['adds'][number];
+      const atomId = createId('atom');
+      atomIds[add.id] = atomId;
+      drafts.push({
+        type: 'capture.text.create',
+        payload: {
+          atomId,
+          title: add.title,
+          body: add.content,
+          ...(add.kind !== 'note' ? { kind: add.kind } : {}),
+        },
+      });
+      break;
+    }
+
+    case 'edits': {
+      const edit = change as ChangeSet['changes']['edits'][number];
+      const target = resolve(edit.targetId);
+      if (target.needsResolution) {
+        throw new Error(`Resolve the conflict on ${target.atomId} before applying edits to it`);
+      }
+      drafts.push({
+        type: 'atom.text.update',
+        payload: {
+          atomId: target.atomId,
+          body: patchedBody(target.body, edit),
+          baseVersionId: target.headVersionIds[0],
+        },
+      });
+      break;
+    }
+
+    case 'links': {
+      const proposed = change as ChangeSet['changes']['links'][number];
+      link(resolve(proposed.sourceId).atomId, resolve(proposed.targetId).atomId, proposed.relation, proposed.note);
+      break;
+    }
+
+    case 'merges': {
+      const merge = change as ChangeSet['changes']['merges'][number];
+      const sources = merge.fromIds.map(resolve);
+      let targetId: string;
+
+      if (merge.strategy === 'create-new') {
+        targetId = createId('atom');
+        atomIds[merge.mergeId] = targetId;
+        const body = merge.into.content ?? sources.map((source) => source.body.trim()).join('\n\n');
+        drafts.push({
+          type: 'capture.text.create',
+          payload: { atomId: targetId, title: merge.into.title, body, kind: merge.into.kind },
+        });
+      } else {
+        if (!merge.into.id) {
+          throw new Error(`Merge ${merge.mergeId} has no target id`);
+        }
+        const target = resolve(merge.into.id);
+        targetId = target.atomId;
+        if (merge.into.content !== undefined) {
+          drafts.push({
+            type: 'atom.text.update',
+            payload: { atomId: targetId, body: merge.into.content, baseVersionId: target.headVersionIds[0] },
+          });
+        }
+      }
+
+      // Merged atoms are archived, not deleted, and stay traceable through derives links.
+      for (const source of sources) {
+        if (source.atomId === targetId) {
+          continue;
+        }
+        link(targetId, source.atomId, 'derives', merge.rationale);
+        if (source.status === 'active') {
+          drafts.push({ type: 'atom.archive', payload: { atomId: source.atomId } });
+        }
+      }
+      break;
+    }
+
+    case 'conflicts':
+      // Accepting a reported conflict only acknowledges it; nothing is rewritten.
+      break;
+  }
+
+  return { drafts, atomIds };
+}
@@ -0,0 +1,65 @@
+import { type ConflictResolvePayload } from './types';
+
+export function conflictIdForAtom(atomId: string): string {
+  return `conflict:${atomId}`;
+}
+
+export interface HeadUpdateResult {
+  headVersionIds: string[];
+  conflicted: boolean;
+}
+
+/**
+ * Advance an atom's heads for a text update. The update replaces the head it was
+ * based on; an update whose base is not a current head was written concurrently,
+ * so it joins the heads instead. More than one head means the atom is conflicted.
+ */
+export function applyUpdateToHeads(
+  headVersionIds: string[],
+  versionId: string,
+  baseVersionId?: string,
+): HeadUpdateResult {
+  if (baseVersionId === undefined || headVersionIds.length === 0) {
+    return { headVersionIds: [versionId], conflicted: false };
+  }
+
+  const nextHeads = headVersionIds.includes(baseVersionId)
+    ? headVersionIds.filter((headId) => headId !== baseVersionId)
+    : [...headVersionIds];
+  if (!nextHeads.includes(versionId)) {
+    nextHeads.push(versionId);
+  }
+
+  return {
+    headVersionIds: nextHeads,
+    conflicted: nextHeads.length > 1,
+  };
+}
+
+export interface HeadResolutionResult {
+  headVersionIds: string[];
+  resultVersionId: string;
+  resolved: boolean;
+}
+
+/**
+ * Collapse the heads named by a conflict.resolve event into a single head.
+ * Heads that the resolver did not see remain, keeping the conflict open.
+ */
+export function applyResolutionToHeads(
+  headVersionIds: string[],
+  payload: ConflictResolvePayload,
+  resolutionEventId: string,
+): HeadResolutionResult {
+  const resultVersionId =
+    typeof payload.mergedBody === 'string' ? resolutionEventId : (payload.winningVersionId ?? resolutionEventId);
+  const superseded = new Set(payload.versionIds);
+  const remaining = headVersionIds.filter((versionId) => !superseded.has(versionId) && versionId !== resultVersionId);
+  const nextHeads = [resultVersionId, ...remaining];
+
+  return {
+    headVersionIds: nextHeads,
+    resultVersionId,
+    resolved: nextHeads.length === 1,
+  };
+}
@@ -7,6 +7,7 @@ import {
   type StorageAdapter,
 } from './types';
 import { migrateEvent } from './migrations';
+import { formatValidationIssues, validateImportBundleStructure } from './validation';
 
 export async function buildExportSnapshot(
   storage: StorageAdapter,
@@ -49,13 +50,25 @@ export async function buildExportSnapshot(
   };
 }
 
-export async function validateImportBundle(bundle: ImportBundle): Promise<void> {
-  const manifest = bundle.manifest;
+/**
+ * Check an import bundle before anything is written: manifest and bundle
+ * structure, supported versions, then every event including its payload.
+ * Errors name the offending path, e.g. `events[3]: ... payload.body`.
+ */
+export async function validateImportBundle(bundle: unknown): Promise<ImportBundle> {
+  const manifestVersion = (bundle as { manifest?: { schemaVersion?: unknown } } | null)?.manifest?.schemaVersion;
+  if (manifestVersion !== undefined && manifestVersion !== '0.2') {
+    throw new Error(`Unsupported export schema version ${String(manifestVersion)}`);
+  }
 
-  if (manifest.schemaVersion !== '0.2') {
-    throw new Error(`Unsupported export schema version ${manifest.schemaVersion}`);
+  const structureIssues = validateImportBundleStructure(bundle);
+  if (structureIssues.length > 0) {
+    throw new Error(formatValidationIssues('import bundle', structureIssues));
   }
 
+  const validated = bundle as ImportBundle;
+  const manifest = validated.manifest;
+
   if (manifest.minSupportedEventSchemaVersion > CURRENT_EVENT_SCHEMA_VERSION) {
     throw new Error(
       `Import not supported: bundle requires event schema >= ${manifest.minSupportedEventSchemaVersion}, this app supports up to ${CURRENT_EVENT_SCHEMA_VERSION}.`,
@@ -68,9 +81,15 @@ export async function validateImportBundle(bundle: ImportBundle): Promise<void>
     );
   }
 
-  for (const rawEvent of bundle.events) {
-    migrateEvent(rawEvent);
-  }
+  validated.events.forEach((rawEvent, index) => {
+    try {
+      migrateEvent(rawEvent);
+    } catch (error) {
+      throw new Error(`Invalid import bundle: events[${index}]: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  return validated;
 }
 
 async function ensureProjection(storage: StorageAdapter): Promise<ProjectionSnapshot> {
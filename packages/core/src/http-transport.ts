@@ -1,28 +1,166 @@
 import {
+  type ByteRange,
   type PullRequest,
   type PullResponse,
   type PushRequest,
   type PushResponse,
   type SyncTransport,
+  type Unsubscribe,
 } from './types';
 
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+/** A signed-in session as returned by the server's `/auth/*` routes. */
+export interface AuthSession {
+  token: string;
+  expiresAtMs: number;
+  refreshToken: string;
+  refreshExpiresAtMs: number;
+  userId: string;
+  workspaceId: string;
+  role: WorkspaceRole;
+}
+
 export interface HttpTransportOptions {
   baseUrl: string;
   token: string;
+  /** Renews the access token when the server turns it down; without one, a 401 fails the request. */
+  refreshToken?: string;
+  /** Called with every renewed session. Store it: the previous refresh token no longer works. */
+  onSessionRefreshed?: (session: AuthSession) => void;
+}
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Parse one blank-line-terminated SSE block; comment-only blocks (keepalives) yield null.
+function parseServerSentEvent(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.length === 0 || line.startsWith(':')) {
+      continue;
+    }
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const parsed = parseServerSentEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) {
+        onEvent(parsed);
+      }
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+async function postAuth(baseUrl: string, path: string, body: unknown): Promise<AuthSession> {
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(text || `HTTP ${response.status}`);
+  }
+
+  return (await response.json()) as AuthSession;
+}
+
+/** Creates an account together with its first workspace, which it owns. */
+export function registerAccount(
+  baseUrl: string,
+  input: { email: string; password: string; workspaceName?: string },
+): Promise<AuthSession> {
+  return postAuth(baseUrl, '/auth/register', input);
+}
+
+/** Signs in to `workspaceId`, or to the first workspace the account joined. */
+export function signInWithPassword(
+  baseUrl: string,
+  input: { email: string; password: string; workspaceId?: string },
+): Promise<AuthSession> {
+  return postAuth(baseUrl, '/auth/login', input);
+}
+
+/** Trades a refresh token for a new session; the refresh token is used up either way. */
+export function refreshAuthSession(baseUrl: string, refreshToken: string): Promise<AuthSession> {
+  return postAuth(baseUrl, '/auth/refresh', { refreshToken });
 }
 
 export function createHttpSyncTransport(options: HttpTransportOptions): SyncTransport {
   const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  let token = options.token;
+  let refreshToken = options.refreshToken;
+  let refreshing: Promise<void> | null = null;
+
+  // Requests that fail together share one refresh: the server revokes the
+  // session when a refresh token it already replaced is presented again.
+  function renewToken(currentRefreshToken: string): Promise<void> {
+    if (!refreshing) {
+      refreshing = refreshAuthSession(baseUrl, currentRefreshToken)
+        .then((session) => {
+          token = session.token;
+          refreshToken = session.refreshToken;
+          options.onSessionRefreshed?.(session);
+        })
+        .finally(() => {
+          refreshing = null;
+        });
+    }
+    return refreshing;
+  }
 
-  async function request<T>(path: string, init: RequestInit): Promise<T> {
-    const response = await fetch(`${baseUrl}${path}`, {
-      ...init,
-      headers: {
-        'content-type': 'application/json',
-        authorization: `Bearer ${options.token}`,
-        ...(init.headers || {}),
-      },
-    });
+  /** Sends with the current access token, and once more with a renewed one if it is refused. */
+  async function authorizedFetch(url: string, init: Omit<RequestInit, 'headers'>, headers: Record<string, string> = {}): Promise<Response> {
+    const send = (): Promise<Response> => fetch(url, { ...init, headers: { ...headers, authorization: `Bearer ${token}` } });
+    const sentWith = token;
+    const response = await send();
+    if (response.status !== 401 || !refreshToken) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (token === sentWith) {
+      await renewToken(refreshToken);
+    }
+    return send();
+  }
+
+  async function request<T>(path: string, init: Omit<RequestInit, 'headers'>): Promise<T> {
+    const response = await authorizedFetch(`${baseUrl}${path}`, init, { 'content-type': 'application/json' });
 
     if (!response.ok) {
       const text = await response.text();
@@ -42,22 +180,22 @@ export function createHttpSyncTransport(options: HttpTransportOptions): SyncTran
 
     pull(requestPayload: PullRequest): Promise<PullResponse> {
       const query = new URLSearchParams({ cursor: String(requestPayload.cursor) });
+      if (requestPayload.limit !== undefined) {
+        query.set('limit', String(requestPayload.limit));
+      }
       return request<PullResponse>(`/sync/pull?${query.toString()}`, {
         method: 'GET',
       });
     },
 
     async uploadBlob(workspaceId: string, hash: string, contentType: string, bytes: Uint8Array): Promise<void> {
-      const response = await fetch(
+      const response = await authorizedFetch(
         `${baseUrl}/blobs/upload?workspaceId=${encodeURIComponent(workspaceId)}&hash=${encodeURIComponent(hash)}&contentType=${encodeURIComponent(contentType)}`,
         {
           method: 'POST',
           body: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer,
-          headers: {
-            authorization: `Bearer ${options.token}`,
-            'content-type': 'application/octet-stream',
-          },
         },
+        { 'content-type': 'application/octet-stream' },
       );
 
       if (!response.ok) {
@@ -66,20 +204,66 @@ export function createHttpSyncTransport(options: HttpTransportOptions): SyncTran
       }
     },
 
-    async downloadBlob(_workspaceId: string, hash: string): Promise<Uint8Array> {
-      const response = await fetch(`${baseUrl}/blobs/${encodeURIComponent(hash)}`, {
-        method: 'GET',
-        headers: {
-          authorization: `Bearer ${options.token}`,
-        },
-      });
+    async downloadBlob(_workspaceId: string, hash: string, range?: ByteRange): Promise<Uint8Array> {
+      const headers: Record<string, string> = {};
+      if (range) {
+        headers.range = `bytes=${range.start}-${range.end ?? ''}`;
+      }
+
+      const response = await authorizedFetch(`${baseUrl}/blobs/${encodeURIComponent(hash)}`, { method: 'GET' }, headers);
 
       if (!response.ok) {
         const text = await response.text();
         throw new Error(text || `HTTP ${response.status}`);
       }
 
-      return new Uint8Array(await response.arrayBuffer());
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      // A server that ignores Range answers 200 with the whole blob.
+      if (range && response.status === 200) {
+        return bytes.slice(range.start, range.end === undefined ? undefined : range.end + 1);
+      }
+      return bytes;
+    },
+
+    subscribe(
+      workspaceId: string,
+      onCursor: (cursor: number) => void,
+      onDisconnect?: (error: unknown) => void,
+    ): Unsubscribe {
+      const controller = new AbortController();
+
+      const listen = async (): Promise<void> => {
+        const response = await authorizedFetch(
+          `${baseUrl}/sync/stream?workspaceId=${encodeURIComponent(workspaceId)}`,
+          { method: 'GET', signal: controller.signal },
+          { accept: 'text/event-stream' },
+        );
+
+        if (!response.ok || !response.body) {
+          const text = await response.text();
+          throw new Error(text || `HTTP ${response.status}`);
+        }
+
+        await readServerSentEvents(response.body, (event) => {
+          if (event.event !== 'cursor') {
+            return;
+          }
+          const payload = JSON.parse(event.data) as { cursor?: unknown };
+          if (typeof payload.cursor === 'number') {
+            onCursor(payload.cursor);
+          }
+        });
+
+        throw new Error('network: sync stream closed by server');
+      };
+
+      listen().catch((error) => {
+        if (!controller.signal.aborted) {
+          onDisconnect?.(error);
+        }
+      });
+
+      return () => controller.abort();
     },
   };
 }
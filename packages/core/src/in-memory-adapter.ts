@@ -1,3 +1,4 @@
+import { eventAtomId } from './projection';
 import {
   type BlobManifestEntry,
   type DeviceState,
@@ -23,6 +24,10 @@ export class InMemoryStorageAdapter implements StorageAdapter {
 
   private blobManifest = new Map<string, BlobManifestEntry>();
 
+  private readonly blobBytes = new Map<string, Uint8Array>();
+
+  private readonly blobDownloads = new Map<string, Uint8Array>();
+
   private attempts: SyncAttempt[] = [];
 
   constructor(state: DeviceState) {
@@ -71,6 +76,22 @@ export class InMemoryStorageAdapter implements StorageAdapter {
     return Array.from(this.events.values()).map((event) => clone(event));
   }
 
+  async listEventsSince(serverSeq: number): Promise<StoredEvent[]> {
+    return Array.from(this.events.values())
+      .filter((event) => typeof event.serverSeq !== 'number' || event.serverSeq > serverSeq)
+      .map((event) => clone(event));
+  }
+
+  async listAtomEvents(atomIds: string[]): Promise<StoredEvent[]> {
+    const wanted = new Set(atomIds);
+    return Array.from(this.events.values())
+      .filter((event) => {
+        const atomId = eventAtomId(event);
+        return atomId !== undefined && wanted.has(atomId);
+      })
+      .map((event) => clone(event));
+  }
+
   async assignServerSeq(mappings: EventServerSeqMapping[]): Promise<boolean> {
     let changed = false;
 
@@ -91,9 +112,9 @@ export class InMemoryStorageAdapter implements StorageAdapter {
     return changed;
   }
 
-  async listPendingEvents(limit = 200): Promise<StoredEvent[]> {
+  async listPendingEvents(limit = 200, offset = 0): Promise<StoredEvent[]> {
     const pending = Array.from(this.events.values())
-      .filter((event) => typeof event.serverSeq !== 'number')
+      .filter((event) => typeof event.serverSeq !== 'number' && event.syncStatus !== 'sync_failed')
       .sort((a, b) => {
         const aLocal = a.localSeq ?? Number.MAX_SAFE_INTEGER;
         const bLocal = b.localSeq ?? Number.MAX_SAFE_INTEGER;
@@ -102,7 +123,7 @@ export class InMemoryStorageAdapter implements StorageAdapter {
         }
         return a.eventId.localeCompare(b.eventId);
       })
-      .slice(0, limit)
+      .slice(offset, offset + limit)
       .map((event) => clone(event));
 
     return pending;
@@ -137,6 +158,37 @@ export class InMemoryStorageAdapter implements StorageAdapter {
     return Array.from(this.blobManifest.values()).map((entry) => clone(entry));
   }
 
+  async readBlob(hash: string): Promise<Uint8Array | null> {
+    return this.blobBytes.get(hash)?.slice() ?? null;
+  }
+
+  async writeBlob(hash: string, bytes: Uint8Array, _contentType: string): Promise<string> {
+    this.blobBytes.set(hash, bytes.slice());
+    return `memory://blobs/${hash}`;
+  }
+
+  async readBlobDownload(hash: string): Promise<Uint8Array | null> {
+    return this.blobDownloads.get(hash)?.slice() ?? null;
+  }
+
+  async writeBlobDownload(hash: string, offset: number, bytes: Uint8Array): Promise<void> {
+    const existing = offset === 0 ? new Uint8Array() : (this.blobDownloads.get(hash) ?? new Uint8Array());
+    const next = new Uint8Array(offset + bytes.byteLength);
+    next.set(existing.subarray(0, offset));
+    next.set(bytes, offset);
+    this.blobDownloads.set(hash, next);
+  }
+
+  async finishBlobDownload(hash: string, _contentType: string): Promise<string> {
+    const bytes = this.blobDownloads.get(hash);
+    if (!bytes) {
+      throw new Error(`No download in progress for blob ${hash}`);
+    }
+    this.blobDownloads.delete(hash);
+    this.blobBytes.set(hash, bytes);
+    return `memory://blobs/${hash}`;
+  }
+
   async saveSyncAttempt(attempt: SyncAttempt): Promise<void> {
     this.attempts = [attempt, ...this.attempts].slice(0, 200);
   }
@@ -1,9 +1,20 @@
 export * from './types';
 export * from './events';
+export * from './schemas';
+export * from './validation';
 export * from './migrations';
+export * from './conflicts';
+export * from './merge';
+export * from './blobs';
+export * from './transcripts';
+export * from './search';
+export * from './tags';
+export * from './links';
+export * from './changesets';
 export * from './projection';
 export * from './export';
 export * from './sync-engine';
+export * from './sync-scheduler';
 export * from './http-transport';
 export * from './disabled-transport';
 export * from './in-memory-adapter';
@@ -0,0 +1,89 @@
+import { type AtomLinks, type AtomRecord, type LinkRecord } from './types';
+
+/** `[[target]]` or `[[target|label]]`; the target may not contain brackets, pipes or newlines. */
+const WIKI_LINK = /\[\[([^[\]|\n]+)(?:\|[^[\]\n]*)?\]\]/g;
+
+function titleKey(value: string): string {
+  return value.trim().normalize('NFC').toLowerCase();
+}
+
+/** Distinct `[[…]]` targets in order of first use, skipping fenced and inline code. */
+export function parseWikiLinks(body: string): string[] {
+  const text = body.replace(/```[\s\S]*?(```|$)/g, ' ').replace(/`[^`\n]*`/g, ' ');
+  const targets: string[] = [];
+  const seen = new Set<string>();
+  for (const match of text.matchAll(WIKI_LINK)) {
+    const target = match[1].trim();
+    if (target && !seen.has(titleKey(target))) {
+      seen.add(titleKey(target));
+      targets.push(target);
+    }
+  }
+  return targets;
+}
+
+/** Unresolved link records for one atom: its wiki links, then its explicit links. */
+export function atomLinkRecords(atom: AtomRecord): LinkRecord[] {
+  if (atom.status === 'deleted') {
+    return [];
+  }
+  return [
+    ...parseWikiLinks(atom.body).map((target): LinkRecord => ({ sourceAtomId: atom.atomId, target, origin: 'wiki' })),
+    ...(atom.links ?? []).map((link): LinkRecord => ({
+      sourceAtomId: atom.atomId,
+      target: link.targetAtomId,
+      origin: 'explicit',
+      ...(link.relation ? { relation: link.relation } : {}),
+    })),
+  ];
+}
+
+/**
+ * Point each link at the atom it names. An atom id always wins, so links
+ * written as `[[atomId]]` survive renames; otherwise the oldest active atom
+ * with that title is the target. Explicit links only resolve by id.
+ */
+export function resolveLinks(records: LinkRecord[], atoms: AtomRecord[]): LinkRecord[] {
+  const byId = new Map<string, AtomRecord>();
+  const byTitle = new Map<string, AtomRecord>();
+  for (const atom of atoms) {
+    if (atom.status === 'deleted') {
+      continue;
+    }
+    byId.set(atom.atomId, atom);
+    const key = titleKey(atom.title);
+    const current = byTitle.get(key);
+    if (
+      atom.status === 'active'
+      && (!current || atom.createdAtMs < current.createdAtMs || (atom.createdAtMs === current.createdAtMs && atom.atomId < current.atomId))
+    ) {
+      byTitle.set(key, atom);
+    }
+  }
+
+  return records.map((record): LinkRecord => {
+    const target = byId.get(record.target) ?? (record.origin === 'wiki' ? byTitle.get(titleKey(record.target)) : undefined);
+    return {
+      sourceAtomId: record.sourceAtomId,
+      target: record.target,
+      origin: record.origin,
+      ...(record.relation ? { relation: record.relation } : {}),
+      ...(target ? { targetAtomId: target.atomId } : {}),
+    };
+  });
+}
+
+export function buildLinks(atoms: AtomRecord[]): LinkRecord[] {
+  return resolveLinks(atoms.flatMap(atomLinkRecords), atoms);
+}
+
+/** Outgoing links, backlinks and unresolved targets of one atom. */
+export function linksForAtom(links: LinkRecord[], atomId: string): AtomLinks {
+  const outgoing = links.filter((link) => link.sourceAtomId === atomId);
+  return {
+    atomId,
+    outgoing: outgoing.filter((link) => link.targetAtomId !== undefined),
+    backlinks: links.filter((link) => link.targetAtomId === atomId),
+    unresolved: outgoing.filter((link) => link.targetAtomId === undefined).map((link) => link.target),
+  };
+}
@@ -0,0 +1,358 @@
+import { type AtomVersion, type ConflictHunk } from './types';
+
+export interface TextMergeLabels {
+  ours?: string;
+  base?: string;
+  theirs?: string;
+}
+
+export interface TextMergeResult {
+  clean: boolean;
+  /** Merged text; overlapping hunks are rendered with conflict markers. */
+  body: string;
+  hunks: ConflictHunk[];
+}
+
+type MergeChunk =
+  | { kind: 'stable'; lines: string[] }
+  | { kind: 'conflict'; baseStartLine: number; base: string[]; ours: string[]; theirs: string[] };
+
+function splitLines(text: string): string[] {
+  return text.split('\n');
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/** Above this many cells the LCS table is too big and matchLines diffs in linear space instead. */
+const MAX_TABLE_CELLS = 1 << 22;
+
+interface Snake {
+  baseFrom: number;
+  otherFrom: number;
+  baseTo: number;
+  otherTo: number;
+}
+
+/**
+ * Myers' middle snake of base[baseStart..baseEnd) and other[otherStart..otherEnd):
+ * a run of matching lines in the middle of some shortest edit script, found
+ * by searching from both ends at once.
+ */
+function middleSnake(
+  base: string[],
+  baseStart: number,
+  baseEnd: number,
+  other: string[],
+  otherStart: number,
+  otherEnd: number,
+): Snake {
+  const n = baseEnd - baseStart;
+  const m = otherEnd - otherStart;
+  const delta = n - m;
+  const odd = delta % 2 !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // Furthest base offset reached on each diagonal, from the start and from the end.
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d += 1) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const fromX = x;
+      const fromY = y;
+      while (x < n && y < m && base[baseStart + x] === other[otherStart + y]) {
+        x += 1;
+        y += 1;
+      }
+      forward[offset + k] = x;
+      const c = delta - k;
+      if (odd && c >= -(d - 1) && c <= d - 1 && x + backward[offset + c] >= n) {
+        return { baseFrom: baseStart + fromX, otherFrom: otherStart + fromY, baseTo: baseStart + x, otherTo: otherStart + y };
+      }
+    }
+
+    for (let c = -d; c <= d; c += 2) {
+      let x = c === -d || (c !== d && backward[offset + c - 1] < backward[offset + c + 1])
+        ? backward[offset + c + 1]
+        : backward[offset + c - 1] + 1;
+      let y = x - c;
+      const fromX = x;
+      const fromY = y;
+      while (x < n && y < m && base[baseEnd - 1 - x] === other[otherEnd - 1 - y]) {
+        x += 1;
+        y += 1;
+      }
+      backward[offset + c] = x;
+      const k = delta - c;
+      if (!odd && k >= -d && k <= d && x + forward[offset + k] >= n) {
+        return { baseFrom: baseEnd - x, otherFrom: otherEnd - y, baseTo: baseEnd - fromX, otherTo: otherEnd - fromY };
+      }
+    }
+  }
+
+  throw new Error('Diff found no middle snake');
+}
+
+/**
+ * Match base[baseStart..baseEnd) against other[otherStart..otherEnd) along a
+ * shortest edit script, splitting at middle snakes so memory stays linear.
+ */
+function matchLinesLinear(
+  base: string[],
+  other: string[],
+  matches: number[],
+  baseStart: number,
+  baseEnd: number,
+  otherStart: number,
+  otherEnd: number,
+): void {
+  const ranges = [[baseStart, baseEnd, otherStart, otherEnd]];
+  for (let range = ranges.pop(); range; range = ranges.pop()) {
+    let [fromBase, toBase, fromOther, toOther] = range;
+    while (fromBase < toBase && fromOther < toOther && base[fromBase] === other[fromOther]) {
+      matches[fromBase] = fromOther;
+      fromBase += 1;
+      fromOther += 1;
+    }
+    while (fromBase < toBase && fromOther < toOther && base[toBase - 1] === other[toOther - 1]) {
+      toBase -= 1;
+      toOther -= 1;
+      matches[toBase] = toOther;
+    }
+    if (fromBase === toBase || fromOther === toOther) {
+      continue;
+    }
+
+    const snake = middleSnake(base, fromBase, toBase, other, fromOther, toOther);
+    for (let offset = 0; offset < snake.baseTo - snake.baseFrom; offset += 1) {
+      matches[snake.baseFrom + offset] = snake.otherFrom + offset;
+    }
+    ranges.push([fromBase, snake.baseFrom, fromOther, snake.otherFrom], [snake.baseTo, toBase, snake.otherTo, toOther]);
+  }
+}
+
+/**
+ * For every line of `base`, the index of the line it is matched to in `other`
+ * along a longest common subsequence, or -1 when it was removed or changed.
+ */
+function matchLines(base: string[], other: string[]): number[] {
+  const matches = new Array<number>(base.length).fill(-1);
+
+  let prefix = 0;
+  while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) {
+    matches[prefix] = prefix;
+    prefix += 1;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < other.length - prefix &&
+    base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+  ) {
+    matches[base.length - 1 - suffix] = other.length - 1 - suffix;
+    suffix += 1;
+  }
+
+  const rows = base.length - prefix - suffix;
+  const cols = other.length - prefix - suffix;
+  if (rows === 0 || cols === 0) {
+    return matches;
+  }
+  if (rows * cols > MAX_TABLE_CELLS) {
+    matchLinesLinear(base, other, matches, prefix, base.length - suffix, prefix, other.length - suffix);
+    return matches;
+  }
+
+  // lengths[i * (cols + 1) + j] = LCS length of base[prefix + i..] and other[prefix + j..]
+  const width = cols + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        base[prefix + i] === other[prefix + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (base[prefix + i] === other[prefix + j]) {
+      matches[prefix + i] = prefix + j;
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i += 1;
+    } else {
+      j += 1;
+    }
+  }
+
+  return matches;
+}
+
+function mergeChunks(base: string[], ours: string[], theirs: string[]): MergeChunk[] {
+  const oursMatches = matchLines(base, ours);
+  const theirsMatches = matchLines(base, theirs);
+  const chunks: MergeChunk[] = [];
+
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) {
+      return;
+    }
+    const last = chunks[chunks.length - 1];
+    if (last?.kind === 'stable') {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ kind: 'stable', lines: [...lines] });
+    }
+  };
+
+  let baseIndex = 0;
+  let oursIndex = 0;
+  let theirsIndex = 0;
+
+  while (baseIndex <= base.length) {
+    // Next base line kept by both sides, or the end of all three texts.
+    let syncIndex = baseIndex;
+    while (syncIndex < base.length && (oursMatches[syncIndex] === -1 || theirsMatches[syncIndex] === -1)) {
+      syncIndex += 1;
+    }
+
+    const oursEnd = syncIndex < base.length ? oursMatches[syncIndex] : ours.length;
+    const theirsEnd = syncIndex < base.length ? theirsMatches[syncIndex] : theirs.length;
+
+    const baseSlice = base.slice(baseIndex, syncIndex);
+    const oursSlice = ours.slice(oursIndex, oursEnd);
+    const theirsSlice = theirs.slice(theirsIndex, theirsEnd);
+
+    if (sameLines(oursSlice, baseSlice)) {
+      pushStable(theirsSlice);
+    } else if (sameLines(theirsSlice, baseSlice) || sameLines(oursSlice, theirsSlice)) {
+      pushStable(oursSlice);
+    } else {
+      chunks.push({
+        kind: 'conflict',
+        baseStartLine: baseIndex,
+        base: baseSlice,
+        ours: oursSlice,
+        theirs: theirsSlice,
+      });
+    }
+
+    if (syncIndex === base.length) {
+      break;
+    }
+
+    pushStable([base[syncIndex]]);
+    baseIndex = syncIndex + 1;
+    oursIndex = oursEnd + 1;
+    theirsIndex = theirsEnd + 1;
+  }
+
+  return chunks;
+}
+
+/**
+ * Three-way merge of two texts that both descend from `base`. Edits are compared
+ * line by line (a blank line separates paragraphs), so changes to different
+ * lines merge cleanly and only edits touching the same region of the ancestor
+ * are reported as conflicting hunks.
+ */
+export function mergeText(base: string, ours: string, theirs: string, labels: TextMergeLabels = {}): TextMergeResult {
+  const chunks = mergeChunks(splitLines(base), splitLines(ours), splitLines(theirs));
+  const lines: string[] = [];
+  const hunks: ConflictHunk[] = [];
+
+  for (const chunk of chunks) {
+    if (chunk.kind === 'stable') {
+      lines.push(...chunk.lines);
+      continue;
+    }
+
+    hunks.push({
+      baseStartLine: chunk.baseStartLine,
+      base: chunk.base.join('\n'),
+      ours: chunk.ours.join('\n'),
+      theirs: chunk.theirs.join('\n'),
+    });
+    lines.push(
+      `<<<<<<< ${labels.ours ?? 'ours'}`,
+      ...chunk.ours,
+      `||||||| ${labels.base ?? 'base'}`,
+      ...chunk.base,
+      '=======',
+      ...chunk.theirs,
+      `>>>>>>> ${labels.theirs ?? 'theirs'}`,
+    );
+  }
+
+  return {
+    clean: hunks.length === 0,
+    body: lines.join('\n'),
+    hunks,
+  };
+}
+
+function parentVersionIds(version: AtomVersion | undefined): string[] {
+  if (!version) {
+    return [];
+  }
+  if (version.mergedFromVersionIds) {
+    return version.mergedFromVersionIds;
+  }
+  return version.parentVersionId ? [version.parentVersionId] : [];
+}
+
+/**
+ * Nearest version that both heads descend from, following `parentVersionId`
+ * (and both parents of merged versions). Undefined when the histories never meet.
+ */
+export function findCommonAncestor(
+  versionsById: ReadonlyMap<string, AtomVersion>,
+  leftVersionId: string,
+  rightVersionId: string,
+): AtomVersion | undefined {
+  const leftAncestors = new Set<string>();
+  const pending = [leftVersionId];
+  while (pending.length > 0) {
+    const versionId = pending.pop() as string;
+    if (leftAncestors.has(versionId)) {
+      continue;
+    }
+    leftAncestors.add(versionId);
+    pending.push(...parentVersionIds(versionsById.get(versionId)));
+  }
+
+  const visited = new Set<string>();
+  let frontier = [rightVersionId];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const versionId of frontier) {
+      if (visited.has(versionId)) {
+        continue;
+      }
+      visited.add(versionId);
+      if (leftAncestors.has(versionId)) {
+        return versionsById.get(versionId);
+      }
+      next.push(...parentVersionIds(versionsById.get(versionId)));
+    }
+    frontier = next;
+  }
+
+  return undefined;
+}
+
+/** Deterministic id for an automatic merge, independent of which head arrived first. */
+export function mergedVersionId(versionIds: string[]): string {
+  return `merge:${[...versionIds].sort().join('+')}`;
+}
@@ -4,13 +4,23 @@ import {
   type Event,
   type EventType,
 } from './types';
+import { assertValidEventPayload } from './validation';
 
 function isEventType(value: unknown): value is EventType {
   return (
     value === 'capture.text.create' ||
     value === 'atom.text.update' ||
+    value === 'atom.delete' ||
+    value === 'atom.archive' ||
+    value === 'atom.restore' ||
+    value === 'atom.tags.set' ||
+    value === 'atom.link.add' ||
+    value === 'atom.link.remove' ||
+    value === 'conflict.resolve' ||
     value === 'blob.add' ||
-    value === 'changeset.suggest.create'
+    value === 'link.create' ||
+    value === 'changeset.suggest.create' ||
+    value === 'changeset.review'
   );
 }
 
@@ -80,6 +90,8 @@ export function migrateEvent(raw: unknown): Event {
     throw new Error('Invalid event payload: payload must be object');
   }
 
+  assertValidEventPayload(typeRaw, payload);
+
   return {
     eventId,
     eventSchemaVersion,
@@ -1,13 +1,25 @@
 import {
+  type AtomKind,
+  type AtomLifecycleStatus,
+  type AtomLinkAddPayload,
+  type AtomLinkTarget,
   type AtomRecord,
   type AtomVersion,
   type ConflictRecord,
+  type ConflictResolvePayload,
   type Event,
   type InboxItem,
+  type LinkCreatePayload,
+  type LinkRecord,
   type ProjectionSnapshot,
+  type ProvisionalMark,
   type StoredEvent,
   type SyncItemStatus,
 } from './types';
+import { applyResolutionToHeads, applyUpdateToHeads, conflictIdForAtom } from './conflicts';
+import { findCommonAncestor, mergeText, mergedVersionId } from './merge';
+import { atomLinkRecords, buildLinks, resolveLinks } from './links';
+import { atomTags, normalizeTags } from './tags';
 
 interface WorkingAtom {
   atomId: string;
@@ -19,9 +31,34 @@ interface WorkingAtom {
   headVersionIds: string[];
   needsResolution: boolean;
   blobHashes: Set<string>;
+  status: AtomLifecycleStatus;
+  archivedAtMs?: number;
+  deletedAtMs?: number;
+  kind?: AtomKind;
+  assignedTags: string[];
+  links: AtomLinkTarget[];
 }
 
-function localFallbackOrder(a: Event, b: Event): number {
+interface ProjectionState {
+  atoms: Map<string, WorkingAtom>;
+  atomVersions: AtomVersion[];
+  versionsById: Map<string, AtomVersion>;
+  conflicts: Map<string, ConflictRecord>;
+  referencedBlobs: Set<string>;
+  // Deletes can arrive before the capture they target (e.g. a pulled delete
+  // ordered ahead of a still-provisional capture), so remember them by atom id.
+  tombstones: Map<string, number>;
+}
+
+export interface ProjectionUpdate {
+  snapshot: ProjectionSnapshot;
+  /** Atoms whose records, versions, conflicts or inbox item may have changed. */
+  changedAtomIds: string[];
+}
+
+type FoldKey = Pick<Event, 'eventId' | 'localSeq' | 'createdAtMs'>;
+
+function localFallbackOrder(a: FoldKey, b: FoldKey): number {
   const aLocal = a.localSeq ?? Number.MAX_SAFE_INTEGER;
   const bLocal = b.localSeq ?? Number.MAX_SAFE_INTEGER;
   if (aLocal !== bLocal) {
@@ -33,10 +70,23 @@ function localFallbackOrder(a: Event, b: Event): number {
   return a.eventId.localeCompare(b.eventId);
 }
 
-function eventAtomId(event: Event): string | undefined {
-  const payload = event.payload as unknown as Record<string, unknown>;
-  const atomId = payload.atomId;
-  return typeof atomId === 'string' ? atomId : undefined;
+/** The atom an event belongs to, if any. */
+export function eventAtomId(event: Event): string | undefined {
+  // Changeset links belong to their source atom, like `atom.link.add`.
+  if (event.type === 'link.create') {
+    return (event.payload as LinkCreatePayload).sourceId;
+  }
+  const { atomId } = event.payload as { atomId?: string };
+  return atomId;
+}
+
+/** Accepted changeset links project like `atom.link.add` from their source atom. */
+function linkAddFromChangeset(payload: LinkCreatePayload): AtomLinkAddPayload {
+  return { atomId: payload.sourceId, targetAtomId: payload.targetId, relation: payload.relation };
+}
+
+function isAudioBlobEvent(event: Event): boolean {
+  return event.type === 'blob.add' && (event.payload as { contentType: string }).contentType.startsWith('audio/');
 }
 
 function previewText(value: string): string {
@@ -67,7 +117,11 @@ function foldStatus(current: SyncItemStatus, candidate: SyncItemStatus): SyncIte
   return current;
 }
 
-export function buildProjection(events: StoredEvent[]): ProjectionSnapshot {
+function tombstoneFields(deletedAtMs: number | undefined): Pick<WorkingAtom, 'status' | 'deletedAtMs'> {
+  return deletedAtMs === undefined ? { status: 'active' } : { status: 'deleted', deletedAtMs };
+}
+
+function orderEvents(events: StoredEvent[]): { canonical: StoredEvent[]; provisional: StoredEvent[] } {
   const canonical = events
     .filter((event) => typeof event.serverSeq === 'number')
     .sort((a, b) => (a.serverSeq as number) - (b.serverSeq as number));
@@ -76,26 +130,159 @@ export function buildProjection(events: StoredEvent[]): ProjectionSnapshot {
     .filter((event) => typeof event.serverSeq !== 'number')
     .sort(localFallbackOrder);
 
-  const ordered = [...canonical, ...provisional];
+  return { canonical, provisional };
+}
 
-  const atoms = new Map<string, WorkingAtom>();
-  const atomVersions: AtomVersion[] = [];
-  const conflicts = new Map<string, ConflictRecord>();
-  const eventStatuses = new Map<string, SyncItemStatus>();
-  const referencedBlobs = new Set<string>();
+/** The status a folded event is remembered with; the common ones are left out to keep the mark small. */
+function trackedStatus(event: StoredEvent): SyncItemStatus | undefined {
+  return event.syncStatus === 'saved_local' || event.syncStatus === 'synced' ? undefined : event.syncStatus;
+}
 
-  for (const event of ordered) {
-    eventStatuses.set(event.eventId, event.syncStatus);
+function foldIntoMark(mark: ProvisionalMark, event: StoredEvent): void {
+  mark.count += 1;
+  mark.last = { eventId: event.eventId, localSeq: event.localSeq, createdAtMs: event.createdAtMs };
+  const status = trackedStatus(event);
+  if (status !== undefined) {
+    mark.statuses[event.eventId] = status;
+  }
+}
+
+function provisionalMark(provisional: StoredEvent[]): ProvisionalMark {
+  const mark: ProvisionalMark = { count: 0, statuses: {} };
+  for (const event of provisional) {
+    foldIntoMark(mark, event);
+  }
+  return mark;
+}
+
+function createState(): ProjectionState {
+  return {
+    atoms: new Map(),
+    atomVersions: [],
+    versionsById: new Map(),
+    conflicts: new Map(),
+    referencedBlobs: new Set(),
+    tombstones: new Map(),
+  };
+}
 
-    if (event.type === 'capture.text.create') {
-      const payload = event.payload as { atomId: string; title?: string; body: string };
-      if (atoms.has(payload.atomId)) {
-        continue;
+/**
+ * Working state for the atoms an incremental update touches. Versions already
+ * in the snapshot are indexed for merges but not re-emitted.
+ */
+function stateFromSnapshot(
+  snapshot: ProjectionSnapshot,
+  atomIds: Set<string>,
+  appliedEvents: StoredEvent[],
+): ProjectionState {
+  const state = createState();
+
+  for (const atom of snapshot.atoms) {
+    if (!atomIds.has(atom.atomId)) {
+      continue;
+    }
+    state.atoms.set(atom.atomId, {
+      atomId: atom.atomId,
+      title: atom.title,
+      body: atom.body,
+      createdAtMs: atom.createdAtMs,
+      updatedAtMs: atom.updatedAtMs,
+      captureEventId: atom.captureEventId,
+      headVersionIds: [...atom.headVersionIds],
+      needsResolution: atom.needsResolution,
+      blobHashes: new Set(atom.blobHashes),
+      status: atom.status,
+      archivedAtMs: atom.archivedAtMs,
+      deletedAtMs: atom.deletedAtMs,
+      kind: atom.kind,
+      assignedTags: atom.assignedTags ?? [],
+      links: atom.links ?? [],
+    });
+    if (atom.deletedAtMs !== undefined) {
+      state.tombstones.set(atom.atomId, atom.deletedAtMs);
+    }
+  }
+
+  // Tombstones for atoms whose capture has not been applied yet only live in the log.
+  for (const event of appliedEvents) {
+    if (event.type === 'atom.delete') {
+      const atomId = (event.payload as { atomId: string }).atomId;
+      if (atomIds.has(atomId) && !state.tombstones.has(atomId)) {
+        state.tombstones.set(atomId, event.createdAtMs);
       }
+    }
+  }
+
+  for (const version of snapshot.atomVersions) {
+    if (atomIds.has(version.atomId)) {
+      state.versionsById.set(version.versionId, version);
+    }
+  }
+  for (const conflict of snapshot.conflicts) {
+    state.conflicts.set(conflict.conflictId, conflict);
+  }
+  for (const hash of snapshot.referencedBlobs) {
+    state.referencedBlobs.add(hash);
+  }
+
+  return state;
+}
+
+function addVersion(state: ProjectionState, version: AtomVersion): void {
+  if (!state.versionsById.has(version.versionId)) {
+    state.versionsById.set(version.versionId, version);
+    state.atomVersions.push(version);
+  }
+}
+
+function applyEvent(state: ProjectionState, event: StoredEvent): void {
+  const { atoms, conflicts, referencedBlobs, tombstones, versionsById } = state;
+
+  if (event.type === 'capture.text.create') {
+    const payload = event.payload as { atomId: string; title?: string; body: string; kind?: AtomKind };
+    if (atoms.has(payload.atomId)) {
+      return;
+    }
 
+    atoms.set(payload.atomId, {
+      atomId: payload.atomId,
+      title: payload.title?.trim() || payload.body.trim().split('\n')[0] || 'Untitled',
+      body: payload.body,
+      createdAtMs: event.createdAtMs,
+      updatedAtMs: event.createdAtMs,
+      captureEventId: event.eventId,
+      headVersionIds: [event.eventId],
+      needsResolution: false,
+      blobHashes: new Set<string>(),
+      ...tombstoneFields(tombstones.get(payload.atomId)),
+      ...(payload.kind && payload.kind !== 'note' ? { kind: payload.kind } : {}),
+      assignedTags: [],
+      links: [],
+    });
+
+    addVersion(state, {
+      atomId: payload.atomId,
+      versionId: event.eventId,
+      eventId: event.eventId,
+      body: payload.body,
+      createdAtMs: event.createdAtMs,
+      serverSeq: event.serverSeq,
+      localSeq: event.localSeq,
+    });
+    return;
+  }
+
+  if (event.type === 'atom.text.update') {
+    const payload = event.payload as { atomId: string; body: string; baseVersionId?: string };
+    const atom = atoms.get(payload.atomId);
+    if (atom?.status === 'deleted' || (!atom && tombstones.has(payload.atomId))) {
+      return;
+    }
+
+    if (!atom) {
       atoms.set(payload.atomId, {
         atomId: payload.atomId,
-        title: payload.title?.trim() || payload.body.trim().split('\n')[0] || 'Untitled',
+        title: payload.body.trim().split('\n')[0] || 'Untitled',
         body: payload.body,
         createdAtMs: event.createdAtMs,
         updatedAtMs: event.createdAtMs,
@@ -103,134 +290,292 @@ export function buildProjection(events: StoredEvent[]): ProjectionSnapshot {
         headVersionIds: [event.eventId],
         needsResolution: false,
         blobHashes: new Set<string>(),
+        status: 'active',
+        assignedTags: [],
+        links: [],
       });
-
-      atomVersions.push({
-        atomId: payload.atomId,
-        versionId: event.eventId,
-        eventId: event.eventId,
-        body: payload.body,
-        createdAtMs: event.createdAtMs,
-        serverSeq: event.serverSeq,
-        localSeq: event.localSeq,
-      });
-      continue;
     }
 
-    if (event.type === 'atom.text.update') {
-      const payload = event.payload as { atomId: string; body: string; baseVersionId?: string };
-      const atom = atoms.get(payload.atomId);
-      if (!atom) {
-        atoms.set(payload.atomId, {
-          atomId: payload.atomId,
-          title: payload.body.trim().split('\n')[0] || 'Untitled',
-          body: payload.body,
-          createdAtMs: event.createdAtMs,
-          updatedAtMs: event.createdAtMs,
-          captureEventId: event.eventId,
-          headVersionIds: [event.eventId],
-          needsResolution: false,
-          blobHashes: new Set<string>(),
-        });
-      }
-
-      const working = atoms.get(payload.atomId) as WorkingAtom;
+    const working = atoms.get(payload.atomId) as WorkingAtom;
+
+    addVersion(state, {
+      atomId: payload.atomId,
+      versionId: event.eventId,
+      eventId: event.eventId,
+      parentVersionId: payload.baseVersionId,
+      body: payload.body,
+      createdAtMs: event.createdAtMs,
+      serverSeq: event.serverSeq,
+      localSeq: event.localSeq,
+    });
 
-      const conflictDetected =
-        payload.baseVersionId !== undefined &&
-        working.headVersionIds.length > 0 &&
-        !working.headVersionIds.includes(payload.baseVersionId);
+    const heads = applyUpdateToHeads(working.headVersionIds, event.eventId, payload.baseVersionId);
+    working.headVersionIds = heads.headVersionIds;
+    working.needsResolution = heads.conflicted;
+    working.body = payload.body;
+    working.updatedAtMs = event.createdAtMs;
+    working.title = working.title || payload.body.trim().split('\n')[0] || 'Untitled';
 
-      if (conflictDetected) {
-        const versionIds = Array.from(new Set([...working.headVersionIds, event.eventId]));
-        working.headVersionIds = versionIds;
-        working.needsResolution = true;
+    if (!heads.conflicted) {
+      return;
+    }
 
-        const conflictId = `conflict:${payload.atomId}`;
-        conflicts.set(conflictId, {
-          conflictId,
+    const conflictId = conflictIdForAtom(payload.atomId);
+    const existing = conflicts.get(conflictId);
+    const conflict: ConflictRecord = {
+      conflictId,
+      atomId: payload.atomId,
+      versionIds: heads.headVersionIds,
+      reason: 'concurrent_update',
+      status: 'open',
+      createdAtMs: existing?.status === 'open' ? existing.createdAtMs : event.createdAtMs,
+      updatedAtMs: event.createdAtMs,
+    };
+
+    if (heads.headVersionIds.length === 2) {
+      // Sorted so every client merges the same way regardless of arrival order.
+      const [oursId, theirsId] = [...heads.headVersionIds].sort();
+      const ancestor = findCommonAncestor(versionsById, oursId, theirsId);
+      const merge = mergeText(
+        ancestor?.body ?? '',
+        versionsById.get(oursId)?.body ?? '',
+        versionsById.get(theirsId)?.body ?? '',
+        { ours: oursId, base: ancestor?.versionId, theirs: theirsId },
+      );
+
+      if (merge.clean) {
+        const versionId = mergedVersionId([oursId, theirsId]);
+        addVersion(state, {
           atomId: payload.atomId,
-          versionIds,
-          reason: 'concurrent_update',
-          status: 'open',
+          versionId,
+          eventId: event.eventId,
+          parentVersionId: oursId,
+          mergedFromVersionIds: [oursId, theirsId],
+          body: merge.body,
           createdAtMs: event.createdAtMs,
-          updatedAtMs: event.createdAtMs,
+          serverSeq: event.serverSeq,
+          localSeq: event.localSeq,
         });
-      } else {
-        working.headVersionIds = [event.eventId];
+
+        working.headVersionIds = [versionId];
+        working.needsResolution = false;
+        working.body = merge.body;
+
+        if (existing?.status === 'open') {
+          conflicts.set(conflictId, {
+            ...existing,
+            status: 'resolved',
+            updatedAtMs: event.createdAtMs,
+            resolvedAtMs: event.createdAtMs,
+            resolutionEventId: event.eventId,
+            resolvedVersionId: versionId,
+          });
+        }
+        return;
       }
 
-      working.body = payload.body;
-      working.updatedAtMs = event.createdAtMs;
-      working.title = working.title || payload.body.trim().split('\n')[0] || 'Untitled';
+      conflict.baseVersionId = ancestor?.versionId;
+      conflict.hunks = merge.hunks;
+      conflict.markedBody = merge.body;
+    }
+
+    conflicts.set(conflictId, conflict);
+    return;
+  }
 
-      atomVersions.push({
+  if (event.type === 'conflict.resolve') {
+    const payload = event.payload as ConflictResolvePayload;
+    const working = atoms.get(payload.atomId);
+    if (!working || working.status === 'deleted') {
+      return;
+    }
+
+    const resolution = applyResolutionToHeads(working.headVersionIds, payload, event.eventId);
+    if (typeof payload.mergedBody === 'string') {
+      addVersion(state, {
         atomId: payload.atomId,
         versionId: event.eventId,
         eventId: event.eventId,
-        parentVersionId: payload.baseVersionId,
-        body: payload.body,
+        parentVersionId: payload.winningVersionId ?? payload.versionIds[0],
+        mergedFromVersionIds: payload.versionIds,
+        body: payload.mergedBody,
         createdAtMs: event.createdAtMs,
         serverSeq: event.serverSeq,
         localSeq: event.localSeq,
       });
-      continue;
     }
 
-    if (event.type === 'blob.add') {
-      const payload = event.payload as { atomId?: string; hash: string };
-      referencedBlobs.add(payload.hash);
-      if (payload.atomId && atoms.has(payload.atomId)) {
-        (atoms.get(payload.atomId) as WorkingAtom).blobHashes.add(payload.hash);
-      }
+    const resultVersion = versionsById.get(resolution.resultVersionId);
+    if (!resultVersion) {
+      return;
+    }
+
+    working.headVersionIds = resolution.headVersionIds;
+    working.needsResolution = !resolution.resolved;
+    working.body = resultVersion.body;
+    working.updatedAtMs = event.createdAtMs;
+
+    const conflict = conflicts.get(payload.conflictId);
+    if (conflict) {
+      conflicts.set(payload.conflictId, resolution.resolved
+        ? {
+            ...conflict,
+            status: 'resolved',
+            updatedAtMs: event.createdAtMs,
+            resolvedAtMs: event.createdAtMs,
+            resolutionEventId: event.eventId,
+            resolvedVersionId: resolution.resultVersionId,
+          }
+        : {
+            ...conflict,
+            versionIds: resolution.headVersionIds,
+            updatedAtMs: event.createdAtMs,
+          });
     }
+    return;
   }
 
-  const inbox: InboxItem[] = [];
+  if (event.type === 'atom.delete') {
+    const payload = event.payload as { atomId: string };
+    if (!tombstones.has(payload.atomId)) {
+      tombstones.set(payload.atomId, event.createdAtMs);
+    }
 
-  for (const atom of atoms.values()) {
-    const relatedEvents = ordered.filter((event) => eventAtomId(event) === atom.atomId);
+    const working = atoms.get(payload.atomId);
+    if (working && working.status !== 'deleted') {
+      working.status = 'deleted';
+      working.deletedAtMs = event.createdAtMs;
+      working.updatedAtMs = event.createdAtMs;
+    }
+    return;
+  }
 
-    let status: SyncItemStatus = 'synced';
-    for (const event of relatedEvents) {
-      const eventStatus = eventStatuses.get(event.eventId) || (event.serverSeq ? 'synced' : 'waiting_sync');
-      status = foldStatus(status, eventStatus);
-      if (!event.serverSeq && status === 'synced') {
-        status = 'waiting_sync';
-      }
+  if (event.type === 'atom.archive') {
+    const payload = event.payload as { atomId: string };
+    const working = atoms.get(payload.atomId);
+    if (working && working.status === 'active') {
+      working.status = 'archived';
+      working.archivedAtMs = event.createdAtMs;
+      working.updatedAtMs = event.createdAtMs;
     }
+    return;
+  }
 
-    inbox.push({
-      id: `atom:${atom.atomId}`,
-      atomId: atom.atomId,
-      title: atom.title,
-      preview: previewText(atom.body),
-      createdAtMs: atom.createdAtMs,
-      updatedAtMs: atom.updatedAtMs,
-      sourceEventId: atom.captureEventId,
-      syncStatus: status,
-      needsResolution: atom.needsResolution,
-      serverSeq: relatedEvents.reduce<number | undefined>((max, event) => {
-        if (typeof event.serverSeq !== 'number') {
-          return max;
-        }
-        return typeof max === 'number' ? Math.max(max, event.serverSeq) : event.serverSeq;
-      }, undefined),
-    });
+  if (event.type === 'atom.restore') {
+    // Restore only undoes an archive; a delete is a tombstone and stays final.
+    const payload = event.payload as { atomId: string };
+    const working = atoms.get(payload.atomId);
+    if (working && working.status === 'archived') {
+      working.status = 'active';
+      working.archivedAtMs = undefined;
+      working.updatedAtMs = event.createdAtMs;
+    }
+    return;
+  }
 
-    for (const hash of atom.blobHashes) {
-      referencedBlobs.add(hash);
+  if (event.type === 'atom.tags.set') {
+    const payload = event.payload as { atomId: string; tags: string[] };
+    const working = atoms.get(payload.atomId);
+    if (working && working.status !== 'deleted') {
+      working.assignedTags = normalizeTags(payload.tags);
+      working.updatedAtMs = event.createdAtMs;
     }
+    return;
   }
 
-  inbox.sort((a, b) => {
-    if (a.createdAtMs !== b.createdAtMs) {
-      return b.createdAtMs - a.createdAtMs;
+  if (event.type === 'atom.link.add' || event.type === 'link.create') {
+    const payload = event.type === 'link.create'
+      ? linkAddFromChangeset(event.payload as LinkCreatePayload)
+      : (event.payload as AtomLinkAddPayload);
+    const working = atoms.get(payload.atomId);
+    if (working && working.status !== 'deleted') {
+      working.links = [
+        ...working.links.filter((link) => link.targetAtomId !== payload.targetAtomId),
+        { targetAtomId: payload.targetAtomId, ...(payload.relation ? { relation: payload.relation } : {}) },
+      ];
+      working.updatedAtMs = event.createdAtMs;
     }
-    return a.id.localeCompare(b.id);
-  });
+    return;
+  }
+
+  if (event.type === 'atom.link.remove') {
+    const payload = event.payload as { atomId: string; targetAtomId: string };
+    const working = atoms.get(payload.atomId);
+    if (working && working.status !== 'deleted') {
+      working.links = working.links.filter((link) => link.targetAtomId !== payload.targetAtomId);
+      working.updatedAtMs = event.createdAtMs;
+    }
+    return;
+  }
+
+  if (event.type === 'blob.add') {
+    const payload = event.payload as { atomId?: string; hash: string };
+    referencedBlobs.add(payload.hash);
+    if (payload.atomId && atoms.has(payload.atomId)) {
+      (atoms.get(payload.atomId) as WorkingAtom).blobHashes.add(payload.hash);
+    }
+  }
+}
+
+function inboxItemFor(atom: WorkingAtom | AtomRecord, relatedEvents: StoredEvent[]): InboxItem {
+  const tags = atomTags(atom);
+  let status: SyncItemStatus = 'synced';
+  for (const event of relatedEvents) {
+    const eventStatus = event.syncStatus || (event.serverSeq ? 'synced' : 'waiting_sync');
+    status = foldStatus(status, eventStatus);
+    if (!event.serverSeq && status === 'synced') {
+      status = 'waiting_sync';
+    }
+  }
+
+  return {
+    id: `atom:${atom.atomId}`,
+    atomId: atom.atomId,
+    title: atom.title,
+    preview: previewText(atom.body),
+    createdAtMs: atom.createdAtMs,
+    updatedAtMs: atom.updatedAtMs,
+    sourceEventId: atom.captureEventId,
+    syncStatus: status,
+    needsResolution: atom.needsResolution,
+    ...(relatedEvents.some(isAudioBlobEvent) ? { hasAudio: true } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    serverSeq: relatedEvents.reduce<number | undefined>((max, event) => {
+      if (typeof event.serverSeq !== 'number') {
+        return max;
+      }
+      return typeof max === 'number' ? Math.max(max, event.serverSeq) : event.serverSeq;
+    }, undefined),
+  };
+}
+
+function compareInboxItems(a: InboxItem, b: InboxItem): number {
+  if (a.createdAtMs !== b.createdAtMs) {
+    return b.createdAtMs - a.createdAtMs;
+  }
+  return a.id.localeCompare(b.id);
+}
+
+function groupEventsByAtom(ordered: StoredEvent[], atomIds?: Set<string>): Map<string, StoredEvent[]> {
+  const grouped = new Map<string, StoredEvent[]>();
+  for (const event of ordered) {
+    const atomId = eventAtomId(event);
+    if (atomId === undefined || (atomIds && !atomIds.has(atomId))) {
+      continue;
+    }
+    const group = grouped.get(atomId);
+    if (group) {
+      group.push(event);
+    } else {
+      grouped.set(atomId, [event]);
+    }
+  }
+  return grouped;
+}
 
-  const atomRecords: AtomRecord[] = Array.from(atoms.values()).map((atom) => ({
+function toAtomRecord(atom: WorkingAtom): AtomRecord {
+  const tags = atomTags(atom);
+  return {
     atomId: atom.atomId,
     title: atom.title,
     body: atom.body,
@@ -240,17 +585,231 @@ export function buildProjection(events: StoredEvent[]): ProjectionSnapshot {
     headVersionIds: atom.headVersionIds,
     needsResolution: atom.needsResolution,
     blobHashes: Array.from(atom.blobHashes),
-  }));
+    status: atom.status,
+    ...(atom.archivedAtMs !== undefined ? { archivedAtMs: atom.archivedAtMs } : {}),
+    ...(atom.deletedAtMs !== undefined ? { deletedAtMs: atom.deletedAtMs } : {}),
+    ...(atom.kind ? { kind: atom.kind } : {}),
+    ...(atom.assignedTags.length > 0 ? { assignedTags: atom.assignedTags } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(atom.links.length > 0 ? { links: atom.links } : {}),
+  };
+}
 
-  const lastAppliedSeq = canonical.length > 0 ? (canonical[canonical.length - 1].serverSeq as number) : 0;
+/**
+ * Links for `atoms`, re-parsing only `changedAtomIds` when earlier records
+ * exist. Resolution always runs over all records, since a new or archived
+ * atom can change where other atoms' title links point.
+ */
+function projectLinks(atoms: AtomRecord[], previous?: LinkRecord[], changedAtomIds?: Set<string>): LinkRecord[] {
+  if (!previous || !changedAtomIds) {
+    return buildLinks(atoms);
+  }
+
+  const previousBySource = new Map<string, LinkRecord[]>();
+  for (const record of previous) {
+    const group = previousBySource.get(record.sourceAtomId);
+    if (group) {
+      group.push(record);
+    } else {
+      previousBySource.set(record.sourceAtomId, [record]);
+    }
+  }
+
+  const records = atoms.flatMap((atom) => changedAtomIds.has(atom.atomId)
+    ? atomLinkRecords(atom)
+    : previousBySource.get(atom.atomId) ?? []);
+  return resolveLinks(records, atoms);
+}
+
+export function buildProjection(events: StoredEvent[]): ProjectionSnapshot {
+  const { canonical, provisional } = orderEvents(events);
+  const ordered = [...canonical, ...provisional];
+  const state = createState();
+
+  for (const event of ordered) {
+    applyEvent(state, event);
+  }
+
+  const eventsByAtom = groupEventsByAtom(ordered);
+  const inbox: InboxItem[] = [];
+
+  for (const atom of state.atoms.values()) {
+    for (const hash of atom.blobHashes) {
+      state.referencedBlobs.add(hash);
+    }
+    if (atom.status === 'active') {
+      inbox.push(inboxItemFor(atom, eventsByAtom.get(atom.atomId) ?? []));
+    }
+  }
+
+  const atoms = Array.from(state.atoms.values()).map(toAtomRecord);
 
   return {
     generatedAtMs: Date.now(),
-    lastAppliedSeq,
-    atoms: atomRecords,
-    atomVersions,
-    conflicts: Array.from(conflicts.values()),
-    inbox,
-    referencedBlobs: Array.from(referencedBlobs).sort(),
+    lastAppliedSeq: canonical.length > 0 ? (canonical[canonical.length - 1].serverSeq as number) : 0,
+    provisional: provisionalMark(provisional),
+    atoms,
+    atomVersions: state.atomVersions,
+    conflicts: Array.from(state.conflicts.values()),
+    inbox: inbox.sort(compareInboxItems),
+    links: projectLinks(atoms),
+    referencedBlobs: Array.from(state.referencedBlobs).sort(),
+  };
+}
+
+/**
+ * Apply the events that are not yet folded into `snapshot` on top of it.
+ * The snapshot covers every canonical event up to `lastAppliedSeq` followed by
+ * the first `provisional.count` provisional events; as long as those still
+ * lead the event order, only the remaining events are reduced. `events` must
+ * hold every event past `lastAppliedSeq` and every provisional one, plus the
+ * earlier events of the atoms those belong to; the rest of the log may be left
+ * out. Returns null when canonical order changed underneath applied
+ * provisional events and a full `buildProjection` is required.
+ */
+export function updateProjection(snapshot: ProjectionSnapshot, events: StoredEvent[]): ProjectionUpdate | null {
+  const mark = snapshot.provisional;
+  if (!mark) {
+    return null;
+  }
+
+  const applied: StoredEvent[] = [];
+  const unapplied: StoredEvent[] = [];
+  for (const event of events) {
+    if (typeof event.serverSeq === 'number' && event.serverSeq <= snapshot.lastAppliedSeq) {
+      applied.push(event);
+    } else {
+      unapplied.push(event);
+    }
+  }
+
+  const { canonical, provisional } = orderEvents(unapplied);
+  const tail = [...canonical, ...provisional];
+  const folded = tail.slice(0, mark.count);
+  const pending = tail.slice(mark.count);
+  // Folded events sort up to `mark.last`; they must still lead the tail in the
+  // order they were applied, and nothing new may sort among them.
+  const wasFolded = (event: StoredEvent) => mark.last !== undefined && localFallbackOrder(event, mark.last) <= 0;
+  if (folded.length !== mark.count || pending.some(wasFolded)) {
+    return null;
+  }
+
+  const settled = new Map<string, StoredEvent>();
+  for (const [index, event] of folded.entries()) {
+    if (!wasFolded(event) || (index > 0 && localFallbackOrder(folded[index - 1], event) > 0)) {
+      return null;
+    }
+    // Previously provisional events may since have been pushed or accepted,
+    // changing their sync status and sequence but not the fold order.
+    if (typeof event.serverSeq === 'number' || trackedStatus(event) !== mark.statuses[event.eventId]) {
+      settled.set(event.eventId, event);
+    }
+    applied.push(event);
+  }
+
+  const lastCanonical = canonical[canonical.length - 1];
+  return foldPending(snapshot, applied, pending, settled, {
+    lastAppliedSeq: lastCanonical ? (lastCanonical.serverSeq as number) : snapshot.lastAppliedSeq,
+    provisional: provisionalMark(provisional),
+  });
+}
+
+/**
+ * Fold one newly appended local event into a `snapshot` that is up to date
+ * with the rest of the log, without listing the other provisional events.
+ * `atomEvents` are the stored events of the event's atom. Returns null when
+ * the event does not sort after every folded one and `updateProjection` is
+ * needed instead.
+ */
+export function appendToProjection(
+  snapshot: ProjectionSnapshot,
+  event: StoredEvent,
+  atomEvents: StoredEvent[],
+): ProjectionUpdate | null {
+  const mark = snapshot.provisional;
+  if (!mark || typeof event.serverSeq === 'number' || (mark.last && localFallbackOrder(mark.last, event) >= 0)) {
+    return null;
+  }
+
+  const provisional: ProvisionalMark = { ...mark, statuses: { ...mark.statuses } };
+  foldIntoMark(provisional, event);
+  const applied = atomEvents.filter((candidate) => candidate.eventId !== event.eventId);
+  return foldPending(snapshot, applied, [event], new Map(), { lastAppliedSeq: snapshot.lastAppliedSeq, provisional });
+}
+
+/**
+ * Reduce `pending` on top of `snapshot`, re-deriving the atoms they touch and
+ * those of `settled` events whose sequence or status changed since folding.
+ */
+function foldPending(
+  snapshot: ProjectionSnapshot,
+  applied: StoredEvent[],
+  pending: StoredEvent[],
+  settled: Map<string, StoredEvent>,
+  next: Pick<ProjectionSnapshot, 'lastAppliedSeq' | 'provisional'>,
+): ProjectionUpdate {
+  const foldedAtomIds = new Set<string>();
+  for (const event of pending) {
+    const atomId = eventAtomId(event);
+    if (atomId !== undefined) {
+      foldedAtomIds.add(atomId);
+    }
+  }
+
+  const state = stateFromSnapshot(snapshot, foldedAtomIds, applied);
+  for (const event of pending) {
+    applyEvent(state, event);
+  }
+
+  const changedAtomIds = new Set(foldedAtomIds);
+  for (const event of settled.values()) {
+    const atomId = eventAtomId(event);
+    if (atomId !== undefined) {
+      changedAtomIds.add(atomId);
+    }
+  }
+
+  const atoms = snapshot.atoms.map((atom) => {
+    const working = state.atoms.get(atom.atomId);
+    return working ? toAtomRecord(working) : atom;
+  });
+  const knownAtomIds = new Set(snapshot.atoms.map((atom) => atom.atomId));
+  for (const working of state.atoms.values()) {
+    if (!knownAtomIds.has(working.atomId)) {
+      atoms.push(toAtomRecord(working));
+    }
+    for (const hash of working.blobHashes) {
+      state.referencedBlobs.add(hash);
+    }
+  }
+
+  const atomVersions = snapshot.atomVersions.map((version) => {
+    const event = settled.get(version.eventId);
+    return event && event.serverSeq !== version.serverSeq ? { ...version, serverSeq: event.serverSeq } : version;
+  });
+  atomVersions.push(...state.atomVersions);
+
+  const atomsById = new Map(atoms.map((atom) => [atom.atomId, atom]));
+  const eventsByAtom = groupEventsByAtom([...applied, ...pending], changedAtomIds);
+  const inbox = snapshot.inbox.filter((item) => !changedAtomIds.has(item.atomId));
+  for (const atomId of changedAtomIds) {
+    const atom = atomsById.get(atomId);
+    if (atom?.status === 'active') {
+      inbox.push(inboxItemFor(atom, eventsByAtom.get(atomId) ?? []));
+    }
+  }
+
+  return {
+    snapshot: {
+      generatedAtMs: Date.now(),
+      ...next,
+      atoms,
+      atomVersions,
+      conflicts: Array.from(state.conflicts.values()),
+      inbox: inbox.sort(compareInboxItems),
+      links: projectLinks(atoms, snapshot.links, changedAtomIds),
+      referencedBlobs: Array.from(state.referencedBlobs).sort(),
+    },
+    changedAtomIds: Array.from(changedAtomIds),
   };
 }
@@ -0,0 +1,355 @@
+import { type EventType, type JsonSchema } from './types';
+
+/**
+ * Copy of `schemas/changeset-0.1.schema.json`; a test keeps the two identical
+ * so the published schema is the one enforced at runtime.
+ */
+export const CHANGESET_SCHEMA: JsonSchema = {
+  '$schema': 'https://json-schema.org/draft/2020-12/schema',
+  '$id': 'https://world-seed.local/schemas/changeset-0.1.schema.json',
+  title: 'World-Seed ChangeSet',
+  type: 'object',
+  additionalProperties: false,
+  required: ['schemaVersion', 'id', 'createdAt', 'provider', 'input', 'summary', 'changes'],
+  properties: {
+    schemaVersion: { type: 'string', const: '0.1' },
+    id: { type: 'string', minLength: 8 },
+    createdAt: { type: 'string', format: 'date-time' },
+    provider: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['mode', 'name', 'model'],
+      properties: {
+        mode: { type: 'string', enum: ['online', 'local'] },
+        name: { type: 'string', minLength: 1, description: 'e.g., openai, gemini, lmstudio' },
+        model: { type: 'string', minLength: 1 },
+        baseUrl: { type: 'string', minLength: 1 },
+        thinking: {
+          type: 'string',
+          enum: ['minimal', 'low', 'medium', 'high'],
+          description: 'Optional thinking level/budget if supported',
+        },
+        metadata: { type: 'object' },
+      },
+    },
+    input: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['noteIds'],
+      properties: {
+        noteIds: { type: 'array', minItems: 1, items: { type: 'string' } },
+        instruction: { type: 'string' },
+        scope: { type: 'string', description: 'e.g., world-economy, politics, law-system' },
+      },
+    },
+    summary: { type: 'string', minLength: 1 },
+    changes: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['adds', 'edits', 'links', 'merges', 'conflicts'],
+      properties: {
+        adds: { type: 'array', items: { '$ref': '#/$defs/Add' } },
+        edits: { type: 'array', items: { '$ref': '#/$defs/Edit' } },
+        links: { type: 'array', items: { '$ref': '#/$defs/Link' } },
+        merges: { type: 'array', items: { '$ref': '#/$defs/Merge' } },
+        conflicts: { type: 'array', items: { '$ref': '#/$defs/Conflict' } },
+      },
+    },
+  },
+  '$defs': {
+    Evidence: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['noteIds'],
+      properties: {
+        noteIds: { type: 'array', minItems: 1, items: { type: 'string' } },
+        excerpts: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    Add: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['id', 'kind', 'title', 'content', 'evidence', 'confidence'],
+      properties: {
+        id: { type: 'string' },
+        kind: { type: 'string', enum: ['note', 'structure', 'concept'] },
+        title: { type: 'string' },
+        content: { type: 'string' },
+        pathHint: {
+          type: 'string',
+          description: 'Suggested vault path, e.g., structures/economy.md',
+        },
+        evidence: { '$ref': '#/$defs/Evidence' },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+      },
+    },
+    Edit: {
+      type: 'object',
+      additionalProperties: false,
+      required: [
+        'targetId',
+        'targetKind',
+        'patchFormat',
+        'patch',
+        'rationale',
+        'evidence',
+        'confidence',
+      ],
+      properties: {
+        targetId: { type: 'string' },
+        targetKind: { type: 'string', enum: ['structure', 'concept', 'note'] },
+        patchFormat: { type: 'string', enum: ['unified', 'json-patch', 'replace-section'] },
+        patch: {
+          type: ['string', 'array', 'object'],
+          description: 'Patch payload, format depends on patchFormat',
+        },
+        rationale: { type: 'string' },
+        evidence: { '$ref': '#/$defs/Evidence' },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+      },
+    },
+    Link: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['sourceId', 'targetId', 'relation', 'confidence', 'evidence'],
+      properties: {
+        sourceId: { type: 'string' },
+        targetId: { type: 'string' },
+        relation: {
+          type: 'string',
+          enum: [
+            'supports',
+            'contradicts',
+            'derives',
+            'part_of',
+            'similar_to',
+            'causes',
+            'regulated_by',
+            'defines',
+          ],
+        },
+        note: { type: 'string' },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        evidence: { '$ref': '#/$defs/Evidence' },
+      },
+    },
+    Merge: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['mergeId', 'strategy', 'fromIds', 'into', 'rationale', 'evidence', 'confidence'],
+      properties: {
+        mergeId: { type: 'string' },
+        strategy: { type: 'string', enum: ['create-new', 'merge-into-existing'] },
+        fromIds: { type: 'array', minItems: 2, items: { type: 'string' } },
+        into: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['kind'],
+          properties: {
+            kind: { type: 'string', enum: ['structure', 'concept'] },
+            id: { type: 'string' },
+            title: { type: 'string' },
+            content: { type: 'string' },
+          },
+        },
+        rationale: { type: 'string' },
+        evidence: { '$ref': '#/$defs/Evidence' },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+      },
+    },
+    Conflict: {
+      type: 'object',
+      additionalProperties: false,
+      required: [
+        'conflictId',
+        'type',
+        'items',
+        'explanation',
+        'resolutionOptions',
+        'evidence',
+        'confidence',
+      ],
+      properties: {
+        conflictId: { type: 'string' },
+        type: { type: 'string', enum: ['contradiction', 'duplication', 'ambiguity'] },
+        items: {
+          type: 'array',
+          minItems: 2,
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['refType', 'refId'],
+            properties: {
+              refType: { type: 'string', enum: ['note', 'concept', 'structure'] },
+              refId: { type: 'string' },
+              excerpt: { type: 'string' },
+              claim: { type: 'string' },
+            },
+          },
+        },
+        explanation: { type: 'string' },
+        resolutionOptions: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['optionId', 'title'],
+            properties: {
+              optionId: { type: 'string' },
+              title: { type: 'string' },
+              proposal: { type: 'string' },
+              pros: { type: 'array', items: { type: 'string' } },
+              cons: { type: 'array', items: { type: 'string' } },
+            },
+          },
+        },
+        evidence: { '$ref': '#/$defs/Evidence' },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+      },
+    },
+  },
+};
+
+const ID: JsonSchema = { type: 'string', minLength: 1 };
+const STRING: JsonSchema = { type: 'string' };
+const STRINGS: JsonSchema = { type: 'array', items: STRING };
+const COUNT: JsonSchema = { type: 'integer', minimum: 0 };
+const SCHEMA_VERSION: JsonSchema = { type: 'integer', minimum: 1 };
+
+export const EXPORT_MANIFEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: [
+    'schemaVersion',
+    'createdAtMs',
+    'workspaceId',
+    'eventSchemaVersion',
+    'minSupportedEventSchemaVersion',
+    'counts',
+    'referencedBlobs',
+  ],
+  properties: {
+    schemaVersion: { type: 'string', const: '0.2' },
+    createdAtMs: COUNT,
+    workspaceId: ID,
+    eventSchemaVersion: SCHEMA_VERSION,
+    minSupportedEventSchemaVersion: SCHEMA_VERSION,
+    counts: {
+      type: 'object',
+      required: ['atoms', 'events', 'blobs', 'conflicts'],
+      properties: { atoms: COUNT, events: COUNT, blobs: COUNT, conflicts: COUNT },
+    },
+    referencedBlobs: STRINGS,
+    missingBlobs: STRINGS,
+  },
+};
+
+/** Bundle structure only; each event is checked on its own with `migrateEvent`. */
+export const IMPORT_BUNDLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['manifest', 'events'],
+  properties: {
+    manifest: EXPORT_MANIFEST_SCHEMA,
+    events: { type: 'array', items: { type: 'object' } },
+    atoms: { type: 'array', items: { type: 'object' } },
+    atomVersions: { type: 'array', items: { type: 'object' } },
+    conflicts: { type: 'array', items: { type: 'object' } },
+    blobs: { type: 'array', items: { type: 'object' } },
+  },
+};
+
+const LINK_RELATION: JsonSchema = {
+  type: 'string',
+  enum: ['supports', 'contradicts', 'derives', 'part_of', 'similar_to', 'causes', 'regulated_by', 'defines'],
+};
+
+const ATOM_ONLY: JsonSchema = { type: 'object', required: ['atomId'], properties: { atomId: ID } };
+
+/**
+ * Payload schemas by event type. Unknown keys are allowed so payloads written
+ * by newer clients of the same event schema version still load.
+ */
+export const EVENT_PAYLOAD_SCHEMAS: Record<EventType, JsonSchema> = {
+  'capture.text.create': {
+    type: 'object',
+    required: ['atomId', 'body'],
+    properties: {
+      atomId: ID,
+      title: STRING,
+      body: STRING,
+      kind: { type: 'string', enum: ['note', 'structure', 'concept'] },
+    },
+  },
+  'atom.text.update': {
+    type: 'object',
+    required: ['atomId', 'body'],
+    properties: { atomId: ID, body: STRING, baseVersionId: ID },
+  },
+  'atom.delete': {
+    type: 'object',
+    required: ['atomId'],
+    properties: { atomId: ID, reason: STRING },
+  },
+  'atom.archive': ATOM_ONLY,
+  'atom.restore': ATOM_ONLY,
+  'atom.tags.set': {
+    type: 'object',
+    required: ['atomId', 'tags'],
+    properties: { atomId: ID, tags: STRINGS },
+  },
+  'atom.link.add': {
+    type: 'object',
+    required: ['atomId', 'targetAtomId'],
+    properties: { atomId: ID, targetAtomId: ID, relation: LINK_RELATION },
+  },
+  'atom.link.remove': {
+    type: 'object',
+    required: ['atomId', 'targetAtomId'],
+    properties: { atomId: ID, targetAtomId: ID },
+  },
+  'conflict.resolve': {
+    type: 'object',
+    required: ['conflictId', 'atomId', 'versionIds'],
+    properties: {
+      conflictId: ID,
+      atomId: ID,
+      versionIds: { type: 'array', items: ID },
+      winningVersionId: ID,
+      mergedBody: STRING,
+    },
+    oneOf: [{ required: ['winningVersionId'] }, { required: ['mergedBody'] }],
+  },
+  'blob.add': {
+    type: 'object',
+    required: ['hash', 'size', 'contentType'],
+    properties: { atomId: ID, hash: ID, size: COUNT, contentType: ID, extHint: STRING },
+  },
+  'link.create': {
+    type: 'object',
+    required: ['linkId', 'sourceId', 'targetId', 'relation'],
+    properties: {
+      linkId: ID,
+      sourceId: ID,
+      targetId: ID,
+      relation: LINK_RELATION,
+      note: STRING,
+      changesetId: ID,
+    },
+  },
+  'changeset.suggest.create': {
+    type: 'object',
+    required: ['changesetId', 'noteIds'],
+    properties: { changesetId: ID, noteIds: STRINGS, summary: STRING, changeset: CHANGESET_SCHEMA },
+  },
+  'changeset.review': {
+    type: 'object',
+    required: ['changesetId', 'changeKey', 'decision'],
+    properties: {
+      changesetId: ID,
+      changeKey: { type: 'string', minLength: 3 },
+      decision: { type: 'string', enum: ['accepted', 'rejected'] },
+      eventIds: STRINGS,
+      atomIds: { type: 'object', additionalProperties: ID },
+    },
+  },
+};
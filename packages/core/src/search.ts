@@ -0,0 +1,154 @@
+import {
+  type AtomRecord,
+  type SearchDocument,
+  type SearchHit,
+  type SearchIndex,
+  type SearchOptions,
+  type SearchResults,
+  type TextRange,
+} from './types';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+const SNIPPET_LENGTH = 160;
+// Characters kept before the first match so the snippet reads in context.
+const SNIPPET_LEAD = 40;
+const TITLE_WEIGHT = 3;
+// BM25 parameters.
+const K1 = 1.2;
+const B = 0.75;
+
+const WORD = /[\p{L}\p{M}\p{N}]+/gu;
+
+/** Case- and accent-insensitive form of a term, matching SQLite's `unicode61 remove_diacritics`. */
+function foldTerm(value: string): string {
+  return value.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+function termSpans(text: string): Array<{ term: string; start: number; end: number }> {
+  return Array.from(text.matchAll(WORD), (match) => ({
+    term: foldTerm(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  })).filter((span) => span.term.length > 0);
+}
+
+/** Terms of `text` as both search indexes see them: letters and digits, folded. */
+export function tokenizeSearchText(text: string): string[] {
+  return termSpans(text).map((span) => span.term);
+}
+
+function countTerms(text: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const term of tokenizeSearchText(text)) {
+    counts[term] = (counts[term] ?? 0) + 1;
+  }
+  return counts;
+}
+
+export function buildSearchIndex(atoms: AtomRecord[]): SearchIndex {
+  const documents: Record<string, SearchDocument> = {};
+  for (const atom of atoms) {
+    if (atom.status !== 'active') {
+      continue;
+    }
+    const titleTerms = countTerms(atom.title);
+    const bodyTerms = countTerms(atom.body);
+    const length = [...Object.values(titleTerms), ...Object.values(bodyTerms)].reduce((sum, count) => sum + count, 0);
+    documents[atom.atomId] = { title: atom.title, body: atom.body, titleTerms, bodyTerms, length };
+  }
+  return { documents };
+}
+
+/** The last query term also matches as a prefix, so results follow typing. */
+function termMatcher(terms: string[]): (term: string, index: number) => boolean {
+  return (term, index) => term === terms[index] || (index === terms.length - 1 && term.startsWith(terms[index]));
+}
+
+function occurrences(counts: Record<string, number>, matches: (term: string) => boolean): number {
+  let total = 0;
+  for (const [term, count] of Object.entries(counts)) {
+    if (matches(term)) {
+      total += count;
+    }
+  }
+  return total;
+}
+
+function highlightRanges(text: string, matches: (term: string) => boolean): TextRange[] {
+  return termSpans(text)
+    .filter((span) => matches(span.term))
+    .map((span): TextRange => [span.start, span.end]);
+}
+
+/** Cut a window around the first match, keeping highlights relative to the snippet. */
+function buildSnippet(body: string, matches: (term: string) => boolean): { snippet: string; snippetHighlights: TextRange[] } {
+  const ranges = highlightRanges(body, matches);
+  let start = ranges.length > 0 ? Math.max(0, ranges[0][0] - SNIPPET_LEAD) : 0;
+  if (start > 0) {
+    const space = body.indexOf(' ', start);
+    start = space !== -1 && space < ranges[0][0] ? space + 1 : start;
+  }
+  const end = Math.min(body.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < body.length ? '…' : '';
+
+  return {
+    snippet: `${prefix}${body.slice(start, end)}${suffix}`,
+    snippetHighlights: ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]): TextRange => [from - start + prefix.length, to - start + prefix.length]),
+  };
+}
+
+/**
+ * Rank indexed atoms with BM25; every query term must match. Title matches
+ * count more than body matches.
+ */
+export function searchAtoms(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResults {
+  const terms = tokenizeSearchText(query);
+  const documents = Object.entries(index.documents);
+  if (terms.length === 0 || documents.length === 0) {
+    return { hits: [], total: 0 };
+  }
+
+  const isMatch = termMatcher(terms);
+  const averageLength = documents.reduce((sum, [, document]) => sum + document.length, 0) / documents.length || 1;
+
+  const counted = documents.map(([atomId, document]) => ({
+    atomId,
+    document,
+    frequencies: terms.map((_term, termIndex) => {
+      const matches = (term: string) => isMatch(term, termIndex);
+      return occurrences(document.titleTerms, matches) * TITLE_WEIGHT + occurrences(document.bodyTerms, matches);
+    }),
+  }));
+  const matched = counted.filter((entry) => entry.frequencies.every((frequency) => frequency > 0));
+  const documentFrequency = terms.map((_term, termIndex) => matched.filter((entry) => entry.frequencies[termIndex] > 0).length);
+
+  const ranked = matched
+    .map((entry) => {
+      const norm = K1 * (1 - B + (B * entry.document.length) / averageLength);
+      const score = entry.frequencies.reduce((sum, frequency, termIndex) => {
+        const idf = Math.log(1 + (documents.length - documentFrequency[termIndex] + 0.5) / (documentFrequency[termIndex] + 0.5));
+        return sum + (idf * frequency * (K1 + 1)) / (frequency + norm);
+      }, 0);
+      return { ...entry, score };
+    })
+    .sort((a, b) => b.score - a.score || a.atomId.localeCompare(b.atomId));
+
+  const offset = options.offset ?? 0;
+  const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+  const anyTerm = (term: string) => terms.some((_query, termIndex) => isMatch(term, termIndex));
+
+  return {
+    total: ranked.length,
+    hits: ranked.slice(offset, offset + limit).map((entry): SearchHit => ({
+      atomId: entry.atomId,
+      title: entry.document.title,
+      titleHighlights: highlightRanges(entry.document.title, anyTerm),
+      ...buildSnippet(entry.document.body, anyTerm),
+      score: entry.score,
+    })),
+  };
+}
@@ -1,18 +1,34 @@
-import { createEvent, withStoredMetadata } from './events';
+import { applyMediaStatus, blobFailureStatus, isBlobBlocked, sha256Hex } from './blobs';
+import { changeKeys, listChangesets, parseChangeSet, planAcceptedChange } from './changesets';
+import { createEvent, generateEventId, withStoredMetadata } from './events';
 import { migrateEvent } from './migrations';
-import { buildProjection } from './projection';
+import { type ProjectionUpdate, appendToProjection, buildProjection, eventAtomId, updateProjection } from './projection';
+import { normalizeTags } from './tags';
 import {
+  type BlobAddPayload,
+  type BlobManifestEntry,
+  type CapturedMedia,
+  type ChangeReviewDecision,
+  type ChangeSet,
+  type ChangeSetState,
+  type ConflictResolution,
   type DeviceState,
   type Event,
   type EventDraft,
+  type LinkRelation,
+  type ProjectionSnapshot,
   type PullResponse,
+  type PushResponse,
   type StorageAdapter,
   type StoredEvent,
   type SyncError,
   type SyncErrorCode,
+  type SyncItemStatus,
   type SyncStatus,
   type SyncTransport,
+  type Unsubscribe,
 } from './types';
+import { assertValidEventPayload } from './validation';
 
 function mapErrorCode(error: unknown): SyncErrorCode {
   if (!(error instanceof Error)) {
@@ -37,7 +53,7 @@ function mapErrorCode(error: unknown): SyncErrorCode {
   return 'SERVER_ERROR';
 }
 
-function toSyncError(error: unknown): SyncError {
+export function toSyncError(error: unknown): SyncError {
   if (error instanceof Error) {
     return {
       code: mapErrorCode(error),
@@ -51,9 +67,35 @@ function toSyncError(error: unknown): SyncError {
   };
 }
 
+type BlobDownloadStorage = StorageAdapter &
+  Required<Pick<StorageAdapter, 'readBlobDownload' | 'writeBlobDownload' | 'finishBlobDownload'>>;
+
+function supportsBlobDownloads(storage: StorageAdapter): storage is BlobDownloadStorage {
+  return Boolean(storage.readBlobDownload && storage.writeBlobDownload && storage.finishBlobDownload);
+}
+
+export const DEFAULT_PULL_PAGE_SIZE = 500;
+
+export const DEFAULT_PUSH_CHUNK_SIZE = 200;
+
+export const DEFAULT_BLOB_CHUNK_SIZE = 1024 * 1024;
+
+export const DEFAULT_BLOB_ATTEMPTS = 3;
+
+// Blobs in these states still have to reach the server.
+const UPLOAD_PENDING_STATUSES: SyncItemStatus[] = ['saved_local', 'waiting_sync', 'syncing', 'sync_failed'];
+
 export interface SyncEngineOptions {
   storage: StorageAdapter;
   transport: SyncTransport;
+  /** Events requested per pull page. Defaults to DEFAULT_PULL_PAGE_SIZE. */
+  pullPageSize?: number;
+  /** Pending events sent per push request. Defaults to DEFAULT_PUSH_CHUNK_SIZE. */
+  pushChunkSize?: number;
+  /** Bytes requested per ranged blob download. Defaults to DEFAULT_BLOB_CHUNK_SIZE. */
+  blobChunkSize?: number;
+  /** Tries per blob transfer within one sync. Defaults to DEFAULT_BLOB_ATTEMPTS. */
+  blobAttempts?: number;
 }
 
 export class SyncEngine {
@@ -61,12 +103,28 @@ export class SyncEngine {
 
   private readonly transport: SyncTransport;
 
+  private readonly pullPageSize: number;
+
+  private readonly pushChunkSize: number;
+
+  private readonly blobChunkSize: number;
+
+  private readonly blobAttempts: number;
+
+  // Last projection this engine saved, so incremental refreshes skip re-reading it.
+  private projection: ProjectionSnapshot | null = null;
+
   constructor(options: SyncEngineOptions) {
     this.storage = options.storage;
     this.transport = options.transport;
+    this.pullPageSize = options.pullPageSize ?? DEFAULT_PULL_PAGE_SIZE;
+    this.pushChunkSize = options.pushChunkSize ?? DEFAULT_PUSH_CHUNK_SIZE;
+    this.blobChunkSize = options.blobChunkSize ?? DEFAULT_BLOB_CHUNK_SIZE;
+    this.blobAttempts = Math.max(1, options.blobAttempts ?? DEFAULT_BLOB_ATTEMPTS);
   }
 
   async appendLocalEvent<TType extends Event['type']>(draft: EventDraft<TType>): Promise<StoredEvent> {
+    assertValidEventPayload(draft.type, draft.payload);
     const state = await this.storage.getDeviceState();
     const localSeq = await this.storage.allocateLocalSeq();
     state.nextLocalSeq = Math.max(state.nextLocalSeq, localSeq + 1);
@@ -81,9 +139,12 @@ export class SyncEngine {
     const storedEvent = withStoredMetadata(event);
     await this.storage.upsertEvents([storedEvent]);
 
+    const wasDirty = state.projectionDirty;
     state.projectionDirty = true;
     await this.storage.saveDeviceState(state);
-    await this.rebuildProjection();
+    if (wasDirty || !(await this.appendToCurrentProjection(storedEvent))) {
+      await this.refreshProjection();
+    }
 
     return storedEvent;
   }
@@ -99,25 +160,295 @@ export class SyncEngine {
     });
   }
 
+  async updateAtomText(input: { atomId: string; body: string; baseVersionId?: string }): Promise<StoredEvent> {
+    return this.appendLocalEvent({
+      type: 'atom.text.update',
+      payload: {
+        atomId: input.atomId,
+        body: input.body,
+        baseVersionId: input.baseVersionId,
+      },
+    });
+  }
+
+  /**
+   * Capture a recording as a new atom: the audio is stored as a local blob by
+   * hash and linked to the atom with a blob.add event so it syncs like any
+   * other media.
+   */
+  async captureAudio(input: {
+    atomId: string;
+    bytes: Uint8Array;
+    contentType: string;
+    extHint?: string;
+    body: string;
+    title?: string;
+  }): Promise<CapturedMedia> {
+    if (!this.storage.writeBlob) {
+      throw new Error('Storage adapter cannot store captured media');
+    }
+
+    const hash = await sha256Hex(input.bytes);
+    const localPath = await this.storage.writeBlob(hash, input.bytes, input.contentType);
+    const blob: BlobManifestEntry = {
+      hash,
+      size: input.bytes.byteLength,
+      contentType: input.contentType,
+      localPath,
+      isPresent: true,
+      syncStatus: 'saved_local',
+      updatedAtMs: Date.now(),
+    };
+    await this.storage.saveBlobManifest([blob]);
+
+    const captureEvent = await this.captureText({ atomId: input.atomId, body: input.body, title: input.title });
+    const blobEvent = await this.appendLocalEvent({
+      type: 'blob.add',
+      payload: {
+        atomId: input.atomId,
+        hash,
+        size: blob.size,
+        contentType: input.contentType,
+        extHint: input.extHint,
+      },
+    });
+
+    return { captureEvent, blobEvent, blob };
+  }
+
+  async deleteAtom(input: { atomId: string; reason?: string }): Promise<StoredEvent> {
+    return this.appendLocalEvent({
+      type: 'atom.delete',
+      payload: {
+        atomId: input.atomId,
+        reason: input.reason,
+      },
+    });
+  }
+
+  async archiveAtom(atomId: string): Promise<StoredEvent> {
+    return this.appendLocalEvent({
+      type: 'atom.archive',
+      payload: { atomId },
+    });
+  }
+
+  async restoreAtom(atomId: string): Promise<StoredEvent> {
+    return this.appendLocalEvent({
+      type: 'atom.restore',
+      payload: { atomId },
+    });
+  }
+
+  /** Replace the atom's assigned tags; hashtags in its body are not affected. */
+  async setAtomTags(atomId: string, tags: string[]): Promise<StoredEvent> {
+    return this.appendLocalEvent({
+      type: 'atom.tags.set',
+      payload: { atomId, tags: normalizeTags(tags) },
+    });
+  }
+
+  async addAtomLink(input: { atomId: string; targetAtomId: string; relation?: LinkRelation }): Promise<StoredEvent> {
+    return this.appendLocalEvent({
+      type: 'atom.link.add',
+      payload: {
+        atomId: input.atomId,
+        targetAtomId: input.targetAtomId,
+        ...(input.relation ? { relation: input.relation } : {}),
+      },
+    });
+  }
+
+  async removeAtomLink(input: { atomId: string; targetAtomId: string }): Promise<StoredEvent> {
+    return this.appendLocalEvent({
+      type: 'atom.link.remove',
+      payload: { atomId: input.atomId, targetAtomId: input.targetAtomId },
+    });
+  }
+
+  async resolveConflict(conflictId: string, resolution: ConflictResolution): Promise<StoredEvent> {
+    const projection = await this.storage.getProjection();
+    const conflict = projection?.conflicts.find((entry) => entry.conflictId === conflictId);
+    if (!conflict) {
+      throw new Error(`Conflict not found: ${conflictId}`);
+    }
+    if (conflict.status !== 'open') {
+      throw new Error(`Conflict already resolved: ${conflictId}`);
+    }
+
+    if ('winningVersionId' in resolution) {
+      if (!conflict.versionIds.includes(resolution.winningVersionId)) {
+        throw new Error(`Version ${resolution.winningVersionId} is not part of conflict ${conflictId}`);
+      }
+
+      return this.appendLocalEvent({
+        type: 'conflict.resolve',
+        payload: {
+          conflictId,
+          atomId: conflict.atomId,
+          versionIds: conflict.versionIds,
+          winningVersionId: resolution.winningVersionId,
+        },
+      });
+    }
+
+    return this.appendLocalEvent({
+      type: 'conflict.resolve',
+      payload: {
+        conflictId,
+        atomId: conflict.atomId,
+        versionIds: conflict.versionIds,
+        mergedBody: resolution.mergedBody,
+      },
+    });
+  }
+
+  /** Record a validated AI proposal; nothing in it takes effect until reviewed. */
+  async suggestChangeset(changeset: ChangeSet): Promise<StoredEvent> {
+    const validated = parseChangeSet(changeset);
+    const existing = await this.listChangesets();
+    if (existing.some((state) => state.changeset.id === validated.id)) {
+      throw new Error(`Changeset already suggested: ${validated.id}`);
+    }
+
+    return this.appendLocalEvent({
+      type: 'changeset.suggest.create',
+      payload: {
+        changesetId: validated.id,
+        noteIds: validated.input.noteIds,
+        summary: validated.summary,
+        changeset: validated,
+      },
+    });
+  }
+
+  async listChangesets(): Promise<ChangeSetState[]> {
+    return listChangesets(await this.storage.listEvents());
+  }
+
+  /**
+   * Accept or reject one change of a suggested changeset. Accepting appends the
+   * atom and link events that carry the change out, then the review itself,
+   * which lists them so every applied edit traces back to its proposal.
+   */
+  async reviewChange(input: {
+    changesetId: string;
+    changeKey: string;
+    decision: ChangeReviewDecision;
+  }): Promise<StoredEvent> {
+    const state = (await this.listChangesets()).find((entry) => entry.changeset.id === input.changesetId);
+    if (!state) {
+      throw new Error(`Changeset not found: ${input.changesetId}`);
+    }
+    if (!changeKeys(state.changeset).includes(input.changeKey)) {
+      throw new Error(`Unknown change ${input.changeKey} in changeset ${input.changesetId}`);
+    }
+    const previous = state.reviews[input.changeKey];
+    if (previous) {
+      throw new Error(`Change ${input.changeKey} was already ${previous.decision}`);
+    }
+
+    if (input.decision === 'rejected') {
+      return this.appendLocalEvent({
+        type: 'changeset.review',
+        payload: { changesetId: input.changesetId, changeKey: input.changeKey, decision: 'rejected' },
+      });
+    }
+
+    let projection = await this.storage.getProjection();
+    if (!projection) {
+      await this.rebuildProjection();
+      projection = await this.storage.getProjection();
+    }
+
+    const plan = planAcceptedChange({
+      state,
+      changeKey: input.changeKey,
+      atoms: projection?.atoms ?? [],
+      createId: (prefix) => `${prefix}_${generateEventId().replace(/-/g, '').slice(0, 20)}`,
+    });
+
+    // Check every planned event first so a bad plan appends nothing.
+    for (const draft of plan.drafts) {
+      assertValidEventPayload(draft.type, draft.payload);
+    }
+
+    const eventIds: string[] = [];
+    for (const draft of plan.drafts) {
+      eventIds.push((await this.appendLocalEvent(draft)).eventId);
+    }
+
+    return this.appendLocalEvent({
+      type: 'changeset.review',
+      payload: {
+        changesetId: input.changesetId,
+        changeKey: input.changeKey,
+        decision: 'accepted',
+        eventIds,
+        ...(Object.keys(plan.atomIds).length > 0 ? { atomIds: plan.atomIds } : {}),
+      },
+    });
+  }
+
   async rebuildProjection(): Promise<void> {
-    const state = await this.storage.getDeviceState();
     const events = await this.storage.listEvents();
-    const projection = buildProjection(events);
+    await this.saveRebuiltProjection(buildProjection(events));
+  }
 
-    await this.storage.saveProjection(projection);
-    state.lastAppliedSeq = projection.lastAppliedSeq;
-    state.projectionDirty = false;
-    await this.storage.saveDeviceState(state);
+  /**
+   * Bring the stored projection up to date with the event log, reducing only
+   * events it has not seen yet. Falls back to a full rebuild when there is no
+   * stored projection or canonical order changed under applied provisional events.
+   */
+  async refreshProjection(): Promise<void> {
+    const current = this.projection ?? (await this.storage.getProjection());
+    const update = current ? updateProjection(current, await this.listUnappliedEvents(current)) : null;
+
+    if (!update) {
+      await this.rebuildProjection();
+      return;
+    }
+
+    await this.saveProjectionUpdate(update);
   }
 
   async getInbox() {
-    const projection = await this.storage.getProjection();
-    if (projection) {
-      return projection.inbox;
+    let projection = await this.storage.getProjection();
+    if (!projection) {
+      await this.rebuildProjection();
+      projection = await this.storage.getProjection();
+    }
+    if (!projection) {
+      return [];
     }
 
-    await this.rebuildProjection();
-    return (await this.storage.getProjection())?.inbox ?? [];
+    return applyMediaStatus(projection, await this.storage.listBlobManifest());
+  }
+
+  /**
+   * Follow the server's cursor announcements. `ahead` tells whether the
+   * announced cursor is past what this device has pulled. Resolves to null
+   * when the transport has no push channel and callers must poll instead.
+   */
+  async watchRemoteCursor(
+    onCursor: (cursor: number, ahead: boolean) => void,
+    onDisconnect: (error: unknown) => void,
+  ): Promise<Unsubscribe | null> {
+    if (!this.transport.subscribe) {
+      return null;
+    }
+
+    const state = await this.storage.getDeviceState();
+    return this.transport.subscribe(
+      state.workspaceId,
+      (cursor) => {
+        this.storage
+          .getDeviceState()
+          .then((current) => onCursor(cursor, cursor > current.lastPulledSeq))
+          .catch(() => undefined);
+      },
+      onDisconnect,
+    );
   }
 
   async getSyncStatus(): Promise<SyncStatus> {
@@ -145,59 +476,47 @@ export class SyncEngine {
   async syncNow(): Promise<SyncStatus> {
     let state = await this.storage.getDeviceState();
     let projectionDirty = state.projectionDirty;
-    const pullCursor = state.lastPulledSeq;
-    let cursorAfterPush = state.lastPulledSeq;
 
-    try {
-      const pending = await this.storage.listPendingEvents();
+    const missingBlobHashes = new Set<string>();
 
-      if (pending.length > 0) {
-        for (const event of pending) {
-          await this.storage.updateEventStatus(event.eventId, 'syncing');
-        }
+    try {
+      projectionDirty = (await this.pushPendingEvents(state, missingBlobHashes)) || projectionDirty;
 
-        const response = await this.transport.push({
+      // Pull page by page, persisting the cursor after each one so an
+      // interrupted sync resumes where it stopped instead of starting over.
+      let hasMore = true;
+      while (hasMore) {
+        const page = await this.transport.pull({
           workspaceId: state.workspaceId,
           userId: state.userId,
           deviceId: state.deviceId,
-          clientCursor: state.lastPulledSeq,
-          events: pending.map(stripStoredMetadata),
+          cursor: state.lastPulledSeq,
+          limit: this.pullPageSize,
         });
 
-        if (response.accepted.length > 0) {
-          const changed = await this.storage.assignServerSeq(response.accepted);
-          projectionDirty ||= changed;
+        const pageChanged = await this.ingestPullEvents(page);
+        projectionDirty = projectionDirty || pageChanged;
 
-          for (const mapping of response.accepted) {
-            await this.storage.updateEventStatus(mapping.eventId, 'synced');
-          }
-        }
+        const previousCursor = state.lastPulledSeq;
+        state = await this.storage.getDeviceState();
+        state.lastPulledSeq = Math.max(state.lastPulledSeq, previousCursor, page.cursor);
+        state.projectionDirty = state.projectionDirty || projectionDirty;
+        await this.storage.saveDeviceState(state);
 
-        cursorAfterPush = Math.max(cursorAfterPush, response.cursor);
+        hasMore = page.hasMore === true && state.lastPulledSeq > previousCursor;
       }
 
-      const pullResponse = await this.transport.pull({
-        workspaceId: state.workspaceId,
-        userId: state.userId,
-        deviceId: state.deviceId,
-        cursor: pullCursor,
-      });
-
-      const pullChanged = await this.ingestPullEvents(pullResponse);
-      projectionDirty = projectionDirty || pullChanged;
-
-      state.lastPulledSeq = Math.max(cursorAfterPush, pullResponse.cursor, state.lastPulledSeq);
-
       if (projectionDirty) {
-        state.projectionDirty = true;
-        await this.storage.saveDeviceState(state);
-        await this.rebuildProjection();
+        const lastPulledSeq = state.lastPulledSeq;
+        await this.refreshProjection();
         state = await this.storage.getDeviceState();
-        state.lastPulledSeq = Math.max(state.lastPulledSeq, cursorAfterPush, pullResponse.cursor);
+        state.lastPulledSeq = Math.max(state.lastPulledSeq, lastPulledSeq);
       } else {
         state.projectionDirty = false;
       }
 
+      await this.syncBlobs(state.workspaceId, missingBlobHashes);
+
       state.lastSyncSuccessAtMs = Date.now();
       state.lastErrorCode = undefined;
       state.lastErrorMessage = undefined;
@@ -225,12 +544,349 @@ export class SyncEngine {
     }
   }
 
+  /**
+   * Push pending events in bounded chunks. Accepted events get their server
+   * sequence; rejected ones move to sync_failed so they stop blocking the rest.
+   * Events the server answers neither way go back to saved_local for the next
+   * sync. Returns whether any accepted event changed the canonical order, and
+   * collects the blob hashes the server asked for.
+   */
+  private async pushPendingEvents(state: DeviceState, missingBlobHashes: Set<string>): Promise<boolean> {
+    let changed = false;
+    // Unanswered events stay pending at the head of the queue; page past them.
+    let offset = 0;
+
+    for (;;) {
+      const pending = await this.storage.listPendingEvents(this.pushChunkSize, offset);
+      if (pending.length === 0) {
+        return changed;
+      }
+
+      for (const event of pending) {
+        await this.storage.updateEventStatus(event.eventId, 'syncing');
+      }
+
+      let response: PushResponse;
+      try {
+        response = await this.transport.push({
+          workspaceId: state.workspaceId,
+          userId: state.userId,
+          deviceId: state.deviceId,
+          clientCursor: state.lastPulledSeq,
+          events: pending.map(stripStoredMetadata),
+        });
+      } catch (error) {
+        for (const event of pending) {
+          await this.storage.updateEventStatus(event.eventId, 'saved_local');
+        }
+        throw error;
+      }
+
+      for (const hash of response.missingBlobHashes ?? []) {
+        missingBlobHashes.add(hash);
+      }
+
+      if (response.accepted.length > 0) {
+        changed = (await this.storage.assignServerSeq(response.accepted)) || changed;
+
+        for (const mapping of response.accepted) {
+          await this.storage.updateEventStatus(mapping.eventId, 'synced');
+        }
+      }
+
+      for (const rejection of response.rejected ?? []) {
+        await this.storage.updateEventStatus(rejection.eventId, 'sync_failed', {
+          code: rejection.code,
+          message: rejection.message,
+        });
+      }
+
+      if (response.rejected?.length) {
+        // Rejected events still show up in the projection with their new status.
+        changed = true;
+      }
+
+      const answered = new Set([
+        ...response.accepted.map((mapping) => mapping.eventId),
+        ...(response.rejected ?? []).map((rejection) => rejection.eventId),
+      ]);
+      const unanswered = pending.filter((event) => !answered.has(event.eventId));
+      for (const event of unanswered) {
+        await this.storage.updateEventStatus(event.eventId, 'saved_local');
+      }
+      offset += unanswered.length;
+    }
+  }
+
+  /**
+   * Upload blobs the server is missing and download referenced blobs this
+   * device lacks. Each blob is retried on its own and failures are recorded
+   * on its manifest entry instead of failing the sync.
+   */
+  private async syncBlobs(workspaceId: string, missingOnServer: Set<string>): Promise<void> {
+    const manifest = new Map((await this.storage.listBlobManifest()).map((entry) => [entry.hash, entry]));
+    await this.uploadBlobs(workspaceId, manifest, missingOnServer);
+    await this.downloadBlobs(workspaceId, manifest);
+  }
+
+  private async uploadBlobs(
+    workspaceId: string,
+    manifest: Map<string, BlobManifestEntry>,
+    missingOnServer: Set<string>,
+  ): Promise<void> {
+    const { storage, transport } = this;
+    if (!storage.readBlob || !transport.uploadBlob) {
+      return;
+    }
+    const uploadBlob = transport.uploadBlob.bind(transport);
+
+    const candidates = Array.from(manifest.values()).filter(
+      (entry) =>
+        entry.isPresent &&
+        !isBlobBlocked(entry) &&
+        (missingOnServer.has(entry.hash) || UPLOAD_PENDING_STATUSES.includes(entry.syncStatus)),
+    );
+
+    for (const entry of candidates) {
+      const bytes = await storage.readBlob(entry.hash);
+      if (!bytes) {
+        // The file vanished locally; fetch it back like any other absent blob.
+        const absent = { ...entry, isPresent: false, syncStatus: 'media_downloading' as const, updatedAtMs: Date.now() };
+        await this.storage.saveBlobManifest([absent]);
+        manifest.set(entry.hash, absent);
+        continue;
+      }
+
+      manifest.set(
+        entry.hash,
+        await this.transferBlob(entry, 'syncing', async () => {
+          await uploadBlob(workspaceId, entry.hash, entry.contentType, bytes);
+          return {};
+        }),
+      );
+    }
+  }
+
+  private async downloadBlobs(workspaceId: string, manifest: Map<string, BlobManifestEntry>): Promise<void> {
+    const { storage, transport } = this;
+    if (!supportsBlobDownloads(storage) || !transport.downloadBlob) {
+      return;
+    }
+    const downloadBlob = transport.downloadBlob.bind(transport);
+
+    const projection = this.projection ?? (await this.storage.getProjection());
+    const wanted = (projection?.referencedBlobs ?? []).filter((hash) => {
+      const entry = manifest.get(hash);
+      return !entry || (!entry.isPresent && !isBlobBlocked(entry));
+    });
+    if (wanted.length === 0) {
+      return;
+    }
+
+    const blobAdds = new Map<string, BlobAddPayload>();
+    for (const event of await this.storage.listEvents()) {
+      if (event.type === 'blob.add') {
+        const payload = event.payload as BlobAddPayload;
+        blobAdds.set(payload.hash, payload);
+      }
+    }
+
+    const pendingEntries = wanted.map((hash): BlobManifestEntry => {
+      const payload = blobAdds.get(hash);
+      return {
+        hash,
+        size: manifest.get(hash)?.size ?? payload?.size ?? 0,
+        contentType: manifest.get(hash)?.contentType ?? payload?.contentType ?? 'application/octet-stream',
+        localPath: manifest.get(hash)?.localPath ?? '',
+        isPresent: false,
+        syncStatus: 'media_downloading',
+        updatedAtMs: Date.now(),
+      };
+    });
+    // Mark everything queued first so the inbox shows media_downloading while blobs are fetched.
+    await this.storage.saveBlobManifest(pendingEntries);
+
+    for (const entry of pendingEntries) {
+      manifest.set(
+        entry.hash,
+        await this.transferBlob(entry, 'media_downloading', async () => {
+          let received = (await storage.readBlobDownload(entry.hash))?.byteLength ?? 0;
+          if (received > entry.size) {
+            received = 0;
+          }
+
+          if (entry.size <= 0) {
+            // Without a known size there are no ranges to plan; fetch it whole and let the hash decide.
+            await storage.writeBlobDownload(entry.hash, 0, await downloadBlob(workspaceId, entry.hash));
+          }
+
+          // Resume from the bytes already on disk with ranged requests.
+          while (received < entry.size) {
+            const end = Math.min(received + this.blobChunkSize, entry.size) - 1;
+            const chunk = await downloadBlob(workspaceId, entry.hash, { start: received, end });
+            if (chunk.byteLength === 0) {
+              throw new Error(`network: empty response while downloading blob ${entry.hash}`);
+            }
+            await storage.writeBlobDownload(entry.hash, received, chunk);
+            received += chunk.byteLength;
+          }
+
+          const bytes = (await storage.readBlobDownload(entry.hash)) ?? new Uint8Array();
+          const actualHash = await sha256Hex(bytes);
+          if (actualHash !== entry.hash) {
+            await storage.writeBlobDownload(entry.hash, 0, new Uint8Array());
+            throw new Error(`Blob hash mismatch. expected=${entry.hash}, got=${actualHash}`);
+          }
+
+          const localPath = await storage.finishBlobDownload(entry.hash, entry.contentType);
+          return { isPresent: true, localPath, size: bytes.byteLength };
+        }),
+      );
+    }
+  }
+
+  private async transferBlob(
+    entry: BlobManifestEntry,
+    inProgressStatus: SyncItemStatus,
+    transfer: () => Promise<Partial<BlobManifestEntry>>,
+  ): Promise<BlobManifestEntry> {
+    let lastError: SyncError | null = null;
+
+    for (let attempt = 1; attempt <= this.blobAttempts; attempt += 1) {
+      await this.storage.saveBlobManifest([{ ...entry, syncStatus: inProgressStatus, updatedAtMs: Date.now() }]);
+      try {
+        const done: BlobManifestEntry = {
+          ...entry,
+          ...(await transfer()),
+          syncStatus: 'synced',
+          errorCode: undefined,
+          errorMessage: undefined,
+          updatedAtMs: Date.now(),
+        };
+        await this.storage.saveBlobManifest([done]);
+        return done;
+      } catch (error) {
+        lastError = toSyncError(error);
+        if (lastError.code === 'AUTH') {
+          break;
+        }
+      }
+    }
+
+    const failed: BlobManifestEntry = {
+      ...entry,
+      syncStatus: blobFailureStatus(lastError?.code ?? 'SERVER_ERROR'),
+      errorCode: lastError?.code,
+      errorMessage: lastError?.message,
+      updatedAtMs: Date.now(),
+    };
+    await this.storage.saveBlobManifest([failed]);
+    await this.storage.saveSyncAttempt({
+      timestampMs: Date.now(),
+      action: `blob:${entry.hash}`,
+      result: 'error',
+      errorCode: failed.errorCode,
+      message: failed.errorMessage,
+    });
+    return failed;
+  }
+
+  /**
+   * What `updateProjection` needs to bring `snapshot` up to date: the events
+   * it has not applied and the earlier events of their atoms. Storage that
+   * cannot list those hands over the whole log instead.
+   */
+  private async listUnappliedEvents(snapshot: ProjectionSnapshot): Promise<StoredEvent[]> {
+    if (!this.storage.listEventsSince || !this.storage.listAtomEvents) {
+      return this.storage.listEvents();
+    }
+
+    const unapplied = await this.storage.listEventsSince(snapshot.lastAppliedSeq);
+    const atomIds = new Set<string>();
+    for (const event of unapplied) {
+      const atomId = eventAtomId(event);
+      if (atomId !== undefined) {
+        atomIds.add(atomId);
+      }
+    }
+    if (atomIds.size === 0) {
+      return unapplied;
+    }
+
+    const unappliedIds = new Set(unapplied.map((event) => event.eventId));
+    const history = (await this.storage.listAtomEvents(Array.from(atomIds)))
+      .filter((event) => !unappliedIds.has(event.eventId));
+    return [...history, ...unapplied];
+  }
+
+  /**
+   * Fold a just-appended local event into the projection this engine last
+   * saved, reading only its atom's events. Returns false when that projection
+   * is unknown or the event cannot simply go last, so a refresh is needed.
+   */
+  private async appendToCurrentProjection(event: StoredEvent): Promise<boolean> {
+    if (!this.projection || !this.storage.listAtomEvents) {
+      return false;
+    }
+
+    const atomId = eventAtomId(event);
+    const atomEvents = atomId === undefined ? [] : await this.storage.listAtomEvents([atomId]);
+    const update = appendToProjection(this.projection, event, atomEvents);
+    if (!update) {
+      return false;
+    }
+
+    await this.saveProjectionUpdate(update);
+    return true;
+  }
+
+  private async saveProjectionUpdate(update: ProjectionUpdate): Promise<void> {
+    if (this.storage.saveProjectionChanges) {
+      await this.storage.saveProjectionChanges(update.snapshot, update.changedAtomIds);
+    } else {
+      await this.storage.saveProjection(update.snapshot);
+    }
+    this.projection = update.snapshot;
+    await this.markProjectionApplied(update.snapshot.lastAppliedSeq);
+  }
+
+  private async saveRebuiltProjection(projection: ProjectionSnapshot): Promise<void> {
+    await this.storage.saveProjection(projection);
+    this.projection = projection;
+    await this.markProjectionApplied(projection.lastAppliedSeq);
+  }
+
+  private async markProjectionApplied(lastAppliedSeq: number): Promise<void> {
+    const state = await this.storage.getDeviceState();
+    state.lastAppliedSeq = lastAppliedSeq;
+    state.projectionDirty = false;
+    await this.storage.saveDeviceState(state);
+  }
+
+  /**
+   * Store a pulled page. Events that fail validation are skipped and logged
+   * as sync attempts; throwing instead would fail every later pull on the
+   * same page.
+   */
   private async ingestPullEvents(response: PullResponse): Promise<boolean> {
-    if (response.events.length === 0) {
+    const migrated: Event[] = [];
+    for (const event of response.events) {
+      try {
+        migrated.push(migrateEvent(event));
+      } catch (error) {
+        await this.storage.saveSyncAttempt({
+          timestampMs: Date.now(),
+          action: `pull:${event.eventId}`,
+          result: 'error',
+          errorCode: 'INVALID_EVENT',
+          message: error instanceof Error ? error.message : 'Invalid event',
+        });
+      }
+    }
+    if (migrated.length === 0) {
       return false;
     }
 
-    const migrated = response.events.map((event) => migrateEvent(event));
     const stored: StoredEvent[] = migrated.map((event) => ({
       ...event,
       syncStatus: 'synced',
@@ -247,7 +903,7 @@ export class SyncEngine {
     }
 
     const changed = await this.storage.assignServerSeq(mappings);
-    return changed || response.events.length > 0;
+    return changed || migrated.length > 0;
   }
 }
 
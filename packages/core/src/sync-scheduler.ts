@@ -0,0 +1,405 @@
+import { toSyncError } from './sync-engine';
+import { type SyncError, type SyncErrorCode, type SyncStatus, type Unsubscribe } from './types';
+
+export interface BackoffPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Retry policy per error code. `null` means the error needs the user
+ * (e.g. signing in again) and the scheduler stops retrying on its own.
+ */
+export type BackoffPolicies = Record<SyncErrorCode, BackoffPolicy | null>;
+
+export const DEFAULT_SYNC_INTERVAL_MS = 60_000;
+
+/** Safety-net polling while the server pushes cursor notifications. */
+export const DEFAULT_STREAMING_SYNC_INTERVAL_MS = 5 * 60_000;
+
+export const DEFAULT_LOCAL_APPEND_DEBOUNCE_MS = 1_000;
+
+export const DEFAULT_BACKOFF_POLICIES: BackoffPolicies = {
+  NETWORK: { baseDelayMs: 2_000, maxDelayMs: 5 * 60_000 },
+  SERVER_ERROR: { baseDelayMs: 5_000, maxDelayMs: 10 * 60_000 },
+  INVALID_EVENT: { baseDelayMs: 30_000, maxDelayMs: 30 * 60_000 },
+  HASH_MISMATCH: { baseDelayMs: 30_000, maxDelayMs: 30 * 60_000 },
+  QUOTA: { baseDelayMs: 60_000, maxDelayMs: 60 * 60_000 },
+  DISK_FULL: { baseDelayMs: 60_000, maxDelayMs: 60 * 60_000 },
+  AUTH: null,
+};
+
+export type SyncSchedulerPhase = 'stopped' | 'idle' | 'syncing' | 'backoff' | 'offline' | 'blocked_auth';
+
+export interface SyncSchedulerState {
+  phase: SyncSchedulerPhase;
+  online: boolean;
+  /** A cursor stream is connected, so polling only runs as a safety net. */
+  streaming: boolean;
+  consecutiveFailures: number;
+  nextAttemptAtMs?: number;
+  lastError?: SyncError;
+  /** Latest status reported by the sync run or the status reader. */
+  status?: SyncStatus;
+}
+
+export interface SchedulerTimers {
+  setTimeout(callback: () => void, delayMs: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export interface SyncSchedulerOptions {
+  /** Runs one full sync; usually SyncEngine.syncNow, possibly wrapped by the host. */
+  sync: () => Promise<SyncStatus>;
+  /** Reads the current status so local appends can be reported before the next sync. */
+  getStatus?: () => Promise<SyncStatus>;
+  /** Opens a server cursor stream, usually SyncEngine.watchRemoteCursor; without it the scheduler only polls. */
+  watchRemote?: (
+    onCursor: (cursor: number, ahead: boolean) => void,
+    onDisconnect: (error: unknown) => void,
+  ) => Promise<Unsubscribe | null>;
+  onState?: (state: SyncSchedulerState) => void;
+  intervalMs?: number;
+  streamingIntervalMs?: number;
+  localAppendDebounceMs?: number;
+  backoff?: Partial<BackoffPolicies>;
+  /** Injected for tests; defaults to Math.random, Date.now and the global timers. */
+  random?: () => number;
+  now?: () => number;
+  timers?: SchedulerTimers;
+}
+
+const defaultTimers: SchedulerTimers = {
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Decides when to sync: shortly after local appends, on a fixed interval and
+ * when connectivity returns. Failed runs back off exponentially with jitter,
+ * and at most one sync runs at a time.
+ */
+export class SyncScheduler {
+  private readonly options: SyncSchedulerOptions;
+
+  private readonly policies: BackoffPolicies;
+
+  private readonly intervalMs: number;
+
+  private readonly streamingIntervalMs: number;
+
+  private readonly debounceMs: number;
+
+  private readonly timers: SchedulerTimers;
+
+  private readonly now: () => number;
+
+  private readonly random: () => number;
+
+  private state: SyncSchedulerState = { phase: 'stopped', online: true, streaming: false, consecutiveFailures: 0 };
+
+  private active = false;
+
+  private timer: unknown = null;
+
+  private timerDueAtMs: number | null = null;
+
+  private inFlight: Promise<SyncStatus> | null = null;
+
+  private followUp: Promise<SyncStatus> | null = null;
+
+  // Generation guards callbacks from a stream that was closed while connecting.
+  private stream: { generation: number; unsubscribe: Unsubscribe | null } | null = null;
+
+  private streamGeneration = 0;
+
+  private streamFailures = 0;
+
+  private reconnectTimer: unknown = null;
+
+  constructor(options: SyncSchedulerOptions) {
+    this.options = options;
+    this.policies = { ...DEFAULT_BACKOFF_POLICIES, ...options.backoff };
+    this.intervalMs = options.intervalMs ?? DEFAULT_SYNC_INTERVAL_MS;
+    this.streamingIntervalMs = options.streamingIntervalMs ?? DEFAULT_STREAMING_SYNC_INTERVAL_MS;
+    this.debounceMs = options.localAppendDebounceMs ?? DEFAULT_LOCAL_APPEND_DEBOUNCE_MS;
+    this.timers = options.timers ?? defaultTimers;
+    this.now = options.now ?? Date.now;
+    this.random = options.random ?? Math.random;
+  }
+
+  getState(): SyncSchedulerState {
+    return { ...this.state };
+  }
+
+  /** Begin background syncing with an immediate run. */
+  start(): void {
+    if (this.active) {
+      return;
+    }
+
+    this.active = true;
+    this.update({ phase: this.state.online ? 'idle' : 'offline' });
+    if (this.state.online) {
+      this.schedule(0);
+      this.openStream();
+    }
+  }
+
+  stop(): void {
+    this.active = false;
+    this.clearTimer();
+    this.closeStream();
+    this.update({ phase: 'stopped', nextAttemptAtMs: undefined });
+  }
+
+  /** A local event was appended; sync soon unless backing off or blocked. */
+  notifyLocalAppend(): void {
+    if (this.options.getStatus) {
+      this.options
+        .getStatus()
+        .then((status) => this.update({ status }))
+        .catch(() => undefined);
+    }
+
+    // While a run is in flight the timer queues a follow-up, so this append is not missed.
+    if (this.state.phase === 'idle' || (this.active && this.state.phase === 'syncing')) {
+      this.schedule(this.debounceMs);
+    }
+  }
+
+  setOnline(online: boolean): void {
+    if (online === this.state.online) {
+      return;
+    }
+
+    if (!online) {
+      this.clearTimer();
+      this.closeStream();
+      this.update({
+        online: false,
+        phase: !this.active || this.state.phase === 'syncing' ? this.state.phase : 'offline',
+        nextAttemptAtMs: undefined,
+      });
+      return;
+    }
+
+    this.update({ online: true });
+    if (this.state.phase === 'offline' || this.state.phase === 'backoff') {
+      // Connectivity returning is a better signal than the remaining backoff delay.
+      this.update({ phase: 'idle', consecutiveFailures: 0 });
+      this.schedule(0);
+    }
+    this.streamFailures = 0;
+    this.openStream();
+  }
+
+  /**
+   * Run a sync now, ignoring backoff and AUTH blocks. If one is already in
+   * flight, a single follow-up run is queued after it so new local events are
+   * included; concurrent callers share that run.
+   */
+  syncNow(): Promise<SyncStatus> {
+    if (this.inFlight) {
+      if (!this.followUp) {
+        this.followUp = this.inFlight
+          .then(
+            () => undefined,
+            () => undefined,
+          )
+          .then(() => {
+            this.followUp = null;
+            return this.syncNow();
+          });
+      }
+      return this.followUp;
+    }
+
+    const run = this.run().finally(() => {
+      this.inFlight = null;
+    });
+    this.inFlight = run;
+    return run;
+  }
+
+  /** Delay before retry number `attempt` (1-based), or null when the code is not retried. */
+  backoffDelay(code: SyncErrorCode, attempt: number): number | null {
+    const policy = this.policies[code];
+    if (!policy) {
+      return null;
+    }
+
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+    // Equal jitter: keep half the delay, randomize the rest so devices spread out.
+    return Math.round(ceiling / 2 + this.random() * (ceiling / 2));
+  }
+
+  private async run(): Promise<SyncStatus> {
+    this.clearTimer();
+    this.update({ phase: 'syncing', nextAttemptAtMs: undefined });
+
+    try {
+      const status = await this.options.sync();
+      this.update({
+        phase: this.settledPhase(),
+        consecutiveFailures: 0,
+        lastError: undefined,
+        status,
+      });
+      if (this.state.phase === 'idle') {
+        this.schedule(this.state.streaming ? this.streamingIntervalMs : this.intervalMs);
+        this.openStream();
+      }
+      return status;
+    } catch (error) {
+      this.handleFailure(toSyncError(error));
+      throw error;
+    }
+  }
+
+  private handleFailure(syncError: SyncError): void {
+    const consecutiveFailures = this.state.consecutiveFailures + 1;
+    const settled = this.settledPhase();
+    if (settled !== 'idle') {
+      this.update({ phase: settled, consecutiveFailures, lastError: syncError });
+      return;
+    }
+
+    const delayMs = this.backoffDelay(syncError.code, consecutiveFailures);
+    if (delayMs === null) {
+      this.closeStream();
+      this.update({ phase: 'blocked_auth', consecutiveFailures, lastError: syncError });
+      return;
+    }
+
+    this.update({ phase: 'backoff', consecutiveFailures, lastError: syncError });
+    this.schedule(delayMs, true);
+  }
+
+  // Where a run lands when it finishes: stop() and going offline win over the result.
+  private settledPhase(): SyncSchedulerPhase {
+    if (!this.active) {
+      return 'stopped';
+    }
+    return this.state.online ? 'idle' : 'offline';
+  }
+
+  private schedule(delayMs: number, force = false): void {
+    const dueAtMs = this.now() + delayMs;
+    if (!force && this.timerDueAtMs !== null && this.timerDueAtMs <= dueAtMs) {
+      return;
+    }
+
+    this.clearTimer();
+    this.timerDueAtMs = dueAtMs;
+    this.timer = this.timers.setTimeout(() => {
+      this.timer = null;
+      this.timerDueAtMs = null;
+      this.syncNow().catch(() => undefined);
+    }, delayMs);
+    this.update({ nextAttemptAtMs: dueAtMs });
+  }
+
+  private openStream(): void {
+    if (!this.options.watchRemote || this.stream || this.reconnectTimer !== null || !this.active || !this.state.online) {
+      return;
+    }
+
+    this.streamGeneration += 1;
+    const generation = this.streamGeneration;
+    const stream = { generation, unsubscribe: null as Unsubscribe | null };
+    this.stream = stream;
+    const isCurrent = () => this.stream?.generation === generation;
+
+    this.options
+      .watchRemote(
+        (_cursor, ahead) => {
+          if (isCurrent()) {
+            this.handleRemoteCursor(ahead);
+          }
+        },
+        (error) => {
+          if (isCurrent()) {
+            this.handleStreamDropped(error);
+          }
+        },
+      )
+      .then((unsubscribe) => {
+        if (!isCurrent()) {
+          unsubscribe?.();
+          return;
+        }
+        // A null unsubscribe means the transport cannot stream; the stream slot
+        // stays taken so polling carries on without retrying.
+        stream.unsubscribe = unsubscribe;
+      })
+      .catch((error) => {
+        if (isCurrent()) {
+          this.handleStreamDropped(error);
+        }
+      });
+  }
+
+  private closeStream(): void {
+    this.stream?.unsubscribe?.();
+    this.stream = null;
+    if (this.reconnectTimer !== null) {
+      this.timers.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.state.streaming) {
+      this.update({ streaming: false });
+    }
+  }
+
+  private handleRemoteCursor(ahead: boolean): void {
+    if (!this.state.streaming) {
+      this.streamFailures = 0;
+      this.update({ streaming: true });
+    }
+
+    // Backoff yields too: a live stream shows the server is reachable again.
+    if (ahead && (this.state.phase === 'idle' || this.state.phase === 'syncing' || this.state.phase === 'backoff')) {
+      this.syncNow().catch(() => undefined);
+    }
+  }
+
+  // Fall back to interval polling and reconnect with the same backoff as failed syncs.
+  private handleStreamDropped(error: unknown): void {
+    this.stream?.unsubscribe?.();
+    this.stream = null;
+    this.streamFailures += 1;
+    if (this.state.streaming) {
+      this.update({ streaming: false });
+    }
+    if (!this.active || !this.state.online) {
+      return;
+    }
+
+    if (this.state.phase === 'idle') {
+      this.schedule(this.intervalMs);
+    }
+
+    const delayMs = this.backoffDelay(toSyncError(error).code, this.streamFailures);
+    if (delayMs === null) {
+      return;
+    }
+    this.reconnectTimer = this.timers.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openStream();
+    }, delayMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      this.timers.clearTimeout(this.timer);
+    }
+    this.timer = null;
+    this.timerDueAtMs = null;
+  }
+
+  private update(patch: Partial<SyncSchedulerState>): void {
+    this.state = { ...this.state, ...patch };
+    this.options.onState?.(this.getState());
+  }
+}
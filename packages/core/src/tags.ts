@@ -0,0 +1,39 @@
+/**
+ * `#tag` in running text: after a line start or whitespace, so URL fragments
+ * and `# Heading` lines do not count. Nested tags use slashes (`#garden/herbs`).
+ */
+const HASHTAG = /(?<=^|[\s(])#([\p{L}\p{M}\p{N}_-]+(?:\/[\p{L}\p{M}\p{N}_-]+)*)/gu;
+const TAG = /^[\p{L}\p{M}\p{N}_-]+(?:\/[\p{L}\p{M}\p{N}_-]+)*$/u;
+
+/** Lowercase without the leading `#`; null for values that are not a valid tag. */
+export function normalizeTag(value: string): string | null {
+  const tag = value.trim().replace(/^#/, '').normalize('NFC').toLowerCase();
+  // Purely numeric tags are issue numbers and list markers, not classification.
+  if (!TAG.test(tag) || /^\d+$/.test(tag)) {
+    return null;
+  }
+  return tag;
+}
+
+/** Normalized, deduplicated and sorted; invalid values are dropped. */
+export function normalizeTags(values: string[]): string[] {
+  const tags = new Set<string>();
+  for (const value of values) {
+    const tag = normalizeTag(value);
+    if (tag) {
+      tags.add(tag);
+    }
+  }
+  return Array.from(tags).sort();
+}
+
+/** Tags written inline as `#tag`, skipping fenced and inline code. */
+export function parseHashtags(body: string): string[] {
+  const text = body.replace(/```[\s\S]*?(```|$)/g, ' ').replace(/`[^`\n]*`/g, ' ');
+  return normalizeTags(Array.from(text.matchAll(HASHTAG), (match) => match[1]));
+}
+
+/** Tags of an atom: those set with `atom.tags.set` plus the hashtags in its body. */
+export function atomTags(atom: { body: string; assignedTags?: string[] }): string[] {
+  return normalizeTags([...(atom.assignedTags ?? []), ...parseHashtags(atom.body)]);
+}
@@ -0,0 +1,210 @@
+import {
+  TRANSCRIPT_SCHEMA_VERSION,
+  type SubtitleFormat,
+  type Transcript,
+  type TranscriptSegment,
+} from './types';
+
+const CUE_TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{3})/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function compareSegments(a: TranscriptSegment, b: TranscriptSegment): number {
+  return a.startMs - b.startMs || a.endMs - b.endMs;
+}
+
+function parseSegment(value: unknown, index: number): TranscriptSegment {
+  if (!isRecord(value)) {
+    throw new Error(`Invalid transcript: segments[${index}] must be an object`);
+  }
+  const { startMs, endMs, text, confidence, speaker } = value;
+  if (typeof startMs !== 'number' || !Number.isFinite(startMs) || startMs < 0) {
+    throw new Error(`Invalid transcript: segments[${index}].startMs must be a non-negative number`);
+  }
+  if (typeof endMs !== 'number' || !Number.isFinite(endMs) || endMs < startMs) {
+    throw new Error(`Invalid transcript: segments[${index}].endMs must not be before startMs`);
+  }
+  if (typeof text !== 'string') {
+    throw new Error(`Invalid transcript: segments[${index}].text must be a string`);
+  }
+  if (confidence !== undefined && (typeof confidence !== 'number' || confidence < 0 || confidence > 1)) {
+    throw new Error(`Invalid transcript: segments[${index}].confidence must be between 0 and 1`);
+  }
+  if (speaker !== undefined && typeof speaker !== 'string') {
+    throw new Error(`Invalid transcript: segments[${index}].speaker must be a string`);
+  }
+
+  return {
+    startMs,
+    endMs,
+    text,
+    ...(confidence !== undefined ? { confidence } : {}),
+    ...(speaker ? { speaker } : {}),
+  };
+}
+
+export function createTranscript(input: {
+  noteId: string;
+  source: Transcript['source'];
+  segments: TranscriptSegment[];
+  language?: string;
+  createdAtMs?: number;
+}): Transcript {
+  return {
+    schemaVersion: TRANSCRIPT_SCHEMA_VERSION,
+    noteId: input.noteId,
+    createdAtMs: input.createdAtMs ?? Date.now(),
+    source: input.source,
+    ...(input.language ? { language: input.language } : {}),
+    segments: input.segments.map(parseSegment).sort(compareSegments),
+  };
+}
+
+/** Validate a stored transcript; files from a newer app version are rejected. */
+export function parseTranscript(value: unknown): Transcript {
+  if (!isRecord(value)) {
+    throw new Error('Invalid transcript: expected an object');
+  }
+  if (typeof value.schemaVersion !== 'number' || value.schemaVersion < 1) {
+    throw new Error('Invalid transcript: schemaVersion is required');
+  }
+  if (value.schemaVersion > TRANSCRIPT_SCHEMA_VERSION) {
+    throw new Error(`Unsupported transcript schema version ${value.schemaVersion}`);
+  }
+  if (typeof value.noteId !== 'string' || !value.noteId) {
+    throw new Error('Invalid transcript: noteId is required');
+  }
+  if (typeof value.createdAtMs !== 'number') {
+    throw new Error('Invalid transcript: createdAtMs is required');
+  }
+  if (value.source !== 'whisper' && value.source !== 'import') {
+    throw new Error('Invalid transcript: source must be "whisper" or "import"');
+  }
+  if (value.language !== undefined && typeof value.language !== 'string') {
+    throw new Error('Invalid transcript: language must be a string');
+  }
+  if (!Array.isArray(value.segments)) {
+    throw new Error('Invalid transcript: segments must be an array');
+  }
+
+  return createTranscript({
+    noteId: value.noteId,
+    source: value.source,
+    segments: value.segments as TranscriptSegment[],
+    language: value.language,
+    createdAtMs: value.createdAtMs,
+  });
+}
+
+export function transcriptText(transcript: Transcript): string {
+  return transcript.segments
+    .map((segment) => segment.text.trim())
+    .filter((text) => text.length > 0)
+    .join(' ');
+}
+
+/** Index of the segment playing at `timeMs`, or -1 between segments. */
+export function segmentIndexAt(segments: TranscriptSegment[], timeMs: number): number {
+  return segments.findIndex((segment) => timeMs >= segment.startMs && timeMs < segment.endMs);
+}
+
+function formatCueTime(ms: number, separator: '.' | ','): string {
+  const rounded = Math.max(0, Math.round(ms));
+  const hours = Math.floor(rounded / 3_600_000);
+  const minutes = Math.floor((rounded % 3_600_000) / 60_000);
+  const seconds = Math.floor((rounded % 60_000) / 1000);
+  const millis = rounded % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function parseCueTime(value: string): number {
+  const [clock, millis] = value.split(/[.,]/);
+  const parts = clock.split(':').map(Number);
+  const [hours, minutes, seconds] = parts.length === 3 ? parts : [0, ...parts];
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + Number(millis);
+}
+
+function escapeCueText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function unescapeCueText(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+export function formatWebVtt(transcript: Transcript): string {
+  const cues = transcript.segments.map((segment, index) => {
+    const text = escapeCueText(segment.text.trim());
+    return [
+      String(index + 1),
+      `${formatCueTime(segment.startMs, '.')} --> ${formatCueTime(segment.endMs, '.')}`,
+      segment.speaker ? `<v ${segment.speaker}>${text}` : text,
+    ].join('\n');
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+/** SRT has no speaker or confidence fields, so both are dropped. */
+export function formatSrt(transcript: Transcript): string {
+  return transcript.segments
+    .map((segment, index) => [
+      String(index + 1),
+      `${formatCueTime(segment.startMs, ',')} --> ${formatCueTime(segment.endMs, ',')}`,
+      segment.text.trim(),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+export function formatSubtitles(transcript: Transcript, format: SubtitleFormat): string {
+  return format === 'vtt' ? formatWebVtt(transcript) : formatSrt(transcript);
+}
+
+/**
+ * Parse WebVTT or SRT cues into segments. WebVTT voice tags become speakers;
+ * other cue markup, NOTE/STYLE/REGION blocks and cue settings are dropped.
+ */
+export function parseSubtitles(content: string): TranscriptSegment[] {
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const isVtt = normalized.startsWith('WEBVTT');
+  const segments: TranscriptSegment[] = [];
+
+  for (const block of normalized.split(/\n{2,}/)) {
+    const lines = block.split('\n').filter((line) => line.trim().length > 0);
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1 || timingIndex > 1) {
+      continue;
+    }
+
+    const timing = lines[timingIndex].trim().match(CUE_TIMING);
+    if (!timing) {
+      throw new Error(`Invalid subtitle timing: ${lines[timingIndex].trim()}`);
+    }
+
+    let speaker: string | undefined;
+    let text = lines.slice(timingIndex + 1).join('\n');
+    if (isVtt) {
+      const voice = text.match(/^<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+      speaker = voice?.[1].trim();
+      text = unescapeCueText(text.replace(/<[^>]+>/g, ''));
+    }
+
+    segments.push({
+      startMs: parseCueTime(timing[1]),
+      endMs: parseCueTime(timing[2]),
+      text: text.trim(),
+      ...(speaker ? { speaker } : {}),
+    });
+  }
+
+  if (segments.length === 0) {
+    throw new Error('No subtitle cues found');
+  }
+  return segments.map(parseSegment).sort(compareSegments);
+}
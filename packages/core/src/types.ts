@@ -4,13 +4,27 @@ export const MIN_SUPPORTED_EVENT_SCHEMA_VERSION = 1;
 export type EventType =
   | 'capture.text.create'
   | 'atom.text.update'
+  | 'atom.delete'
+  | 'atom.archive'
+  | 'atom.restore'
+  | 'atom.tags.set'
+  | 'atom.link.add'
+  | 'atom.link.remove'
+  | 'conflict.resolve'
   | 'blob.add'
-  | 'changeset.suggest.create';
+  | 'link.create'
+  | 'changeset.suggest.create'
+  | 'changeset.review';
+
+/** Plain captures are notes; structures and concepts come from accepted changesets. */
+export type AtomKind = 'note' | 'structure' | 'concept';
 
 export interface CaptureTextCreatePayload {
   atomId: string;
   title?: string;
   body: string;
+  /** Omitted for notes. */
+  kind?: AtomKind;
 }
 
 export interface AtomTextUpdatePayload {
@@ -19,6 +33,49 @@ export interface AtomTextUpdatePayload {
   baseVersionId?: string;
 }
 
+export interface AtomDeletePayload {
+  atomId: string;
+  reason?: string;
+}
+
+export interface AtomArchivePayload {
+  atomId: string;
+}
+
+export interface AtomRestorePayload {
+  atomId: string;
+}
+
+/** Replaces the atom's assigned tags; `#tags` in its body apply regardless. */
+export interface AtomTagsSetPayload {
+  atomId: string;
+  tags: string[];
+}
+
+/** Links `atomId` to `targetAtomId`; adding an existing link replaces its relation. */
+export interface AtomLinkAddPayload {
+  atomId: string;
+  targetAtomId: string;
+  relation?: LinkRelation;
+}
+
+/** Drops explicit links from `atomId` to `targetAtomId`; wiki links in the body stay. */
+export interface AtomLinkRemovePayload {
+  atomId: string;
+  targetAtomId: string;
+}
+
+export interface ConflictResolvePayload {
+  conflictId: string;
+  atomId: string;
+  /** Head versions this resolution supersedes; heads created later stay open. */
+  versionIds: string[];
+  /** Keep one existing version as the new head. */
+  winningVersionId?: string;
+  /** Or write a merged body, which becomes a new version on top of the resolved heads. */
+  mergedBody?: string;
+}
+
 export interface BlobAddPayload {
   atomId?: string;
   hash: string;
@@ -27,17 +84,61 @@ export interface BlobAddPayload {
   extHint?: string;
 }
 
+export type LinkRelation =
+  | 'supports'
+  | 'contradicts'
+  | 'derives'
+  | 'part_of'
+  | 'similar_to'
+  | 'causes'
+  | 'regulated_by'
+  | 'defines';
+
+export interface LinkCreatePayload {
+  linkId: string;
+  sourceId: string;
+  targetId: string;
+  relation: LinkRelation;
+  note?: string;
+  /** Changeset the link was accepted from. */
+  changesetId?: string;
+}
+
 export interface ChangeSetSuggestCreatePayload {
   changesetId: string;
   noteIds: string[];
   summary?: string;
+  /** The full proposal; absent on suggestions recorded before changesets were stored in the log. */
+  changeset?: ChangeSet;
+}
+
+export type ChangeReviewDecision = 'accepted' | 'rejected';
+
+export interface ChangeSetReviewPayload {
+  changesetId: string;
+  /** `<section>:<index>` of the reviewed change, e.g. `adds:0`. */
+  changeKey: string;
+  decision: ChangeReviewDecision;
+  /** Events appended when the change was accepted, in order. */
+  eventIds?: string[];
+  /** Atom ids created for changeset-local ids (add ids, create-new merge ids). */
+  atomIds?: Record<string, string>;
 }
 
 export interface EventPayloadByType {
   'capture.text.create': CaptureTextCreatePayload;
   'atom.text.update': AtomTextUpdatePayload;
+  'atom.delete': AtomDeletePayload;
+  'atom.archive': AtomArchivePayload;
+  'atom.restore': AtomRestorePayload;
+  'atom.tags.set': AtomTagsSetPayload;
+  'atom.link.add': AtomLinkAddPayload;
+  'atom.link.remove': AtomLinkRemovePayload;
+  'conflict.resolve': ConflictResolvePayload;
   'blob.add': BlobAddPayload;
+  'link.create': LinkCreatePayload;
   'changeset.suggest.create': ChangeSetSuggestCreatePayload;
+  'changeset.review': ChangeSetReviewPayload;
 }
 
 export interface Event<TType extends EventType = EventType> {
@@ -84,6 +185,7 @@ export type SyncErrorCode =
   | 'HASH_MISMATCH'
   | 'QUOTA'
   | 'DISK_FULL'
+  | 'INVALID_EVENT'
   | 'SERVER_ERROR';
 
 export interface SyncError {
@@ -123,12 +225,16 @@ export interface AtomVersion {
   versionId: string;
   eventId: string;
   parentVersionId?: string;
+  /** Both parents of a version produced by merging concurrent heads. */
+  mergedFromVersionIds?: string[];
   body: string;
   createdAtMs: number;
   serverSeq?: number;
   localSeq?: number;
 }
 
+export type AtomLifecycleStatus = 'active' | 'archived' | 'deleted';
+
 export interface AtomRecord {
   atomId: string;
   title: string;
@@ -139,6 +245,42 @@ export interface AtomRecord {
   headVersionIds: string[];
   needsResolution: boolean;
   blobHashes: string[];
+  status: AtomLifecycleStatus;
+  archivedAtMs?: number;
+  deletedAtMs?: number;
+  /** Omitted for notes. */
+  kind?: AtomKind;
+  /** Set with `atom.tags.set`; omitted when empty. */
+  assignedTags?: string[];
+  /** Assigned tags plus `#tags` parsed from the body, sorted; omitted when empty. */
+  tags?: string[];
+  /** Added with `atom.link.add` or accepted `link.create`; omitted when empty. Wiki links stay in the body. */
+  links?: AtomLinkTarget[];
+}
+
+export interface AtomLinkTarget {
+  targetAtomId: string;
+  relation?: LinkRelation;
+}
+
+export interface LinkRecord {
+  sourceAtomId: string;
+  /** The text between the brackets for wiki links, the atom id for explicit ones. */
+  target: string;
+  origin: 'wiki' | 'explicit';
+  relation?: LinkRelation;
+  /** Omitted while no atom matches `target`. */
+  targetAtomId?: string;
+}
+
+export interface AtomLinks {
+  atomId: string;
+  /** Resolved links from the atom, wiki links first. */
+  outgoing: LinkRecord[];
+  /** Resolved links from other atoms to this one. */
+  backlinks: LinkRecord[];
+  /** Wiki link targets that match no atom yet, and explicit links to missing atoms. */
+  unresolved: string[];
 }
 
 export interface ConflictRecord {
@@ -149,8 +291,29 @@ export interface ConflictRecord {
   status: 'open' | 'resolved';
   createdAtMs: number;
   updatedAtMs: number;
+  resolvedAtMs?: number;
+  resolutionEventId?: string;
+  resolvedVersionId?: string;
+  /** Common ancestor the conflicting heads were merged against. */
+  baseVersionId?: string;
+  /** Overlapping edits that could not be merged automatically. */
+  hunks?: ConflictHunk[];
+  /** Merged body with conflict markers around each hunk. */
+  markedBody?: string;
 }
 
+export interface ConflictHunk {
+  /** Zero-based line in the base version where the hunk starts. */
+  baseStartLine: number;
+  base: string;
+  ours: string;
+  theirs: string;
+}
+
+export type ConflictResolution =
+  | { winningVersionId: string }
+  | { mergedBody: string };
+
 export interface InboxItem {
   id: string;
   atomId: string;
@@ -161,19 +324,36 @@ export interface InboxItem {
   sourceEventId: string;
   syncStatus: SyncItemStatus;
   needsResolution: boolean;
+  /** Set when an audio blob is attached, e.g. for voice captures. */
+  hasAudio?: boolean;
+  /** Omitted when the atom has no tags. */
+  tags?: string[];
   serverSeq?: number;
 }
 
 export interface ProjectionSnapshot {
   generatedAtMs: number;
   lastAppliedSeq: number;
+  /** Where the events folded after canonical ones end; missing in snapshots that must be rebuilt. */
+  provisional?: ProvisionalMark;
   atoms: AtomRecord[];
   atomVersions: AtomVersion[];
   conflicts: ConflictRecord[];
   inbox: InboxItem[];
+  /** Links of active and archived atoms; missing in snapshots saved before links existed. */
+  links?: LinkRecord[];
   referencedBlobs: string[];
 }
 
+export interface ProvisionalMark {
+  /** How many events were folded after canonical ones. */
+  count: number;
+  /** The last of them in fold order; omitted when there are none. */
+  last?: Pick<Event, 'eventId' | 'localSeq' | 'createdAtMs'>;
+  /** Folded events applied with a status other than saved_local or synced, e.g. syncing or sync_failed. */
+  statuses: Record<string, SyncItemStatus>;
+}
+
 export interface BlobManifestEntry {
   hash: string;
   size: number;
@@ -186,6 +366,156 @@ export interface BlobManifestEntry {
   updatedAtMs: number;
 }
 
+export interface CapturedMedia {
+  captureEvent: StoredEvent;
+  blobEvent: StoredEvent;
+  blob: BlobManifestEntry;
+}
+
+export const CHANGESET_SCHEMA_VERSION = '0.1';
+
+/** Notes a proposed change is based on. */
+export interface ChangeSetEvidence {
+  noteIds: string[];
+  excerpts?: string[];
+}
+
+export interface ChangeSetAdd {
+  /** Changeset-local id; links and merges in the same changeset may refer to it. */
+  id: string;
+  kind: AtomKind;
+  title: string;
+  content: string;
+  pathHint?: string;
+  evidence: ChangeSetEvidence;
+  confidence: number;
+}
+
+export interface ChangeSetEdit {
+  targetId: string;
+  targetKind: 'structure' | 'concept' | 'note';
+  patchFormat: 'unified' | 'json-patch' | 'replace-section';
+  patch: string | unknown[] | Record<string, unknown>;
+  rationale: string;
+  evidence: ChangeSetEvidence;
+  confidence: number;
+}
+
+export interface ChangeSetLink {
+  sourceId: string;
+  targetId: string;
+  relation: LinkRelation;
+  note?: string;
+  confidence: number;
+  evidence: ChangeSetEvidence;
+}
+
+export interface ChangeSetMerge {
+  mergeId: string;
+  strategy: 'create-new' | 'merge-into-existing';
+  fromIds: string[];
+  into: {
+    kind: 'structure' | 'concept';
+    id?: string;
+    title?: string;
+    content?: string;
+  };
+  rationale: string;
+  evidence: ChangeSetEvidence;
+  confidence: number;
+}
+
+export interface ChangeSetConflict {
+  conflictId: string;
+  type: 'contradiction' | 'duplication' | 'ambiguity';
+  items: Array<{
+    refType: 'note' | 'concept' | 'structure';
+    refId: string;
+    excerpt?: string;
+    claim?: string;
+  }>;
+  explanation: string;
+  resolutionOptions: Array<{
+    optionId: string;
+    title: string;
+    proposal?: string;
+    pros?: string[];
+    cons?: string[];
+  }>;
+  evidence: ChangeSetEvidence;
+  confidence: number;
+}
+
+/** An AI proposal as defined by `schemas/changeset-0.1.schema.json`. */
+export interface ChangeSet {
+  schemaVersion: typeof CHANGESET_SCHEMA_VERSION;
+  id: string;
+  createdAt: string;
+  provider: {
+    mode: 'online' | 'local';
+    name: string;
+    model: string;
+    baseUrl?: string;
+    thinking?: 'minimal' | 'low' | 'medium' | 'high';
+    metadata?: Record<string, unknown>;
+  };
+  input: {
+    noteIds: string[];
+    instruction?: string;
+    scope?: string;
+  };
+  summary: string;
+  changes: {
+    adds: ChangeSetAdd[];
+    edits: ChangeSetEdit[];
+    links: ChangeSetLink[];
+    merges: ChangeSetMerge[];
+    conflicts: ChangeSetConflict[];
+  };
+}
+
+export type ChangeSetSection = keyof ChangeSet['changes'];
+
+export interface ChangeReview {
+  decision: ChangeReviewDecision;
+  eventId: string;
+  reviewedAtMs: number;
+  eventIds: string[];
+}
+
+/** A suggested changeset folded with the review decisions recorded for it. */
+export interface ChangeSetState {
+  changeset: ChangeSet;
+  eventId: string;
+  suggestedAtMs: number;
+  /** Decisions by change key; changes without one are still pending. */
+  reviews: Record<string, ChangeReview>;
+  /** Atom ids created for changeset-local ids by accepted changes. */
+  atomIds: Record<string, string>;
+}
+
+export const TRANSCRIPT_SCHEMA_VERSION = 1;
+
+export interface TranscriptSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+  /** 0..1 when the recognizer reports it. */
+  confidence?: number;
+  speaker?: string;
+}
+
+export interface Transcript {
+  schemaVersion: number;
+  noteId: string;
+  createdAtMs: number;
+  source: 'whisper' | 'import';
+  language?: string;
+  segments: TranscriptSegment[];
+}
+
+export type SubtitleFormat = 'vtt' | 'srt';
+
 export interface ExportManifest {
   schemaVersion: '0.2';
   createdAtMs: number;
@@ -228,8 +558,16 @@ export interface PushRequest {
   events: Event[];
 }
 
+export interface PushRejection {
+  eventId: string;
+  code: SyncErrorCode;
+  message: string;
+}
+
 export interface PushResponse {
   accepted: EventServerSeqMapping[];
+  /** Events the server refused; they are not retried until the user intervenes. */
+  rejected?: PushRejection[];
   cursor: number;
   missingBlobHashes: string[];
 }
@@ -239,19 +577,82 @@ export interface PullRequest {
   userId: string;
   deviceId: string;
   cursor: number;
+  /** Maximum number of events to return; the server applies its own cap. */
+  limit?: number;
 }
 
 export interface PullResponse {
   events: Event[];
   cursor: number;
   conflicts: ConflictRecord[];
+  /** More events exist past `cursor`; pull again to catch up. */
+  hasMore?: boolean;
 }
 
+/** Stops a cursor subscription. */
+export type Unsubscribe = () => void;
+
 export interface SyncTransport {
   push(request: PushRequest): Promise<PushResponse>;
   pull(request: PullRequest): Promise<PullResponse>;
+  /**
+   * Listen for the workspace cursor advancing on the server. `onDisconnect`
+   * fires once if the stream drops; the subscription is not reopened.
+   */
+  subscribe?(
+    workspaceId: string,
+    onCursor: (cursor: number) => void,
+    onDisconnect?: (error: unknown) => void,
+  ): Unsubscribe;
   uploadBlob?(workspaceId: string, hash: string, contentType: string, bytes: Uint8Array): Promise<void>;
-  downloadBlob?(workspaceId: string, hash: string): Promise<Uint8Array>;
+  /** Fetch a blob, or only the given byte range of it when resuming a download. */
+  downloadBlob?(workspaceId: string, hash: string, range?: ByteRange): Promise<Uint8Array>;
+}
+
+/** Byte range with an inclusive end, as in an HTTP Range header. */
+export interface ByteRange {
+  start: number;
+  end?: number;
+}
+
+export interface SearchOptions {
+  /** Defaults to 20. */
+  limit?: number;
+  offset?: number;
+}
+
+/** `[start, end)` character offsets of a matched term. */
+export type TextRange = [number, number];
+
+export interface SearchHit {
+  atomId: string;
+  title: string;
+  titleHighlights: TextRange[];
+  /** Excerpt of the body (or transcript) around the best match. */
+  snippet: string;
+  snippetHighlights: TextRange[];
+  /** Higher is better; only comparable within one result set. */
+  score: number;
+}
+
+/** Per-atom term counts for adapters without a full-text engine, e.g. IndexedDB. */
+export interface SearchIndex {
+  documents: Record<string, SearchDocument>;
+}
+
+export interface SearchDocument {
+  title: string;
+  body: string;
+  /** Folded term -> occurrences; title occurrences are kept apart for weighting. */
+  titleTerms: Record<string, number>;
+  bodyTerms: Record<string, number>;
+  length: number;
+}
+
+export interface SearchResults {
+  hits: SearchHit[];
+  /** Matches before `limit` and `offset` were applied. */
+  total: number;
 }
 
 export interface StorageAdapter {
@@ -260,15 +661,34 @@ export interface StorageAdapter {
   allocateLocalSeq(): Promise<number>;
   upsertEvents(events: StoredEvent[]): Promise<void>;
   listEvents(): Promise<StoredEvent[]>;
+  /** Events with a server sequence above `serverSeq`, and every event without one. */
+  listEventsSince?(serverSeq: number): Promise<StoredEvent[]>;
+  /** Every event of the given atoms, see `eventAtomId`. */
+  listAtomEvents?(atomIds: string[]): Promise<StoredEvent[]>;
   assignServerSeq(mappings: EventServerSeqMapping[]): Promise<boolean>;
-  listPendingEvents(limit?: number): Promise<StoredEvent[]>;
+  /** Unsynced events in push order, skipping the first `offset` of them. */
+  listPendingEvents(limit?: number, offset?: number): Promise<StoredEvent[]>;
   updateEventStatus(eventId: string, status: SyncItemStatus, error?: SyncError | null): Promise<void>;
   saveProjection(snapshot: ProjectionSnapshot): Promise<void>;
+  /** Persist an incrementally updated snapshot, rewriting only the rows of the given atoms. */
+  saveProjectionChanges?(snapshot: ProjectionSnapshot, changedAtomIds: string[]): Promise<void>;
   getProjection(): Promise<ProjectionSnapshot | null>;
   saveBlobManifest(entries: BlobManifestEntry[]): Promise<void>;
   listBlobManifest(): Promise<BlobManifestEntry[]>;
+  /** Bytes of a locally present blob, or null when they are gone. Needed to upload blobs. */
+  readBlob?(hash: string): Promise<Uint8Array | null>;
+  /** Store bytes captured on this device and return their local path. Needed to capture media. */
+  writeBlob?(hash: string, bytes: Uint8Array, contentType: string): Promise<string>;
+  /** Bytes received so far for an unfinished download, or null when none was started. */
+  readBlobDownload?(hash: string): Promise<Uint8Array | null>;
+  /** Write a downloaded range at `offset`; offset 0 discards earlier bytes and starts over. */
+  writeBlobDownload?(hash: string, offset: number, bytes: Uint8Array): Promise<void>;
+  /** Move a verified download into blob storage and return its local path. */
+  finishBlobDownload?(hash: string, contentType: string): Promise<string>;
   saveSyncAttempt(attempt: SyncAttempt): Promise<void>;
   listSyncAttempts(limit: number): Promise<SyncAttempt[]>;
+  /** Ranked full-text search over active atoms, indexed as projections are saved. */
+  search?(query: string, options?: SearchOptions): Promise<SearchResults>;
 }
 
 export type ImportMode = 'restore' | 'clone';
@@ -281,3 +701,36 @@ export interface ImportBundle {
   conflicts?: ConflictRecord[];
   blobs?: BlobManifestEntry[];
 }
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/** The subset of JSON Schema (draft 2020-12) that `validation.ts` enforces. */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  const?: string | number | boolean | null;
+  enum?: Array<string | number>;
+  format?: 'date-time';
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  items?: JsonSchema;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  /** `false` rejects unknown keys; a schema checks every unknown key's value. */
+  additionalProperties?: boolean | JsonSchema;
+  /** Exactly one of these must match, e.g. one `required` key out of two. */
+  oneOf?: JsonSchema[];
+}
+
+export interface ValidationIssue {
+  /** Location of the offending value, e.g. `changes.links[0].relation`; empty for the value itself. */
+  path: string;
+  message: string;
+}
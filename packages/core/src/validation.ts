@@ -0,0 +1,211 @@
+import { CHANGESET_SCHEMA, EVENT_PAYLOAD_SCHEMAS, IMPORT_BUNDLE_SCHEMA } from './schemas';
+import { type EventType, type JsonSchema, type JsonSchemaType, type ValidationIssue } from './types';
+
+/** Issues listed in a thrown error; the rest are counted. */
+const MAX_REPORTED_ISSUES = 5;
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/i;
+
+const TYPE_NAMES: Record<JsonSchemaType, string> = {
+  object: 'an object',
+  array: 'an array',
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  boolean: 'a boolean',
+  null: 'null',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'object':
+      return isRecord(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeTypes(types: JsonSchemaType[]): string {
+  const names = types.map((type) => TYPE_NAMES[type]);
+  return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+}
+
+/** e.g. `winningVersionId or mergedBody` for options that each require a key. */
+function describeOptions(options: JsonSchema[]): string {
+  const names = options.map((option, index) => option.title ?? option.required?.join(' and ') ?? `option ${index + 1}`);
+  return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  if (!/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return `${path}[${JSON.stringify(key)}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+/** Resolve a local `#/...` reference against the schema resource it appears in. */
+function resolveRef(ref: string, resource: JsonSchema): JsonSchema {
+  if (!ref.startsWith('#/')) {
+    throw new Error(`Unsupported schema reference ${ref}`);
+  }
+  let target: unknown = resource;
+  for (const segment of ref.slice(2).split('/')) {
+    target = isRecord(target) ? target[segment.replace(/~1/g, '/').replace(/~0/g, '~')] : undefined;
+  }
+  if (!isRecord(target)) {
+    throw new Error(`Unresolved schema reference ${ref}`);
+  }
+  return target as JsonSchema;
+}
+
+function check(schema: JsonSchema, value: unknown, path: string, resource: JsonSchema, issues: ValidationIssue[]): void {
+  // An embedded schema with its own $id (e.g. the changeset inside a payload) resolves refs against itself.
+  const base = schema.$id ? schema : resource;
+  if (schema.$ref) {
+    check(resolveRef(schema.$ref, base), value, path, base, issues);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({ path, message: `must be ${describeTypes(types)}` });
+      return;
+    }
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    issues.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ path, message: `must be one of ${schema.enum.join(', ')}` });
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} character${schema.minLength === 1 ? '' : 's'}` });
+    }
+    if (schema.format === 'date-time' && (!ISO_DATE_TIME.test(value) || !Number.isFinite(Date.parse(value)))) {
+      issues.push({ path, message: 'must be an ISO 8601 date-time' });
+    }
+  }
+
+  if (typeof value === 'number') {
+    const { minimum, maximum } = schema;
+    if ((minimum !== undefined && value < minimum) || (maximum !== undefined && value > maximum)) {
+      const range = minimum !== undefined && maximum !== undefined
+        ? `between ${minimum} and ${maximum}`
+        : minimum !== undefined ? `at least ${minimum}` : `at most ${maximum}`;
+      issues.push({ path, message: `must be ${range}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}` });
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) => check(items, item, childPath(path, index), base, issues));
+    }
+  }
+
+  if (isRecord(value)) {
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        issues.push({ path: childPath(path, key), message: 'is required' });
+      }
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      // Optional keys set to undefined are dropped by JSON and treated as absent.
+      if (entry === undefined) {
+        continue;
+      }
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        check(propertySchema, entry, childPath(path, key), base, issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath(path, key), message: 'is not allowed' });
+      } else if (isRecord(schema.additionalProperties)) {
+        check(schema.additionalProperties, entry, childPath(path, key), base, issues);
+      }
+    }
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((option) => {
+      const optionIssues: ValidationIssue[] = [];
+      check(option, value, path, base, optionIssues);
+      return optionIssues.length === 0;
+    });
+    if (matches.length !== 1) {
+      issues.push({ path, message: `must have exactly one of ${describeOptions(schema.oneOf)}` });
+    }
+  }
+}
+
+/**
+ * Check `value` against `schema` and list every problem with its path.
+ * `path` prefixes the reported paths when `value` sits inside a larger document.
+ */
+export function validateJson(schema: JsonSchema, value: unknown, path = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  check(schema, value, path, schema, issues);
+  return issues;
+}
+
+/** e.g. `Invalid changeset: changes.links[0].relation must be one of supports, ...` */
+export function formatValidationIssues(label: string, issues: ValidationIssue[]): string {
+  const listed = issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map((issue) => (issue.path ? `${issue.path} ${issue.message}` : issue.message));
+  const more = issues.length > MAX_REPORTED_ISSUES ? ` (and ${issues.length - MAX_REPORTED_ISSUES} more)` : '';
+  return `Invalid ${label}: ${listed.join('; ')}${more}`;
+}
+
+/** Throw a path-based report unless `value` matches `schema`. */
+export function assertValid<T>(schema: JsonSchema, value: unknown, label: string): T {
+  const issues = validateJson(schema, value);
+  if (issues.length > 0) {
+    throw new Error(formatValidationIssues(label, issues));
+  }
+  return value as T;
+}
+
+export function validateChangeSet(value: unknown): ValidationIssue[] {
+  return validateJson(CHANGESET_SCHEMA, value);
+}
+
+/** Paths are reported from the event, e.g. `payload.body`. */
+export function validateEventPayload(type: EventType, payload: unknown): ValidationIssue[] {
+  return validateJson(EVENT_PAYLOAD_SCHEMAS[type], payload, 'payload');
+}
+
+export function assertValidEventPayload(type: EventType, payload: unknown): void {
+  const issues = validateEventPayload(type, payload);
+  if (issues.length > 0) {
+    throw new Error(formatValidationIssues(`event payload for ${type}`, issues));
+  }
+}
+
+/** Structure of an import bundle; events are checked one by one on import. */
+export function validateImportBundleStructure(value: unknown): ValidationIssue[] {
+  return validateJson(IMPORT_BUNDLE_SCHEMA, value);
+}
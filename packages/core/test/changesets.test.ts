@@ -0,0 +1,168 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  type ChangeSet,
+  InMemoryStorageAdapter,
+  SyncEngine,
+  applyUnifiedPatch,
+  createDisabledSyncTransport,
+  parseChangeSet,
+  replaceSection,
+} from '../src/index';
+
+function createEngine(): { engine: SyncEngine; storage: InMemoryStorageAdapter } {
+  const storage = new InMemoryStorageAdapter({
+    workspaceId: 'workspace-1',
+    userId: 'user-1',
+    deviceId: 'device-a',
+    nextLocalSeq: 1,
+    lastPulledSeq: 0,
+    lastAppliedSeq: 0,
+    projectionDirty: false,
+  });
+  return { engine: new SyncEngine({ storage, transport: createDisabledSyncTransport() }), storage };
+}
+
+function buildChangeset(): ChangeSet {
+  const evidence = { noteIds: ['atom-rain'] };
+  return {
+    schemaVersion: '0.1',
+    id: 'cs_20260101_0001',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    provider: { mode: 'local', name: 'fake', model: 'fake-1' },
+    input: { noteIds: ['atom-rain', 'atom-wells'] },
+    summary: 'Group the water notes',
+    changes: {
+      adds: [{ id: 'add-water', kind: 'structure', title: 'Water', content: '# Water\n\n## Sources\n\nRain', evidence, confidence: 0.9 }],
+      edits: [{
+        targetId: 'atom-rain',
+        targetKind: 'note',
+        patchFormat: 'unified',
+        patch: '@@ -1,2 +1,2 @@\n Rain falls\n-in spring\n+in spring and autumn\n',
+        rationale: 'Second season mentioned in the wells note',
+        evidence,
+        confidence: 0.7,
+      }],
+      links: [{ sourceId: 'add-water', targetId: 'atom-wells', relation: 'part_of', evidence, confidence: 0.8 }],
+      merges: [{
+        mergeId: 'merge-water',
+        strategy: 'create-new',
+        fromIds: ['atom-rain', 'atom-wells'],
+        into: { kind: 'concept', title: 'Water supply' },
+        rationale: 'Both describe where water comes from',
+        evidence,
+        confidence: 0.6,
+      }],
+      conflicts: [],
+    },
+  };
+}
+
+test('changesets are checked against the schema with the failing path', () => {
+  const changeset = buildChangeset();
+  assert.equal(parseChangeSet(changeset), changeset);
+
+  const badRelation = buildChangeset();
+  (badRelation.changes.links[0] as { relation: string }).relation = 'likes';
+  assert.throws(() => parseChangeSet(badRelation), /changes\.links\[0\]\.relation must be one of supports/);
+
+  const badConfidence = buildChangeset();
+  badConfidence.changes.adds[0].confidence = 1.5;
+  assert.throws(() => parseChangeSet(badConfidence), /changes\.adds\[0\]\.confidence/);
+
+  const { edits: _edits, ...missingEdits } = buildChangeset().changes;
+  assert.throws(
+    () => parseChangeSet({ ...buildChangeset(), changes: missingEdits }),
+    /changes\.edits is required/,
+  );
+  assert.throws(() => parseChangeSet({ ...buildChangeset(), schemaVersion: '0.2' }), /schemaVersion must be "0\.1"/);
+});
+
+test('unified and section patches apply exactly or not at all', () => {
+  const body = 'Rain falls\nin spring\n\nWells fill';
+  assert.equal(
+    applyUnifiedPatch(body, '@@ -2,1 +2,2 @@\n-in spring\n+in spring\n+and autumn\n'),
+    'Rain falls\nin spring\nand autumn\n\nWells fill',
+  );
+  assert.throws(() => applyUnifiedPatch(body, '@@ -2,1 +2,1 @@\n-in winter\n+in autumn\n'), /does not apply at line 2/);
+
+  const doc = '# Water\n\n## Sources\n\nRain\n\n## Uses\n\nFarming';
+  assert.equal(replaceSection(doc, 'Sources', 'Rain and wells'), '# Water\n\n## Sources\n\nRain and wells\n\n## Uses\n\nFarming');
+  assert.equal(replaceSection('# Water', 'Risks', 'Drought'), '# Water\n\n## Risks\n\nDrought\n');
+});
+
+test('accepted changes become atom and link events; rejected ones change nothing', async () => {
+  const { engine, storage } = createEngine();
+  await engine.captureText({ atomId: 'atom-rain', title: 'Rain', body: 'Rain falls\nin spring' });
+  await engine.captureText({ atomId: 'atom-wells', title: 'Wells', body: 'Wells fill in autumn' });
+
+  await engine.suggestChangeset(buildChangeset());
+  await assert.rejects(engine.suggestChangeset(buildChangeset()), /already suggested/);
+
+  // A link to an addition that has not been accepted would dangle.
+  await assert.rejects(
+    engine.reviewChange({ changesetId: 'cs_20260101_0001', changeKey: 'links:0', decision: 'accepted' }),
+    /refers to add-water/,
+  );
+
+  const added = await engine.reviewChange({ changesetId: 'cs_20260101_0001', changeKey: 'adds:0', decision: 'accepted' });
+  await engine.reviewChange({ changesetId: 'cs_20260101_0001', changeKey: 'links:0', decision: 'accepted' });
+  await engine.reviewChange({ changesetId: 'cs_20260101_0001', changeKey: 'edits:0', decision: 'accepted' });
+  await engine.reviewChange({ changesetId: 'cs_20260101_0001', changeKey: 'merges:0', decision: 'rejected' });
+  await assert.rejects(
+    engine.reviewChange({ changesetId: 'cs_20260101_0001', changeKey: 'merges:0', decision: 'accepted' }),
+    /already rejected/,
+  );
+
+  const [state] = await engine.listChangesets();
+  const structureId = state.atomIds['add-water'];
+  assert.deepEqual(Object.keys(state.reviews).sort(), ['adds:0', 'edits:0', 'links:0', 'merges:0']);
+  assert.equal(state.reviews['adds:0'].eventId, added.eventId);
+  assert.equal(state.reviews['merges:0'].decision, 'rejected');
+  assert.deepEqual(state.reviews['merges:0'].eventIds, []);
+
+  const projection = await storage.getProjection();
+  const atoms = new Map(projection?.atoms.map((atom) => [atom.atomId, atom]));
+  assert.equal(atoms.get(structureId)?.kind, 'structure');
+  assert.equal(atoms.get(structureId)?.title, 'Water');
+  assert.equal(atoms.get('atom-rain')?.body, 'Rain falls\nin spring and autumn');
+  assert.equal(atoms.get('atom-rain')?.kind, undefined);
+  assert.equal(atoms.size, 3, 'the rejected merge created nothing');
+
+  const events = await storage.listEvents();
+  const link = events.find((event) => event.type === 'link.create');
+  assert.deepEqual(link?.payload, {
+    linkId: (link?.payload as { linkId: string }).linkId,
+    sourceId: structureId,
+    targetId: 'atom-wells',
+    relation: 'part_of',
+    changesetId: 'cs_20260101_0001',
+  });
+  assert.deepEqual(state.reviews['links:0'].eventIds, [link?.eventId]);
+});
+
+test('a create-new merge archives its sources behind derives links', async () => {
+  const { engine, storage } = createEngine();
+  await engine.captureText({ atomId: 'atom-rain', body: 'Rain falls\nin spring' });
+  await engine.captureText({ atomId: 'atom-wells', body: 'Wells fill in autumn' });
+  await engine.suggestChangeset(buildChangeset());
+
+  await engine.reviewChange({ changesetId: 'cs_20260101_0001', changeKey: 'merges:0', decision: 'accepted' });
+
+  const [state] = await engine.listChangesets();
+  const mergedId = state.atomIds['merge-water'];
+  const projection = await storage.getProjection();
+  const atoms = new Map(projection?.atoms.map((atom) => [atom.atomId, atom]));
+  assert.equal(atoms.get(mergedId)?.body, 'Rain falls\nin spring\n\nWells fill in autumn');
+  assert.equal(atoms.get(mergedId)?.kind, 'concept');
+  assert.equal(atoms.get('atom-rain')?.status, 'archived');
+  assert.equal(atoms.get('atom-wells')?.status, 'archived');
+
+  const links = (await storage.listEvents())
+    .filter((event) => event.type === 'link.create')
+    .map((event) => event.payload as { sourceId: string; targetId: string; relation: string });
+  assert.deepEqual(
+    links.map((entry) => [entry.sourceId, entry.targetId, entry.relation]),
+    [[mergedId, 'atom-rain', 'derives'], [mergedId, 'atom-wells', 'derives']],
+  );
+});
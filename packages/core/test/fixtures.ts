@@ -0,0 +1,17 @@
+import { type AtomRecord } from '../src/index';
+
+/** A projected atom with just enough metadata for search and embedding tests. */
+export function atom(atomId: string, title: string, body: string, status: AtomRecord['status'] = 'active'): AtomRecord {
+  return {
+    atomId,
+    title,
+    body,
+    createdAtMs: 1_000,
+    updatedAtMs: 1_000,
+    captureEventId: `evt_${atomId}`,
+    headVersionIds: [`ver_${atomId}`],
+    needsResolution: false,
+    blobHashes: [],
+    status,
+  };
+}
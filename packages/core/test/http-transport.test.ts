@@ -0,0 +1,129 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type ServerResponse } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { createHttpSyncTransport } from '../src/index';
+
+function waitFor(predicate: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const poll = () => {
+      if (predicate()) {
+        resolve();
+      } else if (Date.now() - startedAt > 2_000) {
+        reject(new Error('Timed out waiting for condition'));
+      } else {
+        setTimeout(poll, 5);
+      }
+    };
+    poll();
+  });
+}
+
+test('subscribe parses cursor events and reports a dropped stream', async () => {
+  const streams: ServerResponse[] = [];
+  let requestedUrl = '';
+  let authorization = '';
+  const server = createServer((req, res) => {
+    requestedUrl = req.url ?? '';
+    authorization = req.headers.authorization ?? '';
+    res.writeHead(200, { 'content-type': 'text/event-stream' });
+    res.write('id: 3\nevent: cursor\ndata: {"cursor":3}\n\n');
+    streams.push(res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const transport = createHttpSyncTransport({ baseUrl: `http://127.0.0.1:${port}/`, token: 'token-1' });
+    const cursors: number[] = [];
+    const disconnects: unknown[] = [];
+    transport.subscribe!('ws 1', (cursor) => cursors.push(cursor), (error) => disconnects.push(error));
+
+    await waitFor(() => cursors.length === 1);
+    assert.equal(requestedUrl, '/sync/stream?workspaceId=ws%201');
+    assert.equal(authorization, 'Bearer token-1');
+
+    // Keepalives are ignored and an event split across writes is reassembled.
+    streams[0].write(': keepalive\n\n');
+    streams[0].write('event: cursor\r\nda');
+    streams[0].write('ta: {"cursor":9}\r\n\r\n');
+    await waitFor(() => cursors.length === 2);
+    assert.deepEqual(cursors, [3, 9]);
+
+    streams[0].end();
+    await waitFor(() => disconnects.length === 1);
+    assert.match(String(disconnects[0]), /stream closed/);
+
+    // Unsubscribing is not reported as a disconnect.
+    const quiet: unknown[] = [];
+    const unsubscribe = transport.subscribe!('ws 1', () => undefined, (error) => quiet.push(error));
+    await waitFor(() => streams.length === 2);
+    unsubscribe();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.deepEqual(quiet, []);
+  } finally {
+    for (const stream of streams) {
+      stream.destroy();
+    }
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
+
+test('a refused access token is renewed once and the request retried', async () => {
+  const refreshes: string[] = [];
+  let validToken = 'token-2';
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      if (req.url === '/auth/refresh') {
+        const { refreshToken } = JSON.parse(body) as { refreshToken: string };
+        refreshes.push(refreshToken);
+        if (refreshToken !== 'refresh-1') {
+          res.writeHead(401).end('{"code":"AUTH"}');
+          return;
+        }
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ token: 'token-2', refreshToken: 'refresh-2', expiresAtMs: 1, refreshExpiresAtMs: 2 }));
+        return;
+      }
+      if (req.headers.authorization !== `Bearer ${validToken}`) {
+        res.writeHead(401).end('{"code":"AUTH","message":"Missing or invalid token"}');
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ events: [], nextCursor: 0, hasMore: false }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const pull = { workspaceId: 'workspace-1', userId: 'user-1', deviceId: 'device-a', cursor: 0 };
+    const renewed: string[] = [];
+    const transport = createHttpSyncTransport({
+      baseUrl: `http://127.0.0.1:${port}`,
+      token: 'token-1',
+      refreshToken: 'refresh-1',
+      onSessionRefreshed: (session) => renewed.push(session.refreshToken),
+    });
+
+    // Requests refused together share one refresh, since refresh tokens are single use.
+    await Promise.all([transport.pull(pull), transport.pull(pull)]);
+    assert.deepEqual(refreshes, ['refresh-1']);
+    assert.deepEqual(renewed, ['refresh-2']);
+
+    validToken = 'token-3';
+    await assert.rejects(transport.pull(pull), /AUTH/);
+    assert.deepEqual(refreshes, ['refresh-1', 'refresh-2']);
+
+    const withoutRefresh = createHttpSyncTransport({ baseUrl: `http://127.0.0.1:${port}`, token: 'token-1' });
+    await assert.rejects(withoutRefresh.pull(pull), /AUTH/);
+    assert.equal(refreshes.length, 2);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
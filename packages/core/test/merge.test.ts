@@ -0,0 +1,81 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { type AtomVersion, findCommonAncestor, mergeText } from '../src/index';
+
+test('edits to different paragraphs merge cleanly', () => {
+  const base = 'Intro\n\nMiddle\n\nOutro';
+  const result = mergeText(base, 'Intro, revised\n\nMiddle\n\nOutro', 'Intro\n\nMiddle\n\nOutro, revised\n\nAppendix');
+
+  assert.equal(result.clean, true);
+  assert.deepEqual(result.hunks, []);
+  assert.equal(result.body, 'Intro, revised\n\nMiddle\n\nOutro, revised\n\nAppendix');
+});
+
+test('identical edits on both sides are not a conflict', () => {
+  const result = mergeText('a\nb\nc', 'a\nB\nc', 'a\nB\nc');
+
+  assert.equal(result.clean, true);
+  assert.equal(result.body, 'a\nB\nc');
+});
+
+test('overlapping edits produce hunks and conflict markers', () => {
+  const result = mergeText('title\nshared line\nfooter', 'title\nours line\nfooter', 'title\ntheirs line\nfooter', {
+    ours: 'v-a',
+    base: 'v-base',
+    theirs: 'v-b',
+  });
+
+  assert.equal(result.clean, false);
+  assert.deepEqual(result.hunks, [{ baseStartLine: 1, base: 'shared line', ours: 'ours line', theirs: 'theirs line' }]);
+  assert.equal(
+    result.body,
+    [
+      'title',
+      '<<<<<<< v-a',
+      'ours line',
+      '||||||| v-base',
+      'shared line',
+      '=======',
+      'theirs line',
+      '>>>>>>> v-b',
+      'footer',
+    ].join('\n'),
+  );
+});
+
+test('long notes edited throughout still merge without a quadratic table', () => {
+  const base = Array.from({ length: 5000 }, (_, index) => `line ${index}`);
+  const ours = base.map((line, index) => (index % 50 === 0 ? `${line}, ours` : line));
+  const theirs = base.map((line, index) => (index % 50 === 25 ? `${line}, theirs` : line));
+  const expected = base.map((line, index) => (index % 50 === 0 ? `${line}, ours` : index % 50 === 25 ? `${line}, theirs` : line));
+
+  const result = mergeText(base.join('\n'), ours.join('\n'), theirs.join('\n'));
+
+  assert.equal(result.clean, true);
+  assert.equal(result.body, expected.join('\n'));
+});
+
+test('common ancestor follows parents through merged versions', () => {
+  const version = (versionId: string, extra: Partial<AtomVersion> = {}): AtomVersion => ({
+    atomId: 'atom-1',
+    versionId,
+    eventId: versionId,
+    body: versionId,
+    createdAtMs: 0,
+    ...extra,
+  });
+  const versions = new Map<string, AtomVersion>(
+    [
+      version('root'),
+      version('left', { parentVersionId: 'root' }),
+      version('right', { parentVersionId: 'root' }),
+      version('merged', { parentVersionId: 'left', mergedFromVersionIds: ['left', 'right'] }),
+      version('after-merge', { parentVersionId: 'merged' }),
+      version('after-right', { parentVersionId: 'right' }),
+    ].map((entry) => [entry.versionId, entry]),
+  );
+
+  assert.equal(findCommonAncestor(versions, 'left', 'right')?.versionId, 'root');
+  assert.equal(findCommonAncestor(versions, 'after-merge', 'after-right')?.versionId, 'right');
+  assert.equal(findCommonAncestor(versions, 'left', 'missing'), undefined);
+});
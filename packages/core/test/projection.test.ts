@@ -0,0 +1,202 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  type StoredEvent,
+  appendToProjection,
+  buildProjection,
+  generateEventId,
+  linksForAtom,
+  parseHashtags,
+  parseWikiLinks,
+  updateProjection,
+} from '../src/index';
+
+function captureEvent(index: number, serverSeq?: number): StoredEvent {
+  return {
+    eventId: generateEventId(),
+    eventSchemaVersion: 1,
+    type: 'capture.text.create',
+    createdAtMs: 1_700_000_000_000 + index,
+    deviceId: 'device-A',
+    workspaceId: 'workspace-1',
+    localSeq: index + 1,
+    serverSeq,
+    syncStatus: serverSeq ? 'synced' : 'saved_local',
+    payload: { atomId: `atom-${index}`, body: `Capture ${index}\nwith a second line` },
+  };
+}
+
+function updateEvent(atomId: string, body: string, localSeq: number): StoredEvent {
+  return {
+    eventId: generateEventId(),
+    eventSchemaVersion: 1,
+    type: 'atom.text.update',
+    createdAtMs: 1_800_000_000_000 + localSeq,
+    deviceId: 'device-A',
+    workspaceId: 'workspace-1',
+    localSeq,
+    syncStatus: 'saved_local',
+    payload: { atomId, body },
+  };
+}
+
+test('updateProjection rebuilds when canonical events land before applied provisional ones', () => {
+  const synced = captureEvent(0, 1);
+  const provisional = captureEvent(1);
+  const snapshot = buildProjection([synced, provisional]);
+  assert.deepEqual(snapshot.provisional, {
+    count: 1,
+    last: { eventId: provisional.eventId, localSeq: 2, createdAtMs: provisional.createdAtMs },
+    statuses: {},
+  });
+
+  const pulled = { ...captureEvent(2, 2), deviceId: 'device-B' };
+  assert.equal(updateProjection(snapshot, [synced, provisional, pulled]), null);
+
+  const accepted = { ...provisional, serverSeq: 2, syncStatus: 'synced' as const };
+  const update = updateProjection(snapshot, [synced, accepted, { ...pulled, serverSeq: 3 }]);
+  assert.ok(update);
+  assert.equal(update.snapshot.lastAppliedSeq, 3);
+  assert.deepEqual(update.snapshot.provisional, { count: 0, statuses: {} });
+  assert.equal(update.snapshot.inbox.find((item) => item.atomId === 'atom-1')?.syncStatus, 'synced');
+});
+
+test('appended local events extend the provisional mark and status changes are still noticed', () => {
+  const log = [captureEvent(0)];
+  let snapshot = buildProjection(log);
+  for (let index = 1; index <= 3; index += 1) {
+    const next = captureEvent(index);
+    log.push(next);
+    const update = appendToProjection(snapshot, next, []);
+    assert.ok(update);
+    snapshot = update.snapshot;
+  }
+  assert.deepEqual(snapshot, { ...buildProjection(log), generatedAtMs: snapshot.generatedAtMs });
+
+  // An event sorting among the folded ones cannot be appended and forces a rebuild.
+  const late = { ...captureEvent(4), localSeq: 2 };
+  assert.equal(appendToProjection(snapshot, late, []), null);
+  assert.equal(updateProjection(snapshot, [...log, late]), null);
+
+  // A rejection carries no server sequence, so the mark remembers the new status.
+  const rejected = log.map((event) => (event === log[1] ? { ...event, syncStatus: 'sync_failed' as const } : event));
+  const update = updateProjection(snapshot, rejected);
+  assert.ok(update);
+  assert.deepEqual(update.changedAtomIds, ['atom-1']);
+  assert.equal(update.snapshot.inbox.find((item) => item.atomId === 'atom-1')?.syncStatus, 'sync_failed');
+  assert.deepEqual(update.snapshot.provisional?.statuses, { [log[1].eventId]: 'sync_failed' });
+  assert.deepEqual(updateProjection(update.snapshot, rejected)?.changedAtomIds, []);
+});
+
+function tagsEvent(atomId: string, tags: string[], localSeq: number): StoredEvent {
+  return {
+    eventId: generateEventId(),
+    eventSchemaVersion: 1,
+    type: 'atom.tags.set',
+    createdAtMs: 1_800_000_000_000 + localSeq,
+    deviceId: 'device-A',
+    workspaceId: 'workspace-1',
+    localSeq,
+    syncStatus: 'saved_local',
+    payload: { atomId, tags },
+  };
+}
+
+test('hashtags are parsed from running text only', () => {
+  assert.deepEqual(
+    parseHashtags('# Heading\nPlant #Basil and #garden/herbs (#seeds), not a#b or #42.\n`#code` see https://x.io/#frag\n```\n#fenced\n```'),
+    ['basil', 'garden/herbs', 'seeds'],
+  );
+});
+
+test('assigned tags and body hashtags project into atoms and the inbox', () => {
+  const capture = { ...captureEvent(0), payload: { atomId: 'atom-0', body: 'Water the #Garden' } };
+  const assigned = tagsEvent('atom-0', ['#Herbs', 'garden', '12'], 2);
+  let snapshot = buildProjection([capture, assigned]);
+  assert.deepEqual(snapshot.atoms[0].assignedTags, ['garden', 'herbs']);
+  assert.deepEqual(snapshot.atoms[0].tags, ['garden', 'herbs']);
+  assert.deepEqual(snapshot.inbox[0].tags, ['garden', 'herbs']);
+
+  const log = [capture, assigned, tagsEvent('atom-0', [], 3), updateEvent('atom-0', 'Water the #lawn', 4)];
+  const update = updateProjection(snapshot, log);
+  assert.ok(update);
+  snapshot = update.snapshot;
+  assert.equal(snapshot.atoms[0].assignedTags, undefined);
+  assert.deepEqual(snapshot.atoms[0].tags, ['lawn']);
+  assert.deepEqual(snapshot.inbox[0].tags, ['lawn']);
+  assert.deepEqual(buildProjection(log).atoms[0], snapshot.atoms[0]);
+});
+
+function linkEvent(type: 'atom.link.add' | 'atom.link.remove', atomId: string, targetAtomId: string, localSeq: number): StoredEvent {
+  return { ...tagsEvent(atomId, [], localSeq), type, payload: { atomId, targetAtomId } };
+}
+
+function noteEvent(atomId: string, title: string, body: string, localSeq: number): StoredEvent {
+  return { ...captureEvent(localSeq - 1), payload: { atomId, title, body } };
+}
+
+test('wiki links are parsed outside code and deduplicated by target', () => {
+  assert.deepEqual(
+    parseWikiLinks('See [[Basil]], [[basil|the herb]] and [[ atom-9 ]].\n`[[code]]` [[]] [[broken\nlink]]'),
+    ['Basil', 'atom-9'],
+  );
+});
+
+test('links resolve by id before title and report backlinks and unresolved targets', () => {
+  const log = [
+    noteEvent('atom-plan', 'Plan', 'Plant [[Basil]] near [[atom-soil]] and [[Compost]].', 1),
+    noteEvent('atom-basil', 'Basil', 'Sun lover', 2),
+    noteEvent('atom-soil', 'Soil', 'Loam', 3),
+    linkEvent('atom.link.add', 'atom-basil', 'atom-soil', 4),
+  ];
+  const snapshot = buildProjection(log);
+  const plan = linksForAtom(snapshot.links ?? [], 'atom-plan');
+  assert.deepEqual(plan.outgoing.map((link) => [link.target, link.targetAtomId]), [
+    ['Basil', 'atom-basil'],
+    ['atom-soil', 'atom-soil'],
+  ]);
+  assert.deepEqual(plan.unresolved, ['Compost']);
+  assert.deepEqual(
+    linksForAtom(snapshot.links ?? [], 'atom-soil').backlinks.map((link) => [link.sourceAtomId, link.origin]),
+    [['atom-plan', 'wiki'], ['atom-basil', 'explicit']],
+  );
+
+  // A compost note resolves the dangling link; removing the explicit link drops the backlink.
+  const grown = [...log, noteEvent('atom-compost', 'compost', 'Heap', 5), linkEvent('atom.link.remove', 'atom-basil', 'atom-soil', 6)];
+  const update = updateProjection(snapshot, grown);
+  assert.ok(update);
+  assert.deepEqual(update.snapshot.links, buildProjection(grown).links);
+  assert.deepEqual(linksForAtom(update.snapshot.links ?? [], 'atom-plan').unresolved, []);
+  assert.deepEqual(linksForAtom(update.snapshot.links ?? [], 'atom-soil').backlinks.map((link) => link.sourceAtomId), ['atom-plan']);
+});
+
+test('incremental updates only reduce the atoms their events touch', () => {
+  const events = Array.from({ length: 50 }, (_, index) => captureEvent(index, index + 1));
+  const snapshot = buildProjection(events);
+
+  const log = [...events, updateEvent('atom-7', 'edited', 1)];
+  const update = updateProjection(snapshot, log);
+  assert.ok(update);
+  assert.deepEqual(update.changedAtomIds, ['atom-7']);
+  assert.equal(update.snapshot.atoms.find((atom) => atom.atomId === 'atom-7')?.body, 'edited');
+
+  // Untouched atoms and inbox items are carried over as they were, not rebuilt.
+  const previousAtoms = new Map(snapshot.atoms.map((atom) => [atom.atomId, atom]));
+  const previousInbox = new Map(snapshot.inbox.map((item) => [item.atomId, item]));
+  for (const atom of update.snapshot.atoms) {
+    assert.equal(atom === previousAtoms.get(atom.atomId), atom.atomId !== 'atom-7', atom.atomId);
+  }
+  for (const item of update.snapshot.inbox) {
+    assert.equal(item === previousInbox.get(item.atomId), item.atomId !== 'atom-7', item.atomId);
+  }
+});
+
+test('incremental updates need only unapplied events and the history of their atoms', () => {
+  const events = Array.from({ length: 5 }, (_, index) => captureEvent(index, index + 1));
+  const snapshot = buildProjection(events);
+
+  const edit = updateEvent('atom-2', 'edited', 1);
+  const update = updateProjection(snapshot, [events[2], edit]);
+  assert.ok(update);
+  assert.deepEqual(update.snapshot, { ...buildProjection([...events, edit]), generatedAtMs: update.snapshot.generatedAtMs });
+});
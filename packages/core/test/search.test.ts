@@ -0,0 +1,45 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSearchIndex, searchAtoms, tokenizeSearchText } from '../src/index';
+import { atom } from './fixtures';
+
+const ATOMS = [
+  atom('atom-basil', 'Basil', 'Sow basil indoors in early spring, then move the seedlings out after the last frost.'),
+  atom('atom-tomato', 'Tomatoes', 'Tomato seedlings need warm soil. Basil grows well next to them.'),
+  atom('atom-cafe', 'Café notes', 'The café by the river sells seeds.'),
+  atom('atom-gone', 'Basil (old)', 'basil basil basil', 'deleted'),
+];
+
+test('terms are folded for case and accents', () => {
+  assert.deepEqual(tokenizeSearchText('Café, NAÏVE résumé—2024!'), ['cafe', 'naive', 'resume', '2024']);
+});
+
+test('search ranks active atoms, matching every term and the last one as a prefix', () => {
+  const index = buildSearchIndex(ATOMS);
+  assert.deepEqual(Object.keys(index.documents), ['atom-basil', 'atom-tomato', 'atom-cafe']);
+
+  const basil = searchAtoms(index, 'basil');
+  assert.equal(basil.total, 2);
+  assert.deepEqual(basil.hits.map((hit) => hit.atomId), ['atom-basil', 'atom-tomato'], 'title matches rank first');
+  assert.deepEqual(basil.hits[0].titleHighlights, [[0, 5]]);
+  assert.equal(basil.hits[0].snippet.slice(4, 9), 'basil');
+  assert.deepEqual(basil.hits[0].snippetHighlights, [[4, 9]]);
+
+  assert.deepEqual(searchAtoms(index, 'seedl').hits.map((hit) => hit.atomId).sort(), ['atom-basil', 'atom-tomato']);
+  assert.deepEqual(searchAtoms(index, 'basil warm').hits.map((hit) => hit.atomId), ['atom-tomato']);
+  assert.deepEqual(searchAtoms(index, 'CAFE').hits.map((hit) => hit.atomId), ['atom-cafe']);
+  assert.deepEqual(searchAtoms(index, '  ?! '), { hits: [], total: 0 });
+
+  const paged = searchAtoms(index, 'basil', { limit: 1, offset: 1 });
+  assert.equal(paged.total, 2);
+  assert.deepEqual(paged.hits.map((hit) => hit.atomId), ['atom-tomato']);
+});
+
+test('snippets start near the first match in long bodies', () => {
+  const body = `${'Filler words about the garden. '.repeat(10)}Plant garlic in autumn.`;
+  const [hit] = searchAtoms(buildSearchIndex([atom('atom-garlic', 'Notes', body)]), 'garlic').hits;
+  assert.ok(hit.snippet.startsWith('…'));
+  const [[start, end]] = hit.snippetHighlights;
+  assert.equal(hit.snippet.slice(start, end), 'garlic');
+  assert.deepEqual(hit.titleHighlights, []);
+});
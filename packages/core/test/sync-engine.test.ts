@@ -2,10 +2,14 @@ import { createHash } from 'node:crypto';
 import test from 'node:test';
 import assert from 'node:assert/strict';
 import {
+  type BlobAddPayload,
+  type ByteRange,
   type Event,
   type PullRequest,
   type PullResponse,
+  type PushRejection,
   type PushRequest,
+  type ProjectionSnapshot,
   type PushResponse,
   type StoredEvent,
   type SyncTransport,
@@ -13,6 +17,7 @@ import {
   SyncEngine,
   buildProjection,
   generateEventId,
+  migrateEvent,
 } from '../src/index';
 
 class InMemorySyncServer {
@@ -22,11 +27,21 @@ class InMemorySyncServer {
 
   private blobs = new Map<string, Map<string, Uint8Array>>();
 
+  private cursorListeners = new Map<string, Set<(cursor: number) => void>>();
+
   async push(request: PushRequest): Promise<PushResponse> {
     const workspaceEvents = this.ensureWorkspaceEvents(request.workspaceId);
     const accepted: Array<{ eventId: string; serverSeq: number }> = [];
+    const rejected: PushRejection[] = [];
 
     for (const event of request.events) {
+      try {
+        migrateEvent(event);
+      } catch (error) {
+        rejected.push({ eventId: event.eventId, code: 'INVALID_EVENT', message: (error as Error).message });
+        continue;
+      }
+
       const existing = workspaceEvents.get(event.eventId);
       if (existing) {
         accepted.push({ eventId: existing.eventId, serverSeq: existing.serverSeq });
@@ -49,9 +64,13 @@ class InMemorySyncServer {
       .filter((hash) => !this.ensureWorkspaceBlobs(request.workspaceId).has(hash));
 
     const cursor = Array.from(workspaceEvents.values()).reduce((max, event) => Math.max(max, event.serverSeq), request.clientCursor);
+    for (const listener of this.cursorListeners.get(request.workspaceId) ?? []) {
+      listener(cursor);
+    }
 
     return {
       accepted,
+      rejected,
       cursor,
       missingBlobHashes,
     };
@@ -60,10 +79,10 @@ class InMemorySyncServer {
   async pull(request: PullRequest): Promise<PullResponse> {
     const workspaceEvents = this.ensureWorkspaceEvents(request.workspaceId);
 
-    const events = Array.from(workspaceEvents.values())
+    const remaining = Array.from(workspaceEvents.values())
       .filter((event) => event.serverSeq > request.cursor)
-      .sort((a, b) => a.serverSeq - b.serverSeq)
-      .map((event) => ({ ...event }));
+      .sort((a, b) => a.serverSeq - b.serverSeq);
+    const events = remaining.slice(0, request.limit ?? remaining.length).map((event) => ({ ...event }));
 
     const cursor = events.length > 0 ? events[events.length - 1].serverSeq! : request.cursor;
 
@@ -71,6 +90,7 @@ class InMemorySyncServer {
       events,
       cursor,
       conflicts: [],
+      hasMore: remaining.length > events.length,
     };
   }
 
@@ -78,12 +98,19 @@ class InMemorySyncServer {
     this.ensureWorkspaceBlobs(workspaceId).set(hash, bytes);
   }
 
-  async downloadBlob(workspaceId: string, hash: string): Promise<Uint8Array> {
+  async downloadBlob(workspaceId: string, hash: string, range?: ByteRange): Promise<Uint8Array> {
     const blob = this.ensureWorkspaceBlobs(workspaceId).get(hash);
     if (!blob) {
       throw new Error(`blob not found: ${hash}`);
     }
-    return blob;
+    return range ? blob.slice(range.start, range.end === undefined ? undefined : range.end + 1) : blob;
+  }
+
+  subscribe(workspaceId: string, onCursor: (cursor: number) => void): () => void {
+    const listeners = this.cursorListeners.get(workspaceId) ?? new Set();
+    this.cursorListeners.set(workspaceId, listeners);
+    listeners.add(onCursor);
+    return () => listeners.delete(onCursor);
   }
 
   hasBlob(workspaceId: string, hash: string): boolean {
@@ -130,7 +157,8 @@ function createClient(server: InMemorySyncServer, deviceId: string): { engine: S
     push: (request) => server.push(request),
     pull: (request) => server.pull(request),
     uploadBlob: (workspaceId, hash, contentType, bytes) => server.uploadBlob(workspaceId, hash, contentType, bytes),
-    downloadBlob: (workspaceId, hash) => server.downloadBlob(workspaceId, hash),
+    downloadBlob: (workspaceId, hash, range) => server.downloadBlob(workspaceId, hash, range),
+    subscribe: (workspaceId, onCursor) => server.subscribe(workspaceId, onCursor),
   };
 
   const engine = new SyncEngine({ storage, transport });
@@ -243,6 +271,53 @@ test('concurrent offline atom updates preserve conflict with two versions', asyn
 
   assert.equal(conflictA?.status, 'open');
   assert.equal(conflictB?.status, 'open');
+  assert.equal(conflictA?.baseVersionId, capture.eventId);
+  assert.equal(conflictA?.hunks?.length, 1);
+  assert.equal(conflictA?.hunks?.[0].base, 'Original body');
+  assert.match(conflictA?.markedBody ?? '', /^<<<<<<< /);
+});
+
+test('concurrent edits to different paragraphs auto-merge on every client', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const clientB = createClient(server, 'device-B');
+
+  const atomId = makeAtomId('merge', 1);
+
+  const capture = await clientA.engine.captureText({ atomId, body: 'First paragraph\n\nSecond paragraph' });
+  await clientA.engine.syncNow();
+  await clientB.engine.syncNow();
+
+  await clientA.engine.appendLocalEvent({
+    type: 'atom.text.update',
+    payload: { atomId, body: 'First paragraph from A\n\nSecond paragraph', baseVersionId: capture.eventId },
+  });
+  await clientB.engine.appendLocalEvent({
+    type: 'atom.text.update',
+    payload: { atomId, body: 'First paragraph\n\nSecond paragraph from B', baseVersionId: capture.eventId },
+  });
+
+  await clientA.engine.syncNow();
+  await clientB.engine.syncNow();
+  await clientA.engine.syncNow();
+
+  for (const client of [clientA, clientB]) {
+    const projection = await client.storage.getProjection();
+    const atom = projection?.atoms.find((entry) => entry.atomId === atomId);
+
+    assert.equal(atom?.body, 'First paragraph from A\n\nSecond paragraph from B');
+    assert.equal(atom?.needsResolution, false);
+    assert.equal(atom?.headVersionIds.length, 1);
+    assert.match(atom?.headVersionIds[0] ?? '', /^merge:/);
+    assert.equal(projection?.conflicts.some((conflict) => conflict.atomId === atomId), false);
+  }
+
+  const projectionA = await clientA.storage.getProjection();
+  const projectionB = await clientB.storage.getProjection();
+  assert.deepEqual(
+    projectionA?.atoms.find((entry) => entry.atomId === atomId)?.headVersionIds,
+    projectionB?.atoms.find((entry) => entry.atomId === atomId)?.headVersionIds,
+  );
 });
 
 test('blob upload/fetch and missing blob detection behavior', async () => {
@@ -366,3 +441,711 @@ test('projection rebuild is deterministic when canonical order differs from prov
   assert.equal(rebuiltProjection.atoms.find((atom) => atom.atomId === 'a1')?.body, 'late local');
   assert.equal(rebuiltProjection.lastAppliedSeq, 12);
 });
+
+test('atom delete tombstones survive sync and archive/restore toggles inbox visibility', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const clientB = createClient(server, 'device-B');
+
+  const deletedAtomId = makeAtomId('deleted', 1);
+  const archivedAtomId = makeAtomId('archived', 1);
+
+  const capture = await clientA.engine.captureText({ atomId: deletedAtomId, body: 'Delete me' });
+  await clientA.engine.captureText({ atomId: archivedAtomId, body: 'Archive me' });
+  await clientA.engine.syncNow();
+  await clientB.engine.syncNow();
+
+  await clientA.engine.deleteAtom({ atomId: deletedAtomId });
+  await clientA.engine.archiveAtom(archivedAtomId);
+  await clientA.engine.syncNow();
+  await clientB.engine.syncNow();
+
+  assert.equal((await clientA.engine.getInbox()).length, 0);
+  assert.equal((await clientB.engine.getInbox()).length, 0);
+
+  // A stale edit from B must not resurrect the deleted atom.
+  await clientB.engine.appendLocalEvent({
+    type: 'atom.text.update',
+    payload: { atomId: deletedAtomId, body: 'Late edit', baseVersionId: capture.eventId },
+  });
+  await clientB.engine.restoreAtom(deletedAtomId);
+  await clientB.engine.restoreAtom(archivedAtomId);
+  await clientB.engine.syncNow();
+  await clientA.engine.syncNow();
+
+  for (const client of [clientA, clientB]) {
+    const projection = await client.storage.getProjection();
+    const deleted = projection!.atoms.find((atom) => atom.atomId === deletedAtomId);
+    assert.equal(deleted?.status, 'deleted');
+    assert.equal(deleted?.body, 'Delete me');
+
+    const inbox = await client.engine.getInbox();
+    assert.deepEqual(inbox.map((item) => item.atomId), [archivedAtomId]);
+  }
+});
+
+test('delete ordered before its capture still tombstones the atom', () => {
+  const events: StoredEvent[] = [
+    {
+      eventId: 'del-1',
+      eventSchemaVersion: 1,
+      type: 'atom.delete',
+      createdAtMs: 200,
+      deviceId: 'd1',
+      workspaceId: 'w1',
+      serverSeq: 1,
+      payload: { atomId: 'a1' },
+      syncStatus: 'synced',
+    },
+    {
+      eventId: 'cap-1',
+      eventSchemaVersion: 1,
+      type: 'capture.text.create',
+      createdAtMs: 100,
+      deviceId: 'd2',
+      workspaceId: 'w1',
+      localSeq: 1,
+      payload: { atomId: 'a1', body: 'Captured offline' },
+      syncStatus: 'waiting_sync',
+    },
+  ];
+
+  const projection = buildProjection(events);
+  assert.equal(projection.atoms[0]?.status, 'deleted');
+  assert.equal(projection.atoms[0]?.deletedAtMs, 200);
+  assert.equal(projection.inbox.length, 0);
+});
+
+test('resolving a conflict collapses heads on every client', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const clientB = createClient(server, 'device-B');
+
+  const atomId = makeAtomId('resolve', 1);
+  const capture = await clientA.engine.captureText({ atomId, title: 'Shared', body: 'Original body' });
+  await clientA.engine.syncNow();
+  await clientB.engine.syncNow();
+
+  await clientA.engine.appendLocalEvent({
+    type: 'atom.text.update',
+    payload: { atomId, body: 'Edit from A', baseVersionId: capture.eventId },
+  });
+  const editB = await clientB.engine.appendLocalEvent({
+    type: 'atom.text.update',
+    payload: { atomId, body: 'Edit from B', baseVersionId: capture.eventId },
+  });
+
+  await clientA.engine.syncNow();
+  await clientB.engine.syncNow();
+  await clientA.engine.syncNow();
+
+  const conflictId = (await clientA.storage.getProjection())!.conflicts[0].conflictId;
+
+  await clientA.engine.resolveConflict(conflictId, { winningVersionId: editB.eventId });
+  await clientA.engine.syncNow();
+  await clientB.engine.syncNow();
+
+  for (const client of [clientA, clientB]) {
+    const projection = await client.storage.getProjection();
+    const atom = projection!.atoms.find((entry) => entry.atomId === atomId);
+    assert.equal(atom?.needsResolution, false);
+    assert.deepEqual(atom?.headVersionIds, [editB.eventId]);
+    assert.equal(atom?.body, 'Edit from B');
+    assert.equal(projection!.conflicts[0].status, 'resolved');
+  }
+
+  await assert.rejects(
+    () => clientB.engine.resolveConflict(conflictId, { mergedBody: 'too late' }),
+    /already resolved/,
+  );
+});
+
+test('merged conflict resolution becomes a new head version', () => {
+  const base = { eventSchemaVersion: 1, deviceId: 'd1', workspaceId: 'w1', syncStatus: 'synced' as const };
+  const events: StoredEvent[] = [
+    { ...base, eventId: 'c1', type: 'capture.text.create', createdAtMs: 1, serverSeq: 1, payload: { atomId: 'a1', body: 'one' } },
+    { ...base, eventId: 'u1', type: 'atom.text.update', createdAtMs: 2, serverSeq: 2, payload: { atomId: 'a1', body: 'one A', baseVersionId: 'c1' } },
+    { ...base, eventId: 'u2', type: 'atom.text.update', createdAtMs: 3, serverSeq: 3, payload: { atomId: 'a1', body: 'one B', baseVersionId: 'c1' } },
+    {
+      ...base,
+      eventId: 'r1',
+      type: 'conflict.resolve',
+      createdAtMs: 4,
+      serverSeq: 4,
+      payload: { conflictId: 'conflict:a1', atomId: 'a1', versionIds: ['u1', 'u2'], mergedBody: 'one A B' },
+    },
+  ];
+
+  const projection = buildProjection(events);
+  const atom = projection.atoms[0];
+  assert.equal(atom.body, 'one A B');
+  assert.deepEqual(atom.headVersionIds, ['r1']);
+  assert.equal(atom.needsResolution, false);
+  assert.equal(projection.conflicts[0].status, 'resolved');
+  assert.equal(projection.conflicts[0].resolvedVersionId, 'r1');
+  assert.ok(projection.atomVersions.some((version) => version.versionId === 'r1' && version.body === 'one A B'));
+});
+
+test('incremental projection updates match a full rebuild through sync', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const clientB = createClient(server, 'device-B');
+
+  const normalize = (snapshot: ProjectionSnapshot | null) => {
+    assert.ok(snapshot);
+    const byKey = <T>(key: (value: T) => string) => (a: T, b: T) => key(a).localeCompare(key(b));
+    // Round-trip through JSON like the adapters do, dropping undefined fields.
+    snapshot = JSON.parse(JSON.stringify(snapshot)) as ProjectionSnapshot;
+    return {
+      ...snapshot,
+      generatedAtMs: 0,
+      atoms: [...snapshot.atoms].sort(byKey((atom) => atom.atomId)),
+      atomVersions: [...snapshot.atomVersions].sort(byKey((version) => version.versionId)),
+      conflicts: [...snapshot.conflicts].sort(byKey((conflict) => conflict.conflictId)),
+    };
+  };
+  const assertMatchesRebuild = async () => {
+    for (const client of [clientA, clientB]) {
+      const stored = await client.storage.getProjection();
+      const rebuilt = buildProjection(await client.storage.listEvents());
+      assert.deepEqual(normalize(stored), normalize(rebuilt));
+    }
+  };
+
+  const sharedId = makeAtomId('incremental', 1);
+  const shared = await clientA.engine.captureText({ atomId: sharedId, body: 'one\n\ntwo' });
+  await clientA.engine.captureText({ atomId: makeAtomId('incremental', 2), body: 'archived later' });
+  await clientB.engine.captureText({ atomId: makeAtomId('incremental', 3), body: 'from B' });
+  await assertMatchesRebuild();
+
+  await clientA.engine.syncNow();
+  await clientB.engine.syncNow();
+  await clientA.engine.syncNow();
+  await assertMatchesRebuild();
+
+  await clientA.engine.appendLocalEvent({
+    type: 'atom.text.update',
+    payload: { atomId: sharedId, body: 'one from A\n\ntwo', baseVersionId: shared.eventId },
+  });
+  await clientB.engine.appendLocalEvent({
+    type: 'atom.text.update',
+    payload: { atomId: sharedId, body: 'one\n\ntwo from B', baseVersionId: shared.eventId },
+  });
+  const archivedId = (await clientA.engine.getInbox()).find((item) => item.preview === 'archived later')!.atomId;
+  await clientA.engine.archiveAtom(archivedId);
+  await assertMatchesRebuild();
+
+  await clientA.engine.syncNow();
+  await clientB.engine.syncNow();
+  await clientA.engine.syncNow();
+  await assertMatchesRebuild();
+
+  const merged = (await clientA.storage.getProjection())!.atoms.find((atom) => atom.atomId === sharedId)!;
+  assert.equal(merged.body, 'one from A\n\ntwo from B');
+});
+
+test('refreshing the projection reads only new events and the history of their atoms', async () => {
+  const server = new InMemorySyncServer();
+  const client = createClient(server, 'device-A');
+  const edited = await client.engine.captureText({ atomId: makeAtomId('tail', 1), body: 'first' });
+  await client.engine.captureText({ atomId: makeAtomId('tail', 2), body: 'second' });
+  await client.engine.syncNow();
+
+  const reads: string[] = [];
+  const { storage } = client;
+  storage.listEvents = async function listEvents() {
+    reads.push('all');
+    return InMemoryStorageAdapter.prototype.listEvents.call(this);
+  };
+  storage.listAtomEvents = async function listAtomEvents(atomIds) {
+    reads.push(...atomIds);
+    return InMemoryStorageAdapter.prototype.listAtomEvents.call(this, atomIds);
+  };
+
+  const atomId = (edited.payload as { atomId: string }).atomId;
+  await client.engine.updateAtomText({ atomId, body: 'first, edited', baseVersionId: edited.eventId });
+  assert.deepEqual(reads, [atomId]);
+  assert.equal((await client.engine.getInbox()).find((item) => item.atomId === atomId)?.preview, 'first, edited');
+});
+
+test('local captures fold into the projection without listing earlier unsynced events', async () => {
+  const server = new InMemorySyncServer();
+  const client = createClient(server, 'device-A');
+  await client.engine.captureText({ atomId: makeAtomId('local', 1), body: 'first' });
+
+  const reads: number[] = [];
+  const { storage } = client;
+  storage.listEventsSince = async function listEventsSince(serverSeq) {
+    reads.push(serverSeq);
+    return InMemoryStorageAdapter.prototype.listEventsSince.call(this, serverSeq);
+  };
+
+  for (let index = 2; index <= 4; index += 1) {
+    await client.engine.captureText({ atomId: makeAtomId('local', index), body: `note ${index}` });
+  }
+  assert.deepEqual(reads, []);
+  assert.equal((await client.engine.getInbox()).length, 4);
+  assert.equal((await storage.getProjection())?.provisional?.count, 4);
+});
+
+test('an offline device catches up across pull pages in a single sync', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const clientB = createClient(server, 'device-B');
+
+  for (let i = 0; i < 25; i += 1) {
+    await clientA.engine.captureText({ atomId: makeAtomId('paged', i), body: `Paged ${i}` });
+  }
+  await clientA.engine.syncNow();
+
+  const pulls: PullRequest[] = [];
+  const engineB = new SyncEngine({
+    storage: clientB.storage,
+    transport: {
+      ...clientB.transport,
+      pull: (request) => {
+        pulls.push(request);
+        return server.pull(request);
+      },
+    },
+    pullPageSize: 10,
+  });
+
+  const status = await engineB.syncNow();
+
+  assert.deepEqual(
+    pulls.map((request) => [request.cursor, request.limit]),
+    [
+      [0, 10],
+      [10, 10],
+      [20, 10],
+    ],
+  );
+  assert.equal(status.lastPulledSeq, 25);
+  assert.equal((await engineB.getInbox()).length, 25);
+});
+
+test('an interrupted paginated pull resumes from the last persisted page', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const clientB = createClient(server, 'device-B');
+
+  for (let i = 0; i < 12; i += 1) {
+    await clientA.engine.captureText({ atomId: makeAtomId('resume', i), body: `Resume ${i}` });
+  }
+  await clientA.engine.syncNow();
+
+  let pullCount = 0;
+  const flakyEngine = new SyncEngine({
+    storage: clientB.storage,
+    transport: {
+      ...clientB.transport,
+      pull: (request) => {
+        pullCount += 1;
+        return pullCount === 2 ? Promise.reject(new Error('network down')) : server.pull(request);
+      },
+    },
+    pullPageSize: 5,
+  });
+
+  await assert.rejects(flakyEngine.syncNow(), /network down/);
+  const interrupted = await clientB.storage.getDeviceState();
+  assert.equal(interrupted.lastPulledSeq, 5);
+  assert.equal(interrupted.lastErrorCode, 'NETWORK');
+
+  const resumedCursors: number[] = [];
+  const engineB = new SyncEngine({
+    storage: clientB.storage,
+    transport: {
+      ...clientB.transport,
+      pull: (request) => {
+        resumedCursors.push(request.cursor);
+        return server.pull(request);
+      },
+    },
+    pullPageSize: 5,
+  });
+  await engineB.syncNow();
+
+  assert.deepEqual(resumedCursors, [5, 10]);
+  assert.equal((await engineB.getInbox()).length, 12);
+});
+
+test('rejected events move to sync_failed without blocking the rest of the batch', async () => {
+  const server = new InMemorySyncServer();
+  const client = createClient(server, 'device-A');
+
+  const good = await client.engine.captureText({ atomId: makeAtomId('good', 1), body: 'Valid capture' });
+  const state = await client.storage.getDeviceState();
+  const poison: StoredEvent = {
+    ...good,
+    eventId: generateEventId(),
+    type: 'not.a.real.type' as Event['type'],
+    localSeq: state.nextLocalSeq,
+    syncStatus: 'saved_local',
+  };
+  await client.storage.upsertEvents([poison]);
+  await client.engine.captureText({ atomId: makeAtomId('good', 2), body: 'Another valid capture' });
+
+  const pushes: PushRequest[] = [];
+  const engine = new SyncEngine({
+    storage: client.storage,
+    transport: {
+      ...client.transport,
+      push: (request) => {
+        pushes.push(request);
+        return server.push(request);
+      },
+    },
+  });
+
+  await engine.syncNow();
+
+  const events = await client.storage.listEvents();
+  const failed = events.find((event) => event.eventId === poison.eventId);
+  assert.equal(failed?.syncStatus, 'sync_failed');
+  assert.equal(failed?.errorCode, 'INVALID_EVENT');
+  assert.match(failed?.errorMessage ?? '', /unsupported type/);
+  assert.equal(events.filter((event) => event.syncStatus === 'synced').length, 2);
+
+  await engine.syncNow();
+  assert.equal(pushes.length, 1);
+  assert.equal((await engine.getSyncStatus()).pendingEvents, 0);
+});
+
+test('a malformed pulled event is skipped and logged without stalling later pulls', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const clientB = createClient(server, 'device-B');
+
+  await clientA.engine.captureText({ atomId: makeAtomId('pulled', 1), body: 'Before' });
+  await clientA.engine.syncNow();
+
+  const malformedId = generateEventId();
+  const engineB = new SyncEngine({
+    storage: clientB.storage,
+    transport: {
+      ...clientB.transport,
+      pull: async (request) => {
+        const page = await server.pull(request);
+        if (request.cursor > 0) {
+          return page;
+        }
+        const malformed = { ...page.events[0], eventId: malformedId, payload: { atomId: 'atom-bad', body: 42 } };
+        return { ...page, events: [malformed, ...page.events] };
+      },
+    },
+  });
+
+  const status = await engineB.syncNow();
+  assert.equal(status.lastError, undefined);
+  assert.deepEqual((await engineB.getInbox()).map((item) => item.preview), ['Before']);
+  const [attempt] = (await clientB.storage.listSyncAttempts(10)).filter((entry) => entry.action === `pull:${malformedId}`);
+  assert.equal(attempt?.errorCode, 'INVALID_EVENT');
+  assert.match(attempt?.message ?? '', /payload\.body must be a string/);
+
+  await clientA.engine.captureText({ atomId: makeAtomId('pulled', 2), body: 'After' });
+  await clientA.engine.syncNow();
+  await engineB.syncNow();
+  assert.equal((await engineB.getInbox()).length, 2);
+});
+
+test('large backlogs are pushed in bounded chunks', async () => {
+  const server = new InMemorySyncServer();
+  const client = createClient(server, 'device-A');
+
+  for (let i = 0; i < 7; i += 1) {
+    await client.engine.captureText({ atomId: makeAtomId('chunk', i), body: `Chunk ${i}` });
+  }
+
+  const chunkSizes: number[] = [];
+  const engine = new SyncEngine({
+    storage: client.storage,
+    transport: {
+      ...client.transport,
+      push: (request) => {
+        chunkSizes.push(request.events.length);
+        return server.push(request);
+      },
+    },
+    pushChunkSize: 3,
+  });
+
+  const status = await engine.syncNow();
+
+  assert.deepEqual(chunkSizes, [3, 3, 1]);
+  assert.equal(status.pendingEvents, 0);
+  assert.equal(status.lastPulledSeq, 7);
+});
+
+test('events the server does not answer return to saved_local without holding back later chunks', async () => {
+  const server = new InMemorySyncServer();
+  const client = createClient(server, 'device-A');
+
+  for (let i = 0; i < 5; i += 1) {
+    await client.engine.captureText({ atomId: makeAtomId('unanswered', i), body: `Unanswered ${i}` });
+  }
+  // The whole first chunk goes unanswered.
+  const dropped = new Set((await client.storage.listPendingEvents(2)).map((event) => event.eventId));
+
+  const engine = new SyncEngine({
+    storage: client.storage,
+    transport: {
+      ...client.transport,
+      push: (request) => server.push({
+        ...request,
+        events: request.events.filter((event) => !dropped.has(event.eventId)),
+      }),
+    },
+    pushChunkSize: 2,
+  });
+
+  const status = await engine.syncNow();
+
+  assert.equal(status.pendingEvents, 2);
+  assert.equal(status.lastPulledSeq, 3);
+  const events = await client.storage.listEvents();
+  assert.deepEqual(
+    events.filter((event) => dropped.has(event.eventId)).map((event) => event.syncStatus),
+    ['saved_local', 'saved_local'],
+  );
+  assert.equal(events.filter((event) => event.syncStatus === 'synced').length, 3);
+});
+
+test('cursor notifications report when another device has pushed past the local cursor', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const clientB = createClient(server, 'device-B');
+
+  const seen: Array<{ cursor: number; ahead: boolean }> = [];
+  const unsubscribe = await clientB.engine.watchRemoteCursor(
+    (cursor, ahead) => seen.push({ cursor, ahead }),
+    () => assert.fail('stream should stay connected'),
+  );
+  assert.ok(unsubscribe);
+
+  await clientA.engine.captureText({ atomId: makeAtomId('notify', 1), body: 'From A' });
+  await clientA.engine.syncNow();
+  await waitForTurn();
+  assert.deepEqual(seen, [{ cursor: 1, ahead: true }]);
+
+  // A retried push announces the same cursor, which B has already pulled.
+  await clientB.engine.syncNow();
+  const [pushed] = await clientA.storage.listEvents();
+  await clientA.transport.push({
+    workspaceId: 'workspace-1',
+    userId: 'user-1',
+    deviceId: 'device-A',
+    clientCursor: 1,
+    events: [pushed],
+  });
+  await waitForTurn();
+  assert.deepEqual(seen.at(-1), { cursor: 1, ahead: false });
+
+  unsubscribe();
+  await clientA.engine.captureText({ atomId: makeAtomId('notify', 2), body: 'Unheard' });
+  await clientA.engine.syncNow();
+  await waitForTurn();
+  assert.equal(seen.length, 2);
+});
+
+function waitForTurn(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+async function captureWithBlob(
+  client: ReturnType<typeof createClient>,
+  atomId: string,
+  bytes: Uint8Array,
+): Promise<string> {
+  const { blob } = await client.engine.captureAudio({ atomId, bytes, contentType: 'audio/webm', body: 'Voice memo' });
+  return blob.hash;
+}
+
+test('voice captures store the audio blob and flag the inbox item', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const bytes = new TextEncoder().encode('pretend this is audio');
+  const atomId = makeAtomId('voice', 0);
+
+  const { captureEvent, blobEvent, blob } = await clientA.engine.captureAudio({
+    atomId,
+    bytes,
+    contentType: 'audio/webm',
+    extHint: 'webm',
+    body: 'Voice memo',
+  });
+  assert.equal(captureEvent.type, 'capture.text.create');
+  assert.deepEqual(blobEvent.payload, {
+    atomId,
+    hash: createHash('sha256').update(bytes).digest('hex'),
+    size: bytes.byteLength,
+    contentType: 'audio/webm',
+    extHint: 'webm',
+  });
+  assert.equal(blob.syncStatus, 'saved_local');
+  assert.deepEqual(await clientA.storage.readBlob(blob.hash), bytes);
+
+  const [item] = await clientA.engine.getInbox();
+  assert.equal(item.atomId, atomId);
+  assert.equal(item.hasAudio, true);
+
+  await clientA.engine.captureText({ atomId: makeAtomId('text', 0), body: 'Plain note' });
+  const plain = (await clientA.engine.getInbox()).find((entry) => entry.atomId !== atomId);
+  assert.equal(plain?.hasAudio, undefined);
+
+  await clientA.engine.syncNow();
+  const clientB = createClient(server, 'device-B');
+  await clientB.engine.syncNow();
+  const synced = (await clientB.engine.getInbox()).find((entry) => entry.atomId === atomId);
+  assert.equal(synced?.hasAudio, true);
+  assert.equal(synced?.syncStatus, 'synced');
+});
+
+test('sync uploads blobs the server is missing and downloads them on other devices', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const bytes = new TextEncoder().encode('pretend this is audio');
+  const atomId = makeAtomId('voice', 1);
+  const hash = await captureWithBlob(clientA, atomId, bytes);
+
+  await clientA.engine.syncNow();
+  assert.ok(server.hasBlob('workspace-1', hash));
+  const [uploaded] = await clientA.storage.listBlobManifest();
+  assert.equal(uploaded.syncStatus, 'synced');
+
+  const statusesDuringDownload: string[] = [];
+  const clientB = createClient(server, 'device-B');
+  const engineB = new SyncEngine({
+    storage: clientB.storage,
+    transport: {
+      ...clientB.transport,
+      downloadBlob: async (workspaceId, blobHash, range) => {
+        statusesDuringDownload.push((await engineB.getInbox())[0].syncStatus);
+        return server.downloadBlob(workspaceId, blobHash, range);
+      },
+    },
+  });
+
+  const status = await engineB.syncNow();
+  assert.deepEqual(statusesDuringDownload, ['media_downloading']);
+  assert.equal(status.pendingBlobs, 0);
+  assert.deepEqual(await clientB.storage.readBlob(hash), bytes);
+
+  const [downloaded] = await clientB.storage.listBlobManifest();
+  assert.equal(downloaded.isPresent, true);
+  assert.equal(downloaded.syncStatus, 'synced');
+  assert.equal(downloaded.contentType, 'audio/webm');
+  assert.equal((await engineB.getInbox())[0].syncStatus, 'synced');
+});
+
+test('a blob of unknown size is downloaded whole and checked against its hash', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const bytes = new TextEncoder().encode('size unknown');
+  const hash = await captureWithBlob(clientA, makeAtomId('voice', 3), bytes);
+  await clientA.engine.syncNow();
+
+  const clientB = createClient(server, 'device-B');
+  const ranges: Array<ByteRange | undefined> = [];
+  const engineB = new SyncEngine({
+    storage: clientB.storage,
+    transport: {
+      ...clientB.transport,
+      pull: async (request) => {
+        const page = await server.pull(request);
+        const events = page.events.map((event) => event.type === 'blob.add'
+          ? { ...event, payload: { ...(event.payload as BlobAddPayload), size: 0 } }
+          : event);
+        return { ...page, events };
+      },
+      downloadBlob: async (workspaceId, blobHash, range) => {
+        ranges.push(range);
+        return server.downloadBlob(workspaceId, blobHash, range);
+      },
+    },
+  });
+
+  await engineB.syncNow();
+  assert.deepEqual(ranges, [undefined]);
+  assert.deepEqual(await clientB.storage.readBlob(hash), bytes);
+  const [downloaded] = await clientB.storage.listBlobManifest();
+  assert.equal(downloaded.syncStatus, 'synced');
+  assert.equal(downloaded.size, bytes.byteLength);
+});
+
+test('an interrupted blob download resumes with a range request', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const bytes = new TextEncoder().encode('0123456789');
+  const hash = await captureWithBlob(clientA, makeAtomId('voice', 2), bytes);
+  await clientA.engine.syncNow();
+
+  const clientB = createClient(server, 'device-B');
+  const ranges: ByteRange[] = [];
+  let failNextChunk = false;
+  const engineB = new SyncEngine({
+    storage: clientB.storage,
+    transport: {
+      ...clientB.transport,
+      downloadBlob: async (workspaceId, blobHash, range) => {
+        if (failNextChunk) {
+          throw new Error('fetch failed: connection reset');
+        }
+        ranges.push(range!);
+        failNextChunk = ranges.length === 1;
+        return server.downloadBlob(workspaceId, blobHash, range);
+      },
+    },
+    blobChunkSize: 4,
+    blobAttempts: 1,
+  });
+
+  await engineB.syncNow();
+  const [failed] = await clientB.storage.listBlobManifest();
+  assert.equal(failed.syncStatus, 'sync_failed');
+  assert.equal(failed.errorCode, 'NETWORK');
+  assert.equal((await engineB.getInbox())[0].syncStatus, 'synced_text_only');
+  assert.equal((await clientB.storage.readBlobDownload(hash))?.byteLength, 4);
+
+  failNextChunk = false;
+  await engineB.syncNow();
+  assert.deepEqual(ranges, [
+    { start: 0, end: 3 },
+    { start: 4, end: 7 },
+    { start: 8, end: 9 },
+  ]);
+  assert.deepEqual(await clientB.storage.readBlob(hash), bytes);
+  assert.equal((await engineB.getInbox())[0].syncStatus, 'synced');
+});
+
+test('a blob whose bytes do not match its hash is retried, then blocked', async () => {
+  const server = new InMemorySyncServer();
+  const clientA = createClient(server, 'device-A');
+  const hash = await captureWithBlob(clientA, makeAtomId('voice', 3), new TextEncoder().encode('original'));
+  await clientA.engine.syncNow();
+
+  const clientB = createClient(server, 'device-B');
+  let downloads = 0;
+  const engineB = new SyncEngine({
+    storage: clientB.storage,
+    transport: {
+      ...clientB.transport,
+      downloadBlob: async () => {
+        downloads += 1;
+        return new TextEncoder().encode('tampered');
+      },
+    },
+  });
+
+  await engineB.syncNow();
+  assert.equal(downloads, 3);
+  const [blocked] = await clientB.storage.listBlobManifest();
+  assert.equal(blocked.syncStatus, 'blocked_hash_mismatch');
+  assert.equal(blocked.errorCode, 'HASH_MISMATCH');
+  assert.equal(await clientB.storage.readBlob(hash), null);
+  assert.equal((await engineB.getInbox())[0].syncStatus, 'synced_text_only');
+
+  await engineB.syncNow();
+  assert.equal(downloads, 3);
+});
@@ -0,0 +1,249 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { type SchedulerTimers, type SyncStatus, SyncScheduler } from '../src/index';
+
+const okStatus: SyncStatus = { pendingEvents: 0, pendingBlobs: 0, lastPulledSeq: 0, lastAppliedSeq: 0 };
+
+function createFakeClock() {
+  let nowMs = 0;
+  let nextId = 1;
+  const pending = new Map<number, { dueAtMs: number; callback: () => void }>();
+
+  const timers: SchedulerTimers = {
+    setTimeout(callback, delayMs) {
+      const id = nextId++;
+      pending.set(id, { dueAtMs: nowMs + delayMs, callback });
+      return id;
+    },
+    clearTimeout(handle) {
+      pending.delete(handle as number);
+    },
+  };
+
+  return {
+    timers,
+    now: () => nowMs,
+    pendingDelays: () => [...pending.values()].map((entry) => entry.dueAtMs - nowMs),
+    /** Fire every timer due within `ms`, letting the promises they start settle. */
+    async advance(ms: number) {
+      const target = nowMs + ms;
+      for (;;) {
+        const due = [...pending.entries()]
+          .filter(([, entry]) => entry.dueAtMs <= target)
+          .sort((a, b) => a[1].dueAtMs - b[1].dueAtMs)[0];
+        if (!due) {
+          break;
+        }
+        pending.delete(due[0]);
+        nowMs = due[1].dueAtMs;
+        due[1].callback();
+        await flush();
+      }
+      nowMs = target;
+    },
+  };
+}
+
+async function flush(): Promise<void> {
+  for (let index = 0; index < 10; index += 1) {
+    await Promise.resolve();
+  }
+}
+
+test('failed syncs back off exponentially with jitter and stop on AUTH', async () => {
+  const clock = createFakeClock();
+  const failures = [new Error('fetch failed'), new Error('fetch failed'), new Error('fetch failed'), new Error('401 unauthorized')];
+  let calls = 0;
+  const scheduler = new SyncScheduler({
+    sync: async () => {
+      calls += 1;
+      const failure = failures.shift();
+      if (failure) {
+        throw failure;
+      }
+      return okStatus;
+    },
+    backoff: { NETWORK: { baseDelayMs: 1_000, maxDelayMs: 3_000 } },
+    random: () => 1,
+    timers: clock.timers,
+    now: clock.now,
+  });
+
+  assert.equal(scheduler.backoffDelay('NETWORK', 1), 1_000);
+  assert.equal(scheduler.backoffDelay('NETWORK', 3), 3_000);
+  assert.equal(scheduler.backoffDelay('AUTH', 1), null);
+
+  scheduler.start();
+  await clock.advance(0);
+  assert.equal(calls, 1);
+  assert.equal(scheduler.getState().phase, 'backoff');
+  assert.deepEqual(clock.pendingDelays(), [1_000]);
+
+  await clock.advance(1_000);
+  assert.deepEqual(clock.pendingDelays(), [2_000]);
+
+  await clock.advance(2_000);
+  assert.deepEqual(clock.pendingDelays(), [3_000]);
+
+  await clock.advance(3_000);
+  assert.equal(calls, 4);
+  assert.equal(scheduler.getState().phase, 'blocked_auth');
+  assert.equal(scheduler.getState().lastError?.code, 'AUTH');
+  assert.deepEqual(clock.pendingDelays(), []);
+
+  scheduler.notifyLocalAppend();
+  await clock.advance(60_000);
+  assert.equal(calls, 4);
+
+  // A manual sync still goes through and clears the block.
+  await scheduler.syncNow();
+  assert.equal(scheduler.getState().phase, 'idle');
+  assert.equal(scheduler.getState().consecutiveFailures, 0);
+});
+
+test('jitter spreads retries between half and the full delay', () => {
+  const low = new SyncScheduler({ sync: async () => okStatus, random: () => 0 });
+  const high = new SyncScheduler({ sync: async () => okStatus, random: () => 1 });
+
+  assert.equal(low.backoffDelay('SERVER_ERROR', 2), 5_000);
+  assert.equal(high.backoffDelay('SERVER_ERROR', 2), 10_000);
+});
+
+test('overlapping triggers never run two syncs at once', async () => {
+  const clock = createFakeClock();
+  let running = 0;
+  let maxRunning = 0;
+  let calls = 0;
+  const releases: Array<() => void> = [];
+  const scheduler = new SyncScheduler({
+    sync: async () => {
+      calls += 1;
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise<void>((resolve) => releases.push(resolve));
+      running -= 1;
+      return okStatus;
+    },
+    timers: clock.timers,
+    now: clock.now,
+  });
+
+  const first = scheduler.syncNow();
+  const second = scheduler.syncNow();
+  const third = scheduler.syncNow();
+  assert.equal(second, third);
+  await flush();
+  assert.equal(calls, 1);
+
+  releases.shift()?.();
+  await first;
+  await flush();
+  assert.equal(calls, 2);
+
+  releases.shift()?.();
+  await second;
+  assert.equal(calls, 2);
+  assert.equal(maxRunning, 1);
+});
+
+test('local appends, the interval and connectivity drive background syncs', async () => {
+  const clock = createFakeClock();
+  const phases: string[] = [];
+  let calls = 0;
+  const scheduler = new SyncScheduler({
+    sync: async () => {
+      calls += 1;
+      return okStatus;
+    },
+    getStatus: async () => ({ ...okStatus, pendingEvents: 1 }),
+    onState: (state) => phases.push(state.phase),
+    intervalMs: 30_000,
+    localAppendDebounceMs: 500,
+    timers: clock.timers,
+    now: clock.now,
+  });
+
+  scheduler.start();
+  await clock.advance(0);
+  assert.equal(calls, 1);
+  assert.deepEqual(clock.pendingDelays(), [30_000]);
+
+  scheduler.notifyLocalAppend();
+  await flush();
+  assert.equal(scheduler.getState().status?.pendingEvents, 1);
+  assert.deepEqual(clock.pendingDelays(), [500]);
+  await clock.advance(500);
+  assert.equal(calls, 2);
+
+  await clock.advance(30_000);
+  assert.equal(calls, 3);
+
+  scheduler.setOnline(false);
+  assert.equal(scheduler.getState().phase, 'offline');
+  scheduler.notifyLocalAppend();
+  await clock.advance(120_000);
+  assert.equal(calls, 3);
+
+  scheduler.setOnline(true);
+  await clock.advance(0);
+  assert.equal(calls, 4);
+  assert.equal(scheduler.getState().phase, 'idle');
+
+  scheduler.stop();
+  assert.deepEqual(clock.pendingDelays(), []);
+  assert.ok(phases.includes('syncing'));
+});
+
+test('cursor notifications pull right away and a dropped stream falls back to polling', async () => {
+  const clock = createFakeClock();
+  let calls = 0;
+  let opens = 0;
+  let notify: ((cursor: number, ahead: boolean) => void) | null = null;
+  let drop: ((error: unknown) => void) | null = null;
+  const scheduler = new SyncScheduler({
+    sync: async () => {
+      calls += 1;
+      return okStatus;
+    },
+    watchRemote: async (onCursor, onDisconnect) => {
+      opens += 1;
+      notify = onCursor;
+      drop = onDisconnect;
+      return () => undefined;
+    },
+    intervalMs: 10_000,
+    streamingIntervalMs: 300_000,
+    backoff: { NETWORK: { baseDelayMs: 1_000, maxDelayMs: 1_000 } },
+    random: () => 1,
+    timers: clock.timers,
+    now: clock.now,
+  });
+
+  scheduler.start();
+  await clock.advance(0);
+  assert.equal(opens, 1);
+
+  notify!(0, false);
+  assert.equal(scheduler.getState().streaming, true);
+  assert.equal(calls, 1);
+
+  notify!(7, true);
+  await flush();
+  assert.equal(calls, 2);
+  assert.deepEqual(clock.pendingDelays(), [300_000]);
+
+  drop!(new Error('network: sync stream closed by server'));
+  assert.equal(scheduler.getState().streaming, false);
+  assert.deepEqual(clock.pendingDelays().sort((a, b) => a - b), [1_000, 10_000]);
+
+  await clock.advance(1_000);
+  assert.equal(opens, 2);
+
+  await clock.advance(9_000);
+  assert.equal(calls, 3);
+
+  scheduler.stop();
+  notify!(9, true);
+  await flush();
+  assert.equal(calls, 3);
+});
@@ -0,0 +1,92 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createTranscript,
+  formatSrt,
+  formatWebVtt,
+  parseSubtitles,
+  parseTranscript,
+  segmentIndexAt,
+  transcriptText,
+} from '../src/index';
+
+const transcript = createTranscript({
+  noteId: 'atom_voice',
+  source: 'whisper',
+  createdAtMs: 1_000,
+  segments: [
+    { startMs: 2_500, endMs: 3_661_001, text: 'Then water <all> the garden & shed.', speaker: 'Ana' },
+    { startMs: 0, endMs: 2_500, text: 'Buy more seeds.', confidence: 0.82 },
+  ],
+});
+
+test('transcripts keep segments ordered and round-trip through JSON', () => {
+  assert.deepEqual(transcript.segments.map((segment) => segment.startMs), [0, 2_500]);
+  assert.deepEqual(parseTranscript(JSON.parse(JSON.stringify(transcript))), transcript);
+  assert.equal(transcriptText(transcript), 'Buy more seeds. Then water <all> the garden & shed.');
+  assert.equal(segmentIndexAt(transcript.segments, 2_499), 0);
+  assert.equal(segmentIndexAt(transcript.segments, 2_500), 1);
+  assert.equal(segmentIndexAt(transcript.segments, 4_000_000), -1);
+});
+
+test('invalid or newer transcripts are rejected with the offending field', () => {
+  assert.throws(
+    () => parseTranscript({ ...transcript, schemaVersion: 2 }),
+    /Unsupported transcript schema version 2/,
+  );
+  assert.throws(
+    () => parseTranscript({ ...transcript, segments: [{ startMs: 10, endMs: 5, text: 'x' }] }),
+    /segments\[0\]\.endMs/,
+  );
+  assert.throws(
+    () => parseTranscript({ ...transcript, segments: [{ startMs: 0, endMs: 5, text: 'x', confidence: 3 }] }),
+    /segments\[0\]\.confidence/,
+  );
+});
+
+test('WebVTT export escapes markup and re-imports with speakers', () => {
+  const vtt = formatWebVtt(transcript);
+  assert.equal(vtt, [
+    'WEBVTT',
+    '',
+    '1',
+    '00:00:00.000 --> 00:00:02.500',
+    'Buy more seeds.',
+    '',
+    '2',
+    '00:00:02.500 --> 01:01:01.001',
+    '<v Ana>Then water &lt;all&gt; the garden &amp; shed.',
+    '',
+  ].join('\n'));
+
+  assert.deepEqual(parseSubtitles(vtt), [
+    { startMs: 0, endMs: 2_500, text: 'Buy more seeds.' },
+    { startMs: 2_500, endMs: 3_661_001, text: 'Then water <all> the garden & shed.', speaker: 'Ana' },
+  ]);
+});
+
+test('SRT export and import use comma milliseconds', () => {
+  const srt = formatSrt(transcript);
+  assert.match(srt, /^1\n00:00:00,000 --> 00:00:02,500\nBuy more seeds\.\n\n2\n00:00:02,500 --> 01:01:01,001\n/);
+
+  assert.deepEqual(parseSubtitles(srt).map((segment) => [segment.startMs, segment.endMs]), [
+    [0, 2_500],
+    [2_500, 3_661_001],
+  ]);
+});
+
+test('WebVTT import skips notes and cue settings and accepts short timestamps', () => {
+  const segments = parseSubtitles([
+    '﻿WEBVTT - recorded on a phone',
+    '',
+    'NOTE exported by another app',
+    '',
+    '00:01.000 --> 00:02.250 align:start position:10%',
+    '<v.loud Sam>Hello</v>',
+    '<i>world</i>',
+    '',
+  ].join('\r\n'));
+
+  assert.deepEqual(segments, [{ startMs: 1_000, endMs: 2_250, text: 'Hello\nworld', speaker: 'Sam' }]);
+  assert.throws(() => parseSubtitles('WEBVTT\n\nnothing here'), /No subtitle cues found/);
+});
@@ -0,0 +1,148 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CHANGESET_SCHEMA,
+  CURRENT_EVENT_SCHEMA_VERSION,
+  type ExportManifest,
+  InMemoryStorageAdapter,
+  SyncEngine,
+  createDisabledSyncTransport,
+  formatValidationIssues,
+  migrateEvent,
+  validateChangeSet,
+  validateImportBundle,
+  validateJson,
+} from '../src/index';
+
+function rawEvent(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    eventId: 'evt_00000001',
+    eventSchemaVersion: CURRENT_EVENT_SCHEMA_VERSION,
+    type: 'capture.text.create',
+    createdAtMs: 1_000,
+    deviceId: 'device-a',
+    workspaceId: 'workspace-1',
+    payload: { atomId: 'atom-1', title: 'Seeds', body: 'Buy more seeds' },
+    ...overrides,
+  };
+}
+
+function manifest(overrides: Partial<ExportManifest> = {}): ExportManifest {
+  return {
+    schemaVersion: '0.2',
+    createdAtMs: 2_000,
+    workspaceId: 'workspace-1',
+    eventSchemaVersion: CURRENT_EVENT_SCHEMA_VERSION,
+    minSupportedEventSchemaVersion: 1,
+    counts: { atoms: 1, events: 1, blobs: 0, conflicts: 0 },
+    referencedBlobs: [],
+    ...overrides,
+  };
+}
+
+test('the enforced changeset schema is the published one', () => {
+  const published = JSON.parse(
+    fs.readFileSync(path.join(__dirname, '../../../schemas/changeset-0.1.schema.json'), 'utf-8'),
+  );
+  assert.deepEqual(CHANGESET_SCHEMA, published);
+});
+
+test('schema checks report every failing path', () => {
+  assert.deepEqual(
+    validateChangeSet({
+      schemaVersion: '0.1',
+      id: 'cs_short',
+      createdAt: 'yesterday',
+      provider: { mode: 'cloud', name: 'fake', model: 'fake-1', apiKey: 'secret' },
+      input: { noteIds: [] },
+      summary: 'Tidy up',
+      changes: { adds: [{ id: 'add-1' }], edits: [], links: [], merges: [], conflicts: [] },
+    }),
+    [
+      { path: 'createdAt', message: 'must be an ISO 8601 date-time' },
+      { path: 'provider.mode', message: 'must be one of online, local' },
+      { path: 'provider.apiKey', message: 'is not allowed' },
+      { path: 'input.noteIds', message: 'must have at least 1 item' },
+      { path: 'changes.adds[0].kind', message: 'is required' },
+      { path: 'changes.adds[0].title', message: 'is required' },
+      { path: 'changes.adds[0].content', message: 'is required' },
+      { path: 'changes.adds[0].evidence', message: 'is required' },
+      { path: 'changes.adds[0].confidence', message: 'is required' },
+    ],
+  );
+
+  const issues = validateJson({ type: 'object', additionalProperties: { type: 'string' } }, { 'add-1': 2 }, 'atomIds');
+  assert.deepEqual(issues, [{ path: 'atomIds["add-1"]', message: 'must be a string' }]);
+  assert.equal(
+    formatValidationIssues('thing', Array.from({ length: 7 }, (_value, index) => ({ path: `items[${index}]`, message: 'is bad' }))),
+    'Invalid thing: items[0] is bad; items[1] is bad; items[2] is bad; items[3] is bad; items[4] is bad (and 2 more)',
+  );
+});
+
+test('event payloads are checked per type', () => {
+  assert.equal(migrateEvent(rawEvent()).eventId, 'evt_00000001');
+  assert.throws(
+    () => migrateEvent(rawEvent({ payload: { atomId: 'atom-1', body: 42 } })),
+    /^Error: Invalid event payload for capture\.text\.create: payload\.body must be a string$/,
+  );
+  assert.throws(
+    () => migrateEvent(rawEvent({ type: 'blob.add', payload: { hash: 'abc', size: -1, contentType: 'audio/webm' } })),
+    /payload\.size must be at least 0/,
+  );
+  assert.throws(
+    () => migrateEvent(rawEvent({
+      type: 'changeset.suggest.create',
+      payload: { changesetId: 'cs_1', noteIds: ['atom-1'], changeset: { schemaVersion: '0.1' } },
+    })),
+    /payload\.changeset\.id is required/,
+  );
+
+  const resolve = { conflictId: 'conflict-1', atomId: 'atom-1', versionIds: ['ver-1', 'ver-2'] };
+  assert.equal(migrateEvent(rawEvent({ type: 'conflict.resolve', payload: { ...resolve, mergedBody: 'Both' } })).type, 'conflict.resolve');
+  for (const payload of [resolve, { ...resolve, winningVersionId: 'ver-1', mergedBody: 'Both' }]) {
+    assert.throws(
+      () => migrateEvent(rawEvent({ type: 'conflict.resolve', payload })),
+      /^Error: Invalid event payload for conflict\.resolve: payload must have exactly one of winningVersionId or mergedBody$/,
+    );
+  }
+});
+
+test('local appends are checked before they reach the log', async () => {
+  const storage = new InMemoryStorageAdapter({
+    workspaceId: 'workspace-1',
+    userId: 'user-1',
+    deviceId: 'device-a',
+    nextLocalSeq: 1,
+    lastPulledSeq: 0,
+    lastAppliedSeq: 0,
+    projectionDirty: false,
+  });
+  const engine = new SyncEngine({ storage, transport: createDisabledSyncTransport() });
+
+  await assert.rejects(
+    engine.appendLocalEvent({ type: 'link.create', payload: { linkId: 'link-1', sourceId: 'a', targetId: 'b', relation: 'likes' as 'supports' } }),
+    /payload\.relation must be one of supports/,
+  );
+  assert.deepEqual(await storage.listEvents(), []);
+});
+
+test('import bundles are checked for structure, versions and events', async () => {
+  const bundle = await validateImportBundle({ manifest: manifest(), events: [rawEvent()] });
+  assert.equal(bundle.events.length, 1);
+
+  await assert.rejects(validateImportBundle({ manifest: manifest({ schemaVersion: '0.3' as '0.2' }), events: [] }), /Unsupported export schema version 0\.3/);
+  await assert.rejects(
+    validateImportBundle({ manifest: { ...manifest(), counts: { atoms: 1 } }, events: {} }),
+    /^Error: Invalid import bundle: manifest\.counts\.events is required; manifest\.counts\.blobs is required; manifest\.counts\.conflicts is required; events must be an array$/,
+  );
+  await assert.rejects(
+    validateImportBundle({ manifest: manifest({ minSupportedEventSchemaVersion: CURRENT_EVENT_SCHEMA_VERSION + 1 }), events: [] }),
+    /Import not supported/,
+  );
+  await assert.rejects(
+    validateImportBundle({ manifest: manifest(), events: [rawEvent(), rawEvent({ payload: { atomId: 'atom-2' } })] }),
+    /^Error: Invalid import bundle: events\[1\]: Invalid event payload for capture\.text\.create: payload\.body is required$/,
+  );
+});
@@ -1,17 +1,48 @@
-import { createHash, createHmac, randomBytes } from 'node:crypto';
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
 import fs from 'node:fs';
 import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
 import path from 'node:path';
 import { DatabaseSync } from 'node:sqlite';
 import { URL } from 'node:url';
-import { migrateEvent, type Event } from '@seedworld/core';
+import {
+  applyUpdateToHeads,
+  buildProjection,
+  eventAtomId,
+  migrateEvent,
+  type Event,
+  type PushRejection,
+} from '@seedworld/core';
+
+type WorkspaceRole = 'owner' | 'editor' | 'viewer';
 
 interface AuthPayload {
   userId: string;
   workspaceId: string;
+  /** Session the token was issued for; `/auth/dev` tokens have none. */
+  sessionId?: string;
   exp: number;
 }
 
+/** A verified token together with the caller's role in its workspace. */
+interface AuthContext extends AuthPayload {
+  role: WorkspaceRole;
+}
+
+interface IssuedSession {
+  token: string;
+  expiresAtMs: number;
+  refreshToken: string;
+  refreshExpiresAtMs: number;
+}
+
+/** An open `/sync/stream` response and who it was opened for. */
+interface CursorStream {
+  res: ServerResponse;
+  userId: string;
+  sessionId?: string;
+  close: () => void;
+}
+
 interface ConflictRow {
   conflictId: string;
   atomId: string;
@@ -25,13 +56,37 @@ interface ConflictRow {
 const PORT = Number(process.env.PORT || 8787);
 const DEFAULT_HOST = process.env.NODE_ENV === 'production' ? '127.0.0.1' : '0.0.0.0';
 const HOST = process.env.HOST || DEFAULT_HOST;
-const SECRET = process.env.DEV_AUTH_SECRET || 'seedworld-dev-secret';
+const DEV_AUTH_ENABLED = ['1', 'true'].includes((process.env.SYNC_SERVER_DEV_AUTH || '').toLowerCase());
+// Only a dev server may sign tokens with a well-known secret.
+const SECRET = process.env.AUTH_SECRET
+  || (DEV_AUTH_ENABLED ? process.env.DEV_AUTH_SECRET || 'seedworld-dev-secret' : '');
+if (!SECRET) {
+  throw new Error('AUTH_SECRET is required (or set SYNC_SERVER_DEV_AUTH=1 for a local dev server)');
+}
+const ACCESS_TOKEN_TTL_MS = 1000 * 60 * 15;
+const REFRESH_TOKEN_TTL_MS = 1000 * 60 * 60 * 24 * 30;
+const DEV_TOKEN_TTL_MS = 1000 * 60 * 60 * 8;
+const PASSWORD_MIN_LENGTH = 8;
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const SCRYPT_KEY_LENGTH = 64;
+const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
 const DATA_DIR = path.resolve(process.env.SYNC_SERVER_DATA_DIR || path.join(process.cwd(), 'data'));
 const BLOBS_DIR = path.join(DATA_DIR, 'blobs');
 const DB_PATH = path.join(DATA_DIR, 'sync.db');
+const PULL_PAGE_LIMIT = 1000;
+const PUSH_BATCH_LIMIT = 1000;
+const STREAM_KEEPALIVE_MS = 25_000;
 
 fs.mkdirSync(BLOBS_DIR, { recursive: true });
 
+// Open /sync/stream responses per workspace, told about each new cursor after a push.
+const cursorStreams = new Map<string, Set<CursorStream>>();
+
+// Checked against when an email has no account, so that login takes as long as for a wrong password.
+const dummyPasswordHash = hashPassword(randomBytes(16).toString('base64url'));
+
 const db = new DatabaseSync(DB_PATH);
 
 db.exec(`
@@ -55,6 +110,7 @@ CREATE TABLE IF NOT EXISTS events (
   type TEXT NOT NULL,
   payload_json TEXT NOT NULL,
   local_seq INTEGER,
+  atom_id TEXT,
   PRIMARY KEY (workspace_id, seq),
   UNIQUE (workspace_id, event_id)
 );
@@ -91,8 +147,55 @@ CREATE TABLE IF NOT EXISTS conflicts (
   updated_at_ms INTEGER NOT NULL,
   PRIMARY KEY (workspace_id, conflict_id)
 );
+
+CREATE TABLE IF NOT EXISTS atom_heads (
+  workspace_id TEXT NOT NULL,
+  atom_id TEXT NOT NULL,
+  head_version_ids_json TEXT NOT NULL,
+  deleted INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (workspace_id, atom_id)
+);
+
+CREATE TABLE IF NOT EXISTS users (
+  user_id TEXT PRIMARY KEY,
+  email TEXT UNIQUE,
+  password_hash TEXT,
+  created_at_ms INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  workspace_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by TEXT NOT NULL,
+  created_at_ms INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  added_at_ms INTEGER NOT NULL,
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON workspace_members(user_id);
+
+CREATE TABLE IF NOT EXISTS sessions (
+  session_id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  workspace_id TEXT NOT NULL,
+  refresh_token_hash TEXT NOT NULL,
+  created_at_ms INTEGER NOT NULL,
+  expires_at_ms INTEGER NOT NULL,
+  revoked_at_ms INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
 `);
 
+migrateAtomIndex();
+migrateWorkspaceMembers();
+
 function nowMs(): number {
   return Date.now();
 }
@@ -105,6 +208,50 @@ function base64UrlDecode(value: string): string {
   return Buffer.from(value, 'base64url').toString('utf8');
 }
 
+function createId(prefix: string): string {
+  return `${prefix}_${randomBytes(8).toString('hex')}`;
+}
+
+function hashSecret(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function deriveKey(password: string, salt: Buffer, cost: number, blockSize: number, parallelization: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, { N: cost, r: blockSize, p: parallelization }, (error, key) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(key);
+    });
+  });
+}
+
+/** Stored as `scrypt$N$r$p$salt$key`, so the cost can be raised without breaking existing hashes. */
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION);
+  return ['scrypt', SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION, salt.toString('base64url'), key.toString('base64url')].join('$');
+}
+
+async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [scheme, cost, blockSize, parallelization, salt, key] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'base64url');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64url'), Number(cost), Number(blockSize), Number(parallelization));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
 function signToken(payload: AuthPayload): string {
   const encodedPayload = base64UrlEncode(JSON.stringify(payload));
   const signature = createHmac('sha256', SECRET).update(encodedPayload).digest('base64url');
@@ -119,7 +266,7 @@ function verifyToken(token: string): AuthPayload | null {
 
   const [payloadPart, signaturePart] = parts;
   const expectedSignature = createHmac('sha256', SECRET).update(payloadPart).digest('base64url');
-  if (signaturePart !== expectedSignature) {
+  if (!safeEqual(signaturePart, expectedSignature)) {
     return null;
   }
 
@@ -129,6 +276,10 @@ function verifyToken(token: string): AuthPayload | null {
       return null;
     }
 
+    if (parsed.sessionId !== undefined && typeof parsed.sessionId !== 'string') {
+      return null;
+    }
+
     if (parsed.exp < nowMs()) {
       return null;
     }
@@ -209,13 +360,308 @@ function getWorkspaceCursor(workspaceId: string): number {
   return row.cursor ?? 0;
 }
 
+function hasColumn(table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return columns.some((entry) => entry.name === column);
+}
+
+/**
+ * Databases from before events were indexed by atom get the column filled in
+ * and their atom heads rebuilt, since older servers did not keep them current.
+ */
+function migrateAtomIndex(): void {
+  if (!hasColumn('atom_heads', 'deleted')) {
+    db.exec(`ALTER TABLE atom_heads ADD COLUMN deleted INTEGER NOT NULL DEFAULT 0`);
+  }
+
+  if (!hasColumn('events', 'atom_id')) {
+    db.exec('BEGIN');
+    try {
+      db.exec(`ALTER TABLE events ADD COLUMN atom_id TEXT`);
+      const rows = db.prepare(`SELECT workspace_id, seq, type, payload_json FROM events`).all() as Array<{
+        workspace_id: string;
+        seq: number;
+        type: string;
+        payload_json: string;
+      }>;
+      const update = db.prepare(`UPDATE events SET atom_id = ? WHERE workspace_id = ? AND seq = ?`);
+      for (const row of rows) {
+        const atomId = eventAtomId({ type: row.type, payload: JSON.parse(row.payload_json) } as Event);
+        if (atomId !== undefined) {
+          update.run(atomId, row.workspace_id, row.seq);
+        }
+      }
+
+      db.exec(`DELETE FROM atom_heads`);
+      const atoms = db
+        .prepare(`SELECT DISTINCT workspace_id, atom_id FROM events WHERE atom_id IS NOT NULL`)
+        .all() as Array<{ workspace_id: string; atom_id: string }>;
+      for (const atom of atoms) {
+        reduceAtomHistory(atom.workspace_id, atom.atom_id);
+      }
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_events_workspace_atom ON events(workspace_id, atom_id, seq)`);
+}
+
+function getAtomHeads(workspaceId: string, atomId: string): { headVersionIds: string[]; deleted: boolean } | null {
+  const row = db
+    .prepare(`SELECT head_version_ids_json, deleted FROM atom_heads WHERE workspace_id = ? AND atom_id = ?`)
+    .get(workspaceId, atomId) as { head_version_ids_json: string; deleted: number } | undefined;
+  return row ? { headVersionIds: JSON.parse(row.head_version_ids_json) as string[], deleted: row.deleted === 1 } : null;
+}
+
+function saveAtomHeads(workspaceId: string, atomId: string, headVersionIds: string[], deleted: boolean): void {
+  db.prepare(
+    `INSERT INTO atom_heads(workspace_id, atom_id, head_version_ids_json, deleted)
+     VALUES (?, ?, ?, ?)
+     ON CONFLICT(workspace_id, atom_id)
+     DO UPDATE SET head_version_ids_json = excluded.head_version_ids_json, deleted = excluded.deleted`
+  ).run(workspaceId, atomId, JSON.stringify(headVersionIds), deleted ? 1 : 0);
+}
+
+/**
+ * Recompute an atom's heads and conflict from its canonical history with the
+ * same projection clients run, so edits they merge automatically never show
+ * up as open conflicts here. Only the atom's own events are read.
+ */
+function reduceAtomHistory(workspaceId: string, atomId: string): void {
+  const rows = db
+    .prepare(
+      `SELECT event_id, event_schema_version, payload_schema_version, type, created_at_ms, device_id, workspace_id, local_seq, seq, payload_json
+       FROM events
+       WHERE workspace_id = ? AND atom_id = ?
+       ORDER BY seq ASC`
+    )
+    .all(workspaceId, atomId) as Array<Parameters<typeof decodeEventRow>[0]>;
+
+  const events = rows.map((row) => ({ ...decodeEventRow(row), syncStatus: 'synced' as const }));
+  const projection = buildProjection(events);
+  const atom = projection.atoms.find((entry) => entry.atomId === atomId);
+  saveAtomHeads(workspaceId, atomId, atom?.headVersionIds ?? [], events.some((event) => event.type === 'atom.delete'));
+
+  const conflict = projection.conflicts.find((entry) => entry.atomId === atomId);
+  if (!conflict) {
+    return;
+  }
+
+  db.prepare(
+    `INSERT INTO conflicts(
+      workspace_id, conflict_id, atom_id, version_ids_json, reason, status, created_at_ms, updated_at_ms
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(workspace_id, conflict_id)
+    DO UPDATE SET
+      version_ids_json = excluded.version_ids_json,
+      status = excluded.status,
+      created_at_ms = excluded.created_at_ms,
+      updated_at_ms = excluded.updated_at_ms`
+  ).run(
+    workspaceId,
+    conflict.conflictId,
+    conflict.atomId,
+    JSON.stringify(conflict.versionIds),
+    conflict.reason,
+    conflict.status,
+    conflict.createdAtMs,
+    conflict.updatedAtMs,
+  );
+}
+
+/**
+ * Advance the stored heads of the event's atom in canonical order. Sequential
+ * edits only touch the heads row; concurrent edits and resolutions, which may
+ * merge or change a conflict, reduce the atom's history instead.
+ */
+function applyEventToAtomHeads(workspaceId: string, event: Event): void {
+  const atomId = eventAtomId(event);
+  if (atomId === undefined) {
+    return;
+  }
+  const current = getAtomHeads(workspaceId, atomId);
+
+  if (event.type === 'capture.text.create') {
+    if (!current) {
+      saveAtomHeads(workspaceId, atomId, [event.eventId], false);
+    }
+    return;
+  }
+
+  if (event.type === 'atom.delete') {
+    saveAtomHeads(workspaceId, atomId, current?.headVersionIds ?? [], true);
+    return;
+  }
+
+  if (event.type === 'atom.text.update') {
+    if (current?.deleted) {
+      return;
+    }
+    const baseVersionId = (event.payload as { baseVersionId?: string }).baseVersionId;
+    const heads = applyUpdateToHeads(current?.headVersionIds ?? [], event.eventId, baseVersionId);
+    if (heads.conflicted) {
+      reduceAtomHistory(workspaceId, atomId);
+    } else {
+      saveAtomHeads(workspaceId, atomId, heads.headVersionIds, false);
+    }
+    return;
+  }
+
+  if (event.type === 'conflict.resolve' && current && !current.deleted) {
+    reduceAtomHistory(workspaceId, atomId);
+  }
+}
+
+function workspaceRole(workspaceId: string, userId: string): WorkspaceRole | null {
+  const row = db
+    .prepare(`SELECT role FROM workspace_members WHERE workspace_id = ? AND user_id = ?`)
+    .get(workspaceId, userId) as { role: WorkspaceRole } | undefined;
+  return row?.role ?? null;
+}
+
+function canWrite(role: WorkspaceRole): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+function addWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): void {
+  db.prepare(
+    `INSERT INTO workspace_members(workspace_id, user_id, role, added_at_ms)
+     VALUES (?, ?, ?, ?)
+     ON CONFLICT(workspace_id, user_id) DO UPDATE SET role = excluded.role`
+  ).run(workspaceId, userId, role, nowMs());
+}
+
+function createWorkspace(name: string, ownerId: string, workspaceId = createId('ws')): string {
+  db.prepare(`INSERT INTO workspaces(workspace_id, name, created_by, created_at_ms) VALUES (?, ?, ?, ?)`)
+    .run(workspaceId, name, ownerId, nowMs());
+  addWorkspaceMember(workspaceId, ownerId, 'owner');
+  return workspaceId;
+}
+
+/**
+ * Workspaces synced before accounts existed have events but no members. The
+ * first user to push to one owns it and the others are editors, as if they
+ * had signed in through `/auth/dev` in that order.
+ */
+function migrateWorkspaceMembers(): void {
+  const workspaces = db
+    .prepare(`SELECT workspace_id FROM workspace_seq WHERE workspace_id NOT IN (SELECT workspace_id FROM workspaces)`)
+    .all() as Array<{ workspace_id: string }>;
+
+  for (const { workspace_id: workspaceId } of workspaces) {
+    const users = db
+      .prepare(
+        `SELECT user_id, MIN(created_at_ms) AS first_at_ms FROM events
+         WHERE workspace_id = ?
+         GROUP BY user_id
+         ORDER BY MIN(seq) ASC`
+      )
+      .all(workspaceId) as Array<{ user_id: string; first_at_ms: number }>;
+    if (users.length === 0) {
+      continue;
+    }
+
+    db.exec('BEGIN');
+    try {
+      for (const user of users) {
+        db.prepare(`INSERT INTO users(user_id, created_at_ms) VALUES (?, ?) ON CONFLICT(user_id) DO NOTHING`)
+          .run(user.user_id, user.first_at_ms);
+      }
+      const [owner, ...editors] = users;
+      createWorkspace(workspaceId, owner.user_id, workspaceId);
+      for (const editor of editors) {
+        addWorkspaceMember(workspaceId, editor.user_id, 'editor');
+      }
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+    console.log(`[sync-server] Workspace ${workspaceId}: ${users[0].user_id} is owner, ${users.length - 1} editor(s)`);
+  }
+}
+
+function isSessionActive(sessionId: string): boolean {
+  const row = db
+    .prepare(`SELECT 1 FROM sessions WHERE session_id = ? AND revoked_at_ms IS NULL AND expires_at_ms > ?`)
+    .get(sessionId, nowMs());
+  return Boolean(row);
+}
+
+/** Revokes the matching sessions and ends the streams opened with them. */
+function revokeSessions(where: string, ...params: string[]): void {
+  const revoked = db
+    .prepare(`UPDATE sessions SET revoked_at_ms = ? WHERE revoked_at_ms IS NULL AND ${where} RETURNING session_id`)
+    .all(nowMs(), ...params) as Array<{ session_id: string }>;
+  const sessionIds = new Set(revoked.map((row) => row.session_id));
+  closeCursorStreams((stream) => stream.sessionId !== undefined && sessionIds.has(stream.sessionId));
+}
+
+function signAccessToken(userId: string, workspaceId: string, sessionId: string): { token: string; expiresAtMs: number } {
+  const expiresAtMs = nowMs() + ACCESS_TOKEN_TTL_MS;
+  return { token: signToken({ userId, workspaceId, sessionId, exp: expiresAtMs }), expiresAtMs };
+}
+
+/**
+ * Refresh tokens are `<sessionId>.<secret>`; only a hash of the secret is
+ * stored, and it is replaced on every refresh.
+ */
+function createSession(userId: string, workspaceId: string): IssuedSession {
+  const now = nowMs();
+  db.prepare(`DELETE FROM sessions WHERE expires_at_ms < ?`).run(now);
+
+  const sessionId = createId('s');
+  const refreshSecret = randomBytes(32).toString('base64url');
+  const refreshExpiresAtMs = now + REFRESH_TOKEN_TTL_MS;
+  db.prepare(
+    `INSERT INTO sessions(session_id, user_id, workspace_id, refresh_token_hash, created_at_ms, expires_at_ms)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(sessionId, userId, workspaceId, hashSecret(refreshSecret), now, refreshExpiresAtMs);
+
+  return {
+    ...signAccessToken(userId, workspaceId, sessionId),
+    refreshToken: `${sessionId}.${refreshSecret}`,
+    refreshExpiresAtMs,
+  };
+}
+
+function parseRefreshToken(refreshToken: unknown): { sessionId: string; secret: string } | null {
+  if (typeof refreshToken !== 'string') {
+    return null;
+  }
+  const [sessionId, secret, ...rest] = refreshToken.split('.');
+  return sessionId && secret && rest.length === 0 ? { sessionId, secret } : null;
+}
+
+function normalizeEmail(email: unknown): string | null {
+  if (typeof email !== 'string') {
+    return null;
+  }
+  const normalized = email.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Tokens of revoked or expired sessions are refused even before they expire
+ * themselves. Dev tokens carry no session and only pass while dev auth is on.
+ */
 function requireAuth(req: IncomingMessage): AuthPayload | null {
   const authHeader = req.headers.authorization;
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return null;
   }
   const token = authHeader.slice('Bearer '.length).trim();
-  return verifyToken(token);
+  const payload = verifyToken(token);
+  if (!payload) {
+    return null;
+  }
+  if (!payload.sessionId) {
+    return DEV_AUTH_ENABLED ? payload : null;
+  }
+  return isSessionActive(payload.sessionId) ? payload : null;
 }
 
 function normalizeError(error: unknown): string {
@@ -250,6 +696,10 @@ function blobPathFor(hash: string, extHint?: string): string {
   return path.join(BLOBS_DIR, `${hash}${safeExt}`);
 }
 
+/**
+ * Signs in as any user without a password, for local development only. The
+ * first user to sign in to a workspace owns it, later ones join as editors.
+ */
 async function handleAuthDev(req: IncomingMessage, res: ServerResponse): Promise<void> {
   const body = (await readJsonBody(req)) as { userId?: string; workspaceId?: string };
   const userId = body.userId?.trim();
@@ -260,7 +710,15 @@ async function handleAuthDev(req: IncomingMessage, res: ServerResponse): Promise
     return;
   }
 
-  const expiresAtMs = nowMs() + 1000 * 60 * 60 * 8;
+  db.prepare(`INSERT INTO users(user_id, created_at_ms) VALUES (?, ?) ON CONFLICT(user_id) DO NOTHING`).run(userId, nowMs());
+  const workspace = db.prepare(`SELECT 1 FROM workspaces WHERE workspace_id = ?`).get(workspaceId);
+  if (!workspace) {
+    createWorkspace(workspaceId, userId, workspaceId);
+  } else if (!workspaceRole(workspaceId, userId)) {
+    addWorkspaceMember(workspaceId, userId, 'editor');
+  }
+
+  const expiresAtMs = nowMs() + DEV_TOKEN_TTL_MS;
   const token = signToken({
     userId,
     workspaceId,
@@ -275,7 +733,378 @@ async function handleAuthDev(req: IncomingMessage, res: ServerResponse): Promise
   });
 }
 
-async function handleSyncPush(req: IncomingMessage, res: ServerResponse, auth: AuthPayload): Promise<void> {
+async function handleAuthRegister(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = (await readJsonBody(req)) as { email?: unknown; password?: unknown; workspaceName?: unknown };
+  const email = normalizeEmail(body.email);
+  const password = body.password;
+
+  if (!email) {
+    sendError(req, res, 400, 'AUTH', 'A valid email is required', false);
+    return;
+  }
+
+  if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+    sendError(req, res, 400, 'AUTH', `Password must be at least ${PASSWORD_MIN_LENGTH} characters`, false);
+    return;
+  }
+
+  if (db.prepare(`SELECT 1 FROM users WHERE email = ?`).get(email)) {
+    sendError(req, res, 409, 'AUTH', 'An account with this email already exists', false);
+    return;
+  }
+
+  const passwordHash = await hashPassword(password);
+  const userId = createId('u');
+  const workspaceName = typeof body.workspaceName === 'string' && body.workspaceName.trim()
+    ? body.workspaceName.trim()
+    : 'Personal';
+
+  let workspaceId: string;
+  db.exec('BEGIN');
+  try {
+    db.prepare(`INSERT INTO users(user_id, email, password_hash, created_at_ms) VALUES (?, ?, ?, ?)`)
+      .run(userId, email, passwordHash, nowMs());
+    workspaceId = createWorkspace(workspaceName, userId);
+    db.exec('COMMIT');
+  } catch (error) {
+    db.exec('ROLLBACK');
+    throw error;
+  }
+
+  sendJson(req, res, 201, {
+    ...createSession(userId, workspaceId),
+    userId,
+    workspaceId,
+    role: 'owner',
+  });
+}
+
+/** Signs in to `workspaceId`, or to the first workspace the user joined. */
+async function handleAuthLogin(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = (await readJsonBody(req)) as { email?: unknown; password?: unknown; workspaceId?: unknown };
+  const email = normalizeEmail(body.email);
+  const user = email
+    ? db.prepare(`SELECT user_id, password_hash FROM users WHERE email = ?`).get(email) as
+      { user_id: string; password_hash: string | null } | undefined
+    : undefined;
+
+  const password = typeof body.password === 'string' ? body.password : '';
+  const passwordMatches = await verifyPassword(password, user?.password_hash ?? await dummyPasswordHash);
+  if (!user?.password_hash || typeof body.password !== 'string' || !passwordMatches) {
+    sendError(req, res, 401, 'AUTH', 'Invalid email or password', false);
+    return;
+  }
+
+  const membership = (typeof body.workspaceId === 'string'
+    ? db.prepare(`SELECT workspace_id, role FROM workspace_members WHERE user_id = ? AND workspace_id = ?`)
+      .get(user.user_id, body.workspaceId)
+    : db.prepare(`SELECT workspace_id, role FROM workspace_members WHERE user_id = ? ORDER BY added_at_ms ASC LIMIT 1`)
+      .get(user.user_id)) as { workspace_id: string; role: WorkspaceRole } | undefined;
+
+  if (!membership) {
+    sendError(req, res, 403, 'AUTH', 'Not a member of this workspace', false);
+    return;
+  }
+
+  sendJson(req, res, 200, {
+    ...createSession(user.user_id, membership.workspace_id),
+    userId: user.user_id,
+    workspaceId: membership.workspace_id,
+    role: membership.role,
+  });
+}
+
+/**
+ * Trades a refresh token for a new access token and a new refresh token.
+ * Presenting a refresh token that was already replaced means it leaked, so
+ * the whole session is revoked.
+ */
+async function handleAuthRefresh(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = (await readJsonBody(req)) as { refreshToken?: unknown };
+  const parsed = parseRefreshToken(body.refreshToken);
+  const session = parsed
+    ? db.prepare(
+      `SELECT user_id, workspace_id, refresh_token_hash, expires_at_ms, revoked_at_ms FROM sessions WHERE session_id = ?`
+    ).get(parsed.sessionId) as {
+      user_id: string;
+      workspace_id: string;
+      refresh_token_hash: string;
+      expires_at_ms: number;
+      revoked_at_ms: number | null;
+    } | undefined
+    : undefined;
+
+  if (!parsed || !session || session.revoked_at_ms !== null || session.expires_at_ms < nowMs()) {
+    sendError(req, res, 401, 'AUTH', 'Invalid or expired refresh token', false);
+    return;
+  }
+
+  if (!safeEqual(hashSecret(parsed.secret), session.refresh_token_hash)) {
+    revokeSessions('session_id = ?', parsed.sessionId);
+    sendError(req, res, 401, 'AUTH', 'Refresh token was already used; the session is revoked', false);
+    return;
+  }
+
+  const role = workspaceRole(session.workspace_id, session.user_id);
+  if (!role) {
+    revokeSessions('session_id = ?', parsed.sessionId);
+    sendError(req, res, 403, 'AUTH', 'Not a member of this workspace', false);
+    return;
+  }
+
+  const refreshSecret = randomBytes(32).toString('base64url');
+  db.prepare(`UPDATE sessions SET refresh_token_hash = ? WHERE session_id = ?`).run(hashSecret(refreshSecret), parsed.sessionId);
+
+  sendJson(req, res, 200, {
+    ...signAccessToken(session.user_id, session.workspace_id, parsed.sessionId),
+    refreshToken: `${parsed.sessionId}.${refreshSecret}`,
+    refreshExpiresAtMs: session.expires_at_ms,
+    userId: session.user_id,
+    workspaceId: session.workspace_id,
+    role,
+  });
+}
+
+/** Revokes the session of a refresh token, or every session of its user with `allSessions`. */
+async function handleAuthLogout(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = (await readJsonBody(req)) as { refreshToken?: unknown; allSessions?: unknown };
+  const parsed = parseRefreshToken(body.refreshToken);
+  const session = parsed
+    ? db.prepare(`SELECT user_id, refresh_token_hash FROM sessions WHERE session_id = ?`).get(parsed.sessionId) as
+      { user_id: string; refresh_token_hash: string } | undefined
+    : undefined;
+
+  if (!parsed || !session || !safeEqual(hashSecret(parsed.secret), session.refresh_token_hash)) {
+    sendError(req, res, 401, 'AUTH', 'Invalid refresh token', false);
+    return;
+  }
+
+  if (body.allSessions === true) {
+    revokeSessions('user_id = ?', session.user_id);
+  } else {
+    revokeSessions('session_id = ?', parsed.sessionId);
+  }
+
+  sendJson(req, res, 200, { revoked: true });
+}
+
+function handleWorkspaceList(req: IncomingMessage, res: ServerResponse, auth: AuthContext): void {
+  const rows = db
+    .prepare(
+      `SELECT w.workspace_id, w.name, m.role
+       FROM workspace_members m JOIN workspaces w ON w.workspace_id = m.workspace_id
+       WHERE m.user_id = ?
+       ORDER BY m.added_at_ms ASC`
+    )
+    .all(auth.userId) as Array<{ workspace_id: string; name: string; role: WorkspaceRole }>;
+
+  sendJson(req, res, 200, {
+    workspaces: rows.map((row) => ({ workspaceId: row.workspace_id, name: row.name, role: row.role })),
+  });
+}
+
+/** The new workspace is not the token's; sign in to it with `/auth/login`. */
+async function handleWorkspaceCreate(req: IncomingMessage, res: ServerResponse, auth: AuthContext): Promise<void> {
+  const body = (await readJsonBody(req)) as { name?: unknown };
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    sendError(req, res, 400, 'SERVER_ERROR', 'name is required', false);
+    return;
+  }
+
+  const workspaceId = createWorkspace(name, auth.userId);
+  sendJson(req, res, 201, { workspaceId, name, role: 'owner' });
+}
+
+function handleMemberList(req: IncomingMessage, res: ServerResponse, auth: AuthContext): void {
+  const rows = db
+    .prepare(
+      `SELECT m.user_id, u.email, m.role, m.added_at_ms
+       FROM workspace_members m LEFT JOIN users u ON u.user_id = m.user_id
+       WHERE m.workspace_id = ?
+       ORDER BY m.added_at_ms ASC`
+    )
+    .all(auth.workspaceId) as Array<{ user_id: string; email: string | null; role: WorkspaceRole; added_at_ms: number }>;
+
+  sendJson(req, res, 200, {
+    members: rows.map((row) => ({
+      userId: row.user_id,
+      email: row.email ?? undefined,
+      role: row.role,
+      addedAtMs: row.added_at_ms,
+    })),
+  });
+}
+
+function ownerCount(workspaceId: string): number {
+  const row = db
+    .prepare(`SELECT COUNT(*) AS count FROM workspace_members WHERE workspace_id = ? AND role = 'owner'`)
+    .get(workspaceId) as { count: number };
+  return row.count;
+}
+
+/** Adds a registered user by email, or changes the role of a member. Owners only. */
+async function handleMemberUpsert(req: IncomingMessage, res: ServerResponse, auth: AuthContext): Promise<void> {
+  if (auth.role !== 'owner') {
+    sendError(req, res, 403, 'AUTH', 'Only workspace owners can manage members', false);
+    return;
+  }
+
+  const body = (await readJsonBody(req)) as { email?: unknown; role?: unknown };
+  const email = normalizeEmail(body.email);
+  const role = body.role as WorkspaceRole;
+  if (!email || !WORKSPACE_ROLES.includes(role)) {
+    sendError(req, res, 400, 'SERVER_ERROR', `email and role (${WORKSPACE_ROLES.join('/')}) are required`, false);
+    return;
+  }
+
+  const user = db.prepare(`SELECT user_id FROM users WHERE email = ?`).get(email) as { user_id: string } | undefined;
+  if (!user) {
+    sendError(req, res, 404, 'SERVER_ERROR', `No account for ${email}`, false);
+    return;
+  }
+
+  if (workspaceRole(auth.workspaceId, user.user_id) === 'owner' && role !== 'owner' && ownerCount(auth.workspaceId) === 1) {
+    sendError(req, res, 409, 'SERVER_ERROR', 'A workspace needs at least one owner', false);
+    return;
+  }
+
+  addWorkspaceMember(auth.workspaceId, user.user_id, role);
+  sendJson(req, res, 200, { userId: user.user_id, email, role });
+}
+
+/** Removes a member and revokes their sessions for the workspace. Owners only. */
+async function handleMemberRemove(req: IncomingMessage, res: ServerResponse, auth: AuthContext): Promise<void> {
+  if (auth.role !== 'owner') {
+    sendError(req, res, 403, 'AUTH', 'Only workspace owners can manage members', false);
+    return;
+  }
+
+  const body = (await readJsonBody(req)) as { userId?: unknown };
+  const userId = typeof body.userId === 'string' ? body.userId : '';
+  const role = workspaceRole(auth.workspaceId, userId);
+  if (!role) {
+    sendError(req, res, 404, 'SERVER_ERROR', 'Not a member of this workspace', false);
+    return;
+  }
+
+  if (role === 'owner' && ownerCount(auth.workspaceId) === 1) {
+    sendError(req, res, 409, 'SERVER_ERROR', 'A workspace needs at least one owner', false);
+    return;
+  }
+
+  db.prepare(`DELETE FROM workspace_members WHERE workspace_id = ? AND user_id = ?`).run(auth.workspaceId, userId);
+  revokeSessions('workspace_id = ? AND user_id = ?', auth.workspaceId, userId);
+  // Dev tokens have no session to revoke, so their streams are ended by user.
+  closeCursorStreams((stream) => stream.userId === userId, auth.workspaceId);
+  sendJson(req, res, 200, { userId, removed: true });
+}
+
+function rawEventId(rawEvent: unknown): string {
+  const eventId = rawEvent && typeof rawEvent === 'object' ? (rawEvent as { eventId?: unknown }).eventId : undefined;
+  return typeof eventId === 'string' ? eventId : '';
+}
+
+function storePushedEvent(auth: AuthPayload, event: Event): number {
+  const seq = allocateSeq(auth.workspaceId);
+
+  db.prepare(
+    `INSERT INTO events (
+      workspace_id, seq, event_id, device_id, user_id, created_at_ms,
+      event_schema_version, payload_schema_version, type, payload_json, local_seq, atom_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    auth.workspaceId,
+    seq,
+    event.eventId,
+    event.deviceId,
+    auth.userId,
+    event.createdAtMs,
+    event.eventSchemaVersion,
+    event.payloadSchemaVersion ?? null,
+    event.type,
+    JSON.stringify(event.payload),
+    event.localSeq ?? null,
+    eventAtomId(event) ?? null,
+  );
+
+  applyEventToAtomHeads(auth.workspaceId, event);
+
+  return seq;
+}
+
+function writeCursorEvent(res: ServerResponse, cursor: number): void {
+  res.write(`id: ${cursor}\nevent: cursor\ndata: ${JSON.stringify({ cursor })}\n\n`);
+}
+
+function announceCursor(workspaceId: string, cursor: number): void {
+  for (const stream of cursorStreams.get(workspaceId) ?? []) {
+    writeCursorEvent(stream.res, cursor);
+  }
+}
+
+function closeCursorStreams(matches: (stream: CursorStream) => boolean, workspaceId?: string): void {
+  const workspaces = workspaceId === undefined ? Array.from(cursorStreams.values()) : [cursorStreams.get(workspaceId) ?? new Set()];
+  for (const streams of workspaces) {
+    for (const stream of Array.from(streams)) {
+      if (matches(stream)) {
+        stream.close();
+      }
+    }
+  }
+}
+
+function handleSyncStream(req: IncomingMessage, res: ServerResponse, auth: AuthContext, workspaceId: string | null): void {
+  if (workspaceId !== null && workspaceId !== auth.workspaceId) {
+    sendError(req, res, 403, 'AUTH', 'Token workspace mismatch', false);
+    return;
+  }
+
+  res.writeHead(200, withCorsHeaders(req, {
+    'content-type': 'text/event-stream; charset=utf-8',
+    'cache-control': 'no-cache, no-transform',
+    connection: 'keep-alive',
+    'x-accel-buffering': 'no',
+  }));
+  // Send the current cursor right away so clients can tell the stream is live.
+  writeCursorEvent(res, getWorkspaceCursor(auth.workspaceId));
+
+  let streams = cursorStreams.get(auth.workspaceId);
+  if (!streams) {
+    streams = new Set();
+    cursorStreams.set(auth.workspaceId, streams);
+  }
+
+  const keepalive = setInterval(() => {
+    res.write(': keepalive\n\n');
+  }, STREAM_KEEPALIVE_MS);
+
+  const forget = () => {
+    clearInterval(keepalive);
+    streams.delete(stream);
+    if (streams.size === 0 && cursorStreams.get(auth.workspaceId) === streams) {
+      cursorStreams.delete(auth.workspaceId);
+    }
+  };
+  const stream: CursorStream = {
+    res,
+    userId: auth.userId,
+    sessionId: auth.sessionId,
+    close: () => {
+      forget();
+      res.end();
+    },
+  };
+  streams.add(stream);
+  req.on('close', forget);
+}
+
+async function handleSyncPush(req: IncomingMessage, res: ServerResponse, auth: AuthContext): Promise<void> {
+  if (!canWrite(auth.role)) {
+    sendError(req, res, 403, 'AUTH', 'Viewers cannot push events', false);
+    return;
+  }
+
   const body = (await readJsonBody(req)) as {
     workspaceId: string;
     userId: string;
@@ -294,16 +1123,32 @@ async function handleSyncPush(req: IncomingMessage, res: ServerResponse, auth: A
     return;
   }
 
+  if (body.events.length > PUSH_BATCH_LIMIT) {
+    sendError(req, res, 413, 'SERVER_ERROR', `Push at most ${PUSH_BATCH_LIMIT} events per request`, false);
+    return;
+  }
+
   const accepted: Array<{ eventId: string; serverSeq: number }> = [];
+  const rejected: PushRejection[] = [];
   const missingBlobHashes = new Set<string>();
+  let storedNewEvents = false;
 
+  // Each event is validated and stored on its own so one bad event is reported
+  // back instead of rolling back the whole batch.
   db.exec('BEGIN');
   try {
     for (const rawEvent of body.events) {
-      const event = migrateEvent(rawEvent);
+      let event: Event;
+      try {
+        event = migrateEvent(rawEvent);
+      } catch (error) {
+        rejected.push({ eventId: rawEventId(rawEvent), code: 'INVALID_EVENT', message: normalizeError(error) });
+        continue;
+      }
 
       if (event.workspaceId !== auth.workspaceId) {
-        throw new Error(`Event workspace mismatch for ${event.eventId}`);
+        rejected.push({ eventId: event.eventId, code: 'AUTH', message: `Event workspace mismatch for ${event.eventId}` });
+        continue;
       }
 
       const existing = db
@@ -315,28 +1160,20 @@ async function handleSyncPush(req: IncomingMessage, res: ServerResponse, auth: A
         continue;
       }
 
-      const seq = allocateSeq(auth.workspaceId);
-
-      db.prepare(
-        `INSERT INTO events (
-          workspace_id, seq, event_id, device_id, user_id, created_at_ms,
-          event_schema_version, payload_schema_version, type, payload_json, local_seq
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-      ).run(
-        auth.workspaceId,
-        seq,
-        event.eventId,
-        event.deviceId,
-        auth.userId,
-        event.createdAtMs,
-        event.eventSchemaVersion,
-        event.payloadSchemaVersion ?? null,
-        event.type,
-        JSON.stringify(event.payload),
-        event.localSeq ?? null,
-      );
+      db.exec('SAVEPOINT push_event');
+      let seq: number;
+      try {
+        seq = storePushedEvent(auth, event);
+        db.exec('RELEASE push_event');
+      } catch (error) {
+        db.exec('ROLLBACK TO push_event');
+        db.exec('RELEASE push_event');
+        rejected.push({ eventId: event.eventId, code: 'SERVER_ERROR', message: normalizeError(error) });
+        continue;
+      }
 
       accepted.push({ eventId: event.eventId, serverSeq: seq });
+      storedNewEvents = true;
 
       if (event.type === 'blob.add') {
         const hash = (event.payload as { hash?: string }).hash;
@@ -366,11 +1203,17 @@ async function handleSyncPush(req: IncomingMessage, res: ServerResponse, auth: A
     throw error;
   }
 
+  const cursor = getWorkspaceCursor(auth.workspaceId);
   sendJson(req, res, 200, {
     accepted,
-    cursor: getWorkspaceCursor(auth.workspaceId),
+    rejected,
+    cursor,
     missingBlobHashes: Array.from(missingBlobHashes),
   });
+
+  if (storedNewEvents) {
+    announceCursor(auth.workspaceId, cursor);
+  }
 }
 
 function decodeEventRow(row: {
@@ -399,9 +1242,12 @@ function decodeEventRow(row: {
   };
 }
 
-async function handleSyncPull(req: IncomingMessage, res: ServerResponse, auth: AuthPayload): Promise<void> {
+/** Any member may pull, viewers included; membership is checked by the router. */
+async function handleSyncPull(req: IncomingMessage, res: ServerResponse, auth: AuthContext): Promise<void> {
   const requestUrl = new URL(req.url || '/', `http://${HOST}:${PORT}`);
   const cursor = Math.max(0, Math.trunc(Number(requestUrl.searchParams.get('cursor') || '0')));
+  const requestedLimit = Math.trunc(Number(requestUrl.searchParams.get('limit') || PULL_PAGE_LIMIT));
+  const limit = Number.isFinite(requestedLimit) ? Math.min(Math.max(requestedLimit, 1), PULL_PAGE_LIMIT) : PULL_PAGE_LIMIT;
 
   const rows = db
     .prepare(
@@ -409,9 +1255,9 @@ async function handleSyncPull(req: IncomingMessage, res: ServerResponse, auth: A
        FROM events
        WHERE workspace_id = ? AND seq > ?
        ORDER BY seq ASC
-       LIMIT 1000`
+       LIMIT ?`
     )
-    .all(auth.workspaceId, cursor) as Array<{
+    .all(auth.workspaceId, cursor, limit + 1) as Array<{
       event_id: string;
       event_schema_version: number;
       payload_schema_version: number | null;
@@ -424,7 +1270,9 @@ async function handleSyncPull(req: IncomingMessage, res: ServerResponse, auth: A
       payload_json: string;
     }>;
 
-  const events = rows.map(decodeEventRow);
+  // One extra row tells us whether another page follows without a COUNT query.
+  const hasMore = rows.length > limit;
+  const events = rows.slice(0, limit).map(decodeEventRow);
 
   const conflictRows = db
     .prepare(
@@ -458,10 +1306,16 @@ async function handleSyncPull(req: IncomingMessage, res: ServerResponse, auth: A
     events,
     cursor: newCursor,
     conflicts,
+    hasMore,
   });
 }
 
-async function handleBlobUpload(req: IncomingMessage, res: ServerResponse, auth: AuthPayload): Promise<void> {
+async function handleBlobUpload(req: IncomingMessage, res: ServerResponse, auth: AuthContext): Promise<void> {
+  if (!canWrite(auth.role)) {
+    sendError(req, res, 403, 'AUTH', 'Viewers cannot upload blobs', false);
+    return;
+  }
+
   const requestUrl = new URL(req.url || '/', `http://${HOST}:${PORT}`);
   const hash = requestUrl.searchParams.get('hash')?.toLowerCase();
   const contentType = requestUrl.searchParams.get('contentType') || 'application/octet-stream';
@@ -525,7 +1379,7 @@ async function handleBlobUpload(req: IncomingMessage, res: ServerResponse, auth:
   });
 }
 
-async function handleBlobFetch(req: IncomingMessage, res: ServerResponse, auth: AuthPayload, hash: string): Promise<void> {
+async function handleBlobFetch(req: IncomingMessage, res: ServerResponse, auth: AuthContext, hash: string): Promise<void> {
   const row = db
     .prepare(`SELECT path, size, content_type FROM blobs WHERE workspace_id = ? AND hash = ?`)
     .get(auth.workspaceId, hash) as { path: string; size: number; content_type: string } | undefined;
@@ -591,21 +1445,82 @@ const server = createServer(async (req, res) => {
     const requestUrl = new URL(req.url, `http://${HOST}:${PORT}`);
 
     if (req.method === 'POST' && requestUrl.pathname === '/auth/dev') {
+      if (!DEV_AUTH_ENABLED) {
+        sendError(req, res, 404, 'AUTH', 'Dev sign-in is disabled; start the server with SYNC_SERVER_DEV_AUTH=1', false);
+        return;
+      }
       await handleAuthDev(req, res);
       return;
     }
 
-    const auth = requireAuth(req);
-    if (!auth) {
+    if (req.method === 'POST' && requestUrl.pathname === '/auth/register') {
+      await handleAuthRegister(req, res);
+      return;
+    }
+
+    if (req.method === 'POST' && requestUrl.pathname === '/auth/login') {
+      await handleAuthLogin(req, res);
+      return;
+    }
+
+    if (req.method === 'POST' && requestUrl.pathname === '/auth/refresh') {
+      await handleAuthRefresh(req, res);
+      return;
+    }
+
+    if (req.method === 'POST' && requestUrl.pathname === '/auth/logout') {
+      await handleAuthLogout(req, res);
+      return;
+    }
+
+    const payload = requireAuth(req);
+    if (!payload) {
       sendError(req, res, 401, 'AUTH', 'Missing or invalid token', true);
       return;
     }
 
+    const role = workspaceRole(payload.workspaceId, payload.userId);
+    if (!role) {
+      sendError(req, res, 403, 'AUTH', 'Not a member of this workspace', false);
+      return;
+    }
+    const auth: AuthContext = { ...payload, role };
+
+    if (req.method === 'GET' && requestUrl.pathname === '/workspaces') {
+      handleWorkspaceList(req, res, auth);
+      return;
+    }
+
+    if (req.method === 'POST' && requestUrl.pathname === '/workspaces') {
+      await handleWorkspaceCreate(req, res, auth);
+      return;
+    }
+
+    if (req.method === 'GET' && requestUrl.pathname === '/workspaces/members') {
+      handleMemberList(req, res, auth);
+      return;
+    }
+
+    if (req.method === 'POST' && requestUrl.pathname === '/workspaces/members') {
+      await handleMemberUpsert(req, res, auth);
+      return;
+    }
+
+    if (req.method === 'POST' && requestUrl.pathname === '/workspaces/members/remove') {
+      await handleMemberRemove(req, res, auth);
+      return;
+    }
+
     if (req.method === 'POST' && requestUrl.pathname === '/sync/push') {
       await handleSyncPush(req, res, auth);
       return;
     }
 
+    if (req.method === 'GET' && requestUrl.pathname === '/sync/stream') {
+      handleSyncStream(req, res, auth, requestUrl.searchParams.get('workspaceId'));
+      return;
+    }
+
     if (req.method === 'GET' && requestUrl.pathname === '/sync/pull') {
       await handleSyncPull(req, res, auth);
       return;
@@ -634,4 +1549,10 @@ server.listen(PORT, HOST, () => {
     console.log('[sync-server] Dev default HOST=0.0.0.0 (set HOST to override, e.g. HOST=127.0.0.1)');
   }
   console.log(`[sync-server] Data directory: ${DATA_DIR}`);
+  if (DEV_AUTH_ENABLED) {
+    console.warn('[sync-server] /auth/dev is enabled: anyone can sign in as any user (unset SYNC_SERVER_DEV_AUTH to disable)');
+  }
+  if (!process.env.AUTH_SECRET) {
+    console.warn('[sync-server] AUTH_SECRET is not set; tokens are signed with the dev secret');
+  }
 });
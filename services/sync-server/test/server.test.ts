@@ -0,0 +1,264 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import { createServer, type AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { createEvent, type Event } from '@seedworld/core';
+
+interface Session {
+  token: string;
+  refreshToken: string;
+  userId: string;
+  workspaceId: string;
+  role: string;
+}
+
+interface RunningServer {
+  url: string;
+  stop: () => Promise<void>;
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/** Runs the server in its own process, as the data directory and env are read at startup. */
+async function startServer(dataDir: string, env: Record<string, string> = {}): Promise<RunningServer> {
+  const port = await freePort();
+  const child = spawn(process.execPath, ['--import', 'tsx', path.join(__dirname, '../src/server.ts')], {
+    cwd: path.join(__dirname, '..'),
+    env: { ...process.env, AUTH_SECRET: 'test-secret', ...env, HOST: '127.0.0.1', PORT: String(port), SYNC_SERVER_DATA_DIR: dataDir },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+
+  await new Promise<void>((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => reject(new Error(`Server did not start:\n${output}`)), 20_000);
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes('Listening on')) {
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    child.stdout.on('data', onData);
+    child.stderr.on('data', onData);
+    child.once('exit', () => {
+      clearTimeout(timer);
+      reject(new Error(`Server exited:\n${output}`));
+    });
+  });
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    stop: async () => {
+      child.kill();
+      await exited;
+    },
+  };
+}
+
+async function withServer(run: (server: RunningServer, dataDir: string) => Promise<void>, env?: Record<string, string>): Promise<void> {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedworld-server-'));
+  const server = await startServer(dataDir, env);
+  try {
+    await run(server, dataDir);
+  } finally {
+    await server.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+async function post<T = Session>(server: RunningServer, route: string, body: unknown, token?: string): Promise<{ status: number; body: T }> {
+  const response = await fetch(`${server.url}${route}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...(token ? { authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: (await response.json()) as T };
+}
+
+async function get<T = unknown>(server: RunningServer, route: string, token: string): Promise<{ status: number; body: T }> {
+  const response = await fetch(`${server.url}${route}`, { headers: { authorization: `Bearer ${token}` } });
+  return { status: response.status, body: (await response.json()) as T };
+}
+
+async function register(server: RunningServer, email: string): Promise<Session> {
+  const { status, body } = await post(server, '/auth/register', { email, password: 'correct horse' });
+  assert.equal(status, 201);
+  return body;
+}
+
+function push(server: RunningServer, session: Pick<Session, 'token' | 'userId' | 'workspaceId'>, atomId: string) {
+  const event = createEvent({
+    draft: { type: 'capture.text.create', payload: { atomId, body: atomId } },
+    deviceId: 'device-a',
+    workspaceId: session.workspaceId,
+    localSeq: 1,
+  });
+  return post(server, '/sync/push', {
+    workspaceId: session.workspaceId,
+    userId: session.userId,
+    deviceId: 'device-a',
+    clientCursor: 0,
+    events: [event],
+  }, session.token);
+}
+
+async function uploadBlob(server: RunningServer, token: string, bytes: Buffer): Promise<number> {
+  const hash = createHash('sha256').update(bytes).digest('hex');
+  const response = await fetch(`${server.url}/blobs/upload?hash=${hash}&contentType=text/plain`, {
+    method: 'POST',
+    headers: { authorization: `Bearer ${token}`, 'content-type': 'application/octet-stream' },
+    body: bytes,
+  });
+  await response.text();
+  return response.status;
+}
+
+test('passwords are stored as salted scrypt hashes and checked on login', async () => {
+  await withServer(async (server, dataDir) => {
+    await register(server, 'Ada@Example.com');
+    assert.equal((await post(server, '/auth/register', { email: 'ada@example.com', password: 'another one' })).status, 409);
+    await register(server, 'bob@example.com');
+
+    const db = new DatabaseSync(path.join(dataDir, 'sync.db'));
+    const hashes = (db.prepare(`SELECT password_hash FROM users ORDER BY email`).all() as Array<{ password_hash: string }>)
+      .map((row) => row.password_hash);
+    db.close();
+    for (const hash of hashes) {
+      assert.match(hash, /^scrypt\$16384\$8\$1\$[\w-]+\$[\w-]+$/);
+    }
+    assert.notEqual(hashes[0], hashes[1], 'the same password hashes differently per user');
+
+    assert.equal((await post(server, '/auth/login', { email: 'ada@example.com', password: 'wrong horse' })).status, 401);
+    const login = await post(server, '/auth/login', { email: ' ADA@example.com', password: 'correct horse' });
+    assert.equal(login.status, 200);
+    assert.equal(login.body.role, 'owner');
+    assert.equal((await get(server, '/workspaces', login.body.token)).status, 200);
+  });
+});
+
+test('refresh tokens rotate and reusing a replaced one revokes the session', async () => {
+  await withServer(async (server) => {
+    const session = await register(server, 'ada@example.com');
+
+    const first = await post(server, '/auth/refresh', { refreshToken: session.refreshToken });
+    assert.equal(first.status, 200);
+    assert.notEqual(first.body.refreshToken, session.refreshToken);
+    assert.equal((await get(server, '/workspaces', first.body.token)).status, 200);
+
+    const second = await post(server, '/auth/refresh', { refreshToken: first.body.refreshToken });
+    assert.equal(second.status, 200);
+
+    // The first refresh token was replaced, so presenting it again means it leaked.
+    const reused = await post(server, '/auth/refresh', { refreshToken: first.body.refreshToken });
+    assert.equal(reused.status, 401);
+    assert.equal((await post(server, '/auth/refresh', { refreshToken: second.body.refreshToken })).status, 401);
+    assert.equal((await get(server, '/workspaces', second.body.token)).status, 401);
+  });
+});
+
+test('viewers can pull but not push or upload blobs', async () => {
+  await withServer(async (server) => {
+    const owner = await register(server, 'owner@example.com');
+    await register(server, 'viewer@example.com');
+    assert.equal((await post(server, '/workspaces/members', { email: 'viewer@example.com', role: 'viewer' }, owner.token)).status, 200);
+
+    const login = await post(server, '/auth/login', {
+      email: 'viewer@example.com',
+      password: 'correct horse',
+      workspaceId: owner.workspaceId,
+    });
+    assert.equal(login.body.role, 'viewer');
+    const viewer = login.body;
+
+    assert.equal((await push(server, owner, 'atom-1')).status, 200);
+    assert.equal((await push(server, viewer, 'atom-2')).status, 403);
+    assert.equal(await uploadBlob(server, viewer.token, Buffer.from('seed')), 403);
+    assert.equal(await uploadBlob(server, owner.token, Buffer.from('seed')), 200);
+
+    const pulled = await get<{ events: Event[] }>(server, '/sync/pull?cursor=0', viewer.token);
+    assert.equal(pulled.status, 200);
+    assert.deepEqual(pulled.body.events.map((event) => (event.payload as { atomId: string }).atomId), ['atom-1']);
+
+    // Only owners manage members.
+    assert.equal((await post(server, '/workspaces/members', { email: 'viewer@example.com', role: 'owner' }, viewer.token)).status, 403);
+  });
+});
+
+test('removing a member revokes their sessions and ends their sync streams', async () => {
+  await withServer(async (server) => {
+    const owner = await register(server, 'owner@example.com');
+    const editor = await register(server, 'editor@example.com');
+    await post(server, '/workspaces/members', { email: 'editor@example.com', role: 'editor' }, owner.token);
+    const login = await post(server, '/auth/login', {
+      email: 'editor@example.com',
+      password: 'correct horse',
+      workspaceId: owner.workspaceId,
+    });
+    assert.equal((await push(server, login.body, 'atom-1')).status, 200);
+
+    const stream = await fetch(`${server.url}/sync/stream`, { headers: { authorization: `Bearer ${login.body.token}` } });
+    const reader = stream.body!.getReader();
+    assert.match(new TextDecoder().decode((await reader.read()).value), /event: cursor/);
+
+    assert.equal((await post(server, '/workspaces/members/remove', { userId: owner.userId }, login.body.token)).status, 403);
+    assert.equal((await post(server, '/workspaces/members/remove', { userId: editor.userId }, owner.token)).status, 200);
+
+    assert.equal((await reader.read()).done, true);
+    assert.equal((await push(server, login.body, 'atom-2')).status, 401);
+    assert.equal((await post(server, '/auth/refresh', { refreshToken: login.body.refreshToken })).status, 401);
+    // Their own workspace is untouched.
+    assert.equal((await get(server, '/workspaces', editor.token)).status, 200);
+  });
+});
+
+test('workspaces synced before accounts get their first user as owner', async () => {
+  await withServer(async (server, dataDir) => {
+    for (const userId of ['user-a', 'user-b']) {
+      const { body } = await post(server, '/auth/dev', { userId, workspaceId: 'workspace-1' });
+      assert.equal((await push(server, { ...body, userId }, `atom-${userId}`)).status, 200);
+    }
+    await server.stop();
+
+    const db = new DatabaseSync(path.join(dataDir, 'sync.db'));
+    db.exec(`DELETE FROM workspace_members; DELETE FROM workspaces; DELETE FROM users;`);
+    db.close();
+
+    const upgraded = await startServer(dataDir);
+    try {
+      const migrated = new DatabaseSync(path.join(dataDir, 'sync.db'));
+      const members = migrated.prepare(`SELECT user_id, role FROM workspace_members WHERE workspace_id = ? ORDER BY user_id`)
+        .all('workspace-1');
+      migrated.close();
+      assert.deepEqual(members.map((row) => ({ ...row })), [
+        { user_id: 'user-a', role: 'owner' },
+        { user_id: 'user-b', role: 'editor' },
+      ]);
+    } finally {
+      await upgraded.stop();
+    }
+  }, { SYNC_SERVER_DEV_AUTH: '1' });
+});
+
+test('the server refuses to start without AUTH_SECRET unless dev auth is on', async () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'seedworld-server-'));
+  try {
+    await assert.rejects(startServer(dataDir, { AUTH_SECRET: '' }), /AUTH_SECRET is required/);
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+});